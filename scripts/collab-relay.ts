@@ -0,0 +1,26 @@
+/**
+ * Collaboration relay entry point - `npm run collab-relay`
+ * Listens on COLLAB_PORT (4001 by default); point the editor at it with NEXT_PUBLIC_COLLAB_URL.
+ */
+
+import dotenv from "dotenv";
+import { DEFAULT_COLLAB_PORT, startCollabRelay } from "@/lib/collab/relay";
+
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const relay = await startCollabRelay(Number(process.env.COLLAB_PORT) || DEFAULT_COLLAB_PORT);
+  console.log(`Collaboration relay listening on ws://localhost:${relay.port}`);
+
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.once(signal, async () => {
+      await relay.close();
+      process.exit(0);
+    });
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,28 @@
+/**
+ * Render worker entry point - `npm run render-worker`
+ * Loads .env.local like prisma.config.ts does, then works through the render queue until interrupted.
+ */
+
+import dotenv from "dotenv";
+
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const controller = new AbortController();
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.once(signal, () => {
+      console.log(`${signal} received, stopping after the current job`);
+      controller.abort();
+    });
+  }
+
+  // Imported once the environment is loaded - the database client reads DATABASE_URL when it is created
+  const { runRenderWorker } = await import("@/lib/render/worker");
+  await runRenderWorker(controller.signal);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
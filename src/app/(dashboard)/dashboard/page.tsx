@@ -1,8 +1,12 @@
 import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
-import { getUserProjects } from "@/lib/data/projects";
+import { getSharedProjects, getUserProjects } from "@/lib/data/projects";
+import { getPendingInvites } from "@/lib/data/members";
+import { getUserWorkspaces } from "@/lib/data/workspaces";
 import { UserButton } from "@/components/auth/user-button";
 import { ProjectGrid } from "@/components/dashboard/project-grid";
+import { PendingInvites } from "@/components/dashboard/pending-invites";
+import { WorkspaceList } from "@/components/dashboard/workspace-list";
 import { NewProjectButton } from "@/components/dashboard/new-project-button";
 import { SampleProjectList } from "@/components/dashboard/sample-project-list";
 
@@ -15,7 +19,12 @@ export default async function DashboardPage() {
         redirect("/login");
     }
 
-    const projects = await getUserProjects();
+    const [projects, sharedProjects, invites, workspaces] = await Promise.all([
+        getUserProjects(),
+        getSharedProjects(),
+        getPendingInvites(),
+        getUserWorkspaces(),
+    ]);
 
     return (
         <div className="min-h-screen bg-slate-900">
@@ -51,12 +60,26 @@ export default async function DashboardPage() {
                     <SampleProjectList />
                 </div> */}
 
+                <PendingInvites invites={invites} />
+
+                <WorkspaceList workspaces={workspaces} />
+
                 <div className="mb-6 flex items-center justify-between">
-                    <h3 className="text-lg font-semibold text-white">Your Projects</h3>
+                    <h3 className="text-lg font-semibold text-white">📁 My Projects</h3>
                 </div>
 
                 <ProjectGrid projects={projects} />
 
+                <div className="mt-12 mb-6 flex items-center justify-between">
+                    <h3 className="text-lg font-semibold text-white">🤝 Shared with me</h3>
+                </div>
+
+                <ProjectGrid
+                    projects={sharedProjects}
+                    emptyTitle="Nothing shared yet"
+                    emptyMessage="Projects people share with you, and projects in your workspaces, show up here"
+                />
+
                 {/* <div className="mt-12 pt-8 border-t border-white/5">
                     <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-4">Quick Stats</h3>
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -1,8 +1,9 @@
 import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import Link from "next/link";
-import { getProjectById } from "@/lib/data/projects";
+import { authorizeProject, getProjectById } from "@/lib/data/projects";
 import { EditorClient } from "@/components/editor/EditorClient";
+import { toTimelineProject } from "@/lib/core/timeline/project";
 
 export const runtime = "nodejs";
 
@@ -15,9 +16,10 @@ export default async function EditorPage({ params }: EditorPageProps) {
     if (!session?.user) redirect("/login");
 
     const { projectId } = await params;
-    const project = await getProjectById(projectId);
+    const access = await authorizeProject(projectId, "VIEWER");
+    const project = access && (await getProjectById(projectId));
 
-    if (!project) {
+    if (!access || !project) {
         return (
             <div className="min-h-screen flex flex-col items-center justify-center bg-slate-900 text-white">
                 <h1 className="text-2xl font-bold mb-4">Project Not Found</h1>
@@ -28,25 +30,8 @@ export default async function EditorPage({ params }: EditorPageProps) {
         );
     }
 
-    // Convert database VideoProject to editor VideoProject format
     // DB uses 'timeline' array, editor uses 'events' array
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const editorProject: any = {
-        id: project.id,
-        name: project.name,
-        description: project.description || undefined,
-        width: project.width,
-        height: project.height,
-        fps: project.fps,
-        duration: project.duration,
-        backgroundColor: "#000000",
-        events: project.timeline.map((event, index) => ({
-            ...event,
-            layer: index,
-            properties: event.properties,
-            animations: event.animations || [],
-        })),
-    };
+    const editorProject = { ...toTimelineProject(project), revision: project.revision, role: access.role };
 
     return <EditorClient project={editorProject} />;
 }
@@ -0,0 +1,42 @@
+import { Readable } from "node:stream";
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getExportFile } from "@/lib/data/exports";
+import { attachmentDisposition } from "@/lib/types/export";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/exports/:id/download - Download a previous export
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const file = await getExportFile(id);
+
+    if (!file) {
+      return NextResponse.json({ error: "Export not found" }, { status: 404 });
+    }
+
+    return new NextResponse(Readable.toWeb(file.body) as ReadableStream<Uint8Array>, {
+      headers: {
+        "Content-Type": file.mimeType,
+        "Content-Length": String(file.size),
+        "Content-Disposition": attachmentDisposition(file.filename),
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading export:", error);
+    return NextResponse.json(
+      { error: "Failed to download export" },
+      { status: 500 }
+    );
+  }
+}
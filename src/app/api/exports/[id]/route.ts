@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { AccessDeniedError } from "@/lib/data/projects";
+import { deleteExport } from "@/lib/data/exports";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE /api/exports/:id - Delete an export and its file
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const deleted = await deleteExport(id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Export not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error deleting export:", error);
+    return NextResponse.json(
+      { error: "Failed to delete export" },
+      { status: 500 }
+    );
+  }
+}
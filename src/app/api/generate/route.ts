@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { generateWithOpenRouter, OPENROUTER_MODELS, GenerationResult } from "@/lib/ai";
 import { createProject } from "@/lib/data/projects";
+import { CreateProjectInputSchema, toValidationIssues } from "@/lib/schemas/project";
 
 export const runtime = "nodejs";
 
@@ -56,16 +57,27 @@ export async function POST(request: NextRequest) {
 
     // Automatically save project if requested
     if (body.saveProject) {
-      const savedProject = await createProject({
+      // The model's output is checked like any other incoming timeline
+      const parsed = CreateProjectInputSchema.safeParse({
         name: result.project.name || "Generated Project",
         description: result.project.description,
         width: result.project.width,
         height: result.project.height,
         fps: result.project.fps,
         duration: result.project.duration,
-        timeline: result.project.events as any,
+        backgroundColor: result.project.backgroundColor,
+        timeline: result.project.events,
       });
 
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Generated project is invalid", issues: toValidationIssues(parsed.error) },
+          { status: 422 }
+        );
+      }
+
+      const savedProject = await createProject(parsed.data);
+
       if (!savedProject) {
          return NextResponse.json(
             { error: "Failed to save generated project to database" },
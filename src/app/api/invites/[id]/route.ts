@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { AccessDeniedError } from "@/lib/data/projects";
+import { deleteInvite } from "@/lib/data/members";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE /api/invites/:id - Decline an invite, or revoke it as the project's owner
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const deleted = await deleteInvite(id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Invite not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error deleting invite:", error);
+    return NextResponse.json(
+      { error: "Failed to delete invite" },
+      { status: 500 }
+    );
+  }
+}
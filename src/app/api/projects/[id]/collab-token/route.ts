@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { AccessDeniedError } from "@/lib/data/projects";
+import { issueCollabToken } from "@/lib/data/collab";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/projects/:id/collab-token - A short-lived token for joining the project on the collaboration relay
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const collabToken = await issueCollabToken(id);
+
+    if (!collabToken) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(collabToken, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error issuing collaboration token:", error);
+    return NextResponse.json(
+      { error: "Failed to issue collaboration token" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { duplicateProject } from "@/lib/data/projects";
+import { AccessDeniedError, InvalidTimelineError, duplicateProject } from "@/lib/data/projects";
 
 export const runtime = "nodejs";
 
@@ -18,8 +18,19 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     
     const { id } = await params;
     const project = await duplicateProject(id);
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
     return NextResponse.json(project, { status: 201 });
   } catch (error) {
+    if (error instanceof InvalidTimelineError) {
+      return NextResponse.json({ error: "Invalid project", issues: error.issues }, { status: 422 });
+    }
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
     console.error("Error duplicating project:", error);
     return NextResponse.json(
       { error: "Failed to duplicate project" },
@@ -0,0 +1,121 @@
+import { Readable, Transform } from "node:stream";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { AccessDeniedError } from "@/lib/data/projects";
+import { createProjectExport, getProjectExports } from "@/lib/data/exports";
+import { ARTIFACT_FILE_TYPES } from "@/lib/storage/artifacts";
+import { ExportArtifactFormat, ExportArtifactMetadata } from "@/lib/types/export";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Largest browser export kept in the history - EXPORT_UPLOAD_MAX_BYTES overrides it
+const DEFAULT_MAX_UPLOAD_BYTES = 2 * 1024 ** 3;
+
+class UploadTooLargeError extends Error {}
+
+function maxUploadBytes(): number {
+  const configured = Number(process.env.EXPORT_UPLOAD_MAX_BYTES);
+  return configured > 0 ? configured : DEFAULT_MAX_UPLOAD_BYTES;
+}
+
+// Fails the stream once more than maxBytes went through - Content-Length can be missing or wrong
+function limitSize(maxBytes: number): Transform {
+  let size = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      callback(size > maxBytes ? new UploadTooLargeError() : null, chunk);
+    },
+  });
+}
+
+function parseMetadata(searchParams: URLSearchParams): ExportArtifactMetadata | null {
+  const format = searchParams.get("format") as ExportArtifactFormat;
+  const width = Number(searchParams.get("width"));
+  const height = Number(searchParams.get("height"));
+  const duration = Number(searchParams.get("duration") ?? 0);
+
+  if (!Object.hasOwn(ARTIFACT_FILE_TYPES, format)) return null;
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) return null;
+  if (!Number.isFinite(duration) || duration < 0) return null;
+
+  return { format, width, height, duration };
+}
+
+// GET /api/projects/:id/exports - List the project's previous exports, newest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const exports = await getProjectExports(id);
+
+    if (!exports) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(exports);
+  } catch (error) {
+    console.error("Error fetching exports:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch exports" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/:id/exports?format=&width=&height=&duration= - Keep an export made in the browser
+// The request body is the file itself, streamed into export storage
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const metadata = parseMetadata(request.nextUrl.searchParams);
+    if (!metadata) {
+      return NextResponse.json({ error: "Invalid export details" }, { status: 400 });
+    }
+    if (!request.body) {
+      return NextResponse.json({ error: "Missing export file" }, { status: 400 });
+    }
+    const maxBytes = maxUploadBytes();
+    if (Number(request.headers.get("content-length")) > maxBytes) {
+      return NextResponse.json({ error: "Export file is too large" }, { status: 413 });
+    }
+
+    const { id } = await params;
+    const upload = Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>);
+    const body = upload.pipe(limitSize(maxBytes));
+    // pipe() doesn't pass on errors, e.g. the client going away mid-upload
+    upload.once("error", (error) => body.destroy(error));
+    const artifact = await createProjectExport(id, metadata, body);
+
+    if (!artifact) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(artifact, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof UploadTooLargeError) {
+      return NextResponse.json({ error: "Export file is too large" }, { status: 413 });
+    }
+    console.error("Error saving export:", error);
+    return NextResponse.json(
+      { error: "Failed to save export" },
+      { status: 500 }
+    );
+  }
+}
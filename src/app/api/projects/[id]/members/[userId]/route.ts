@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { AccessDeniedError } from "@/lib/data/projects";
+import { removeProjectMember, updateProjectMember } from "@/lib/data/members";
+import { ProjectMemberInputSchema, toValidationIssues } from "@/lib/schemas/project";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: Promise<{ id: string; userId: string }>;
+}
+
+// PATCH /api/projects/:id/members/:userId - Change a member's role (owners only)
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, userId } = await params;
+    const parsed = ProjectMemberInputSchema.safeParse(await request.json().catch(() => undefined));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid role", issues: toValidationIssues(parsed.error) },
+        { status: 422 }
+      );
+    }
+
+    const sharing = await updateProjectMember(id, userId, parsed.data.role);
+
+    if (!sharing) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(sharing);
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error updating member:", error);
+    return NextResponse.json(
+      { error: "Failed to update member" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/:id/members/:userId - Remove a member, or leave the project (own user id)
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, userId } = await params;
+    const removed = await removeProjectMember(id, userId);
+
+    if (!removed) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error removing member:", error);
+    return NextResponse.json(
+      { error: "Failed to remove member" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { AccessDeniedError } from "@/lib/data/projects";
+import { getProjectSharing, inviteToProject, ShareError } from "@/lib/data/members";
+import { ProjectInviteInputSchema, toValidationIssues } from "@/lib/schemas/project";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/projects/:id/members - Owner, members, pending invites and workspace
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const sharing = await getProjectSharing(id);
+
+    if (!sharing) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(sharing);
+  } catch (error) {
+    console.error("Error fetching members:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch members" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/:id/members - Invite by email (owners only)
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const parsed = ProjectInviteInputSchema.safeParse(await request.json().catch(() => undefined));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid invite", issues: toValidationIssues(parsed.error) },
+        { status: 422 }
+      );
+    }
+
+    const sharing = await inviteToProject(id, parsed.data);
+
+    if (!sharing) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(sharing, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof ShareError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error inviting member:", error);
+    return NextResponse.json(
+      { error: "Failed to invite member" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { AccessDeniedError } from "@/lib/data/projects";
+import { createRenderJob } from "@/lib/data/render-jobs";
+import { getPlatformPreset } from "@/lib/core/presets";
+import { CreateRenderJobInputSchema, toValidationIssues } from "@/lib/schemas/project";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/projects/:id/render - Queue a server-side render
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    // An empty body queues a full-size MP4
+    const parsed = CreateRenderJobInputSchema.safeParse(await request.json().catch(() => ({})));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid render request", issues: toValidationIssues(parsed.error) },
+        { status: 422 }
+      );
+    }
+
+    const body = parsed.data;
+    // The preset decides the container, like it does for browser exports
+    const preset = body.presetId ? getPlatformPreset(body.presetId) : undefined;
+    const format = preset?.container ?? body.format;
+
+    const job = await createRenderJob(id, { format, presetId: body.presetId });
+
+    if (!job) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(job, { status: 202 });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error queueing render:", error);
+    return NextResponse.json(
+      { error: "Failed to queue render" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { getProjectById, updateProject, deleteProject } from "@/lib/data/projects";
-import { UpdateProjectInput } from "@/lib/types/project";
+import { getProjectById, updateProject, deleteProject, ProjectConflictError, AccessDeniedError } from "@/lib/data/projects";
+import { UpdateProjectInputSchema, toValidationIssues } from "@/lib/schemas/project";
+import { parseIfMatch, projectETag } from "@/lib/types/project";
 
 export const runtime = "nodejs";
 
@@ -24,7 +25,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
     
-    return NextResponse.json(project);
+    return NextResponse.json(project, { headers: { ETag: projectETag(project.revision) } });
   } catch (error) {
     console.error("Error fetching project:", error);
     return NextResponse.json(
@@ -43,11 +44,38 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     }
     
     const { id } = await params;
-    const body: UpdateProjectInput = await request.json();
-    const project = await updateProject(id, body);
+    const parsed = UpdateProjectInputSchema.safeParse(await request.json().catch(() => undefined));
     
-    return NextResponse.json(project);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid project", issues: toValidationIssues(parsed.error) },
+        { status: 422 }
+      );
+    }
+    
+    // If-Match makes the save conditional on the revision it was based on
+    const expectedRevision = parseIfMatch(request.headers.get("if-match"));
+    if (Number.isNaN(expectedRevision)) {
+      return NextResponse.json({ error: "Invalid If-Match header" }, { status: 400 });
+    }
+    
+    const project = await updateProject(id, parsed.data, expectedRevision);
+    
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    
+    return NextResponse.json(project, { headers: { ETag: projectETag(project.revision) } });
   } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof ProjectConflictError) {
+      return NextResponse.json(
+        { error: "Project was changed elsewhere", project: error.project },
+        { status: 409, headers: { ETag: projectETag(error.project.revision) } }
+      );
+    }
     console.error("Error updating project:", error);
     return NextResponse.json(
       { error: "Failed to update project" },
@@ -68,6 +96,9 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     await deleteProject(id);
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
     console.error("Error deleting project:", error);
     return NextResponse.json(
       { error: "Failed to delete project" },
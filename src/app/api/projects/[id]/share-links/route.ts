@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { AccessDeniedError } from "@/lib/data/projects";
+import { createShareLink, getShareLinks } from "@/lib/data/share-links";
+import { CreateShareLinkInputSchema, toValidationIssues } from "@/lib/schemas/project";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/projects/:id/share-links - Public links that haven't been revoked (owners only)
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const links = await getShareLinks(id);
+
+    if (!links) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(links);
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error fetching share links:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch share links" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/:id/share-links - Create a public read-only link (owners only)
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    // An empty body is a link that never expires
+    const parsed = CreateShareLinkInputSchema.safeParse(await request.json().catch(() => ({})));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid share link", issues: toValidationIssues(parsed.error) },
+        { status: 422 }
+      );
+    }
+
+    const link = await createShareLink(id, parsed.data);
+
+    if (!link) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(link, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error creating share link:", error);
+    return NextResponse.json(
+      { error: "Failed to create share link" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { AccessDeniedError } from "@/lib/data/projects";
+import { createProjectVersion, getProjectVersions } from "@/lib/data/versions";
+import { CreateVersionInputSchema, toValidationIssues } from "@/lib/schemas/project";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/projects/:id/versions - List the project's saved versions, newest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const versions = await getProjectVersions(id);
+
+    if (!versions) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(versions);
+  } catch (error) {
+    console.error("Error fetching versions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch versions" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/:id/versions - Name a checkpoint of the project as last saved
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = CreateVersionInputSchema.safeParse(await request.json().catch(() => undefined));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid checkpoint", issues: toValidationIssues(parsed.error) },
+        { status: 422 }
+      );
+    }
+
+    const { id } = await params;
+    const version = await createProjectVersion(id, parsed.data.name);
+
+    if (!version) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(version, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error creating version:", error);
+    return NextResponse.json(
+      { error: "Failed to create version" },
+      { status: 500 }
+    );
+  }
+}
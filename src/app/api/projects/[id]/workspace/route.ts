@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { AccessDeniedError } from "@/lib/data/projects";
+import { moveProjectToWorkspace } from "@/lib/data/workspaces";
+import { ProjectWorkspaceInputSchema, toValidationIssues } from "@/lib/schemas/project";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PUT /api/projects/:id/workspace - Move the project into a workspace, or out with null (owners only)
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const parsed = ProjectWorkspaceInputSchema.safeParse(await request.json().catch(() => undefined));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid workspace", issues: toValidationIssues(parsed.error) },
+        { status: 422 }
+      );
+    }
+
+    const moved = await moveProjectToWorkspace(id, parsed.data.workspaceId);
+
+    if (!moved) {
+      return NextResponse.json({ error: "Project or workspace not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error moving project:", error);
+    return NextResponse.json(
+      { error: "Failed to move project" },
+      { status: 500 }
+    );
+  }
+}
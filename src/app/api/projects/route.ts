@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { getUserProjects, createProject } from "@/lib/data/projects";
-import { CreateProjectInput } from "@/lib/types/project";
+import { CreateProjectInputSchema, toValidationIssues } from "@/lib/schemas/project";
 
 export const runtime = "nodejs";
 
@@ -32,16 +32,17 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
     
-    const body: CreateProjectInput = await request.json();
+    // Unparseable JSON fails validation at the root ("$")
+    const parsed = CreateProjectInputSchema.safeParse(await request.json().catch(() => undefined));
     
-    if (!body.name?.trim()) {
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: "Project name is required" },
-        { status: 400 }
+        { error: "Invalid project", issues: toValidationIssues(parsed.error) },
+        { status: 422 }
       );
     }
     
-    const project = await createProject(body);
+    const project = await createProject(parsed.data);
     return NextResponse.json(project, { status: 201 });
   } catch (error) {
     console.error("Error creating project:", error);
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getRenderJob } from "@/lib/data/render-jobs";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/render-jobs/:id - Poll a render job's status and progress
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const job = await getRenderJob(id);
+
+    if (!job) {
+      return NextResponse.json({ error: "Render job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error("Error fetching render job:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch render job" },
+      { status: 500 }
+    );
+  }
+}
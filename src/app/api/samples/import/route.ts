@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { createProject } from "@/lib/data/projects";
 import { getSampleProject } from "@/lib/samples";
+import { CreateProjectInputSchema, toValidationIssues } from "@/lib/schemas/project";
 
 export const runtime = "nodejs";
 
@@ -30,16 +31,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const project = await createProject({
+    const parsed = CreateProjectInputSchema.safeParse({
       name: sample.project.name,
       description: sample.project.description,
       width: sample.project.width,
       height: sample.project.height,
       fps: sample.project.fps,
       duration: sample.project.duration,
-      timeline: sample.project.events as any,
+      backgroundColor: sample.project.backgroundColor,
+      timeline: sample.project.events,
     });
 
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Sample project is invalid", issues: toValidationIssues(parsed.error) },
+        { status: 422 }
+      );
+    }
+
+    const project = await createProject(parsed.data);
+
     if (!project) {
         return NextResponse.json(
           { error: "Failed to create project from sample" },
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { AccessDeniedError } from "@/lib/data/projects";
+import { revokeShareLink } from "@/lib/data/share-links";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE /api/share-links/:id - Revoke a public link (owners only)
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const revoked = await revokeShareLink(id);
+
+    if (!revoked) {
+      return NextResponse.json({ error: "Share link not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error revoking share link:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke share link" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getVersionDiff } from "@/lib/data/versions";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/versions/:id/diff?against= - What restoring the version would change
+// Compared to the saved project, or to another version of it with ?against=<versionId>
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const against = request.nextUrl.searchParams.get("against") || undefined;
+    const diff = await getVersionDiff(id, against);
+
+    if (!diff) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(diff);
+  } catch (error) {
+    console.error("Error diffing version:", error);
+    return NextResponse.json(
+      { error: "Failed to diff version" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { AccessDeniedError, ProjectConflictError } from "@/lib/data/projects";
+import { restoreVersion } from "@/lib/data/versions";
+import { parseIfMatch, projectETag } from "@/lib/types/project";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/versions/:id/restore - Put the version's timeline back into its project
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // If-Match makes the restore conditional on the revision the editor has, like a save
+    const expectedRevision = parseIfMatch(request.headers.get("if-match"));
+    if (Number.isNaN(expectedRevision)) {
+      return NextResponse.json({ error: "Invalid If-Match header" }, { status: 400 });
+    }
+
+    const project = await restoreVersion(id, expectedRevision);
+
+    if (!project) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(project, { headers: { ETag: projectETag(project.revision) } });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof ProjectConflictError) {
+      return NextResponse.json(
+        { error: "Project was changed elsewhere", project: error.project },
+        { status: 409, headers: { ETag: projectETag(error.project.revision) } }
+      );
+    }
+    console.error("Error restoring version:", error);
+    return NextResponse.json(
+      { error: "Failed to restore version" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { AccessDeniedError } from "@/lib/data/projects";
+import { ShareError } from "@/lib/data/members";
+import { removeWorkspaceMember, updateWorkspaceMember } from "@/lib/data/workspaces";
+import { WorkspaceRoleInputSchema, toValidationIssues } from "@/lib/schemas/project";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: Promise<{ id: string; userId: string }>;
+}
+
+// PATCH /api/workspaces/:id/members/:userId - Change a member's role (owners only)
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, userId } = await params;
+    const parsed = WorkspaceRoleInputSchema.safeParse(await request.json().catch(() => undefined));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid role", issues: toValidationIssues(parsed.error) },
+        { status: 422 }
+      );
+    }
+
+    const members = await updateWorkspaceMember(id, userId, parsed.data.role);
+
+    if (!members) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(members);
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof ShareError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error updating workspace member:", error);
+    return NextResponse.json(
+      { error: "Failed to update workspace member" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/workspaces/:id/members/:userId - Remove a member, or leave (own user id)
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, userId } = await params;
+    const removed = await removeWorkspaceMember(id, userId);
+
+    if (!removed) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof ShareError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error removing workspace member:", error);
+    return NextResponse.json(
+      { error: "Failed to remove workspace member" },
+      { status: 500 }
+    );
+  }
+}
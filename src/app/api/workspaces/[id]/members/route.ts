@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { AccessDeniedError } from "@/lib/data/projects";
+import { ShareError } from "@/lib/data/members";
+import { addWorkspaceMember, getWorkspaceMembers } from "@/lib/data/workspaces";
+import { WorkspaceMemberInputSchema, toValidationIssues } from "@/lib/schemas/project";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/workspaces/:id/members - Everyone in the workspace
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const members = await getWorkspaceMembers(id);
+
+    if (!members) {
+      return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(members);
+  } catch (error) {
+    console.error("Error fetching workspace members:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch workspace members" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/workspaces/:id/members - Add someone by email (owners only)
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const parsed = WorkspaceMemberInputSchema.safeParse(await request.json().catch(() => undefined));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid member", issues: toValidationIssues(parsed.error) },
+        { status: 422 }
+      );
+    }
+
+    const members = await addWorkspaceMember(id, parsed.data);
+
+    if (!members) {
+      return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(members, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof ShareError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error adding workspace member:", error);
+    return NextResponse.json(
+      { error: "Failed to add workspace member" },
+      { status: 500 }
+    );
+  }
+}
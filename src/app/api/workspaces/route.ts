@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { createWorkspace, getUserWorkspaces } from "@/lib/data/workspaces";
+import { CreateWorkspaceInputSchema, toValidationIssues } from "@/lib/schemas/project";
+
+export const runtime = "nodejs";
+
+// GET /api/workspaces - Workspaces the user belongs to, with their role in each
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const workspaces = await getUserWorkspaces();
+    return NextResponse.json(workspaces);
+  } catch (error) {
+    console.error("Error fetching workspaces:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch workspaces" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/workspaces - Create a workspace owned by the user
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = CreateWorkspaceInputSchema.safeParse(await request.json().catch(() => undefined));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid workspace", issues: toValidationIssues(parsed.error) },
+        { status: 422 }
+      );
+    }
+
+    const workspace = await createWorkspace(parsed.data.name);
+    return NextResponse.json(workspace, { status: 201 });
+  } catch (error) {
+    console.error("Error creating workspace:", error);
+    return NextResponse.json(
+      { error: "Failed to create workspace" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { getWatchLink, type WatchLink } from "@/lib/data/share-links";
+import { toTimelineProject } from "@/lib/core/timeline/project";
+import { parsePlayerOptions } from "@/lib/types/share-link";
+import { WatchPlayer } from "@/components/watch/watch-player";
+
+export const runtime = "nodejs";
+
+interface WatchPageProps {
+    params: Promise<{ token: string }>;
+    searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const UNAVAILABLE: Record<Exclude<WatchLink["status"], "active"> | "missing", { icon: string; message: string }> = {
+    missing: { icon: "🔍", message: "This link doesn't exist" },
+    expired: { icon: "⏰", message: "This link has expired" },
+    revoked: { icon: "🔒", message: "This link has been turned off" },
+};
+
+export async function generateMetadata({ params }: WatchPageProps): Promise<Metadata> {
+    const { token } = await params;
+    const link = await getWatchLink(token);
+    return {
+        title: link?.status === "active" ? `${link.project.name} - Videographic` : "Videographic",
+        // Links are private to whoever they were sent to
+        robots: { index: false, follow: false },
+    };
+}
+
+// Public player - no sign-in, the token in the URL is the access check
+export default async function WatchPage({ params, searchParams }: WatchPageProps) {
+    const { token } = await params;
+    const query = await searchParams;
+    const isEmbed = query.embed === "1";
+    const link = await getWatchLink(token);
+
+    if (!link || link.status !== "active") {
+        const { icon, message } = UNAVAILABLE[link?.status ?? "missing"];
+        return (
+            <div className="min-h-screen flex flex-col items-center justify-center bg-slate-900 text-white">
+                <span className="text-4xl mb-4">{icon}</span>
+                <h1 className="text-xl font-semibold mb-2">{message}</h1>
+                {!isEmbed && <p className="text-sm text-gray-400">Ask whoever sent it for a new one.</p>}
+            </div>
+        );
+    }
+
+    const { project } = link;
+    // Same conversion as the editor page, so it plays exactly as it looks in the editor
+    const timelineProject = toTimelineProject(project);
+    const options = parsePlayerOptions(query);
+
+    if (isEmbed) {
+        return (
+            <div className="h-screen w-screen flex items-center justify-center bg-black overflow-hidden">
+                <WatchPlayer project={timelineProject} options={options} fill />
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen flex flex-col bg-slate-900 text-white">
+            <main className="flex-1 w-full max-w-5xl mx-auto px-4 py-10">
+                <h1 className="text-2xl font-bold mb-1 truncate">🎬 {project.name}</h1>
+                {project.description && <p className="text-gray-400 mb-6">{project.description}</p>}
+                <div className="mt-4 rounded-xl overflow-hidden border border-white/10 shadow-2xl">
+                    <WatchPlayer project={timelineProject} options={options} />
+                </div>
+            </main>
+            <footer className="py-6 text-center text-sm text-gray-500">
+                Made with{" "}
+                <Link href="/" className="text-purple-400 hover:underline">
+                    Videographic
+                </Link>
+            </footer>
+        </div>
+    );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { MEMBER_ROLE_LABELS, type ProjectInviteSummary } from "@/lib/types/sharing";
+
+interface PendingInvitesProps {
+    invites: ProjectInviteSummary[];
+}
+
+export function PendingInvites({ invites }: PendingInvitesProps) {
+    const router = useRouter();
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const respond = async (invite: ProjectInviteSummary, accept: boolean) => {
+        setBusyId(invite.id);
+        try {
+            const response = accept
+                ? await fetch(`/api/invites/${invite.id}/accept`, { method: "POST" })
+                : await fetch(`/api/invites/${invite.id}`, { method: "DELETE" });
+            if (!response.ok) throw new Error(`Status ${response.status}`);
+            router.refresh();
+        } catch (error) {
+            console.error("Failed to answer invite:", error);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    if (invites.length === 0) return null;
+
+    return (
+        <div className="mb-8 space-y-2">
+            {invites.map((invite) => (
+                <div
+                    key={invite.id}
+                    className="flex items-center gap-4 p-4 bg-purple-500/10 border border-purple-500/30 rounded-xl"
+                >
+                    <span className="text-2xl">✉️</span>
+                    <p className="flex-1 text-sm text-gray-300">
+                        <span className="text-white font-medium">{invite.invitedBy ?? "Someone"}</span> invited you to{" "}
+                        <span className="text-white font-medium">{invite.projectName}</span>
+                        <span className="text-gray-500"> • {MEMBER_ROLE_LABELS[invite.role].toLowerCase()}</span>
+                    </p>
+                    <button
+                        onClick={() => respond(invite, false)}
+                        disabled={busyId === invite.id}
+                        className="px-3 py-1.5 text-sm text-gray-400 hover:text-white transition-colors cursor-pointer"
+                    >
+                        Decline
+                    </button>
+                    <button
+                        onClick={() => respond(invite, true)}
+                        disabled={busyId === invite.id}
+                        className="px-4 py-1.5 bg-linear-to-r from-purple-600 to-pink-600 text-white text-sm font-semibold rounded-lg hover:opacity-90 disabled:opacity-50 cursor-pointer"
+                    >
+                        Accept
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+}
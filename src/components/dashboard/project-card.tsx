@@ -1,17 +1,38 @@
 "use client";
 
-import { VideoProject } from "@/lib/types/project";
+import { PREVIEW_FRAME_COUNT, VideoProject } from "@/lib/types/project";
+import { MEMBER_ROLE_LABELS, SharedProject } from "@/lib/types/sharing";
 import { useRouter } from "next/navigation";
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { ProjectExports } from "./project-exports";
+import { ShareProjectModal } from "./share-project-modal";
 
 interface ProjectCardProps {
-    project: VideoProject;
+    // Shared projects carry the user's role; their own projects are owned
+    project: VideoProject | SharedProject;
 }
 
 export function ProjectCard({ project }: ProjectCardProps) {
     const router = useRouter();
     const [isDeleting, setIsDeleting] = useState(false);
     const [showMenu, setShowMenu] = useState(false);
+    const [showExports, setShowExports] = useState(false);
+    const [showShare, setShowShare] = useState(false);
+    const shared = "role" in project ? (project as SharedProject) : null;
+    const isOwner = !shared || shared.role === "OWNER";
+
+    // Hover preview - steps through the frames of the preview strip
+    const [isHovering, setIsHovering] = useState(false);
+    const [previewFrame, setPreviewFrame] = useState(0);
+
+    useEffect(() => {
+        if (!isHovering || !project.previewStrip) return;
+        setPreviewFrame(0);
+        const interval = setInterval(() => {
+            setPreviewFrame((frame) => (frame + 1) % PREVIEW_FRAME_COUNT);
+        }, 400);
+        return () => clearInterval(interval);
+    }, [isHovering, project.previewStrip]);
 
     const handleDelete = async (e: React.MouseEvent) => {
         e.stopPropagation();
@@ -52,8 +73,21 @@ export function ProjectCard({ project }: ProjectCardProps) {
             className="bg-white/5 border border-white/10 rounded-2xl overflow-hidden cursor-pointer hover:border-purple-500/50 hover:bg-white/10 transition-all group"
         >
             {/* Thumbnail */}
-            <div className="aspect-video bg-linear-to-br from-purple-900/50 to-pink-900/50 relative">
-                {project.thumbnail ? (
+            <div
+                className="aspect-video bg-linear-to-br from-purple-900/50 to-pink-900/50 relative"
+                onMouseEnter={() => setIsHovering(true)}
+                onMouseLeave={() => setIsHovering(false)}
+            >
+                {isHovering && project.previewStrip ? (
+                    <div
+                        className="w-full h-full"
+                        style={{
+                            backgroundImage: `url(${project.previewStrip})`,
+                            backgroundSize: `${PREVIEW_FRAME_COUNT * 100}% 100%`,
+                            backgroundPosition: `${(previewFrame / (PREVIEW_FRAME_COUNT - 1)) * 100}% 0`,
+                        }}
+                    />
+                ) : project.thumbnail ? (
                     <img
                         src={project.thumbnail}
                         alt={project.name}
@@ -71,7 +105,9 @@ export function ProjectCard({ project }: ProjectCardProps) {
                             ? "bg-green-500/20 text-green-400"
                             : project.status === "RENDERING"
                                 ? "bg-yellow-500/20 text-yellow-400"
-                                : "bg-white/10 text-gray-400"
+                                : project.status === "FAILED"
+                                    ? "bg-red-500/20 text-red-400"
+                                    : "bg-white/10 text-gray-400"
                         }`}>
                         {project.status.toLowerCase()}
                     </span>
@@ -89,18 +125,30 @@ export function ProjectCard({ project }: ProjectCardProps) {
                     {showMenu && (
                         <div className="absolute right-0 mt-2 w-40 bg-slate-800 border border-white/10 rounded-lg shadow-xl z-10">
                             <button
-                                onClick={handleDuplicate}
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    setShowMenu(false);
+                                    setShowShare(true);
+                                }}
                                 className="w-full text-left px-4 py-2 text-gray-300 hover:bg-white/5 cursor-pointer"
                             >
-                                📋 Duplicate
+                                👥 Share
                             </button>
                             <button
-                                onClick={handleDelete}
-                                disabled={isDeleting}
-                                className="w-full text-left px-4 py-2 text-red-400 hover:bg-white/5 cursor-pointer"
+                                onClick={handleDuplicate}
+                                className="w-full text-left px-4 py-2 text-gray-300 hover:bg-white/5 cursor-pointer"
                             >
-                                {isDeleting ? "Deleting..." : "🗑️ Delete"}
+                                📋 Duplicate
                             </button>
+                            {isOwner && (
+                                <button
+                                    onClick={handleDelete}
+                                    disabled={isDeleting}
+                                    className="w-full text-left px-4 py-2 text-red-400 hover:bg-white/5 cursor-pointer"
+                                >
+                                    {isDeleting ? "Deleting..." : "🗑️ Delete"}
+                                </button>
+                            )}
                         </div>
                     )}
                 </div>
@@ -115,7 +163,42 @@ export function ProjectCard({ project }: ProjectCardProps) {
                 <p className="text-xs text-gray-500 mt-2">
                     Updated {formatDate(project.updatedAt)}
                 </p>
+                {shared && (
+                    <p className="text-xs text-gray-500 mt-1 flex items-center gap-1.5 truncate">
+                        <span className="px-1.5 py-0.5 bg-purple-500/20 text-purple-300 rounded font-medium">
+                            {MEMBER_ROLE_LABELS[shared.role]}
+                        </span>
+                        <span className="truncate">
+                            {shared.workspaceName ? `🏢 ${shared.workspaceName}` : `from ${shared.ownerName ?? "someone"}`}
+                        </span>
+                    </p>
+                )}
+
+                {/* Export history */}
+                <div className="mt-3 pt-3 border-t border-white/10" onClick={(e) => e.stopPropagation()}>
+                    <button
+                        onClick={() => setShowExports(!showExports)}
+                        className="w-full flex items-center justify-between text-xs text-gray-400 hover:text-white cursor-pointer"
+                    >
+                        <span>📦 Exports</span>
+                        <span>{showExports ? "▼" : "▶"}</span>
+                    </button>
+                    {showExports && (
+                        <div className="mt-2">
+                            <ProjectExports projectId={project.id} />
+                        </div>
+                    )}
+                </div>
             </div>
+
+            {showShare && (
+                <ShareProjectModal
+                    projectId={project.id}
+                    projectName={project.name}
+                    projectSize={{ width: project.width, height: project.height }}
+                    onClose={() => setShowShare(false)}
+                />
+            )}
         </div>
     );
 }
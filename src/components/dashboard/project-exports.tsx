@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ExportArtifactSummary } from "@/lib/types/export";
+
+interface ProjectExportsProps {
+    projectId: string;
+}
+
+const FORMAT_LABELS: Record<ExportArtifactSummary["format"], string> = {
+    mp4: "MP4",
+    webm: "WebM",
+    gif: "GIF",
+    apng: "APNG",
+    png: "PNG",
+    zip: "PNG ZIP",
+};
+
+export function ProjectExports({ projectId }: ProjectExportsProps) {
+    const [exports, setExports] = useState<ExportArtifactSummary[] | null>(null);
+    const [error, setError] = useState(false);
+    const [deletingId, setDeletingId] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        fetch(`/api/projects/${projectId}/exports`)
+            .then((response) => {
+                if (!response.ok) throw new Error(`Status ${response.status}`);
+                return response.json();
+            })
+            .then((list: ExportArtifactSummary[]) => {
+                if (!cancelled) setExports(list);
+            })
+            .catch((err) => {
+                console.error("Failed to load exports:", err);
+                if (!cancelled) setError(true);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [projectId]);
+
+    const handleDelete = async (artifact: ExportArtifactSummary) => {
+        if (!confirm("Delete this export?")) return;
+
+        setDeletingId(artifact.id);
+        try {
+            const response = await fetch(`/api/exports/${artifact.id}`, { method: "DELETE" });
+            if (response.ok) {
+                setExports((list) => list?.filter((item) => item.id !== artifact.id) ?? null);
+            }
+        } catch (err) {
+            console.error("Delete failed:", err);
+        } finally {
+            setDeletingId(null);
+        }
+    };
+
+    const formatSize = (bytes: number) => {
+        if (bytes >= 1_000_000_000) return `${(bytes / 1_000_000_000).toFixed(1)} GB`;
+        if (bytes >= 1_000_000) return `${(bytes / 1_000_000).toFixed(1)} MB`;
+        return `${Math.max(1, Math.round(bytes / 1000))} KB`;
+    };
+
+    const formatDate = (date: string) => {
+        return new Date(date).toLocaleDateString("en-US", {
+            month: "short",
+            day: "numeric",
+        });
+    };
+
+    if (error) {
+        return <p className="text-xs text-red-400">Couldn&apos;t load exports</p>;
+    }
+
+    if (!exports) {
+        return <p className="text-xs text-gray-500">Loading exports...</p>;
+    }
+
+    if (exports.length === 0) {
+        return <p className="text-xs text-gray-500">No exports yet</p>;
+    }
+
+    return (
+        <ul className="space-y-1.5 max-h-48 overflow-y-auto">
+            {exports.map((artifact) => (
+                <li
+                    key={artifact.id}
+                    title={`SHA-256 ${artifact.checksum}`}
+                    className="flex items-center gap-2 p-2 bg-slate-800/50 rounded-lg text-xs"
+                >
+                    <span className="px-1.5 py-0.5 bg-purple-500/20 text-purple-300 rounded font-medium">
+                        {FORMAT_LABELS[artifact.format]}
+                    </span>
+                    <span className="flex-1 text-gray-400 truncate">
+                        {artifact.width}×{artifact.height}
+                        {artifact.duration > 0 && ` • ${artifact.duration.toFixed(1)}s`} • {formatSize(artifact.size)} •{" "}
+                        {formatDate(artifact.createdAt)}
+                        {artifact.renderJobId && " • ☁️"}
+                    </span>
+                    <a
+                        href={artifact.downloadUrl}
+                        className="p-1 text-gray-300 hover:text-white"
+                        title="Download again"
+                    >
+                        ⬇️
+                    </a>
+                    <button
+                        onClick={() => handleDelete(artifact)}
+                        disabled={deletingId === artifact.id}
+                        className="p-1 text-red-400 hover:text-red-300 cursor-pointer disabled:opacity-50"
+                        title="Delete export"
+                    >
+                        🗑️
+                    </button>
+                </li>
+            ))}
+        </ul>
+    );
+}
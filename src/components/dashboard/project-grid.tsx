@@ -1,22 +1,29 @@
 "use client";
 
 import { VideoProject } from "@/lib/types/project";
+import { SharedProject } from "@/lib/types/sharing";
 import { ProjectCard } from "./project-card";
 
 interface ProjectGridProps {
-    projects: VideoProject[];
+    projects: (VideoProject | SharedProject)[];
+    emptyTitle?: string;
+    emptyMessage?: string;
 }
 
-export function ProjectGrid({ projects }: ProjectGridProps) {
+export function ProjectGrid({
+    projects,
+    emptyTitle = "No projects yet",
+    emptyMessage = "Create your first video to get started",
+}: ProjectGridProps) {
     if (projects.length === 0) {
         return (
             <div className="text-center py-16">
                 <div className="w-24 h-24 bg-white/5 rounded-full flex items-center justify-center mx-auto mb-6">
                     <span className="text-4xl">🎬</span>
                 </div>
-                <h3 className="text-xl text-white font-semibold">No projects yet</h3>
+                <h3 className="text-xl text-white font-semibold">{emptyTitle}</h3>
                 <p className="text-gray-400 mt-2">
-                    Create your first video to get started
+                    {emptyMessage}
                 </p>
             </div>
         );
@@ -0,0 +1,198 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { requestJson } from "@/lib/api/request-json";
+import {
+    DEFAULT_PLAYER_OPTIONS,
+    SHARE_LINK_EXPIRY_OPTIONS,
+    embedSnippet,
+    watchPath,
+    type PlayerOptions,
+    type ShareLinkSummary,
+} from "@/lib/types/share-link";
+
+interface ShareLinksSectionProps {
+    projectId: string;
+    // Project size, for the embed's aspect ratio
+    size: { width: number; height: number };
+}
+
+const PLAYER_OPTION_LABELS: Record<keyof PlayerOptions, string> = {
+    autoplay: "Autoplay (muted)",
+    loop: "Loop",
+    controls: "Controls",
+};
+
+const formatExpiry = (expiresAt: string | null) => {
+    if (!expiresAt) return "Never expires";
+    const date = new Date(expiresAt);
+    if (date.getTime() <= Date.now()) return "Expired";
+    return `Expires ${date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}`;
+};
+
+// Public read-only links to the project's player, for people without an account - owners only
+export function ShareLinksSection({ projectId, size }: ShareLinksSectionProps) {
+    const [links, setLinks] = useState<ShareLinkSummary[] | null>(null);
+    const [expiresInDays, setExpiresInDays] = useState<number | null>(null);
+    const [embedFor, setEmbedFor] = useState<string | null>(null);
+    const [playerOptions, setPlayerOptions] = useState<PlayerOptions>(DEFAULT_PLAYER_OPTIONS);
+    const [copied, setCopied] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const linksUrl = `/api/projects/${projectId}/share-links`;
+
+    const load = useCallback(async () => {
+        setLinks(await requestJson<ShareLinkSummary[]>(linksUrl));
+    }, [linksUrl]);
+
+    useEffect(() => {
+        load().catch((err) => setError(err instanceof Error ? err.message : "Couldn't load links"));
+    }, [load]);
+
+    const run = async (change: () => Promise<void>) => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            await change();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Something went wrong");
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleCreate = () =>
+        run(async () => {
+            const link = await requestJson<ShareLinkSummary>(linksUrl, {
+                method: "POST",
+                body: JSON.stringify({ expiresInDays }),
+            });
+            setLinks((current) => [link, ...(current ?? [])]);
+        });
+
+    const handleRevoke = (id: string) => {
+        if (!confirm("Turn this link off? Anyone who has it won't be able to watch any more.")) return;
+        run(async () => {
+            await requestJson(`/api/share-links/${id}`, { method: "DELETE" });
+            setLinks((current) => current?.filter((link) => link.id !== id) ?? null);
+            if (embedFor === id) setEmbedFor(null);
+        });
+    };
+
+    const copy = async (key: string, text: string) => {
+        try {
+            await navigator.clipboard.writeText(text);
+            setCopied(key);
+            setTimeout(() => setCopied((current) => (current === key ? null : current)), 2000);
+        } catch {
+            setError("Couldn't copy - select the text and copy it instead");
+        }
+    };
+
+    const origin = typeof window !== "undefined" ? window.location.origin : "";
+
+    return (
+        <div className="mt-6">
+            <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1">Public link</h3>
+            <p className="text-xs text-gray-500 mb-3">Anyone with the link can watch - no account needed.</p>
+
+            {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+
+            <div className="flex gap-2 mb-3">
+                <select
+                    value={expiresInDays ?? ""}
+                    onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+                    className="flex-1 px-2 py-2 bg-gray-800 border border-gray-600 rounded-lg text-sm text-white"
+                >
+                    {SHARE_LINK_EXPIRY_OPTIONS.map((option) => (
+                        <option key={option.label} value={option.days ?? ""}>
+                            {option.label}
+                        </option>
+                    ))}
+                </select>
+                <button
+                    onClick={handleCreate}
+                    disabled={isBusy}
+                    className="px-4 py-2 bg-white/10 text-white text-sm font-semibold rounded-lg hover:bg-white/20 disabled:opacity-50 cursor-pointer"
+                >
+                    🔗 Create link
+                </button>
+            </div>
+
+            <ul className="space-y-2">
+                {links?.map((link) => {
+                    const url = `${origin}${watchPath(link.token)}`;
+                    const isExpired = !!link.expiresAt && new Date(link.expiresAt).getTime() <= Date.now();
+                    const snippet = embedSnippet(origin, link.token, playerOptions, size);
+                    return (
+                        <li key={link.id} className="p-3 bg-gray-800/60 border border-white/5 rounded-lg">
+                            <div className="flex items-center gap-2">
+                                <span className={`flex-1 text-sm truncate ${isExpired ? "text-gray-500 line-through" : "text-gray-300"}`}>
+                                    {url}
+                                </span>
+                                <button
+                                    onClick={() => copy(link.id, url)}
+                                    disabled={isExpired}
+                                    className="text-xs text-purple-400 hover:text-purple-300 disabled:opacity-50 cursor-pointer"
+                                >
+                                    {copied === link.id ? "✓ Copied" : "📋 Copy"}
+                                </button>
+                                <button
+                                    onClick={() => setEmbedFor(embedFor === link.id ? null : link.id)}
+                                    disabled={isExpired}
+                                    className="text-xs text-gray-400 hover:text-white disabled:opacity-50 cursor-pointer"
+                                >
+                                    &lt;/&gt; Embed
+                                </button>
+                                <button
+                                    onClick={() => handleRevoke(link.id)}
+                                    disabled={isBusy}
+                                    className="text-xs text-red-400 hover:text-red-300 cursor-pointer"
+                                >
+                                    Revoke
+                                </button>
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">
+                                {formatExpiry(link.expiresAt)}
+                                {link.createdBy && ` • by ${link.createdBy}`}
+                            </p>
+
+                            {/* Embed code - options go into the iframe's URL */}
+                            {embedFor === link.id && (
+                                <div className="mt-3">
+                                    <div className="flex gap-4 mb-2">
+                                        {(Object.keys(PLAYER_OPTION_LABELS) as (keyof PlayerOptions)[]).map((option) => (
+                                            <label key={option} className="flex items-center gap-1.5 text-xs text-gray-300 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={playerOptions[option]}
+                                                    onChange={(e) => setPlayerOptions({ ...playerOptions, [option]: e.target.checked })}
+                                                    className="accent-purple-500"
+                                                />
+                                                {PLAYER_OPTION_LABELS[option]}
+                                            </label>
+                                        ))}
+                                    </div>
+                                    <textarea
+                                        readOnly
+                                        value={snippet}
+                                        onFocus={(e) => e.target.select()}
+                                        rows={3}
+                                        className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-xs font-mono text-gray-300 resize-none"
+                                    />
+                                    <button
+                                        onClick={() => copy(`${link.id}-embed`, snippet)}
+                                        className="mt-1 text-xs text-purple-400 hover:text-purple-300 cursor-pointer"
+                                    >
+                                        {copied === `${link.id}-embed` ? "✓ Copied" : "📋 Copy code"}
+                                    </button>
+                                </div>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+}
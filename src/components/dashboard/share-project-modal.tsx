@@ -0,0 +1,284 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { requestJson } from "@/lib/api/request-json";
+import { ShareLinksSection } from "./share-links-section";
+import {
+    MEMBER_ROLE_LABELS,
+    hasRole,
+    type MemberRole,
+    type MemberUser,
+    type ProjectSharing,
+    type WorkspaceSummary,
+} from "@/lib/types/sharing";
+
+interface ShareProjectModalProps {
+    projectId: string;
+    projectName: string;
+    // Project size, for the embed code's aspect ratio
+    projectSize: { width: number; height: number };
+    onClose: () => void;
+}
+
+function PersonRow({ user, children }: { user: MemberUser; children: React.ReactNode }) {
+    return (
+        <li className="flex items-center gap-3 py-2">
+            <div className="w-8 h-8 rounded-full bg-purple-600/40 flex items-center justify-center text-sm font-semibold text-white shrink-0">
+                {(user.name || user.email).charAt(0).toUpperCase()}
+            </div>
+            <div className="flex-1 min-w-0">
+                <p className="text-sm text-white truncate">{user.name || user.email}</p>
+                {user.name && <p className="text-xs text-gray-500 truncate">{user.email}</p>}
+            </div>
+            {children}
+        </li>
+    );
+}
+
+export function ShareProjectModal({ projectId, projectName, projectSize, onClose }: ShareProjectModalProps) {
+    const router = useRouter();
+    const { data: session } = useSession();
+    const [sharing, setSharing] = useState<ProjectSharing | null>(null);
+    const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+    const [email, setEmail] = useState("");
+    const [inviteRole, setInviteRole] = useState<MemberRole>("EDITOR");
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const isOwner = sharing?.role === "OWNER";
+
+    const load = useCallback(async () => {
+        const loaded = await requestJson<ProjectSharing>(`/api/projects/${projectId}/members`);
+        setSharing(loaded);
+        if (loaded.role === "OWNER") {
+            const list = await requestJson<WorkspaceSummary[]>("/api/workspaces");
+            setWorkspaces(list.filter((workspace) => hasRole(workspace.role, "EDITOR")));
+        }
+    }, [projectId]);
+
+    useEffect(() => {
+        load().catch((err) => setError(err instanceof Error ? err.message : "Couldn't load sharing"));
+    }, [load]);
+
+    // Run a change, then show its result (or its error)
+    const run = async (change: () => Promise<void>) => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            await change();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Something went wrong");
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleInvite = () =>
+        run(async () => {
+            setSharing(
+                await requestJson<ProjectSharing>(`/api/projects/${projectId}/members`, {
+                    method: "POST",
+                    body: JSON.stringify({ email, role: inviteRole }),
+                })
+            );
+            setEmail("");
+        });
+
+    const handleRoleChange = (userId: string, role: MemberRole) =>
+        run(async () => {
+            setSharing(
+                await requestJson<ProjectSharing>(`/api/projects/${projectId}/members/${userId}`, {
+                    method: "PATCH",
+                    body: JSON.stringify({ role }),
+                })
+            );
+        });
+
+    const handleRemove = (userId: string) =>
+        run(async () => {
+            await requestJson(`/api/projects/${projectId}/members/${userId}`, { method: "DELETE" });
+            if (userId === session?.user?.id) {
+                // Left the project - it's no longer on the dashboard
+                onClose();
+                router.refresh();
+                return;
+            }
+            await load();
+        });
+
+    const handleRevoke = (inviteId: string) =>
+        run(async () => {
+            await requestJson(`/api/invites/${inviteId}`, { method: "DELETE" });
+            await load();
+        });
+
+    const handleMove = (workspaceId: string | null) =>
+        run(async () => {
+            await requestJson(`/api/projects/${projectId}/workspace`, {
+                method: "PUT",
+                body: JSON.stringify({ workspaceId }),
+            });
+            await load();
+            router.refresh();
+        });
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm cursor-default"
+            onClick={(e) => {
+                e.stopPropagation();
+                onClose();
+            }}
+        >
+            <div
+                className="bg-gray-900 border border-gray-700 rounded-2xl p-6 w-full max-w-lg mx-4 shadow-2xl max-h-[85vh] overflow-y-auto"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <h2 className="text-xl font-semibold text-white mb-4 truncate">👥 Share &ldquo;{projectName}&rdquo;</h2>
+
+                {error && <p className="mb-4 text-sm text-red-400">{error}</p>}
+
+                {!sharing ? (
+                    !error && <p className="text-sm text-gray-500">Loading...</p>
+                ) : (
+                    <>
+                        {/* Invite by email */}
+                        {isOwner && (
+                            <div className="flex gap-2 mb-6">
+                                <input
+                                    type="email"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    onKeyDown={(e) => e.key === "Enter" && email.trim() && handleInvite()}
+                                    placeholder="Email address"
+                                    className="flex-1 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-purple-500"
+                                />
+                                <select
+                                    value={inviteRole}
+                                    onChange={(e) => setInviteRole(e.target.value as MemberRole)}
+                                    className="px-2 py-2 bg-gray-800 border border-gray-600 rounded-lg text-sm text-white"
+                                >
+                                    <option value="EDITOR">{MEMBER_ROLE_LABELS.EDITOR}</option>
+                                    <option value="VIEWER">{MEMBER_ROLE_LABELS.VIEWER}</option>
+                                </select>
+                                <button
+                                    onClick={handleInvite}
+                                    disabled={isBusy || !email.trim()}
+                                    className="px-4 py-2 bg-linear-to-r from-purple-600 to-pink-600 text-white text-sm font-semibold rounded-lg hover:opacity-90 disabled:opacity-50 cursor-pointer"
+                                >
+                                    ✉️ Invite
+                                </button>
+                            </div>
+                        )}
+
+                        {/* People with access */}
+                        <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1">People</h3>
+                        <ul className="divide-y divide-white/5 mb-4">
+                            <PersonRow user={sharing.owner}>
+                                <span className="text-xs text-gray-400">{MEMBER_ROLE_LABELS.OWNER}</span>
+                            </PersonRow>
+                            {sharing.members.map(({ user, role }) => (
+                                <PersonRow key={user.id} user={user}>
+                                    {isOwner ? (
+                                        <>
+                                            <select
+                                                value={role}
+                                                onChange={(e) => handleRoleChange(user.id, e.target.value as MemberRole)}
+                                                disabled={isBusy}
+                                                className="px-2 py-1 bg-gray-800 border border-gray-600 rounded text-xs text-white"
+                                            >
+                                                <option value="EDITOR">{MEMBER_ROLE_LABELS.EDITOR}</option>
+                                                <option value="VIEWER">{MEMBER_ROLE_LABELS.VIEWER}</option>
+                                            </select>
+                                            <button
+                                                onClick={() => handleRemove(user.id)}
+                                                disabled={isBusy}
+                                                className="p-1 text-red-400 hover:text-red-300 cursor-pointer"
+                                                title="Remove"
+                                            >
+                                                ✕
+                                            </button>
+                                        </>
+                                    ) : user.id === session?.user?.id ? (
+                                        <button
+                                            onClick={() => handleRemove(user.id)}
+                                            disabled={isBusy}
+                                            className="text-xs text-red-400 hover:text-red-300 cursor-pointer"
+                                        >
+                                            🚪 Leave
+                                        </button>
+                                    ) : (
+                                        <span className="text-xs text-gray-400">{MEMBER_ROLE_LABELS[role]}</span>
+                                    )}
+                                </PersonRow>
+                            ))}
+                        </ul>
+
+                        {/* Pending invites - owners only */}
+                        {sharing.invites.length > 0 && (
+                            <>
+                                <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1">
+                                    Invited
+                                </h3>
+                                <ul className="space-y-1 mb-4">
+                                    {sharing.invites.map((invite) => (
+                                        <li key={invite.id} className="flex items-center gap-3 py-1 text-sm">
+                                            <span className="flex-1 text-gray-300 truncate">✉️ {invite.email}</span>
+                                            <span className="text-xs text-gray-500">{MEMBER_ROLE_LABELS[invite.role]}</span>
+                                            <button
+                                                onClick={() => handleRevoke(invite.id)}
+                                                disabled={isBusy}
+                                                className="text-xs text-red-400 hover:text-red-300 cursor-pointer"
+                                            >
+                                                Revoke
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </>
+                        )}
+
+                        {/* Workspace - its members get their workspace role on the project */}
+                        <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">Workspace</h3>
+                        {isOwner ? (
+                            <select
+                                value={sharing.workspace?.id ?? ""}
+                                onChange={(e) => handleMove(e.target.value || null)}
+                                disabled={isBusy}
+                                className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-sm text-white"
+                            >
+                                <option value="">🔒 None - only the people above</option>
+                                {/* Keep the current workspace listed even without editor access to it */}
+                                {sharing.workspace && !workspaces.some((w) => w.id === sharing.workspace?.id) && (
+                                    <option value={sharing.workspace.id}>🏢 {sharing.workspace.name}</option>
+                                )}
+                                {workspaces.map((workspace) => (
+                                    <option key={workspace.id} value={workspace.id}>
+                                        🏢 {workspace.name}
+                                    </option>
+                                ))}
+                            </select>
+                        ) : (
+                            <p className="text-sm text-gray-400">
+                                {sharing.workspace ? `🏢 ${sharing.workspace.name}` : "🔒 Not in a workspace"}
+                            </p>
+                        )}
+
+                        {isOwner && <ShareLinksSection projectId={projectId} size={projectSize} />}
+                    </>
+                )}
+
+                <div className="flex justify-end mt-6">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-gray-400 hover:text-white transition-colors cursor-pointer"
+                    >
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
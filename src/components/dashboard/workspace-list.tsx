@@ -0,0 +1,291 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { requestJson } from "@/lib/api/request-json";
+import {
+    MEMBER_ROLE_LABELS,
+    type MemberRole,
+    type MemberSummary,
+    type WorkspaceSummary,
+} from "@/lib/types/sharing";
+
+interface WorkspaceListProps {
+    workspaces: WorkspaceSummary[];
+}
+
+const ROLES: MemberRole[] = ["OWNER", "EDITOR", "VIEWER"];
+
+function WorkspaceMembersModal({ workspace, onClose }: { workspace: WorkspaceSummary; onClose: () => void }) {
+    const router = useRouter();
+    const { data: session } = useSession();
+    const [members, setMembers] = useState<MemberSummary[] | null>(null);
+    const [email, setEmail] = useState("");
+    const [role, setRole] = useState<MemberRole>("EDITOR");
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const isOwner = workspace.role === "OWNER";
+    const membersUrl = `/api/workspaces/${workspace.id}/members`;
+
+    const load = useCallback(async () => {
+        setMembers(await requestJson<MemberSummary[]>(membersUrl));
+    }, [membersUrl]);
+
+    useEffect(() => {
+        load().catch((err) => setError(err instanceof Error ? err.message : "Couldn't load members"));
+    }, [load]);
+
+    // Run a change, then show its result (or its error)
+    const run = async (change: () => Promise<void>) => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            await change();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Something went wrong");
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleAdd = () =>
+        run(async () => {
+            setMembers(
+                await requestJson<MemberSummary[]>(membersUrl, {
+                    method: "POST",
+                    body: JSON.stringify({ email, role }),
+                })
+            );
+            setEmail("");
+            router.refresh();
+        });
+
+    const handleRoleChange = (userId: string, newRole: MemberRole) =>
+        run(async () => {
+            setMembers(
+                await requestJson<MemberSummary[]>(`${membersUrl}/${userId}`, {
+                    method: "PATCH",
+                    body: JSON.stringify({ role: newRole }),
+                })
+            );
+        });
+
+    const handleRemove = (userId: string) =>
+        run(async () => {
+            await requestJson(`${membersUrl}/${userId}`, { method: "DELETE" });
+            if (userId === session?.user?.id) {
+                onClose();
+            } else {
+                await load();
+            }
+            router.refresh();
+        });
+
+    const handleDelete = () => {
+        if (!confirm(`Delete "${workspace.name}"? Its projects go back to the people who created them.`)) return;
+        run(async () => {
+            await requestJson(`/api/workspaces/${workspace.id}`, { method: "DELETE" });
+            onClose();
+            router.refresh();
+        });
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+            onClick={onClose}
+        >
+            <div
+                className="bg-gray-900 border border-gray-700 rounded-2xl p-6 w-full max-w-lg mx-4 shadow-2xl max-h-[85vh] overflow-y-auto"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <h2 className="text-xl font-semibold text-white mb-1 truncate">🏢 {workspace.name}</h2>
+                <p className="text-sm text-gray-400 mb-4">
+                    Members get their role on every project in the workspace.
+                </p>
+
+                {error && <p className="mb-4 text-sm text-red-400">{error}</p>}
+
+                {/* Add by email - workspaces have no invites, so it has to be someone who has signed in */}
+                {isOwner && (
+                    <div className="flex gap-2 mb-6">
+                        <input
+                            type="email"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            onKeyDown={(e) => e.key === "Enter" && email.trim() && handleAdd()}
+                            placeholder="Email address"
+                            className="flex-1 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-purple-500"
+                        />
+                        <select
+                            value={role}
+                            onChange={(e) => setRole(e.target.value as MemberRole)}
+                            className="px-2 py-2 bg-gray-800 border border-gray-600 rounded-lg text-sm text-white"
+                        >
+                            {ROLES.map((option) => (
+                                <option key={option} value={option}>{MEMBER_ROLE_LABELS[option]}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={handleAdd}
+                            disabled={isBusy || !email.trim()}
+                            className="px-4 py-2 bg-linear-to-r from-purple-600 to-pink-600 text-white text-sm font-semibold rounded-lg hover:opacity-90 disabled:opacity-50 cursor-pointer"
+                        >
+                            ➕ Add
+                        </button>
+                    </div>
+                )}
+
+                {!members ? (
+                    !error && <p className="text-sm text-gray-500">Loading...</p>
+                ) : (
+                    <ul className="divide-y divide-white/5">
+                        {members.map(({ user, role: memberRole }) => (
+                            <li key={user.id} className="flex items-center gap-3 py-2">
+                                <div className="w-8 h-8 rounded-full bg-purple-600/40 flex items-center justify-center text-sm font-semibold text-white shrink-0">
+                                    {(user.name || user.email).charAt(0).toUpperCase()}
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm text-white truncate">{user.name || user.email}</p>
+                                    {user.name && <p className="text-xs text-gray-500 truncate">{user.email}</p>}
+                                </div>
+                                {isOwner ? (
+                                    <select
+                                        value={memberRole}
+                                        onChange={(e) => handleRoleChange(user.id, e.target.value as MemberRole)}
+                                        disabled={isBusy}
+                                        className="px-2 py-1 bg-gray-800 border border-gray-600 rounded text-xs text-white"
+                                    >
+                                        {ROLES.map((option) => (
+                                            <option key={option} value={option}>{MEMBER_ROLE_LABELS[option]}</option>
+                                        ))}
+                                    </select>
+                                ) : (
+                                    <span className="text-xs text-gray-400">{MEMBER_ROLE_LABELS[memberRole]}</span>
+                                )}
+                                {(isOwner || user.id === session?.user?.id) && (
+                                    <button
+                                        onClick={() => handleRemove(user.id)}
+                                        disabled={isBusy}
+                                        className="p-1 text-red-400 hover:text-red-300 cursor-pointer"
+                                        title={user.id === session?.user?.id ? "Leave" : "Remove"}
+                                    >
+                                        {user.id === session?.user?.id ? "🚪" : "✕"}
+                                    </button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <div className="flex items-center justify-between mt-6">
+                    {isOwner ? (
+                        <button
+                            onClick={handleDelete}
+                            disabled={isBusy}
+                            className="text-sm text-red-400 hover:text-red-300 cursor-pointer"
+                        >
+                            🗑️ Delete workspace
+                        </button>
+                    ) : (
+                        <span />
+                    )}
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-gray-400 hover:text-white transition-colors cursor-pointer"
+                    >
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export function WorkspaceList({ workspaces }: WorkspaceListProps) {
+    const router = useRouter();
+    const [managing, setManaging] = useState<WorkspaceSummary | null>(null);
+    const [isCreating, setIsCreating] = useState(false);
+    const [name, setName] = useState("");
+    const [error, setError] = useState<string | null>(null);
+
+    const handleCreate = async () => {
+        setError(null);
+        try {
+            const workspace = await requestJson<WorkspaceSummary>("/api/workspaces", {
+                method: "POST",
+                body: JSON.stringify({ name }),
+            });
+            setIsCreating(false);
+            setName("");
+            setManaging(workspace);
+            router.refresh();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Couldn't create workspace");
+        }
+    };
+
+    return (
+        <div className="mb-10">
+            <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                <span>🏢</span> Workspaces
+            </h3>
+            <div className="flex flex-wrap items-center gap-3">
+                {workspaces.map((workspace) => (
+                    <button
+                        key={workspace.id}
+                        onClick={() => setManaging(workspace)}
+                        className="flex items-center gap-2 px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-sm text-white hover:border-purple-500/50 hover:bg-white/10 transition-all cursor-pointer"
+                    >
+                        <span className="font-medium">{workspace.name}</span>
+                        <span className="text-xs text-gray-500">
+                            {workspace.memberCount} {workspace.memberCount === 1 ? "member" : "members"} •{" "}
+                            {MEMBER_ROLE_LABELS[workspace.role].toLowerCase()}
+                        </span>
+                    </button>
+                ))}
+
+                {isCreating ? (
+                    <div className="flex items-center gap-2">
+                        <input
+                            autoFocus
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter" && name.trim()) handleCreate();
+                                if (e.key === "Escape") setIsCreating(false);
+                            }}
+                            placeholder="Workspace name"
+                            className="px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-purple-500"
+                        />
+                        <button
+                            onClick={handleCreate}
+                            disabled={!name.trim()}
+                            className="px-3 py-2 bg-linear-to-r from-purple-600 to-pink-600 text-white text-sm font-semibold rounded-lg hover:opacity-90 disabled:opacity-50 cursor-pointer"
+                        >
+                            Create
+                        </button>
+                        <button
+                            onClick={() => setIsCreating(false)}
+                            className="px-2 py-2 text-sm text-gray-400 hover:text-white cursor-pointer"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                ) : (
+                    <button
+                        onClick={() => setIsCreating(true)}
+                        className="px-4 py-2 border border-dashed border-white/20 rounded-xl text-sm text-gray-400 hover:text-white hover:border-purple-500/50 transition-all cursor-pointer"
+                    >
+                        ➕ New workspace
+                    </button>
+                )}
+            </div>
+            {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+
+            {managing && <WorkspaceMembersModal workspace={managing} onClose={() => setManaging(null)} />}
+        </div>
+    );
+}
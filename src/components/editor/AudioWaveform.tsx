@@ -0,0 +1,61 @@
+"use client";
+
+import { useWaveform } from "./hooks/useWaveform";
+import { sliceWaveform } from "@/lib/core/audio/waveform";
+
+interface AudioWaveformProps {
+    src: string | undefined;
+    /** In-point into the source, in seconds */
+    sourceOffset: number;
+    /** Clip length on the timeline, in seconds */
+    duration: number;
+    fadeIn: number;
+    fadeOut: number;
+    volume: number;
+}
+
+// Horizontal resolution of the drawn waveform (SVG user units)
+const BUCKETS = 200;
+
+/**
+ * Waveform of the visible part of an audio clip, shaped by its volume and fades
+ */
+export function AudioWaveform({ src, sourceOffset, duration, fadeIn, fadeOut, volume }: AudioWaveformProps) {
+    const waveform = useWaveform(src);
+
+    if (!waveform || duration <= 0) {
+        return <div className="absolute inset-0 bg-white/5 animate-pulse pointer-events-none" />;
+    }
+
+    // The clip may run past the end of the source; only that part has samples
+    const covered = Math.max(0, Math.min(duration, waveform.duration - sourceOffset));
+    const peaks = sliceWaveform(waveform, sourceOffset, covered, Math.round((BUCKETS * covered) / duration));
+    const step = peaks.length > 0 ? (BUCKETS * covered) / duration / peaks.length : 0;
+
+    // Fades scale the drawn amplitude the same way the mixer's gain envelope does
+    const envelope = (t: number) => {
+        let gain = volume;
+        if (fadeIn > 0 && t < fadeIn) gain *= t / fadeIn;
+        if (fadeOut > 0 && t > duration - fadeOut) gain *= Math.max(0, (duration - t) / fadeOut);
+        return gain;
+    };
+
+    const heights = peaks.map((peak, i) => Math.min(1, peak * envelope(((i + 0.5) * step * duration) / BUCKETS)));
+    // Mirrored bars: along the top edge left to right, back along the bottom edge
+    const top = heights.map(
+        (h, i) => `${i === 0 ? "M" : "L"}${(i * step).toFixed(2)},${(1 - h).toFixed(3)} L${((i + 1) * step).toFixed(2)},${(1 - h).toFixed(3)}`
+    );
+    const bottom = heights
+        .map((h, i) => `L${((i + 1) * step).toFixed(2)},${(1 + h).toFixed(3)} L${(i * step).toFixed(2)},${(1 + h).toFixed(3)}`)
+        .reverse();
+
+    return (
+        <svg
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            viewBox={`0 0 ${BUCKETS} 2`}
+            preserveAspectRatio="none"
+        >
+            {peaks.length > 0 && <path d={`${top.join(" ")} ${bottom.join(" ")} Z`} className="fill-white/40" />}
+        </svg>
+    );
+}
@@ -1,16 +1,28 @@
 "use client";
 
-import { useRef, useState, useEffect } from "react";
+import { useRef, useState, useEffect, useCallback } from "react";
+import * as fabric from "fabric";
 import { useCanvas } from "./hooks/useCanvas";
 import { ContextMenu } from "./ContextMenu";
 import { useEditorStore } from "@/stores/editor-store";
+import { useCollabStore } from "@/stores/collab-store";
+import { FrameSequenceExporter } from "@/lib/core";
+import { TRANSPARENT_BACKGROUND } from "@/lib/schemas/timeline";
+
+// Shown through the canvas when the project background is transparent
+const CHECKERBOARD_STYLE = {
+    backgroundImage: "conic-gradient(#3a3a48 25%, #24242e 0 50%, #3a3a48 0 75%, #24242e 0)",
+    backgroundSize: "24px 24px",
+};
 
 export function Canvas() {
     const containerRef = useRef<HTMLDivElement>(null);
     const wrapperRef = useRef<HTMLDivElement>(null);
     const canvasRef = useCanvas(containerRef);
-    const { canvas, selectedIds } = useEditorStore();
+    const { canvas } = useEditorStore();
+    const isTransparent = useEditorStore((state) => state.project?.backgroundColor === TRANSPARENT_BACKGROUND);
     const [contextMenu, setContextMenu] = useState<{ x: number; y: number; eventId: string | null } | null>(null);
+    const peers = useCollabStore((state) => state.peers);
 
     // Handle right-click using Fabric's mouse:down event with button detection
     useEffect(() => {
@@ -31,8 +43,8 @@ export function Canvas() {
                         y: e.e.clientY,
                         eventId: target.data.id,
                     });
-                } else if (selectedIds.size > 0) {
-                    // Right-clicked on empty space but have selection
+                } else {
+                    // Right-clicked on empty space (frame actions are always available)
                     setContextMenu({
                         x: e.e.clientX,
                         y: e.e.clientY,
@@ -47,7 +59,59 @@ export function Canvas() {
         return () => {
             canvas.off('mouse:down', handleMouseDown);
         };
-    }, [canvas, selectedIds]);
+    }, [canvas]);
+
+    // Collaborators' selections - a dashed outline and name tag in their colour, drawn over each render
+    useEffect(() => {
+        if (!canvas || peers.length === 0) return;
+        const fabricCanvas: fabric.Canvas = canvas;
+
+        const drawPeerSelections = ({ ctx }: { ctx: CanvasRenderingContext2D }) => {
+            const objects = fabricCanvas.getObjects();
+            peers.forEach(({ user, presence }) => {
+                presence.selection.forEach((id) => {
+                    const obj = objects.find((o) => (o as { data?: { id?: string } }).data?.id === id);
+                    if (!obj || !obj.visible) return;
+                    const corners = obj
+                        .getCoords()
+                        .map((point) => fabric.util.transformPoint(point, fabricCanvas.viewportTransform));
+
+                    ctx.save();
+                    ctx.strokeStyle = user.color;
+                    ctx.lineWidth = 2;
+                    ctx.setLineDash([6, 4]);
+                    ctx.beginPath();
+                    corners.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+                    ctx.closePath();
+                    ctx.stroke();
+
+                    ctx.font = "600 11px sans-serif";
+                    const tagWidth = ctx.measureText(user.name).width + 8;
+                    ctx.fillStyle = user.color;
+                    ctx.fillRect(corners[0].x, corners[0].y - 16, tagWidth, 16);
+                    ctx.fillStyle = "#0f172a";
+                    ctx.fillText(user.name, corners[0].x + 4, corners[0].y - 4);
+                    ctx.restore();
+                });
+            });
+        };
+
+        fabricCanvas.on("after:render", drawPeerSelections);
+        fabricCanvas.requestRenderAll();
+        return () => {
+            fabricCanvas.off("after:render", drawPeerSelections);
+            fabricCanvas.requestRenderAll();
+        };
+    }, [canvas, peers]);
+
+    // Render the frame at the playhead through the export renderer (no selection handles, full resolution)
+    const handleSaveFrame = useCallback(() => {
+        const { project, currentTime } = useEditorStore.getState();
+        if (!project) return;
+        new FrameSequenceExporter()
+            .exportStillAndDownload({ project, time: currentTime })
+            .catch((error) => console.error("Failed to save frame:", error));
+    }, []);
 
     // Also prevent default context menu on the wrapper
     useEffect(() => {
@@ -95,6 +159,7 @@ export function Canvas() {
                         boxShadow: "0 0 40px rgba(0,0,0,0.7), 0 0 80px rgba(139, 92, 246, 0.1)",
                         borderRadius: "8px",
                         border: "1px solid rgba(255,255,255,0.05)",
+                        ...(isTransparent ? CHECKERBOARD_STYLE : {}),
                     }}
                 />
             </div>
@@ -106,6 +171,7 @@ export function Canvas() {
                     y={contextMenu.y}
                     eventId={contextMenu.eventId}
                     onClose={() => setContextMenu(null)}
+                    onSaveFrame={handleSaveFrame}
                 />
             )}
         </div>
@@ -8,9 +8,11 @@ interface ContextMenuProps {
     y: number;
     onClose: () => void;
     eventId?: string | null;
+    /** Shown as "Save frame as PNG" when provided (editor canvas only) */
+    onSaveFrame?: () => void;
 }
 
-export function ContextMenu({ x, y, onClose, eventId }: ContextMenuProps) {
+export function ContextMenu({ x, y, onClose, eventId, onSaveFrame }: ContextMenuProps) {
     const menuRef = useRef<HTMLDivElement>(null);
     const {
         selectedIds,
@@ -168,6 +170,21 @@ export function ContextMenu({ x, y, onClose, eventId }: ContextMenuProps) {
             disabled: !canRedo(),
             shortcut: "Ctrl+Y",
         },
+        ...(onSaveFrame
+            ? [
+                { separator: true },
+                {
+                    label: "Save frame as PNG",
+                    icon: "🖼️",
+                    action: () => {
+                        onSaveFrame();
+                        onClose();
+                    },
+                    disabled: false,
+                    shortcut: "",
+                },
+            ]
+            : []),
     ];
 
     return (
@@ -0,0 +1,262 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { Easing, NamedEasing } from "@/lib/schemas/timeline";
+import {
+    DEFAULT_CUBIC_BEZIER,
+    DEFAULT_SPRING,
+    DEFAULT_STEPS,
+    resolveEasing,
+} from "@/lib/core/timeline/easing";
+
+type ParametricEasing = Exclude<Easing, NamedEasing>;
+
+const NAMED_EASINGS: { value: NamedEasing; label: string }[] = [
+    { value: "linear", label: "Linear" },
+    { value: "easeIn", label: "Ease In" },
+    { value: "easeOut", label: "Ease Out" },
+    { value: "easeInOut", label: "Ease In/Out" },
+    { value: "bounce", label: "Bounce" },
+    { value: "elastic", label: "Elastic" },
+    { value: "back", label: "Back" },
+];
+
+const PARAMETRIC_EASINGS: { value: ParametricEasing["type"]; label: string }[] = [
+    { value: "cubicBezier", label: "Cubic Bezier…" },
+    { value: "steps", label: "Steps…" },
+    { value: "spring", label: "Spring…" },
+];
+
+const PARAMETRIC_DEFAULTS: Record<ParametricEasing["type"], ParametricEasing> = {
+    cubicBezier: DEFAULT_CUBIC_BEZIER,
+    steps: DEFAULT_STEPS,
+    spring: DEFAULT_SPRING,
+};
+
+export function isParametricEasing(easing: Easing | undefined): easing is ParametricEasing {
+    return typeof easing === "object" && easing !== null;
+}
+
+interface EasingSelectProps {
+    value: Easing | undefined;
+    onChange: (easing: Easing) => void;
+    disabled?: boolean;
+    title?: string;
+    className?: string;
+}
+
+/**
+ * Dropdown for picking a named preset or switching to a parametric curve
+ */
+export function EasingSelect({ value, onChange, disabled, title, className }: EasingSelectProps) {
+    const current = isParametricEasing(value) ? value.type : value || "linear";
+
+    const handleChange = (next: string) => {
+        if (next in PARAMETRIC_DEFAULTS) {
+            // Keep the current parameters when re-selecting the same curve type
+            const type = next as ParametricEasing["type"];
+            onChange(isParametricEasing(value) && value.type === type ? value : PARAMETRIC_DEFAULTS[type]);
+        } else {
+            onChange(next as NamedEasing);
+        }
+    };
+
+    return (
+        <select
+            value={current}
+            onChange={(e) => handleChange(e.target.value)}
+            disabled={disabled}
+            title={title}
+            className={className}
+        >
+            {NAMED_EASINGS.map((e) => (
+                <option key={e.value} value={e.value}>{e.label}</option>
+            ))}
+            <optgroup label="Custom">
+                {PARAMETRIC_EASINGS.map((e) => (
+                    <option key={e.value} value={e.value}>{e.label}</option>
+                ))}
+            </optgroup>
+        </select>
+    );
+}
+
+// Curve preview geometry (SVG user units)
+const WIDTH = 200;
+const HEIGHT = 120;
+const PAD = 10;
+const SAMPLES = 120;
+
+interface EasingCurveEditorProps {
+    value: ParametricEasing;
+    onChange: (easing: ParametricEasing) => void;
+    /** Called when a drag or field edit is finished (e.g. to save history) */
+    onCommit?: () => void;
+}
+
+/**
+ * Curve preview with parameter fields - cubic-bezier control points can be dragged
+ */
+export function EasingCurveEditor({ value, onChange, onCommit }: EasingCurveEditorProps) {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const [dragHandle, setDragHandle] = useState<1 | 2 | null>(null);
+
+    const easingFn = resolveEasing(value);
+    const points = Array.from({ length: SAMPLES + 1 }, (_, i) => {
+        const t = i / SAMPLES;
+        return [t, easingFn(t)] as const;
+    });
+
+    // Fixed range for bezier so the handles don't jump while dragging; fit everything else
+    const values = points.map(([, v]) => v);
+    const yMin = value.type === "cubicBezier" ? -0.5 : Math.min(0, ...values) - 0.1;
+    const yMax = value.type === "cubicBezier" ? 1.5 : Math.max(1, ...values) + 0.1;
+
+    const toX = (t: number) => PAD + t * (WIDTH - 2 * PAD);
+    const toY = (v: number) => PAD + ((yMax - v) / (yMax - yMin)) * (HEIGHT - 2 * PAD);
+
+    const path = points
+        .map(([t, v], i) => `${i === 0 ? "M" : "L"}${toX(t).toFixed(1)},${toY(v).toFixed(1)}`)
+        .join(" ");
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (!dragHandle || value.type !== "cubicBezier" || !svgRef.current) return;
+
+        const rect = svgRef.current.getBoundingClientRect();
+        const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+        const y = ((e.clientY - rect.top) / rect.height) * HEIGHT;
+        const t = Math.min(Math.max((x - PAD) / (WIDTH - 2 * PAD), 0), 1);
+        const v = Math.min(Math.max(yMax - ((y - PAD) / (HEIGHT - 2 * PAD)) * (yMax - yMin), yMin), yMax);
+        const round = (n: number) => Math.round(n * 100) / 100;
+
+        onChange(
+            dragHandle === 1
+                ? { ...value, x1: round(t), y1: round(v) }
+                : { ...value, x2: round(t), y2: round(v) }
+        );
+    };
+
+    const handlePointerUp = () => {
+        if (!dragHandle) return;
+        setDragHandle(null);
+        onCommit?.();
+    };
+
+    const startDrag = (e: React.PointerEvent, handle: 1 | 2) => {
+        e.stopPropagation();
+        svgRef.current?.setPointerCapture(e.pointerId);
+        setDragHandle(handle);
+    };
+
+    const inputClass = "w-full bg-slate-700/50 border border-white/10 rounded px-2 py-1 text-xs text-white";
+
+    const numberField = (
+        label: string,
+        field: string,
+        current: number,
+        options: { step: number; min?: number; max?: number; integer?: boolean }
+    ) => (
+        <label key={field} className="block">
+            <span className="text-[10px] text-gray-500">{label}</span>
+            <input
+                type="number"
+                step={options.step}
+                min={options.min}
+                max={options.max}
+                value={current}
+                onChange={(e) => {
+                    let n = parseFloat(e.target.value);
+                    if (isNaN(n)) return;
+                    if (options.integer) n = Math.round(n);
+                    if (options.min !== undefined) n = Math.max(options.min, n);
+                    if (options.max !== undefined) n = Math.min(options.max, n);
+                    onChange({ ...value, [field]: n } as ParametricEasing);
+                }}
+                onBlur={onCommit}
+                className={inputClass}
+            />
+        </label>
+    );
+
+    return (
+        <div className="space-y-2 bg-slate-900/40 rounded p-2">
+            <svg
+                ref={svgRef}
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                className="w-full h-auto bg-slate-800/60 rounded select-none touch-none"
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+            >
+                {/* 0 and 1 guides */}
+                <line x1={PAD} x2={WIDTH - PAD} y1={toY(0)} y2={toY(0)} stroke="rgba(255,255,255,0.1)" />
+                <line x1={PAD} x2={WIDTH - PAD} y1={toY(1)} y2={toY(1)} stroke="rgba(255,255,255,0.1)" strokeDasharray="3 3" />
+
+                {value.type === "cubicBezier" && (
+                    <>
+                        <line x1={toX(0)} y1={toY(0)} x2={toX(value.x1)} y2={toY(value.y1)} stroke="rgba(192,132,252,0.5)" />
+                        <line x1={toX(1)} y1={toY(1)} x2={toX(value.x2)} y2={toY(value.y2)} stroke="rgba(192,132,252,0.5)" />
+                    </>
+                )}
+
+                <path d={path} fill="none" stroke="#c084fc" strokeWidth={2} />
+
+                {value.type === "cubicBezier" && (
+                    <>
+                        <circle
+                            cx={toX(value.x1)}
+                            cy={toY(value.y1)}
+                            r={5}
+                            className="fill-purple-500 stroke-white cursor-grab"
+                            onPointerDown={(e) => startDrag(e, 1)}
+                        />
+                        <circle
+                            cx={toX(value.x2)}
+                            cy={toY(value.y2)}
+                            r={5}
+                            className="fill-purple-500 stroke-white cursor-grab"
+                            onPointerDown={(e) => startDrag(e, 2)}
+                        />
+                    </>
+                )}
+            </svg>
+
+            {value.type === "cubicBezier" && (
+                <div className="grid grid-cols-4 gap-1">
+                    {numberField("x1", "x1", value.x1, { step: 0.05, min: 0, max: 1 })}
+                    {numberField("y1", "y1", value.y1, { step: 0.05 })}
+                    {numberField("x2", "x2", value.x2, { step: 0.05, min: 0, max: 1 })}
+                    {numberField("y2", "y2", value.y2, { step: 0.05 })}
+                </div>
+            )}
+
+            {value.type === "steps" && (
+                <div className="grid grid-cols-2 gap-1">
+                    {numberField("Steps", "steps", value.steps, { step: 1, min: 1, max: 100, integer: true })}
+                    <label className="block">
+                        <span className="text-[10px] text-gray-500">Jump</span>
+                        <select
+                            value={value.position || "end"}
+                            onChange={(e) => {
+                                onChange({ ...value, position: e.target.value as "start" | "end" });
+                                onCommit?.();
+                            }}
+                            className={inputClass}
+                        >
+                            <option value="start">Start</option>
+                            <option value="end">End</option>
+                        </select>
+                    </label>
+                </div>
+            )}
+
+            {value.type === "spring" && (
+                <div className="grid grid-cols-3 gap-1">
+                    {numberField("Stiffness", "stiffness", value.stiffness, { step: 10, min: 1, max: 1000 })}
+                    {numberField("Damping", "damping", value.damping, { step: 1, min: 0, max: 100 })}
+                    {numberField("Mass", "mass", value.mass, { step: 0.1, min: 0.1, max: 10 })}
+                </div>
+            )}
+        </div>
+    );
+}
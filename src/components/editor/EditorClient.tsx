@@ -2,7 +2,10 @@
 
 import { useEffect, useState, useCallback, useRef } from "react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
 import { useEditorStore } from "@/stores/editor-store";
+import { useCollabStore } from "@/stores/collab-store";
 import { Canvas } from "@/components/editor/Canvas";
 import { Timeline } from "@/components/editor/Timeline";
 import { PropertyPanel } from "@/components/editor/PropertyPanel";
@@ -10,9 +13,17 @@ import { AddElementToolbar } from "@/components/editor/AddElementToolbar";
 import { ExportModal } from "@/components/editor/ExportModal";
 import { AIGenerateModal } from "@/components/editor/AIGenerateModal";
 import { ContextMenu } from "@/components/editor/ContextMenu";
+import { VersionHistoryDrawer } from "@/components/editor/VersionHistoryDrawer";
+import { SaveConflictModal } from "@/components/editor/SaveConflictModal";
 import { useResizable } from "@/components/editor/hooks/useResizable";
+import { useCollaboration } from "@/components/editor/hooks/useCollaboration";
 import { UserButton } from "@/components/auth/user-button";
 import type { VideoProject as EditorVideoProject } from "@/lib/schemas/timeline";
+import { renderProjectThumbnails } from "@/lib/core/thumbnail";
+import { toTimelineEvents, type SavedTimelineEvent } from "@/lib/core/timeline/project";
+import { mergeTimelines, type TimelineMerge } from "@/lib/versions/merge";
+import { projectETag, type VideoProject as StoredVideoProject } from "@/lib/types/project";
+import type { MemberRole } from "@/lib/types/sharing";
 
 // DB project shape adapted for editor
 interface EditorProjectInput {
@@ -24,9 +35,46 @@ interface EditorProjectInput {
     fps: number;
     duration: number;
     backgroundColor: string;
+    thumbnailTime?: number;
+    revision: number;
+    // The signed-in user's role - viewers can look around but nothing is saved or shared
+    role: MemberRole;
     events: EditorVideoProject["events"];
 }
 
+type EditorEvent = EditorVideoProject["events"][number];
+type SavedEvent = SavedTimelineEvent;
+
+// What a save writes - compared to tell whether there are unsaved changes
+const savedStateOf = (project: EditorVideoProject) => JSON.stringify([project.events, project.thumbnailTime, project.backgroundColor]);
+
+// What the dashboard thumbnails show - they are only rendered again when this changes
+const thumbnailStateOf = (project: EditorVideoProject) =>
+    JSON.stringify([project.events, project.thumbnailTime, project.backgroundColor, project.duration]);
+
+// Editor events to the saved timeline - the array order is the layer
+const toTimeline = (events: EditorEvent[]): SavedEvent[] =>
+    events.map((event) => ({
+        id: event.id,
+        type: event.type,
+        startTime: event.startTime,
+        duration: event.duration,
+        properties: event.properties,
+        animations: event.animations ?? [],
+        keyframes: event.keyframes,
+        transition: event.transition,
+        exitTransition: event.exitTransition,
+    }));
+
+// Saved timeline back to editor events, as the editor page loads them
+const toEditorEvents = toTimelineEvents;
+
+// A save rejected because the project was saved elsewhere (409), with the merge offered for it
+interface SaveConflict {
+    server: StoredVideoProject;
+    merge: TimelineMerge<SavedEvent>;
+}
+
 // Floating Play Button Component for when Timeline is hidden
 function FloatingPlayButton() {
     const { currentTime, setCurrentTime, isPlaying, setIsPlaying, project } = useEditorStore();
@@ -112,11 +160,25 @@ export function EditorClient({ project: dbProject }: EditorClientProps) {
         useEditorStore();
     const [isExportOpen, setIsExportOpen] = useState(false);
     const [isAIOpen, setIsAIOpen] = useState(false);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const router = useRouter();
+    const { data: session } = useSession();
+    const { status: collabStatus, peers } = useCollabStore();
     const [isSaving, setIsSaving] = useState(false);
     const [lastSaved, setLastSaved] = useState<Date | null>(null);
     const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
-    const lastSavedEventsRef = useRef<string | null>(null);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [saveConflict, setSaveConflict] = useState<SaveConflict | null>(null);
+    const lastSavedStateRef = useRef<string | null>(null);
+    // Revision the next save is based on (If-Match), and the timeline it had - the merge base
+    const revisionRef = useRef(dbProject.revision);
+    const lastSavedTimelineRef = useRef<SavedEvent[]>([]);
+    // Saves wait while a conflict is being resolved
+    const hasConflictRef = useRef(false);
     const isInitializedRef = useRef(false);
+    // Project state the last saved thumbnails were rendered from
+    const lastThumbnailStateRef = useRef<string | null>(null);
+    const isReadOnly = dbProject.role === "VIEWER";
 
     // Drag and drop state for layers
     const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
@@ -179,56 +241,142 @@ export function EditorClient({ project: dbProject }: EditorClientProps) {
             fps: dbProject.fps,
             duration: dbProject.duration,
             backgroundColor: dbProject.backgroundColor,
+            thumbnailTime: dbProject.thumbnailTime,
             events: dbProject.events,
         };
         setProject(videoProject);
-        // Initialize the saved state reference
-        lastSavedEventsRef.current = JSON.stringify(videoProject.events);
+        // The saved state is what the store loaded - setProject migrates legacy animations, which isn't a change
+        const loaded = useEditorStore.getState().project ?? videoProject;
+        lastSavedStateRef.current = savedStateOf(loaded);
+        revisionRef.current = dbProject.revision;
+        lastSavedTimelineRef.current = toTimeline(loaded.events);
+        hasConflictRef.current = false;
         isInitializedRef.current = true;
     }, [dbProject, setProject]);
 
-    // Save to database - convert back to timeline format
-    const saveProject = useCallback(async () => {
-        if (!project) return;
+    // Live editing with everyone else who has the project open (needs NEXT_PUBLIC_COLLAB_URL)
+    useCollaboration(dbProject.id, session?.user?.name || session?.user?.email || null, isReadOnly);
+
+    // Save to database - convert back to timeline format. Resolves to whether the server now has this project,
+    // so callers that act on the saved copy (server render, restore) can stop when it doesn't
+    const saveProject = useCallback(async (): Promise<boolean> => {
+        if (!project || hasConflictRef.current || isReadOnly) return false;
         setIsSaving(true);
         try {
             // Convert events back to timeline for DB
-            const timeline = project.events.map((event) => ({
-                id: event.id,
-                type: event.type,
-                startTime: event.startTime,
-                duration: event.duration,
-                properties: event.properties,
-                animations: event.animations,
-            }));
-
-            await fetch(`/api/projects/${project.id}`, {
+            const timeline = toTimeline(project.events);
+
+            // Dashboard poster frame and hover preview, when what they show has changed; a failed render still saves
+            const thumbnailState = thumbnailStateOf(project);
+            const thumbnails =
+                thumbnailState === lastThumbnailStateRef.current
+                    ? null
+                    : await renderProjectThumbnails(project).catch((err) => {
+                          console.warn("Failed to render thumbnails:", err);
+                          return null;
+                      });
+
+            const response = await fetch(`/api/projects/${project.id}`, {
                 method: "PATCH",
-                headers: { "Content-Type": "application/json" },
+                headers: {
+                    "Content-Type": "application/json",
+                    "If-Match": projectETag(revisionRef.current),
+                },
                 body: JSON.stringify({
                     name: project.name,
                     duration: project.duration,
+                    backgroundColor: project.backgroundColor,
                     timeline,
+                    thumbnailTime: project.thumbnailTime ?? null,
+                    ...thumbnails,
                 }),
             });
+            if (response.status === 409) {
+                // Saved elsewhere since our last save
+                const { project: server }: { project: StoredVideoProject } = await response.json();
+                const serverTimeline = toTimeline(toEditorEvents(server.timeline));
+                const merge = mergeTimelines(lastSavedTimelineRef.current, timeline, serverTimeline);
+                if (merge.conflicts.length === 0 && useCollabStore.getState().peers.length > 0) {
+                    // A collaborator saved the timeline we're sharing and none of their changes clash with ours -
+                    // continue from their save, and autosave writes the merge on top
+                    revisionRef.current = server.revision;
+                    lastSavedTimelineRef.current = serverTimeline;
+                    setProject({ ...project, events: toEditorEvents(merge.timeline) });
+                    return false;
+                }
+                // Hold further saves until the user picks a resolution
+                hasConflictRef.current = true;
+                setSaveConflict({ server, merge });
+                return false;
+            }
+            if (!response.ok) {
+                // 422 bodies list the failed checks with a JSONPath each - show the first one
+                const body = await response.json().catch(() => null);
+                const issue = body?.issues?.[0];
+                throw new Error(issue ? `${issue.path}: ${issue.message}` : body?.error || `Status ${response.status}`);
+            }
+            const saved: StoredVideoProject = await response.json();
+            revisionRef.current = saved.revision;
+            lastSavedTimelineRef.current = timeline;
+            if (thumbnails) lastThumbnailStateRef.current = thumbnailState;
             setLastSaved(new Date());
+            setSaveError(null);
             setHasUnsavedChanges(false);
-            lastSavedEventsRef.current = JSON.stringify(project.events);
+            lastSavedStateRef.current = savedStateOf(project);
+            return true;
         } catch (err) {
             console.error("Failed to save project:", err);
+            setSaveError(err instanceof Error ? err.message : "Save failed");
+            return false;
         } finally {
             setIsSaving(false);
         }
-    }, [project]);
+    }, [project, isReadOnly, setProject]);
+
+    // Resolve a save conflict - every choice continues from the server's revision
+    const resolveSaveConflict = useCallback(
+        (choice: "mine" | "theirs" | "merge") => {
+            if (!saveConflict || !project) return;
+            const { server, merge } = saveConflict;
+
+            revisionRef.current = server.revision;
+            lastSavedTimelineRef.current = toTimeline(toEditorEvents(server.timeline));
+            hasConflictRef.current = false;
+            setSaveConflict(null);
+
+            if (choice === "mine") {
+                saveProject();
+                return;
+            }
+
+            if (choice === "theirs") {
+                setProject({
+                    ...project,
+                    duration: server.duration,
+                    backgroundColor: server.backgroundColor,
+                    thumbnailTime: server.thumbnailTime ?? undefined,
+                    events: toEditorEvents(server.timeline),
+                });
+                const loaded = useEditorStore.getState().project;
+                if (loaded) lastSavedStateRef.current = savedStateOf(loaded);
+                setHasUnsavedChanges(false);
+                setSaveError(null);
+                return;
+            }
+
+            // The merged timeline differs from theirs, so autosave writes it on top
+            setProject({ ...project, events: toEditorEvents(merge.timeline) });
+        },
+        [saveConflict, project, saveProject, setProject]
+    );
 
     // Track unsaved changes
     useEffect(() => {
-        if (!project || !isInitializedRef.current) return;
-        const currentEvents = JSON.stringify(project.events);
-        if (lastSavedEventsRef.current !== null && currentEvents !== lastSavedEventsRef.current) {
+        if (!project || !isInitializedRef.current || isReadOnly) return;
+        if (lastSavedStateRef.current !== null && savedStateOf(project) !== lastSavedStateRef.current) {
             setHasUnsavedChanges(true);
         }
-    }, [project?.events]);
+    }, [project, isReadOnly]);
 
     // Auto-save after 2 seconds of inactivity
     useEffect(() => {
@@ -239,7 +387,7 @@ export function EditorClient({ project: dbProject }: EditorClientProps) {
         }, 2000);
 
         return () => clearTimeout(autoSaveTimeout);
-    }, [hasUnsavedChanges, project?.events, saveProject]);
+    }, [hasUnsavedChanges, project, saveProject]);
 
     // Warn before leaving with unsaved changes
     useEffect(() => {
@@ -361,11 +509,23 @@ export function EditorClient({ project: dbProject }: EditorClientProps) {
                     <div>
                         <h1 className="text-sm font-semibold text-white">{project.name}</h1>
                         <p className="text-xs text-gray-500 flex items-center gap-1">
-                            {isSaving ? (
+                            {isReadOnly ? (
+                                <>
+                                    <span>👁️</span>
+                                    <span>View only - changes aren&apos;t saved</span>
+                                </>
+                            ) : isSaving ? (
                                 <>
                                     <span className="animate-pulse">●</span>
                                     <span>Saving...</span>
                                 </>
+                            ) : saveError ? (
+                                <>
+                                    <span className="text-red-400">●</span>
+                                    <span className="text-red-400 truncate max-w-xs" title={saveError}>
+                                        Save failed - {saveError}
+                                    </span>
+                                </>
                             ) : hasUnsavedChanges ? (
                                 <>
                                     <span className="text-orange-400">●</span>
@@ -437,13 +597,47 @@ export function EditorClient({ project: dbProject }: EditorClientProps) {
                             redo
                         </button>
                     </div> */}
-                    <button
-                        onClick={saveProject}
-                        disabled={isSaving}
-                        className="px-3 py-1.5 bg-white/5 hover:bg-white/10 text-white text-sm font-medium rounded-lg transition-colors border border-white/5"
-                    >
-                        {isSaving ? "Saving..." : "Save"}
-                    </button>
+                    {/* Collaborators - a coloured initial each, matching their selection and playhead */}
+                    {collabStatus !== "off" && (
+                        <div
+                            className="flex items-center -space-x-1.5 mr-1"
+                            title={collabStatus === "connected" ? "Editing live" : "Reconnecting..."}
+                        >
+                            <span
+                                className={`w-2 h-2 mr-3 rounded-full ${collabStatus === "connected" ? "bg-green-400" : "bg-yellow-400 animate-pulse"}`}
+                            />
+                            {peers.map((peer) => (
+                                <div
+                                    key={peer.clientId}
+                                    className="w-7 h-7 rounded-full border-2 border-slate-900 flex items-center justify-center text-xs font-bold text-slate-900"
+                                    style={{ backgroundColor: peer.user.color }}
+                                    title={peer.user.name}
+                                >
+                                    {peer.user.name.charAt(0).toUpperCase()}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    {!isReadOnly && (
+                        <>
+                            <button
+                                onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+                                className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors border ${isHistoryOpen
+                                    ? 'bg-purple-600/30 text-purple-300 border-purple-500/40'
+                                    : 'bg-white/5 hover:bg-white/10 text-white border-white/5'}`}
+                                title="Version History"
+                            >
+                                🕘 History
+                            </button>
+                            <button
+                                onClick={saveProject}
+                                disabled={isSaving}
+                                className="px-3 py-1.5 bg-white/5 hover:bg-white/10 text-white text-sm font-medium rounded-lg transition-colors border border-white/5"
+                            >
+                                {isSaving ? "Saving..." : "Save"}
+                            </button>
+                        </>
+                    )}
                     {!isProjectEmpty && (
                         <button
                             onClick={() => setIsExportOpen(true)}
@@ -711,6 +905,35 @@ export function EditorClient({ project: dbProject }: EditorClientProps) {
             {/* Export Modal */}
             <ExportModal isOpen={isExportOpen} onClose={() => setIsExportOpen(false)} saveProject={saveProject} />
 
+            {/* Version History - a restore reloads the page data, which resets the editor */}
+            <VersionHistoryDrawer
+                isOpen={isHistoryOpen}
+                onClose={() => setIsHistoryOpen(false)}
+                projectId={project.id}
+                saveProject={saveProject}
+                getRevision={() => revisionRef.current}
+                onRestored={() => router.refresh()}
+            />
+
+            {/* Save Conflict - the project was saved elsewhere since it was loaded */}
+            <SaveConflictModal
+                isOpen={saveConflict !== null}
+                theirChanges={saveConflict?.merge.theirChanges ?? 0}
+                conflicts={
+                    saveConflict?.merge.conflicts.map((id) => {
+                        // Events I deleted are only in their copy
+                        const event =
+                            project.events.find((e) => e.id === id) ??
+                            saveConflict.server.timeline.find((e) => e.id === id);
+                        const text = event && "text" in event.properties ? (event.properties as { text?: string }).text : undefined;
+                        return text?.substring(0, 30) || event?.type || id;
+                    }) ?? []
+                }
+                onKeepMine={() => resolveSaveConflict("mine")}
+                onKeepTheirs={() => resolveSaveConflict("theirs")}
+                onMerge={() => resolveSaveConflict("merge")}
+            />
+
             {/* AI Generate Modal (for non-empty projects) */}
             {
                 !isProjectEmpty && (
@@ -1,17 +1,53 @@
 "use client";
 
-import { useState } from "react";
-import { VideoExporter } from "@/lib/core";
-import type { ExportProgress } from "@/lib/core";
+import { useEffect, useRef, useState } from "react";
+import {
+    AnimatedImageExporter,
+    ExportCancelledError,
+    ExportControl,
+    FrameSequenceExporter,
+    PLATFORM_PRESETS,
+    VideoExporter,
+    WebCodecsExporter,
+    canPickSaveFile,
+    describeVideoCodec,
+    findVideoCodecOption,
+    getPlatformPreset,
+    pickSaveFile,
+    probeVideoCodecs,
+} from "@/lib/core";
+import type { CodecProbeResult, ExportProgress, PaletteMode } from "@/lib/core";
+import type { RenderJobSummary } from "@/lib/types/render";
+import type { ExportArtifactMetadata } from "@/lib/types/export";
 import { useEditorStore } from "@/stores/editor-store";
+import type { AudioProperties } from "@/lib/schemas/timeline";
+import { TRANSPARENT_BACKGROUND } from "@/lib/schemas/timeline";
 
 interface ExportModalProps {
     isOpen: boolean;
     onClose: () => void;
-    saveProject: () => void;
+    // Resolves to false when the save failed or is held by a conflict
+    saveProject: () => Promise<boolean>;
 }
 
 type QualityPreset = "standard" | "high" | "ultra";
+type ExportFormat = "mp4" | "webm" | "gif" | "apng" | "png";
+type PngMode = "sequence" | "still";
+
+const FORMATS: { value: ExportFormat; label: string; extension: string; description: string }[] = [
+    { value: "mp4", label: "MP4", extension: "mp4", description: "Export your video as a high-quality MP4 file using H.264 encoding." },
+    { value: "webm", label: "WebM", extension: "webm", description: "VP9 video with Opus audio. Keeps the alpha channel when the canvas background is transparent." },
+    { value: "gif", label: "GIF", extension: "gif", description: "Animated GIF for Slack, READMEs and email. Limited to 256 colors per frame." },
+    { value: "apng", label: "APNG", extension: "png", description: "Animated PNG with full color and transparency. Larger than GIF." },
+    { value: "png", label: "PNG", extension: "zip", description: "Every frame as a numbered PNG in a ZIP, or just the frame at the playhead. Keeps transparency." },
+];
+
+// Animated image options
+const IMAGE_FPS_OPTIONS = [10, 12, 15, 20, 24, 30];
+const IMAGE_WIDTH_OPTIONS = [320, 480, 640, 800, 1080];
+
+// How often a server render is polled for progress
+const RENDER_POLL_INTERVAL_MS = 2000;
 
 interface QualityConfig {
     label: string;
@@ -42,44 +78,208 @@ export function ExportModal({ isOpen, onClose, saveProject }: ExportModalProps)
     const [progress, setProgress] = useState<ExportProgress | null>(null);
     const [error, setError] = useState<string | null>(null);
 
+    // Pause/resume/cancel for the running video export
+    const controlRef = useRef<ExportControl | null>(null);
+    const [isPaused, setIsPaused] = useState(false);
+    const [canControl, setCanControl] = useState(false);
+
+    // Server render being polled - it keeps rendering when the modal closes, only the polling stops
+    const [serverJob, setServerJob] = useState<RenderJobSummary | null>(null);
+    const pollingRef = useRef(false);
+    const [renderOnServer, setRenderOnServer] = useState(false);
+
+    // Browser exports are also uploaded to the project's export history, so they can be downloaded again later
+    const [keepCopy, setKeepCopy] = useState(true);
+    const [isSavingCopy, setIsSavingCopy] = useState(false);
+
+    // Closing the editor mid-export stops the worker instead of leaving it running
+    useEffect(() => () => {
+        controlRef.current?.cancel();
+        pollingRef.current = false;
+    }, []);
+
     // Check if browser is Firefox
     const isFirefox = typeof navigator !== "undefined" && navigator.userAgent.toLowerCase().includes("firefox");
+    // Without WebCodecs the export records the canvas in real time instead
+    const supportsOfflineExport = WebCodecsExporter.isSupported();
+    // Videos can be written straight to a file while they are encoded instead of being held in memory
+    const supportsStreaming = supportsOfflineExport && canPickSaveFile();
+    const [streamToDisk, setStreamToDisk] = useState(true);
 
     // Quality preset
     const [quality, setQuality] = useState<QualityPreset>("high");
 
+    // Destination platform preset (null = project size and frame rate)
+    const [presetId, setPresetId] = useState<string | null>(null);
+    const [fit, setFit] = useState<"contain" | "cover">("contain");
+
+    // Codec choice, from what the browser reports it can encode at the output size
+    const [codecId, setCodecId] = useState("avc-high");
+    const [codecProbe, setCodecProbe] = useState<CodecProbeResult[] | null>(null);
+
+    // Output format and animated image options
+    const [format, setFormat] = useState<ExportFormat>("mp4");
+    const [imageFps, setImageFps] = useState(15);
+    const [imageMaxWidth, setImageMaxWidth] = useState(480);
+    const [loopCount, setLoopCount] = useState(0);
+    const [paletteMode, setPaletteMode] = useState<PaletteMode>("global");
+    const [dither, setDither] = useState(true);
+    const [pngMode, setPngMode] = useState<PngMode>("sequence");
+    const isVideo = format === "mp4" || format === "webm";
+    const isAnimatedImage = format === "gif" || format === "apng";
+    const isStill = format === "png" && pngMode === "still";
+    const preset = isVideo && presetId ? getPlatformPreset(presetId) : undefined;
+    const formatConfig = FORMATS.find((f) => f.value === format)!;
+    const formatLabel = formatConfig.label;
+
     // Trim options
     const [trimStart, setTrimStart] = useState(0);
     const [trimEnd, setTrimEnd] = useState(0);
     const [showTrimOptions, setShowTrimOptions] = useState(false);
 
     const project = useEditorStore((state) => state.project);
+    const isTransparent = project?.backgroundColor === TRANSPARENT_BACKGROUND;
+    const currentTime = useEditorStore((state) => state.currentTime);
 
     // Calculate effective duration
     const projectDuration = project?.duration || 0;
     const effectiveStart = Math.max(0, Math.min(trimStart, projectDuration));
     const effectiveEnd = Math.max(0, Math.min(trimEnd, projectDuration - effectiveStart));
-    const effectiveDuration = projectDuration - effectiveStart - effectiveEnd;
+    const trimmedDuration = projectDuration - effectiveStart - effectiveEnd;
+    // Platform limits cut the export short rather than blocking it
+    const effectiveDuration = preset?.maxDuration ? Math.min(trimmedDuration, preset.maxDuration) : trimmedDuration;
+    const bitrate = preset?.bitrate ?? QUALITY_PRESETS[quality].bitrate;
+    // Letterbox/crop only matters when the preset's shape differs from the project's
+    const aspectDiffers = !!preset && !!project && preset.width * project.height !== preset.height * project.width;
+
+    const outputWidth = preset?.width ?? project?.width ?? 1920;
+    const outputHeight = preset?.height ?? project?.height ?? 1080;
+    const outputFps = preset?.fps ?? project?.fps ?? 30;
+    const compatibleCodecs = (codecProbe ?? []).filter((result) => result.option.containers.includes(format as "mp4" | "webm"));
+    const selectedCodec =
+        compatibleCodecs.find((result) => result.supported && result.option.id === codecId) ??
+        compatibleCodecs.find((result) => result.supported);
+
+    useEffect(() => {
+        if (!isOpen || !isVideo) return;
+        let cancelled = false;
+        probeVideoCodecs({ width: outputWidth, height: outputHeight, fps: outputFps, bitrate })
+            .then((results) => {
+                if (!cancelled) setCodecProbe(results);
+            })
+            .catch((err) => console.warn("Codec probe failed:", err));
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, isVideo, outputWidth, outputHeight, outputFps, bitrate]);
 
     // Estimated file size (rough approximation based on bitrate)
-    const estimatedSizeMB = (QUALITY_PRESETS[quality].bitrate * effectiveDuration / 8 / 1_000_000).toFixed(1);
+    const estimatedSizeMB = (bitrate * effectiveDuration / 8 / 1_000_000).toFixed(1);
+
+    const handleServerRender = async () => {
+        if (!project) return;
+
+        setIsExporting(true);
+        setError(null);
+        setProgress({ phase: "preparing", currentFrame: 0, totalFrames: 0, percentage: 0, message: "☁️ Queueing render..." });
+
+        try {
+            // The worker renders what is saved, so unsaved edits go in first - and it renders nothing stale
+            if (!(await saveProject())) {
+                throw new Error("Couldn't save your changes, so the server would render an older version. Save, then try again.");
+            }
+            const response = await fetch(`/api/projects/${project.id}/render`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ format, presetId: presetId ?? undefined }),
+            });
+            if (!response.ok) {
+                const body = await response.json().catch(() => null);
+                throw new Error(body?.error || "Failed to queue render");
+            }
+
+            let job: RenderJobSummary = await response.json();
+            setServerJob(job);
+            pollingRef.current = true;
+            while (pollingRef.current && (job.status === "QUEUED" || job.status === "RUNNING")) {
+                setProgress({
+                    phase: job.status === "QUEUED" ? "preparing" : "encoding",
+                    currentFrame: 0,
+                    totalFrames: 0,
+                    percentage: Math.round(job.progress * 100),
+                    message: job.status === "QUEUED" ? "⏳ Waiting for a render worker..." : "",
+                });
+                await new Promise((resolve) => setTimeout(resolve, RENDER_POLL_INTERVAL_MS));
+                const poll = await fetch(`/api/render-jobs/${job.id}`);
+                if (!poll.ok) throw new Error("Lost track of the render job");
+                job = await poll.json();
+                setServerJob(job);
+            }
+            if (!pollingRef.current) return;
+            pollingRef.current = false;
+
+            if (job.status === "FAILED") {
+                throw new Error(job.error || "Server render failed");
+            }
+            setProgress({ phase: "complete", currentFrame: 0, totalFrames: 0, percentage: 100, message: "Export complete!" });
+            // The download route answers with an attachment, so the editor stays open
+            if (job.downloadUrl) window.location.assign(job.downloadUrl);
+
+            setTimeout(() => {
+                onClose();
+                setIsExporting(false);
+                setProgress(null);
+                setServerJob(null);
+            }, 1500);
+        } catch (err) {
+            pollingRef.current = false;
+            setServerJob(null);
+            setIsExporting(false);
+            setError(err instanceof Error ? err.message : "Server render failed");
+        }
+    };
 
     const handleExport = async () => {
         if (!project) return;
+        if (isVideo && renderOnServer) return handleServerRender();
 
-        if (!VideoExporter.isSupported()) {
-            setError("WebCodecs API is not supported in this browser. Please use Chrome 94+ or Edge 94+.");
+        if (isAnimatedImage && !AnimatedImageExporter.isSupported(format)) {
+            setError(`${formatLabel} export is not supported in this browser.`);
+            return;
+        }
+        if (format === "png" && !FrameSequenceExporter.isSupported()) {
+            setError("PNG export is not supported in this browser.");
+            return;
+        }
+        if (isVideo && !WebCodecsExporter.isSupported() && !VideoExporter.isSupported()) {
+            setError("Video export is not supported in this browser. Please use Chrome 94+ or Edge 94+.");
             return;
         }
 
+        const filename = `${project.name.replace(/\s+/g, "-").toLowerCase()}.${formatConfig.extension}`;
+
+        // The picker needs the click's user activation, so it comes before anything is awaited
+        let destination: FileSystemFileHandle | null = null;
+        if (isVideo && supportsStreaming && streamToDisk) {
+            try {
+                destination = await pickSaveFile(filename, {
+                    description: `${formatLabel} video`,
+                    mimeType: format === "webm" ? "video/webm" : "video/mp4",
+                });
+            } catch (err) {
+                if (err instanceof DOMException && err.name === "AbortError") return;
+                throw err;
+            }
+        }
+
         saveProject();
         setIsExporting(true);
         setError(null);
         setProgress(null);
+        setIsPaused(false);
+        setCanControl(false);
 
         try {
-            const exporter = new VideoExporter();
-
             // Create a modified project with trim applied
             const trimmedProject = {
                 ...project,
@@ -99,24 +299,94 @@ export function ExportModal({ isOpen, onClose, saveProject }: ExportModalProps)
                         ...event,
                         // Clamp start time to 0
                         startTime: Math.max(0, event.startTime),
-                        // Adjust duration if event extends beyond trim
+                        // Adjust duration if event extends beyond trim (and by the part cut off the start)
                         duration: Math.min(
-                            event.duration,
+                            event.duration + Math.min(0, event.startTime),
                             effectiveDuration - Math.max(0, event.startTime)
                         ),
+                        // Audio cut at the start resumes from a later point in the source
+                        properties: event.type === "audio" && event.startTime < 0
+                            ? {
+                                ...event.properties,
+                                sourceOffset: ((event.properties as AudioProperties).sourceOffset ?? 0) - event.startTime,
+                            }
+                            : event.properties,
                     })),
             };
 
-            await exporter.exportAndDownload({
-                project: trimmedProject,
-                config: {
-                    bitrate: QUALITY_PRESETS[quality].bitrate,
-                },
-                filename: `${project.name.replace(/\s+/g, "-").toLowerCase()}.mp4`,
-                onProgress: (p) => {
-                    setProgress(p);
-                },
-            });
+            let blob: Blob;
+            let artifact: ExportArtifactMetadata;
+            if (isStill) {
+                blob = await new FrameSequenceExporter().exportStillAndDownload({ project, time: currentTime });
+                artifact = { format: "png", width: project.width, height: project.height, duration: 0 };
+            } else if (format === "png") {
+                // Frames keep their project numbering, so the untrimmed project is rendered over the trim range
+                blob = await new FrameSequenceExporter().exportSequenceAndDownload({
+                    project,
+                    range: { start: effectiveStart, end: effectiveStart + effectiveDuration },
+                    filename,
+                    onProgress: (p) => setProgress(p),
+                });
+                artifact = { format: "zip", width: project.width, height: project.height, duration: effectiveDuration };
+            } else if (isAnimatedImage) {
+                blob = await new AnimatedImageExporter().exportAndDownload({
+                    project: trimmedProject,
+                    format,
+                    fps: imageFps,
+                    maxWidth: imageMaxWidth,
+                    loop: loopCount,
+                    palette: paletteMode,
+                    dither,
+                    filename,
+                    onProgress: (p) => setProgress(p),
+                });
+                // Same downscale as the exporter
+                const scale = Math.min(1, imageMaxWidth / project.width);
+                artifact = {
+                    format,
+                    width: Math.max(1, Math.round(project.width * scale)),
+                    height: Math.max(1, Math.round(project.height * scale)),
+                    duration: effectiveDuration,
+                };
+            } else {
+                // Frame-exact WebCodecs export, falling back to MediaRecorder internally when unavailable
+                const control = new ExportControl();
+                controlRef.current = control;
+                setCanControl(supportsOfflineExport);
+                blob = await new WebCodecsExporter().exportAndDownload({
+                    project: trimmedProject,
+                    container: format === "webm" ? "webm" : "mp4",
+                    config: {
+                        bitrate,
+                        codec: selectedCodec?.codec ?? preset?.codec,
+                    },
+                    output: preset
+                        ? { width: preset.width, height: preset.height, fps: preset.fps, fit }
+                        : undefined,
+                    filename,
+                    destination: destination ?? undefined,
+                    onProgress: (p) => {
+                        setProgress(p);
+                    },
+                    control,
+                });
+                artifact = {
+                    // The real-time fallback may have recorded WebM instead
+                    format: blob.type.includes("mp4") ? "mp4" : "webm",
+                    width: outputWidth,
+                    height: outputHeight,
+                    duration: effectiveDuration,
+                };
+            }
+            controlRef.current = null;
+            setCanControl(false);
+
+            if (keepCopy) {
+                setIsSavingCopy(true);
+                await saveCopy(blob, artifact);
+                setIsSavingCopy(false);
+            }
+            setProgress({ phase: "complete", currentFrame: 1, totalFrames: 1, percentage: 100, message: "Export complete!" });
 
             // Close modal after successful export
             setTimeout(() => {
@@ -128,12 +398,49 @@ export function ExportModal({ isOpen, onClose, saveProject }: ExportModalProps)
                 setTrimEnd(0);
             }, 1500);
         } catch (err) {
-            setError(err instanceof Error ? err.message : "Export failed");
+            controlRef.current = null;
+            setCanControl(false);
             setIsExporting(false);
+            // A cancelled export goes back to the options, not to an error
+            if (err instanceof ExportCancelledError) {
+                setProgress(null);
+                return;
+            }
+            setError(err instanceof Error ? err.message : "Export failed");
         }
     };
 
+    // A failed upload doesn't fail the export - the file has already been saved locally
+    const saveCopy = async (blob: Blob, artifact: ExportArtifactMetadata) => {
+        if (!project) return;
+        const query = new URLSearchParams({
+            format: artifact.format,
+            width: String(artifact.width),
+            height: String(artifact.height),
+            duration: String(artifact.duration),
+        });
+        try {
+            const response = await fetch(`/api/projects/${project.id}/exports?${query}`, {
+                method: "POST",
+                headers: { "Content-Type": blob.type || "application/octet-stream" },
+                body: blob,
+            });
+            if (!response.ok) throw new Error(`Upload failed with status ${response.status}`);
+        } catch (err) {
+            console.warn("Failed to save export to history:", err);
+        }
+    };
+
+    const togglePause = () => {
+        const control = controlRef.current;
+        if (!control) return;
+        if (control.getState() === "paused") control.resume();
+        else control.pause();
+        setIsPaused(control.getState() === "paused");
+    };
+
     const getProgressMessage = () => {
+        if (isSavingCopy) return "📚 Saving a copy to the export history...";
         if (!progress) return "";
 
         switch (progress.phase) {
@@ -144,7 +451,7 @@ export function ExportModal({ isOpen, onClose, saveProject }: ExportModalProps)
             case "encoding":
                 return `🎬 Encoding: ${progress.percentage}%`;
             case "muxing":
-                return "📦 Creating MP4 file...";
+                return `📦 Creating ${formatLabel} file...`;
             case "complete":
                 return "✅ Export complete!";
             case "error":
@@ -154,6 +461,11 @@ export function ExportModal({ isOpen, onClose, saveProject }: ExportModalProps)
         }
     };
 
+    const formatEta = (seconds: number) => {
+        const rounded = Math.ceil(seconds);
+        return rounded >= 60 ? `${Math.floor(rounded / 60)}m ${rounded % 60}s` : `${rounded}s`;
+    };
+
     const formatTime = (seconds: number) => {
         const mins = Math.floor(seconds / 60);
         const secs = Math.floor(seconds % 60);
@@ -209,10 +521,68 @@ export function ExportModal({ isOpen, onClose, saveProject }: ExportModalProps)
                             </p>
                         )}
 
+                        {/* Encoding speed and time left */}
+                        {progress?.phase === "encoding" && progress.fps !== undefined && (
+                            <p className="text-gray-500 text-xs text-center">
+                                {isPaused
+                                    ? "⏸️ Paused"
+                                    : `⚡ ${progress.fps.toFixed(1)} fps${progress.etaSeconds !== undefined ? ` · ⏳ ${formatEta(progress.etaSeconds)} left` : ""}`}
+                            </p>
+                        )}
+
+                        {/* Codec actually used */}
+                        {progress?.codec && (
+                            <p className="text-gray-500 text-xs text-center">
+                                🎞️ {describeVideoCodec(progress.codec)}
+                            </p>
+                        )}
+
                         {/* Duration info */}
                         <p className="text-gray-600 text-xs text-center">
-                            Exporting {formatTime(effectiveDuration)} at {QUALITY_PRESETS[quality].label} quality
+                            {serverJob
+                                ? `☁️ Rendering on the server${serverJob.status === "QUEUED" ? " (queued)" : ""}`
+                                : isStill
+                                ? `Exporting the frame at ${formatTime(currentTime)}`
+                                : format === "png"
+                                ? `Exporting ${formatTime(effectiveDuration)} as PNG frames at ${project?.fps} fps`
+                                : isAnimatedImage
+                                ? `Exporting ${formatTime(effectiveDuration)} as ${formatLabel} at ${Math.min(imageFps, project?.fps || imageFps)} fps`
+                                : preset
+                                ? `Exporting ${formatTime(effectiveDuration)} for ${preset.label} (${preset.width}×${preset.height}, ${preset.fps} fps)`
+                                : `Exporting ${formatTime(effectiveDuration)} at ${QUALITY_PRESETS[quality].label} quality`}
                         </p>
+
+                        {serverJob && progress?.phase !== "complete" && (
+                            <button
+                                onClick={() => {
+                                    pollingRef.current = false;
+                                    setServerJob(null);
+                                    setIsExporting(false);
+                                    setProgress(null);
+                                    onClose();
+                                }}
+                                className="w-full py-2 bg-slate-800 text-white rounded-lg hover:bg-slate-700 transition-colors"
+                            >
+                                ↩️ Close (the render keeps going on the server)
+                            </button>
+                        )}
+
+                        {canControl && progress?.phase !== "complete" && (
+                            <div className="flex gap-3">
+                                <button
+                                    onClick={togglePause}
+                                    className="flex-1 py-2 bg-slate-800 text-white rounded-lg hover:bg-slate-700 transition-colors"
+                                >
+                                    {isPaused ? "▶️ Resume" : "⏸️ Pause"}
+                                </button>
+                                <button
+                                    onClick={() => controlRef.current?.cancel()}
+                                    className="flex-1 py-2 bg-slate-800 text-red-400 rounded-lg hover:bg-slate-700 transition-colors"
+                                >
+                                    ✖️ Cancel
+                                </button>
+                            </div>
+                        )}
                     </div>
                 ) : (
                     <div className="space-y-4">
@@ -221,52 +591,307 @@ export function ExportModal({ isOpen, onClose, saveProject }: ExportModalProps)
                                 ⚠️ For best export quality, we recommend using Chrome or Edge browsers. Firefox may produce lower quality exports due to limited WebCodecs support.
                             </div>
                         )}
+                        {/* Format Selection */}
+                        <div className="grid grid-cols-5 gap-2">
+                            {FORMATS.map((f) => (
+                                <button
+                                    key={f.value}
+                                    onClick={() => {
+                                        setFormat(f.value);
+                                        // A preset is tied to its container
+                                        if (preset && preset.container !== f.value) setPresetId(null);
+                                    }}
+                                    className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${format === f.value
+                                        ? "bg-linear-to-r from-purple-600 to-pink-600 text-white"
+                                        : "bg-slate-800 text-gray-400 hover:bg-slate-700 hover:text-white"
+                                        }`}
+                                >
+                                    {f.label}
+                                </button>
+                            ))}
+                        </div>
                         <p className="text-gray-400 text-sm">
-                            Export your video as a high-quality MP4 file using H.264 encoding.
+                            {formatConfig.description}
                         </p>
+                        {format === "mp4" && isTransparent && (
+                            <p className="text-xs text-amber-400">
+                                ⚠️ MP4 has no alpha channel, so the transparent background will export as black. Choose WebM or PNG to keep it.
+                            </p>
+                        )}
+                        {isVideo && !supportsOfflineExport && (
+                            <p className="text-xs text-gray-500">
+                                ⏱️ WebCodecs isn&apos;t available, so the video will be recorded in real time and may be saved as WebM.
+                            </p>
+                        )}
 
-                        {/* Duration Info */}
-                        <div className="flex justify-between items-center p-3 bg-slate-800/50 rounded-lg">
-                            <span className="text-sm text-gray-400">Video Duration</span>
-                            <span className="text-sm text-white font-mono">
-                                {formatTime(effectiveDuration)}
-                            </span>
-                        </div>
-
-                        {/* Quality Selection */}
-                        <div className="space-y-2">
-                            <span className="text-sm text-gray-400">Quality Preset</span>
-                            <div className="grid grid-cols-3 gap-2">
-                                {(Object.entries(QUALITY_PRESETS) as [QualityPreset, QualityConfig][]).map(([key, config]) => (
+                        {/* PNG Options */}
+                        {format === "png" && (
+                            <div className="grid grid-cols-2 gap-2">
+                                {([["sequence", "🎞️ Sequence (ZIP)"], ["still", "🖼️ Current frame"]] as [PngMode, string][]).map(([mode, label]) => (
                                     <button
-                                        key={key}
-                                        onClick={() => setQuality(key)}
-                                        className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${quality === key
+                                        key={mode}
+                                        onClick={() => setPngMode(mode)}
+                                        className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${pngMode === mode
                                             ? "bg-linear-to-r from-purple-600 to-pink-600 text-white"
                                             : "bg-slate-800 text-gray-400 hover:bg-slate-700 hover:text-white"
                                             }`}
                                     >
-                                        {config.label}
+                                        {label}
                                     </button>
                                 ))}
                             </div>
-                            <p className="text-xs text-gray-500">
-                                {QUALITY_PRESETS[quality].description} • ~{estimatedSizeMB} MB
-                            </p>
+                        )}
+
+                        {/* Duration Info */}
+                        <div className="flex justify-between items-center p-3 bg-slate-800/50 rounded-lg">
+                            <span className="text-sm text-gray-400">{isStill ? "Playhead" : "Video Duration"}</span>
+                            <span className="text-sm text-white font-mono">
+                                {formatTime(isStill ? currentTime : effectiveDuration)}
+                            </span>
                         </div>
 
+                        {/* Destination Preset */}
+                        {isVideo && (
+                            <div className="space-y-2">
+                                <span className="text-sm text-gray-400">Destination</span>
+                                <select
+                                    value={presetId ?? ""}
+                                    onChange={(e) => {
+                                        const next = getPlatformPreset(e.target.value);
+                                        setPresetId(next?.id ?? null);
+                                        if (next) {
+                                            setFormat(next.container);
+                                            setCodecId(findVideoCodecOption(next.codec)?.id ?? codecId);
+                                        }
+                                    }}
+                                    className="w-full bg-slate-800 border border-white/10 rounded-lg px-3 py-2 text-sm text-white"
+                                >
+                                    <option value="">{`🎛️ Custom (${project?.width}×${project?.height}, ${project?.fps} fps)`}</option>
+                                    {PLATFORM_PRESETS.map((p) => (
+                                        <option key={p.id} value={p.id}>
+                                            {`${p.icon} ${p.label} (${p.width}×${p.height}, ${p.fps} fps)`}
+                                        </option>
+                                    ))}
+                                </select>
+                                {preset && (
+                                    <p className="text-xs text-gray-500">
+                                        {(preset.bitrate / 1_000_000).toFixed(0)} Mbps
+                                        {preset.maxDuration ? ` • up to ${formatTime(preset.maxDuration)}` : ""} • ~{estimatedSizeMB} MB
+                                    </p>
+                                )}
+                                {preset?.maxDuration && trimmedDuration > preset.maxDuration && (
+                                    <p className="text-xs text-amber-400">
+                                        ⏱️ {preset.label} allows up to {formatTime(preset.maxDuration)}, so the export stops there.
+                                    </p>
+                                )}
+                                {aspectDiffers && (
+                                    <div className="grid grid-cols-2 gap-2">
+                                        {([["contain", "🔲 Fit (letterbox)"], ["cover", "⬛ Fill (crop)"]] as ["contain" | "cover", string][]).map(([mode, label]) => (
+                                            <button
+                                                key={mode}
+                                                onClick={() => setFit(mode)}
+                                                className={`py-1.5 px-3 rounded-lg text-xs font-medium transition-all ${fit === mode
+                                                    ? "bg-linear-to-r from-purple-600 to-pink-600 text-white"
+                                                    : "bg-slate-800 text-gray-400 hover:bg-slate-700 hover:text-white"
+                                                    }`}
+                                            >
+                                                {label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Codec Selection */}
+                        {isVideo && !renderOnServer && (
+                            <div className="space-y-2">
+                                <span className="text-sm text-gray-400">Codec</span>
+                                {!codecProbe ? (
+                                    <p className="text-xs text-gray-500">🔍 Checking encoder support...</p>
+                                ) : (
+                                    <div className="grid grid-cols-2 gap-2">
+                                        {compatibleCodecs.map((result) => (
+                                            <button
+                                                key={result.option.id}
+                                                onClick={() => setCodecId(result.option.id)}
+                                                disabled={!result.supported}
+                                                title={result.supported ? result.codec : "Not supported by this browser at this size"}
+                                                className={`py-1.5 px-3 rounded-lg text-xs font-medium transition-all disabled:line-through disabled:opacity-40 disabled:cursor-not-allowed ${selectedCodec?.option.id === result.option.id
+                                                    ? "bg-linear-to-r from-purple-600 to-pink-600 text-white"
+                                                    : "bg-slate-800 text-gray-400 hover:bg-slate-700 hover:text-white"
+                                                    }`}
+                                            >
+                                                {result.option.label}
+                                                {result.hardware && " ⚡"}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                                {selectedCodec && (
+                                    <p className="text-xs text-gray-500">
+                                        <span className="font-mono">{selectedCodec.codec}</span>
+                                        {selectedCodec.hardware ? " • ⚡ hardware encoder" : " • software encoder"}
+                                    </p>
+                                )}
+                                {codecProbe && !selectedCodec && (
+                                    <p className="text-xs text-amber-400">
+                                        ⚠️ No {formatLabel} codec can encode {outputWidth}×{outputHeight} here. The export will fall back to real-time recording.
+                                    </p>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Quality Selection */}
+                        {isVideo && !preset && !renderOnServer && (
+                            <div className="space-y-2">
+                                <span className="text-sm text-gray-400">Quality Preset</span>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {(Object.entries(QUALITY_PRESETS) as [QualityPreset, QualityConfig][]).map(([key, config]) => (
+                                        <button
+                                            key={key}
+                                            onClick={() => setQuality(key)}
+                                            className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${quality === key
+                                                ? "bg-linear-to-r from-purple-600 to-pink-600 text-white"
+                                                : "bg-slate-800 text-gray-400 hover:bg-slate-700 hover:text-white"
+                                                }`}
+                                        >
+                                            {config.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-gray-500">
+                                    {QUALITY_PRESETS[quality].description} • ~{estimatedSizeMB} MB
+                                </p>
+                            </div>
+                        )}
+
+                        {/* Server render */}
+                        {isVideo && (
+                            <div className="space-y-1">
+                                <label className="flex items-center gap-2 text-xs text-gray-400">
+                                    <input
+                                        type="checkbox"
+                                        checked={renderOnServer}
+                                        onChange={(e) => setRenderOnServer(e.target.checked)}
+                                        className="accent-purple-500"
+                                    />
+                                    ☁️ Render on the server (keeps going after you close the editor)
+                                </label>
+                                {renderOnServer && (
+                                    <p className="text-xs text-gray-500">
+                                        The saved project is rendered at full length{preset ? "" : " at High quality"}. Trim and codec options only apply to browser exports.
+                                    </p>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Export history */}
+                        {!(isVideo && renderOnServer) && (
+                            <label className="flex items-center gap-2 text-xs text-gray-400">
+                                <input
+                                    type="checkbox"
+                                    checked={keepCopy}
+                                    onChange={(e) => setKeepCopy(e.target.checked)}
+                                    className="accent-purple-500"
+                                />
+                                📚 Keep a copy in the project&apos;s export history
+                            </label>
+                        )}
+
+                        {/* Streaming to disk */}
+                        {isVideo && supportsStreaming && !renderOnServer && (
+                            <label className="flex items-center gap-2 text-xs text-gray-400">
+                                <input
+                                    type="checkbox"
+                                    checked={streamToDisk}
+                                    onChange={(e) => setStreamToDisk(e.target.checked)}
+                                    className="accent-purple-500"
+                                />
+                                💾 Choose where to save first and write the video there while it encodes (best for long or 4K exports)
+                            </label>
+                        )}
+
+                        {/* Animated Image Options */}
+                        {isAnimatedImage && (
+                            <div className="grid grid-cols-2 gap-3 p-4 bg-slate-800/30 rounded-lg border border-white/5">
+                                <label className="space-y-1">
+                                    <span className="text-xs text-gray-400">Frame Rate</span>
+                                    <select
+                                        value={imageFps}
+                                        onChange={(e) => setImageFps(parseInt(e.target.value))}
+                                        className="w-full bg-slate-800 border border-white/10 rounded px-2 py-1.5 text-sm text-white"
+                                    >
+                                        {IMAGE_FPS_OPTIONS.filter((fps) => fps <= (project?.fps || 30)).map((fps) => (
+                                            <option key={fps} value={fps}>{fps} fps</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label className="space-y-1">
+                                    <span className="text-xs text-gray-400">Max Width</span>
+                                    <select
+                                        value={imageMaxWidth}
+                                        onChange={(e) => setImageMaxWidth(parseInt(e.target.value))}
+                                        className="w-full bg-slate-800 border border-white/10 rounded px-2 py-1.5 text-sm text-white"
+                                    >
+                                        {IMAGE_WIDTH_OPTIONS.map((width) => (
+                                            <option key={width} value={width}>{width}px</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label className="space-y-1">
+                                    <span className="text-xs text-gray-400">Loop Count</span>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        max="65535"
+                                        value={loopCount}
+                                        onChange={(e) => setLoopCount(Math.min(65535, Math.max(0, parseInt(e.target.value) || 0)))}
+                                        className="w-full bg-slate-800 border border-white/10 rounded px-2 py-1.5 text-sm text-white"
+                                    />
+                                    <span className="text-[10px] text-gray-500">0 = loop forever</span>
+                                </label>
+                                {format === "gif" && (
+                                    <label className="space-y-1">
+                                        <span className="text-xs text-gray-400">Palette</span>
+                                        <select
+                                            value={paletteMode}
+                                            onChange={(e) => setPaletteMode(e.target.value as PaletteMode)}
+                                            className="w-full bg-slate-800 border border-white/10 rounded px-2 py-1.5 text-sm text-white"
+                                        >
+                                            <option value="global">Global (smaller)</option>
+                                            <option value="perFrame">Per frame (more colors)</option>
+                                        </select>
+                                    </label>
+                                )}
+                                {format === "gif" && (
+                                    <label className="col-span-2 flex items-center gap-2 text-xs text-gray-400">
+                                        <input
+                                            type="checkbox"
+                                            checked={dither}
+                                            onChange={(e) => setDither(e.target.checked)}
+                                            className="accent-purple-500"
+                                        />
+                                        Dithering (smoother gradients, larger file)
+                                    </label>
+                                )}
+                            </div>
+                        )}
+
                         {/* Trim Options Toggle */}
-                        <button
-                            onClick={() => setShowTrimOptions(!showTrimOptions)}
-                            className="w-full py-2 text-sm text-gray-400 hover:text-white transition-colors flex items-center justify-center gap-2 border border-dashed border-white/10 rounded-lg hover:border-white/20"
-                        >
-                            <span>✂️</span>
-                            <span>{showTrimOptions ? "Hide Trim Options" : "Trim Video"}</span>
-                            <span>{showTrimOptions ? "▼" : "▶"}</span>
-                        </button>
+                        {!isStill && !(isVideo && renderOnServer) && (
+                            <button
+                                onClick={() => setShowTrimOptions(!showTrimOptions)}
+                                className="w-full py-2 text-sm text-gray-400 hover:text-white transition-colors flex items-center justify-center gap-2 border border-dashed border-white/10 rounded-lg hover:border-white/20"
+                            >
+                                <span>✂️</span>
+                                <span>{showTrimOptions ? "Hide Trim Options" : "Trim Video"}</span>
+                                <span>{showTrimOptions ? "▼" : "▶"}</span>
+                            </button>
+                        )}
 
                         {/* Trim Options */}
-                        {showTrimOptions && (
+                        {showTrimOptions && !isStill && !(isVideo && renderOnServer) && (
                             <div className="space-y-3 p-4 bg-slate-800/30 rounded-lg border border-white/5">
                                 <p className="text-xs text-gray-500">
                                     Skip time from the start or end of the video
@@ -335,7 +960,7 @@ export function ExportModal({ isOpen, onClose, saveProject }: ExportModalProps)
                                 disabled={effectiveDuration <= 0}
                                 className="flex-1 py-2 bg-linear-to-r from-purple-600 to-pink-600 text-white font-medium rounded-lg hover:from-purple-500 hover:to-pink-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                             >
-                                Export MP4
+                                Export {formatLabel}
                             </button>
                         </div>
                     </div>
@@ -2,28 +2,42 @@
 
 import { useState } from "react";
 import { useEditorStore } from "@/stores/editor-store";
-import type { Animation } from "@/lib/schemas/timeline";
+import type { AnimatableProperty, ColorSpace, Gradient, Keyframe, KeyframeTrack } from "@/lib/schemas/timeline";
+import { TRANSPARENT_BACKGROUND } from "@/lib/schemas/timeline";
+import { evaluateKeyframeTrack } from "@/lib/core/timeline/evaluate";
+import { posterTime } from "@/lib/core/thumbnail";
+import { gradientToCss, isColor, isGradient } from "@/lib/core/timeline/color";
+import {
+    createDefaultTrack,
+    keyframeUpdatesForManualValue,
+    setKeyframeTrack,
+    upsertKeyframe,
+} from "@/lib/core/timeline/keyframes";
+import { EasingCurveEditor, EasingSelect, isParametricEasing } from "./EasingEditor";
 
 interface PropertyPanelProps {
     onHide?: () => void;
 }
 
-const ANIMATION_TYPES = [
+const ANIMATION_TYPES: { value: AnimatableProperty; label: string }[] = [
     { value: "opacity", label: "Fade" },
     { value: "scale", label: "Scale" },
     { value: "x", label: "Slide X" },
     { value: "y", label: "Slide Y" },
     { value: "rotation", label: "Rotate" },
+    { value: "fill", label: "Color" },
+    { value: "stroke", label: "Stroke Color" },
+    { value: "gradient", label: "Gradient" },
 ];
 
-const EASING_OPTIONS = [
+const COLOR_SPACES: { value: ColorSpace; label: string }[] = [
+    { value: "srgb", label: "sRGB" },
     { value: "linear", label: "Linear" },
-    { value: "easeIn", label: "Ease In" },
-    { value: "easeOut", label: "Ease Out" },
-    { value: "easeInOut", label: "Ease In/Out" },
-    { value: "bounce", label: "Bounce" },
+    { value: "oklch", label: "OKLCH" },
 ];
 
+const DEFAULT_GRADIENT: Gradient = { type: "linear", colors: ["#8b5cf6", "#ec4899"], angle: 0 };
+
 const TRANSITION_TYPES = [
     { value: "none", label: "None" },
     { value: "fade", label: "Fade" },
@@ -36,9 +50,10 @@ const TRANSITION_TYPES = [
 ];
 
 export function PropertyPanel({ onHide }: PropertyPanelProps) {
-    const { project, selectedIds, updateEventProperty, updateEvent, deleteEvent, saveToHistory, updateProjectBackgroundColor, centerSelectedEventsHorizontally, centerSelectedEventsVertically } =
+    const { project, currentTime, selectedIds, updateEventProperty, updateEvent, deleteEvent, saveToHistory, updateProjectBackgroundColor, updateProjectThumbnailTime, centerSelectedEventsHorizontally, centerSelectedEventsVertically } =
         useEditorStore();
     const [showAnimations, setShowAnimations] = useState(true);
+    const [newTrackProperty, setNewTrackProperty] = useState<AnimatableProperty>("opacity");
     const [showTransitions, setShowTransitions] = useState(false);
 
     // Get the first selected ID (for single selection)
@@ -47,6 +62,9 @@ export function PropertyPanel({ onHide }: PropertyPanelProps) {
 
     // When nothing is selected, show project-level settings
     if (!selectedEvent) {
+        const isTransparent = project?.backgroundColor === TRANSPARENT_BACKGROUND;
+        const solidBackground = isTransparent ? "#000000" : project?.backgroundColor || "#000000";
+
         return (
             <div className="h-full overflow-y-auto p-4 space-y-4">
                 <div className="flex items-center justify-between">
@@ -70,18 +88,29 @@ export function PropertyPanel({ onHide }: PropertyPanelProps) {
                     <div className="flex gap-2">
                         <input
                             type="color"
-                            value={project?.backgroundColor || "#000000"}
+                            value={solidBackground}
                             onChange={(e) => updateProjectBackgroundColor(e.target.value)}
-                            className="w-12 h-10 bg-slate-800/50 border border-white/10 rounded cursor-pointer"
+                            disabled={isTransparent}
+                            className="w-12 h-10 bg-slate-800/50 border border-white/10 rounded cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
                         />
                         <input
                             type="text"
-                            value={project?.backgroundColor || "#000000"}
+                            value={isTransparent ? "Transparent" : solidBackground}
                             onChange={(e) => updateProjectBackgroundColor(e.target.value)}
-                            className="flex-1 bg-slate-800/50 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none uppercase"
+                            disabled={isTransparent}
+                            className="flex-1 bg-slate-800/50 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none uppercase disabled:text-gray-500"
                             placeholder="#000000"
                         />
                     </div>
+                    <label className="flex items-center gap-2 text-xs text-gray-400">
+                        <input
+                            type="checkbox"
+                            checked={isTransparent}
+                            onChange={(e) => updateProjectBackgroundColor(e.target.checked ? TRANSPARENT_BACKGROUND : "#000000")}
+                            className="accent-purple-500"
+                        />
+                        Transparent (kept in PNG, APNG and WebM exports)
+                    </label>
                 </div>
 
                 {/* Quick Presets */}
@@ -100,6 +129,33 @@ export function PropertyPanel({ onHide }: PropertyPanelProps) {
                     </div>
                 </div>
 
+                {/* Dashboard Thumbnail */}
+                {project && (
+                    <div className="space-y-2">
+                        <label className="text-xs text-gray-500">Dashboard Thumbnail</label>
+                        <p className="text-xs text-gray-400">
+                            📸 Poster frame at {posterTime(project).toFixed(1)}s
+                            {project.thumbnailTime === undefined && " (midpoint)"}
+                        </p>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => updateProjectThumbnailTime(currentTime)}
+                                className="flex-1 py-1.5 bg-slate-800/50 border border-white/10 rounded text-xs text-gray-400 hover:bg-slate-700/50 hover:text-white transition-colors flex items-center justify-center gap-1"
+                                title="Use the frame at the playhead"
+                            >
+                                📍 Use Playhead
+                            </button>
+                            <button
+                                onClick={() => updateProjectThumbnailTime(undefined)}
+                                disabled={project.thumbnailTime === undefined}
+                                className="flex-1 py-1.5 bg-slate-800/50 border border-white/10 rounded text-xs text-gray-400 hover:bg-slate-700/50 hover:text-white transition-colors flex items-center justify-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed"
+                            >
+                                ↺ Midpoint
+                            </button>
+                        </div>
+                    </div>
+                )}
+
                 {/* Project Info */}
                 <div className="pt-4 border-t border-white/10 space-y-2">
                     <div className="flex justify-between text-xs">
@@ -131,22 +187,16 @@ export function PropertyPanel({ onHide }: PropertyPanelProps) {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const props = selectedEvent.properties as any;
 
+    // Playhead position relative to the selected event (keyframe times are event-local)
+    const localTime = Math.min(Math.max(0, currentTime - selectedEvent.startTime), selectedEvent.duration);
+
     const handleChange = (property: string, value: unknown) => {
-        // If changing a property that has an active animation, update the animation's target values first
+        // If changing an animated property, key it at the playhead first
         // This prevents animations from overriding manual property changes
-        if (selectedEvent.animations && selectedEvent.animations.length > 0) {
-            const hasAnimationForProperty = selectedEvent.animations.some(anim => anim.property === property);
-            
-            if (hasAnimationForProperty && typeof value === 'number') {
-                const updatedAnimations = selectedEvent.animations.map(anim => {
-                    if (anim.property === property) {
-                        // Update both from and to values to the new value
-                        // This effectively "freezes" the animation at the new value
-                        return { ...anim, from: value, to: value };
-                    }
-                    return anim;
-                });
-                updateEvent(selectedEvent.id, { animations: updatedAnimations });
+        if (typeof value === "number" || typeof value === "string" || isGradient(value)) {
+            const updates = keyframeUpdatesForManualValue(selectedEvent, property, value, localTime);
+            if (updates) {
+                updateEvent(selectedEvent.id, updates);
             }
         }
         
@@ -162,34 +212,59 @@ export function PropertyPanel({ onHide }: PropertyPanelProps) {
         updateEvent(selectedEvent.id, { [field]: value });
     };
 
-    const handleAnimationChange = (index: number, field: keyof Animation, value: unknown) => {
-        const animations = [...(selectedEvent.animations || [])];
-        animations[index] = { ...animations[index], [field]: value };
-        updateEvent(selectedEvent.id, { animations });
+    const tracks = Object.entries(selectedEvent.keyframes || {}) as [AnimatableProperty, KeyframeTrack][];
+
+    const updateTrack = (property: AnimatableProperty, track: KeyframeTrack) => {
+        updateEvent(selectedEvent.id, { keyframes: setKeyframeTrack(selectedEvent.keyframes, property, track) });
+    };
+
+    const handleKeyframeChange = (property: AnimatableProperty, index: number, field: keyof Keyframe, value: unknown) => {
+        const track = [...(selectedEvent.keyframes?.[property] || [])];
+        track[index] = { ...track[index], [field]: value };
+        updateTrack(property, track);
+    };
+
+    const addKeyframeAtPlayhead = (property: AnimatableProperty) => {
+        const track = selectedEvent.keyframes?.[property] || [];
+        const value = evaluateKeyframeTrack(track, localTime) ?? props[property] ?? 0;
+        updateTrack(property, upsertKeyframe(track, { time: localTime, value }));
+        saveToHistory();
+    };
+
+    const handleColorSpaceChange = (property: AnimatableProperty, colorSpace: ColorSpace) => {
+        const track = (selectedEvent.keyframes?.[property] || []).map((keyframe) => ({ ...keyframe, colorSpace }));
+        updateTrack(property, track);
+        saveToHistory();
+    };
+
+    const handleGradientChange = (updates: Partial<Gradient>) => {
+        const current: Gradient = props.gradient || DEFAULT_GRADIENT;
+        const gradient: Gradient = { ...current, ...updates };
+        // Stop offsets no longer line up once colors are added or removed
+        if (updates.colors && updates.colors.length !== current.colors.length) delete gradient.stops;
+        handleChange("gradient", gradient);
+    };
+
+    const removeKeyframe = (property: AnimatableProperty, index: number) => {
+        const track = [...(selectedEvent.keyframes?.[property] || [])];
+        track.splice(index, 1);
+        updateTrack(property, track);
+        saveToHistory();
     };
 
     const addAnimation = () => {
-        const animations = [...(selectedEvent.animations || [])];
-        animations.push({
-            property: "opacity",
-            from: 0,
-            to: 1,
-            easing: "easeOut",
-        });
-        updateEvent(selectedEvent.id, { animations });
+        updateTrack(newTrackProperty, createDefaultTrack(newTrackProperty, props[newTrackProperty]));
         saveToHistory();
     };
 
-    const removeAnimation = (index: number) => {
-        const animations = [...(selectedEvent.animations || [])];
-        animations.splice(index, 1);
-        updateEvent(selectedEvent.id, { animations });
+    const removeAnimation = (property: AnimatableProperty) => {
+        updateTrack(property, []);
         saveToHistory();
     };
 
-    const handleTransitionChange = (field: string, value: unknown) => {
-        const transition = { ...(selectedEvent.transition || { type: "none", duration: 0.5, easing: "easeInOut" }), [field]: value };
-        updateEvent(selectedEvent.id, { transition });
+    const handleTransitionChange = (key: "transition" | "exitTransition", field: string, value: unknown) => {
+        const transition = { ...(selectedEvent[key] || { type: "none", duration: 0.5, easing: "easeInOut" }), [field]: value };
+        updateEvent(selectedEvent.id, { [key]: transition });
     };
 
     return (
@@ -458,6 +533,113 @@ export function PropertyPanel({ onHide }: PropertyPanelProps) {
                             />
                         </div>
                     </div>
+                    <div className="space-y-1">
+                        <label className="text-[10px] text-gray-600">Stroke Color</label>
+                        <div className="flex gap-2">
+                            <input
+                                type="color"
+                                value={props.stroke || "#ffffff"}
+                                onChange={(e) => handleChange("stroke", e.target.value)}
+                                onBlur={handleBlur}
+                                className="w-12 h-10 bg-slate-800/50 border border-white/10 rounded cursor-pointer"
+                            />
+                            <input
+                                type="text"
+                                value={props.stroke || ""}
+                                placeholder="none"
+                                onChange={(e) => handleChange("stroke", e.target.value || undefined)}
+                                onBlur={handleBlur}
+                                className="flex-1 bg-slate-800/50 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none uppercase"
+                            />
+                        </div>
+                    </div>
+                    <div className="space-y-2">
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                id="useGradient"
+                                checked={!!props.gradient}
+                                onChange={(e) => {
+                                    handleChange("gradient", e.target.checked ? DEFAULT_GRADIENT : undefined);
+                                    saveToHistory();
+                                }}
+                                className="accent-purple-500"
+                            />
+                            <label htmlFor="useGradient" className="text-[10px] text-gray-600">Gradient Fill</label>
+                            {props.gradient && (
+                                <div
+                                    className="flex-1 h-4 rounded border border-white/10"
+                                    style={{ background: gradientToCss(props.gradient) }}
+                                />
+                            )}
+                        </div>
+                        {props.gradient && (
+                            <div className="space-y-2 bg-slate-800/30 rounded-lg p-2">
+                                <div className="grid grid-cols-2 gap-2">
+                                    <select
+                                        value={props.gradient.type}
+                                        onChange={(e) => {
+                                            handleGradientChange({ type: e.target.value as Gradient["type"] });
+                                            saveToHistory();
+                                        }}
+                                        className="bg-slate-700/50 border border-white/10 rounded px-2 py-1.5 text-xs text-white"
+                                    >
+                                        <option value="linear">Linear</option>
+                                        <option value="radial">Radial</option>
+                                    </select>
+                                    <input
+                                        type="number"
+                                        step="15"
+                                        value={props.gradient.angle ?? 0}
+                                        disabled={props.gradient.type === "radial"}
+                                        title="Angle (degrees)"
+                                        onChange={(e) => handleGradientChange({ angle: parseFloat(e.target.value) || 0 })}
+                                        onBlur={handleBlur}
+                                        className="bg-slate-700/50 border border-white/10 rounded px-2 py-1.5 text-xs text-white disabled:opacity-40"
+                                    />
+                                </div>
+                                <div className="flex flex-wrap gap-1 items-center">
+                                    {(props.gradient.colors as string[]).map((color, i) => (
+                                        <div key={i} className="relative group">
+                                            <input
+                                                type="color"
+                                                value={color}
+                                                onChange={(e) => {
+                                                    const colors = [...props.gradient.colors];
+                                                    colors[i] = e.target.value;
+                                                    handleGradientChange({ colors });
+                                                }}
+                                                onBlur={handleBlur}
+                                                className="w-8 h-8 bg-slate-800/50 border border-white/10 rounded cursor-pointer"
+                                            />
+                                            {props.gradient.colors.length > 2 && (
+                                                <button
+                                                    onClick={() => {
+                                                        handleGradientChange({ colors: props.gradient.colors.filter((_: string, j: number) => j !== i) });
+                                                        saveToHistory();
+                                                    }}
+                                                    className="absolute -top-1 -right-1 w-3.5 h-3.5 rounded-full bg-red-500 text-[8px] text-white hidden group-hover:flex items-center justify-center"
+                                                    title="Remove color stop"
+                                                >
+                                                    ✕
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                    <button
+                                        onClick={() => {
+                                            handleGradientChange({ colors: [...props.gradient.colors, props.gradient.colors[props.gradient.colors.length - 1] || "#ffffff"] });
+                                            saveToHistory();
+                                        }}
+                                        className="w-8 h-8 border border-dashed border-white/20 rounded text-xs text-gray-400 hover:text-white"
+                                        title="Add color stop"
+                                    >
+                                        +
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
                 </div>
             )}
 
@@ -492,6 +674,26 @@ export function PropertyPanel({ onHide }: PropertyPanelProps) {
                                 className="w-full accent-green-500"
                             />
                         </div>
+                        <div className="grid grid-cols-3 gap-2">
+                            {([
+                                ["sourceOffset", "In-point (s)"],
+                                ["fadeIn", "Fade In (s)"],
+                                ["fadeOut", "Fade Out (s)"],
+                            ] as const).map(([key, label]) => (
+                                <div key={key} className="space-y-1">
+                                    <label className="text-[10px] text-gray-600">{label}</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="0.1"
+                                        value={props[key] ?? 0}
+                                        onChange={(e) => handleChange(key, Math.max(0, parseFloat(e.target.value) || 0))}
+                                        onBlur={handleBlur}
+                                        className="w-full bg-slate-800/50 border border-white/10 rounded px-2 py-1 text-sm text-white focus:border-purple-500 focus:outline-none"
+                                    />
+                                </div>
+                            ))}
+                        </div>
                         <div className="flex items-center gap-2">
                             <input
                                 type="checkbox"
@@ -516,79 +718,146 @@ export function PropertyPanel({ onHide }: PropertyPanelProps) {
                 </div>
             )}
 
-            {/* Animations Section */}
+            {/* Animations Section - one keyframe track per property */}
             <div className="pt-2 border-t border-white/10">
                 <button
                     onClick={() => setShowAnimations(!showAnimations)}
                     className="w-full flex items-center justify-between py-2 text-xs font-medium text-gray-400 hover:text-white transition-colors"
                 >
-                    <span>Animations ({selectedEvent.animations?.length || 0})</span>
+                    <span>Animations ({tracks.length})</span>
                     <span>{showAnimations ? "▼" : "▶"}</span>
                 </button>
 
                 {showAnimations && (
                     <div className="space-y-3 mt-2">
-                        {(selectedEvent.animations || []).map((anim, idx) => (
-                            <div key={idx} className="bg-slate-800/30 rounded-lg p-3 space-y-2">
+                        {tracks.map(([property, track]) => (
+                            <div key={property} className="bg-slate-800/30 rounded-lg p-3 space-y-2">
                                 <div className="flex items-center justify-between">
-                                    <span className="text-xs text-purple-400">Animation {idx + 1}</span>
+                                    <span className="text-xs text-purple-400">
+                                        {ANIMATION_TYPES.find((t) => t.value === property)?.label || property}
+                                        <span className="text-gray-500"> · {track.length} keyframes</span>
+                                    </span>
+                                    {track.some((k) => isColor(k.value) || isGradient(k.value)) && (
+                                        <select
+                                            value={track[0]?.colorSpace || "srgb"}
+                                            onChange={(e) => handleColorSpaceChange(property, e.target.value as ColorSpace)}
+                                            title="Color space used to blend colors"
+                                            className="ml-auto mr-2 bg-slate-700/50 border border-white/10 rounded px-1 py-0.5 text-[10px] text-white"
+                                        >
+                                            {COLOR_SPACES.map((c) => (
+                                                <option key={c.value} value={c.value}>{c.label}</option>
+                                            ))}
+                                        </select>
+                                    )}
                                     <button
-                                        onClick={() => removeAnimation(idx)}
+                                        onClick={() => removeAnimation(property)}
                                         className="text-red-400 hover:text-red-300 text-xs"
+                                        title="Remove animation"
                                     >
                                         ✕
                                     </button>
                                 </div>
-                                <div className="grid grid-cols-2 gap-2">
-                                    <select
-                                        value={anim.property}
-                                        onChange={(e) => handleAnimationChange(idx, "property", e.target.value)}
-                                        className="bg-slate-700/50 border border-white/10 rounded px-2 py-1.5 text-xs text-white"
-                                    >
-                                        {ANIMATION_TYPES.map((t) => (
-                                            <option key={t.value} value={t.value}>{t.label}</option>
-                                        ))}
-                                    </select>
-                                    <select
-                                        value={anim.easing || "easeOut"}
-                                        onChange={(e) => handleAnimationChange(idx, "easing", e.target.value)}
-                                        className="bg-slate-700/50 border border-white/10 rounded px-2 py-1.5 text-xs text-white"
-                                    >
-                                        {EASING_OPTIONS.map((e) => (
-                                            <option key={e.value} value={e.value}>{e.label}</option>
-                                        ))}
-                                    </select>
+                                <div className="grid grid-cols-[1fr_1fr_1.4fr_auto] gap-1 text-[10px] text-gray-600">
+                                    <span>Time (s)</span>
+                                    <span>Value</span>
+                                    <span>Easing</span>
+                                    <span />
                                 </div>
-                                <div className="grid grid-cols-2 gap-2">
-                                    <div className="space-y-1">
-                                        <label className="text-[10px] text-gray-600">From</label>
-                                        <input
-                                            type="number"
-                                            step="0.1"
-                                            value={anim.from as number}
-                                            onChange={(e) => handleAnimationChange(idx, "from", parseFloat(e.target.value))}
-                                            className="w-full bg-slate-700/50 border border-white/10 rounded px-2 py-1.5 text-xs text-white"
-                                        />
+                                {track.map((keyframe, idx) => (
+                                    <div key={idx} className="space-y-1">
+                                        <div className="grid grid-cols-[1fr_1fr_1.4fr_auto] gap-1 items-center">
+                                            <input
+                                                type="number"
+                                                step="0.1"
+                                                min="0"
+                                                max={selectedEvent.duration}
+                                                value={keyframe.time}
+                                                onChange={(e) => handleKeyframeChange(property, idx, "time", Math.max(0, parseFloat(e.target.value) || 0))}
+                                                onBlur={handleBlur}
+                                                className="w-full bg-slate-700/50 border border-white/10 rounded px-2 py-1.5 text-xs text-white"
+                                            />
+                                            {isGradient(keyframe.value) ? (
+                                                <div
+                                                    className="w-full h-7 rounded border border-white/10"
+                                                    style={{ background: gradientToCss(keyframe.value) }}
+                                                    title="Edit the gradient on the element, then add a keyframe at the playhead"
+                                                />
+                                            ) : (
+                                                <div className="flex items-center gap-1 min-w-0">
+                                                    {isColor(keyframe.value) && (
+                                                        <span
+                                                            className="w-3 h-3 shrink-0 rounded-sm border border-white/20"
+                                                            style={{ backgroundColor: keyframe.value }}
+                                                        />
+                                                    )}
+                                                    <input
+                                                        type={typeof keyframe.value === "number" ? "number" : "text"}
+                                                        step="0.1"
+                                                        value={keyframe.value}
+                                                        onChange={(e) => handleKeyframeChange(
+                                                            property,
+                                                            idx,
+                                                            "value",
+                                                            typeof keyframe.value === "number" ? parseFloat(e.target.value) || 0 : e.target.value
+                                                        )}
+                                                        onBlur={handleBlur}
+                                                        className="w-full min-w-0 bg-slate-700/50 border border-white/10 rounded px-2 py-1.5 text-xs text-white"
+                                                    />
+                                                </div>
+                                            )}
+                                            <EasingSelect
+                                                value={keyframe.easing}
+                                                onChange={(easing) => {
+                                                    handleKeyframeChange(property, idx, "easing", easing);
+                                                    saveToHistory();
+                                                }}
+                                                disabled={idx === track.length - 1}
+                                                title={idx === track.length - 1 ? "Last keyframe holds its value" : "Curve to the next keyframe"}
+                                                className="w-full bg-slate-700/50 border border-white/10 rounded px-1 py-1.5 text-xs text-white disabled:opacity-40"
+                                            />
+                                            <button
+                                                onClick={() => removeKeyframe(property, idx)}
+                                                className="text-gray-500 hover:text-red-300 text-xs px-1"
+                                                title="Remove keyframe"
+                                            >
+                                                ✕
+                                            </button>
+                                        </div>
+                                        {idx < track.length - 1 && isParametricEasing(keyframe.easing) && (
+                                            <EasingCurveEditor
+                                                value={keyframe.easing}
+                                                onChange={(easing) => handleKeyframeChange(property, idx, "easing", easing)}
+                                                onCommit={handleBlur}
+                                            />
+                                        )}
                                     </div>
-                                    <div className="space-y-1">
-                                        <label className="text-[10px] text-gray-600">To</label>
-                                        <input
-                                            type="number"
-                                            step="0.1"
-                                            value={anim.to as number}
-                                            onChange={(e) => handleAnimationChange(idx, "to", parseFloat(e.target.value))}
-                                            className="w-full bg-slate-700/50 border border-white/10 rounded px-2 py-1.5 text-xs text-white"
-                                        />
-                                    </div>
-                                </div>
+                                ))}
+                                <button
+                                    onClick={() => addKeyframeAtPlayhead(property)}
+                                    className="w-full py-1.5 bg-slate-700/30 rounded text-[10px] text-gray-400 hover:text-white transition-colors"
+                                >
+                                    ◆ Add keyframe at playhead ({localTime.toFixed(2)}s)
+                                </button>
                             </div>
                         ))}
-                        <button
-                            onClick={addAnimation}
-                            className="w-full py-2 border border-dashed border-white/20 rounded-lg text-xs text-gray-400 hover:text-white hover:border-white/40 transition-colors"
-                        >
-                            + Add Animation
-                        </button>
+                        <div className="flex gap-2">
+                            <select
+                                value={newTrackProperty}
+                                onChange={(e) => setNewTrackProperty(e.target.value as AnimatableProperty)}
+                                className="bg-slate-700/50 border border-white/10 rounded px-2 py-1.5 text-xs text-white"
+                            >
+                                {ANIMATION_TYPES.filter((t) => !selectedEvent.keyframes?.[t.value]).map((t) => (
+                                    <option key={t.value} value={t.value}>{t.label}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={addAnimation}
+                                disabled={!!selectedEvent.keyframes?.[newTrackProperty]}
+                                className="flex-1 py-2 border border-dashed border-white/20 rounded-lg text-xs text-gray-400 hover:text-white hover:border-white/40 transition-colors disabled:opacity-40"
+                            >
+                                + Add Animation
+                            </button>
+                        </div>
                     </div>
                 )}
             </div>
@@ -599,51 +868,75 @@ export function PropertyPanel({ onHide }: PropertyPanelProps) {
                     onClick={() => setShowTransitions(!showTransitions)}
                     className="w-full flex items-center justify-between py-2 text-xs font-medium text-gray-400 hover:text-white transition-colors"
                 >
-                    <span>Transition</span>
+                    <span>Transitions</span>
                     <span>{showTransitions ? "▼" : "▶"}</span>
                 </button>
 
                 {showTransitions && (
                     <div className="space-y-3 mt-2">
-                        <div className="space-y-1">
-                            <label className="text-[10px] text-gray-600">Type</label>
-                            <select
-                                value={selectedEvent.transition?.type || "none"}
-                                onChange={(e) => handleTransitionChange("type", e.target.value)}
-                                className="w-full bg-slate-800/50 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none"
-                            >
-                                {TRANSITION_TYPES.map((t) => (
-                                    <option key={t.value} value={t.value}>{t.label}</option>
-                                ))}
-                            </select>
-                        </div>
-                        {selectedEvent.transition?.type !== "none" && (
-                            <>
-                                <div className="space-y-1">
-                                    <label className="text-[10px] text-gray-600">Duration (s)</label>
-                                    <input
-                                        type="number"
-                                        step="0.1"
-                                        min="0"
-                                        value={selectedEvent.transition?.duration || 0.5}
-                                        onChange={(e) => handleTransitionChange("duration", parseFloat(e.target.value))}
-                                        className="w-full bg-slate-800/50 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none"
-                                    />
-                                </div>
-                                <div className="space-y-1">
-                                    <label className="text-[10px] text-gray-600">Easing</label>
-                                    <select
-                                        value={selectedEvent.transition?.easing || "easeInOut"}
-                                        onChange={(e) => handleTransitionChange("easing", e.target.value)}
-                                        className="w-full bg-slate-800/50 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none"
-                                    >
-                                        {EASING_OPTIONS.filter(e => e.value !== "bounce").map((e) => (
-                                            <option key={e.value} value={e.value}>{e.label}</option>
-                                        ))}
-                                    </select>
+                        {([
+                            { key: "transition", label: "Enter" },
+                            { key: "exitTransition", label: "Exit" },
+                        ] as const).map(({ key, label }) => {
+                            const transition = selectedEvent[key];
+                            return (
+                                <div key={key} className="space-y-2 bg-slate-800/30 rounded-lg p-3">
+                                    <div className="space-y-1">
+                                        <label className="text-[10px] text-gray-600">{label}</label>
+                                        <select
+                                            value={transition?.type || "none"}
+                                            onChange={(e) => {
+                                                handleTransitionChange(key, "type", e.target.value);
+                                                saveToHistory();
+                                            }}
+                                            className="w-full bg-slate-800/50 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none"
+                                        >
+                                            {TRANSITION_TYPES.map((t) => (
+                                                <option key={t.value} value={t.value}>
+                                                    {key === "exitTransition" && t.value === "none" ? "Default (fade out)" : t.label}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    {transition && transition.type !== "none" && (
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <div className="space-y-1">
+                                                <label className="text-[10px] text-gray-600">Duration (s)</label>
+                                                <input
+                                                    type="number"
+                                                    step="0.1"
+                                                    min="0"
+                                                    value={transition.duration ?? 0.5}
+                                                    onChange={(e) => handleTransitionChange(key, "duration", Math.max(0, parseFloat(e.target.value) || 0))}
+                                                    onBlur={handleBlur}
+                                                    className="w-full bg-slate-800/50 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-purple-500 focus:outline-none"
+                                                />
+                                            </div>
+                                            <div className="space-y-1">
+                                                <label className="text-[10px] text-gray-600">Easing</label>
+                                                <EasingSelect
+                                                    value={transition.easing}
+                                                    onChange={(easing) => {
+                                                        handleTransitionChange(key, "easing", easing);
+                                                        saveToHistory();
+                                                    }}
+                                                    className="w-full bg-slate-800/50 border border-white/10 rounded px-2 py-2 text-sm text-white focus:border-purple-500 focus:outline-none"
+                                                />
+                                            </div>
+                                            {isParametricEasing(transition.easing) && (
+                                                <div className="col-span-2">
+                                                    <EasingCurveEditor
+                                                        value={transition.easing}
+                                                        onChange={(easing) => handleTransitionChange(key, "easing", easing)}
+                                                        onCommit={handleBlur}
+                                                    />
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
                                 </div>
-                            </>
-                        )}
+                            );
+                        })}
                     </div>
                 )}
             </div>
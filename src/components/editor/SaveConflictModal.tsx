@@ -0,0 +1,72 @@
+"use client";
+
+interface SaveConflictModalProps {
+    isOpen: boolean;
+    // Events added, removed or changed in the copy saved elsewhere
+    theirChanges: number;
+    // Labels of the events both sides changed
+    conflicts: string[];
+    onKeepMine: () => void;
+    onKeepTheirs: () => void;
+    onMerge: () => void;
+}
+
+export function SaveConflictModal({ isOpen, theirChanges, conflicts, onKeepMine, onKeepTheirs, onMerge }: SaveConflictModalProps) {
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center">
+            <div className="bg-slate-900 border border-white/10 rounded-2xl p-6 w-full max-w-md space-y-4">
+                <h3 className="text-xl font-semibold text-white">Project Changed Elsewhere</h3>
+
+                <p className="text-sm text-gray-300">
+                    This project was saved from another tab or window since you opened it, with{" "}
+                    {theirChanges} {theirChanges === 1 ? "element" : "elements"} added, removed or changed.
+                    Your edits haven&apos;t been saved yet.
+                </p>
+
+                {conflicts.length > 0 && (
+                    <div className="p-3 bg-orange-500/10 border border-orange-500/30 rounded-lg text-xs text-orange-300">
+                        <p className="font-medium mb-1">Changed in both places:</p>
+                        <ul className="space-y-0.5">
+                            {conflicts.slice(0, 5).map((label, index) => (
+                                <li key={index} className="truncate">• {label}</li>
+                            ))}
+                            {conflicts.length > 5 && <li>• and {conflicts.length - 5} more</li>}
+                        </ul>
+                    </div>
+                )}
+
+                <div className="space-y-2">
+                    <button
+                        onClick={onMerge}
+                        className="w-full py-2 bg-purple-600 hover:bg-purple-500 text-white text-sm font-medium rounded-lg transition-colors text-left px-4"
+                    >
+                        🔀 Merge
+                        <span className="block text-xs font-normal text-purple-200">
+                            Keep both sets of changes{conflicts.length > 0 ? " - yours win where they overlap" : ""}
+                        </span>
+                    </button>
+                    <button
+                        onClick={onKeepMine}
+                        className="w-full py-2 bg-slate-800 hover:bg-slate-700 text-white text-sm font-medium rounded-lg transition-colors text-left px-4"
+                    >
+                        ✏️ Keep mine
+                        <span className="block text-xs font-normal text-gray-400">Overwrite the other copy with yours</span>
+                    </button>
+                    <button
+                        onClick={onKeepTheirs}
+                        className="w-full py-2 bg-slate-800 hover:bg-slate-700 text-white text-sm font-medium rounded-lg transition-colors text-left px-4"
+                    >
+                        📥 Keep theirs
+                        <span className="block text-xs font-normal text-gray-400">Discard your unsaved edits and load the other copy</span>
+                    </button>
+                </div>
+
+                <p className="text-xs text-gray-500">
+                    Their copy stays in 🕘 History, so merging or keeping yours can be undone.
+                </p>
+            </div>
+        </div>
+    );
+}
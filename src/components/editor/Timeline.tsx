@@ -2,7 +2,11 @@
 
 import { useEffect, useState, useRef } from "react";
 import { useEditorStore } from "@/stores/editor-store";
+import { useCollabStore } from "@/stores/collab-store";
 import { ContextMenu } from "./ContextMenu";
+import { AudioWaveform } from "./AudioWaveform";
+import { setKeyframeTrack } from "@/lib/core/timeline/keyframes";
+import type { AnimatableProperty, AudioProperties, KeyframeTrack } from "@/lib/schemas/timeline";
 
 interface TimelineProps {
     onHide?: () => void;
@@ -16,19 +20,24 @@ export function Timeline({ onHide }: TimelineProps) {
         isPlaying,
         setIsPlaying,
         updateEvent,
+        saveToHistory,
         selectedIds,
         toggleSelectedId,
     } = useEditorStore();
+    const peers = useCollabStore((state) => state.peers);
     const [draggingId, setDraggingId] = useState<string | null>(null);
     const [resizingId, setResizingId] = useState<string | null>(null);
     const [resizeEdge, setResizeEdge] = useState<"left" | "right" | null>(null);
     const [isDraggingPlayhead, setIsDraggingPlayhead] = useState(false);
     const [contextMenu, setContextMenu] = useState<{ x: number; y: number; eventId: string | null } | null>(null);
+    const [draggingKeyframe, setDraggingKeyframe] = useState<{ eventId: string; property: AnimatableProperty; index: number } | null>(null);
+    const [draggingFade, setDraggingFade] = useState<{ eventId: string; edge: "in" | "out" } | null>(null);
     const dragStartX = useRef(0);
     const dragStartY = useRef(0);
     const dragStartTime = useRef(0);
     const dragStartDuration = useRef(0);
     const dragStartLayer = useRef(0);
+    const dragStartOffset = useRef(0);
     const playheadDragOffset = useRef(0);
     const tracksRef = useRef<HTMLDivElement>(null);
     const [zoom, setZoom] = useState(1);
@@ -53,6 +62,13 @@ export function Timeline({ onHide }: TimelineProps) {
     const audioEvents = project.events.filter(e => e.type === "audio");
     const maxLayer = Math.max(...project.events.map(e => e.layer), 0);
 
+    // Keyframe lanes for the selected event (one per animated property)
+    const keyframeEvent = selectedIds.size === 1
+        ? project.events.find(e => selectedIds.has(e.id) && e.type !== "audio")
+        : undefined;
+    const keyframeTracks = Object.entries(keyframeEvent?.keyframes || {})
+        .filter(([, track]) => track && track.length > 0) as [AnimatableProperty, KeyframeTrack][];
+
     // Playback loop
     // eslint-disable-next-line react-hooks/rules-of-hooks
     useEffect(() => {
@@ -201,6 +217,11 @@ export function Timeline({ onHide }: TimelineProps) {
         dragStartX.current = e.clientX;
         dragStartTime.current = eventStartTime;
         dragStartDuration.current = eventDuration;
+        // Audio in-point, so trimming the left edge keeps the remaining audio in place
+        const event = project.events.find(ev => ev.id === eventId);
+        dragStartOffset.current = event?.type === "audio"
+            ? (event.properties as AudioProperties).sourceOffset ?? 0
+            : 0;
         document.body.style.cursor = "ew-resize";
     };
 
@@ -258,6 +279,21 @@ export function Timeline({ onHide }: TimelineProps) {
                 const newDuration = Math.max(0.1, dragStartDuration.current + deltaTime);
                 updateEvent(resizingId, { duration: newDuration });
             } else {
+                const event = useEditorStore.getState().project?.events.find(ev => ev.id === resizingId);
+                if (event?.type === "audio") {
+                    // Trim the in-point: the source can't start before its first sample
+                    const earliest = Math.max(0, dragStartTime.current - dragStartOffset.current);
+                    const latest = dragStartTime.current + dragStartDuration.current - 0.1;
+                    const newStartTime = Math.min(Math.max(earliest, dragStartTime.current + deltaTime), latest);
+                    const timeDelta = newStartTime - dragStartTime.current;
+                    updateEvent(resizingId, {
+                        startTime: newStartTime,
+                        duration: dragStartDuration.current - timeDelta,
+                        properties: { ...event.properties, sourceOffset: dragStartOffset.current + timeDelta },
+                    });
+                    return;
+                }
+
                 // Resize from left edge - change start time and duration
                 const newStartTime = Math.max(0, dragStartTime.current + deltaTime);
                 const timeDelta = newStartTime - dragStartTime.current;
@@ -281,6 +317,124 @@ export function Timeline({ onHide }: TimelineProps) {
         };
     }, [resizingId, resizeEdge, totalDuration, totalWidth, updateEvent]);
 
+    // Keyframe marker dragging (retime within the event)
+    const handleKeyframeMouseDown = (
+        e: React.MouseEvent,
+        eventId: string,
+        property: AnimatableProperty,
+        index: number,
+        keyframeTime: number
+    ) => {
+        e.stopPropagation();
+        setDraggingKeyframe({ eventId, property, index });
+        dragStartX.current = e.clientX;
+        dragStartTime.current = keyframeTime;
+        document.body.style.cursor = "ew-resize";
+    };
+
+    // eslint-disable-next-line react-hooks/rules-of-hooks
+    useEffect(() => {
+        if (!draggingKeyframe) return;
+        const { eventId, property, index } = draggingKeyframe;
+
+        const getTrack = () => {
+            const event = useEditorStore.getState().project?.events.find(ev => ev.id === eventId);
+            return { event, track: event?.keyframes?.[property] };
+        };
+
+        const handleMouseMove = (e: MouseEvent) => {
+            const { event, track } = getTrack();
+            if (!event || !track || !track[index]) return;
+
+            const deltaX = e.clientX - dragStartX.current;
+            const deltaTime = (deltaX / totalWidth) * totalDuration;
+            const time = Math.min(Math.max(0, dragStartTime.current + deltaTime), event.duration);
+
+            // Keep the array order while dragging so the index stays stable; sort on release
+            const nextTrack = track.map((kf, i) => (i === index ? { ...kf, time } : kf));
+            updateEvent(eventId, { keyframes: { ...event.keyframes, [property]: nextTrack } });
+        };
+
+        const handleMouseUp = () => {
+            const { event, track } = getTrack();
+            // Plain clicks (no movement) leave the track and history untouched
+            if (event && track && track[index]?.time !== dragStartTime.current) {
+                updateEvent(eventId, { keyframes: setKeyframeTrack(event.keyframes, property, track) });
+                saveToHistory();
+            }
+            setDraggingKeyframe(null);
+            document.body.style.cursor = "";
+        };
+
+        document.addEventListener("mousemove", handleMouseMove);
+        document.addEventListener("mouseup", handleMouseUp);
+
+        return () => {
+            document.removeEventListener("mousemove", handleMouseMove);
+            document.removeEventListener("mouseup", handleMouseUp);
+        };
+    }, [draggingKeyframe, totalDuration, totalWidth, updateEvent, saveToHistory]);
+
+    // Audio fade handles (drag to set fadeIn/fadeOut)
+    const handleFadeMouseDown = (e: React.MouseEvent, eventId: string, edge: "in" | "out", fade: number) => {
+        e.stopPropagation();
+        setDraggingFade({ eventId, edge });
+        dragStartX.current = e.clientX;
+        dragStartDuration.current = fade;
+        document.body.style.cursor = "ew-resize";
+    };
+
+    // eslint-disable-next-line react-hooks/rules-of-hooks
+    useEffect(() => {
+        if (!draggingFade) return;
+        const { eventId, edge } = draggingFade;
+        const key = edge === "in" ? "fadeIn" : "fadeOut";
+
+        const getAudio = () => {
+            const event = useEditorStore.getState().project?.events.find(ev => ev.id === eventId);
+            return event?.type === "audio" ? { event, props: event.properties as AudioProperties } : null;
+        };
+
+        const handleMouseMove = (e: MouseEvent) => {
+            const audio = getAudio();
+            if (!audio) return;
+
+            const deltaX = e.clientX - dragStartX.current;
+            const deltaTime = (deltaX / totalWidth) * totalDuration;
+            // The fade-out handle sits at the right edge, so dragging left lengthens it
+            const other = edge === "in" ? audio.props.fadeOut ?? 0 : audio.props.fadeIn ?? 0;
+            const raw = dragStartDuration.current + (edge === "in" ? deltaTime : -deltaTime);
+            const fade = Math.round(Math.min(Math.max(0, raw), audio.event.duration - other) * 100) / 100;
+
+            updateEvent(eventId, { properties: { ...audio.props, [key]: fade } });
+        };
+
+        const handleMouseUp = () => {
+            const audio = getAudio();
+            if (audio && (audio.props[key] ?? 0) !== dragStartDuration.current) {
+                saveToHistory();
+            }
+            setDraggingFade(null);
+            document.body.style.cursor = "";
+        };
+
+        document.addEventListener("mousemove", handleMouseMove);
+        document.addEventListener("mouseup", handleMouseUp);
+
+        return () => {
+            document.removeEventListener("mousemove", handleMouseMove);
+            document.removeEventListener("mouseup", handleMouseUp);
+        };
+    }, [draggingFade, totalDuration, totalWidth, updateEvent, saveToHistory]);
+
+    const deleteKeyframe = (property: AnimatableProperty, index: number) => {
+        if (!keyframeEvent) return;
+        const track = [...(keyframeEvent.keyframes?.[property] || [])];
+        track.splice(index, 1);
+        updateEvent(keyframeEvent.id, { keyframes: setKeyframeTrack(keyframeEvent.keyframes, property, track) });
+        saveToHistory();
+    };
+
     const getEventColor = (type: string) => {
         switch (type) {
             case "text": return "bg-blue-500";
@@ -412,6 +566,16 @@ export function Timeline({ onHide }: TimelineProps) {
                             <span className="text-[10px] text-green-400 truncate">🔊 Audio</span>
                         </div>
                     )}
+
+                    {/* Keyframe lane labels */}
+                    {keyframeTracks.map(([property], i) => (
+                        <div
+                            key={property}
+                            className={`h-5 flex items-center px-2 bg-purple-500/5 ${i === 0 ? "border-t border-white/10" : ""}`}
+                        >
+                            <span className="text-[10px] text-purple-300 truncate">◆ {property}</span>
+                        </div>
+                    ))}
                 </div>
 
                 {/* Scrollable Timeline */}
@@ -449,6 +613,26 @@ export function Timeline({ onHide }: TimelineProps) {
                                 );
                             })}
 
+                            {/* Collaborators' playheads */}
+                            {peers.map((peer) => (
+                                <div
+                                    key={peer.clientId}
+                                    className="absolute top-0 bottom-0 w-0.5 z-20 pointer-events-none"
+                                    style={{
+                                        left: `${(Math.min(peer.presence.playhead, totalDuration) / totalDuration) * 100}%`,
+                                        backgroundColor: peer.user.color,
+                                    }}
+                                    title={peer.user.name}
+                                >
+                                    <span
+                                        className="absolute left-1 top-0 px-1 rounded text-[9px] font-semibold text-slate-900 whitespace-nowrap"
+                                        style={{ backgroundColor: peer.user.color }}
+                                    >
+                                        {peer.user.name}
+                                    </span>
+                                </div>
+                            ))}
+
                             {/* Playhead in ruler - draggable */}
                             <div
                                 className={`absolute top-0 bottom-0 w-0.5 bg-purple-500 z-30 ${isDraggingPlayhead ? 'cursor-ew-resize' : 'cursor-grab'}`}
@@ -515,6 +699,19 @@ export function Timeline({ onHide }: TimelineProps) {
                                 </div>
                             ))}
 
+                            {/* Collaborators' playhead lines */}
+                            {peers.map((peer) => (
+                                <div
+                                    key={peer.clientId}
+                                    className="absolute top-0 w-px opacity-60 pointer-events-none z-10"
+                                    style={{
+                                        left: `${(Math.min(peer.presence.playhead, totalDuration) / totalDuration) * 100}%`,
+                                        height: `${(maxLayer + 1) * 28 + 16}px`,
+                                        backgroundColor: peer.user.color,
+                                    }}
+                                />
+                            ))}
+
                             {/* Playhead line through tracks */}
                             <div
                                 className="absolute top-0 w-0.5 bg-purple-500/50 pointer-events-none z-10"
@@ -528,63 +725,116 @@ export function Timeline({ onHide }: TimelineProps) {
                         {/* Audio Track */}
                         {audioEvents.length > 0 && (
                             <div className="relative h-7 border-t border-white/10 bg-green-500/5">
-                                {audioEvents.map((event) => (
-                                    <div
-                                        key={event.id}
-                                        className={`absolute h-5 top-1 rounded-sm cursor-grab select-none flex items-center text-xs text-white overflow-hidden whitespace-nowrap group ${draggingId === event.id || resizingId === event.id ? "opacity-90 shadow-lg z-50" : "opacity-80 hover:opacity-100"
-                                            } ${selectedIds.has(event.id)
-                                                ? "ring-2 ring-green-400"
-                                                : ""
-                                            } bg-green-600`}
-                                        style={{
-                                            left: `${(event.startTime / totalDuration) * 100}%`,
-                                            width: `${Math.max((event.duration / totalDuration) * 100, 1)}%`,
-                                        }}
-                                        onMouseDown={(e) => handleItemMouseDown(e, event.id, event.startTime, 0)}
-                                        onContextMenu={(e) => {
-                                            e.preventDefault();
-                                            e.stopPropagation();
-                                            setContextMenu({
-                                                x: e.clientX,
-                                                y: e.clientY,
-                                                eventId: event.id,
-                                            });
-                                        }}
-                                    >
-                                        {/* Left resize handle */}
+                                {audioEvents.map((event) => {
+                                    const audioProps = event.properties as AudioProperties;
+                                    const fadeIn = audioProps.fadeIn ?? 0;
+                                    const fadeOut = audioProps.fadeOut ?? 0;
+                                    const fadeHandleClass = `absolute top-0 w-2 h-2 -ml-1 rounded-full bg-white border border-green-700 cursor-ew-resize z-10 transition-opacity ${selectedIds.has(event.id) || draggingFade?.eventId === event.id
+                                        ? "opacity-100"
+                                        : "opacity-0 group-hover:opacity-100"
+                                        }`;
+
+                                    return (
                                         <div
-                                            className="absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize bg-white/0 hover:bg-white/20 transition-colors"
-                                            onMouseDown={(e) => handleResizeMouseDown(e, event.id, event.startTime, event.duration, "left")}
-                                        />
-
-                                        <div className="flex-1 flex items-center px-2 min-w-0">
-                                            <span className="mr-1">🔊</span>
-                                            <span className="truncate text-[10px]">
-                                                {"isVoiceover" in event.properties && (event.properties as { isVoiceover?: boolean }).isVoiceover
-                                                    ? "Voiceover"
-                                                    : "Audio"}
-                                            </span>
-                                            {/* Waveform visualization */}
-                                            <div className="flex-1 h-3 mx-1 flex items-end gap-px opacity-40">
-                                                {Array.from({ length: 20 }).map((_, i) => (
-                                                    <div
-                                                        key={i}
-                                                        className="flex-1 bg-white/60 rounded-t-sm"
-                                                        style={{ height: `${20 + Math.sin(i * 0.8) * 30 + Math.random() * 30}%` }}
-                                                    />
-                                                ))}
+                                            key={event.id}
+                                            className={`absolute h-5 top-1 rounded-sm cursor-grab select-none flex items-center text-xs text-white overflow-hidden whitespace-nowrap group ${draggingId === event.id || resizingId === event.id ? "opacity-90 shadow-lg z-50" : "opacity-80 hover:opacity-100"
+                                                } ${selectedIds.has(event.id)
+                                                    ? "ring-2 ring-green-400"
+                                                    : ""
+                                                } bg-green-600`}
+                                            style={{
+                                                left: `${(event.startTime / totalDuration) * 100}%`,
+                                                width: `${Math.max((event.duration / totalDuration) * 100, 1)}%`,
+                                            }}
+                                            onMouseDown={(e) => handleItemMouseDown(e, event.id, event.startTime, 0)}
+                                            onContextMenu={(e) => {
+                                                e.preventDefault();
+                                                e.stopPropagation();
+                                                setContextMenu({
+                                                    x: e.clientX,
+                                                    y: e.clientY,
+                                                    eventId: event.id,
+                                                });
+                                            }}
+                                        >
+                                            {/* Waveform of the trimmed source range */}
+                                            <AudioWaveform
+                                                src={audioProps.src}
+                                                sourceOffset={audioProps.sourceOffset ?? 0}
+                                                duration={event.duration}
+                                                fadeIn={fadeIn}
+                                                fadeOut={fadeOut}
+                                                volume={audioProps.isMuted ? 0 : audioProps.volume ?? 1}
+                                            />
+
+                                            {/* Left resize handle (trims the in-point) */}
+                                            <div
+                                                className="absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize bg-white/0 hover:bg-white/20 transition-colors"
+                                                onMouseDown={(e) => handleResizeMouseDown(e, event.id, event.startTime, event.duration, "left")}
+                                            />
+
+                                            <div className="relative flex-1 flex items-center px-2 min-w-0">
+                                                <span className="mr-1">🔊</span>
+                                                <span className="truncate text-[10px]">
+                                                    {audioProps.isVoiceover ? "Voiceover" : "Audio"}
+                                                </span>
                                             </div>
+
+                                            {/* Fade handles */}
+                                            <div
+                                                className={fadeHandleClass}
+                                                style={{ left: `${(fadeIn / event.duration) * 100}%` }}
+                                                title={`Fade in: ${fadeIn.toFixed(2)}s`}
+                                                onMouseDown={(e) => handleFadeMouseDown(e, event.id, "in", fadeIn)}
+                                            />
+                                            <div
+                                                className={fadeHandleClass}
+                                                style={{ left: `${100 - (fadeOut / event.duration) * 100}%` }}
+                                                title={`Fade out: ${fadeOut.toFixed(2)}s`}
+                                                onMouseDown={(e) => handleFadeMouseDown(e, event.id, "out", fadeOut)}
+                                            />
+
+                                            {/* Right resize handle */}
+                                            <div
+                                                className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize bg-white/0 hover:bg-white/20 transition-colors"
+                                                onMouseDown={(e) => handleResizeMouseDown(e, event.id, event.startTime, event.duration, "right")}
+                                            />
                                         </div>
+                                    );
+                                })}
+                            </div>
+                        )}
 
-                                        {/* Right resize handle */}
-                                        <div
-                                            className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize bg-white/0 hover:bg-white/20 transition-colors"
-                                            onMouseDown={(e) => handleResizeMouseDown(e, event.id, event.startTime, event.duration, "right")}
-                                        />
-                                    </div>
+                        {/* Keyframe Lanes (selected event) */}
+                        {keyframeEvent && keyframeTracks.map(([property, track], i) => (
+                            <div
+                                key={property}
+                                className={`relative h-5 bg-purple-500/5 ${i === 0 ? "border-t border-white/10" : ""}`}
+                            >
+                                {/* Event span */}
+                                <div
+                                    className="absolute top-2 h-px bg-purple-400/30 pointer-events-none"
+                                    style={{
+                                        left: `${(keyframeEvent.startTime / totalDuration) * 100}%`,
+                                        width: `${(keyframeEvent.duration / totalDuration) * 100}%`,
+                                    }}
+                                />
+                                {track.map((keyframe, idx) => (
+                                    <div
+                                        key={idx}
+                                        className={`absolute top-1 w-2.5 h-2.5 -ml-[5px] rotate-45 border cursor-ew-resize ${draggingKeyframe?.property === property && draggingKeyframe.index === idx
+                                            ? "bg-purple-300 border-white"
+                                            : "bg-purple-500 border-purple-200/60 hover:bg-purple-400"
+                                            }`}
+                                        style={{ left: `${((keyframeEvent.startTime + keyframe.time) / totalDuration) * 100}%` }}
+                                        title={`${property}: ${keyframe.value} @ ${keyframe.time.toFixed(2)}s (double-click to delete)`}
+                                        onMouseDown={(e) => handleKeyframeMouseDown(e, keyframeEvent.id, property, idx, keyframe.time)}
+                                        onClick={() => setCurrentTime(keyframeEvent.startTime + keyframe.time)}
+                                        onDoubleClick={() => deleteKeyframe(property, idx)}
+                                    />
                                 ))}
                             </div>
-                        )}
+                        ))}
                     </div>
                 </div>
             </div>
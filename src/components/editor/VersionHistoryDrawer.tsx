@@ -0,0 +1,257 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { projectETag } from "@/lib/types/project";
+import type { ProjectVersionSummary, TimelineDiff } from "@/lib/types/version";
+
+interface VersionHistoryDrawerProps {
+    isOpen: boolean;
+    onClose: () => void;
+    projectId: string;
+    // Called before a checkpoint or restore, so unsaved edits are in the history too - false when the save failed
+    saveProject: () => Promise<boolean>;
+    // Revision the editor last saved or loaded - a restore only goes through while the project is still on it
+    getRevision: () => number;
+    // Called once a restore has been saved - the editor reloads the project
+    onRestored: () => void;
+}
+
+export function VersionHistoryDrawer({
+    isOpen,
+    onClose,
+    projectId,
+    saveProject,
+    getRevision,
+    onRestored,
+}: VersionHistoryDrawerProps) {
+    const [versions, setVersions] = useState<ProjectVersionSummary[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [checkpointName, setCheckpointName] = useState("");
+    const [isCreating, setIsCreating] = useState(false);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [diff, setDiff] = useState<TimelineDiff | null>(null);
+    const [isRestoring, setIsRestoring] = useState(false);
+
+    const loadVersions = useCallback(async () => {
+        try {
+            const response = await fetch(`/api/projects/${projectId}/versions`);
+            if (!response.ok) throw new Error(`Status ${response.status}`);
+            setVersions(await response.json());
+            setError(null);
+        } catch (err) {
+            console.error("Failed to load versions:", err);
+            setError("Couldn't load the version history");
+        }
+    }, [projectId]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setSelectedId(null);
+        setDiff(null);
+        loadVersions();
+    }, [isOpen, loadVersions]);
+
+    const selectVersion = async (id: string) => {
+        if (selectedId === id) {
+            setSelectedId(null);
+            return;
+        }
+        setSelectedId(id);
+        setDiff(null);
+        try {
+            const response = await fetch(`/api/versions/${id}/diff`);
+            if (!response.ok) throw new Error(`Status ${response.status}`);
+            setDiff(await response.json());
+        } catch (err) {
+            console.error("Failed to diff version:", err);
+            setError("Couldn't compare this version");
+        }
+    };
+
+    const createCheckpoint = async () => {
+        if (!checkpointName.trim()) return;
+
+        setIsCreating(true);
+        try {
+            if (!(await saveProject())) {
+                setError("Couldn't save your changes - save, then try again");
+                return;
+            }
+            const response = await fetch(`/api/projects/${projectId}/versions`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ name: checkpointName }),
+            });
+            if (!response.ok) throw new Error(`Status ${response.status}`);
+            setCheckpointName("");
+            await loadVersions();
+        } catch (err) {
+            console.error("Failed to create checkpoint:", err);
+            setError("Couldn't save the checkpoint");
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const restore = async (version: ProjectVersionSummary) => {
+        if (!confirm("Restore this version? Your current timeline stays in the history.")) return;
+
+        setIsRestoring(true);
+        try {
+            // Otherwise the restore would overwrite edits that aren't in the history
+            if (!(await saveProject())) {
+                setError("Couldn't save your changes - save, then try again");
+                return;
+            }
+            const response = await fetch(`/api/versions/${version.id}/restore`, {
+                method: "POST",
+                headers: { "If-Match": projectETag(getRevision()) },
+            });
+            if (response.status === 409) {
+                setError("The project was changed elsewhere - reload it before restoring");
+                return;
+            }
+            if (!response.ok) throw new Error(`Status ${response.status}`);
+            onRestored();
+            setSelectedId(null);
+            setDiff(null);
+            await loadVersions();
+        } catch (err) {
+            console.error("Failed to restore version:", err);
+            setError("Couldn't restore this version");
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    const formatDate = (date: string) => {
+        return new Date(date).toLocaleString("en-US", {
+            month: "short",
+            day: "numeric",
+            hour: "numeric",
+            minute: "2-digit",
+        });
+    };
+
+    const isDiffEmpty = (d: TimelineDiff) =>
+        d.added.length === 0 && d.removed.length === 0 && d.changed.length === 0 && d.reordered === 0 && !d.duration;
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-y-0 right-0 z-40 w-80 bg-slate-900 border-l border-white/10 shadow-2xl flex flex-col">
+            <div className="p-3 border-b border-white/10 flex items-center justify-between">
+                <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Version History</h3>
+                <button
+                    onClick={onClose}
+                    className="p-1 hover:bg-white/10 rounded text-gray-500 hover:text-white transition-colors"
+                    title="Close History"
+                >
+                    ✕
+                </button>
+            </div>
+
+            {/* Named checkpoint */}
+            <div className="p-3 border-b border-white/10 flex gap-2">
+                <input
+                    type="text"
+                    value={checkpointName}
+                    onChange={(e) => setCheckpointName(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && createCheckpoint()}
+                    placeholder="Checkpoint name"
+                    maxLength={100}
+                    className="flex-1 min-w-0 px-2 py-1.5 bg-slate-800 border border-white/10 rounded-lg text-xs text-white placeholder-gray-500 focus:outline-none focus:border-purple-500"
+                />
+                <button
+                    onClick={createCheckpoint}
+                    disabled={isCreating || !checkpointName.trim()}
+                    className="px-2.5 py-1.5 bg-purple-600 hover:bg-purple-500 text-white text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+                >
+                    {isCreating ? "Saving..." : "📌 Save"}
+                </button>
+            </div>
+
+            {error && (
+                <p className="px-3 py-2 text-xs text-red-400 border-b border-white/10">{error}</p>
+            )}
+
+            <div className="flex-1 overflow-y-auto p-2 space-y-1">
+                {!versions ? (
+                    <p className="p-2 text-xs text-gray-500">Loading versions...</p>
+                ) : versions.length === 0 ? (
+                    <p className="p-2 text-xs text-gray-500">No versions yet - they are added as you save</p>
+                ) : (
+                    versions.map((version) => (
+                        <div
+                            key={version.id}
+                            className={`rounded-lg border text-xs transition-colors ${selectedId === version.id
+                                ? "bg-purple-600/20 border-purple-500/40"
+                                : "bg-slate-800/50 border-transparent hover:border-white/10"
+                                }`}
+                        >
+                            <button
+                                onClick={() => selectVersion(version.id)}
+                                className="w-full p-2 text-left flex items-center gap-2"
+                            >
+                                <span className="shrink-0">{version.name ? "📌" : "💾"}</span>
+                                <span className="flex-1 min-w-0">
+                                    <span className="block truncate text-white">{version.name ?? "Autosave"}</span>
+                                    <span className="block text-gray-500">
+                                        {formatDate(version.createdAt)} • {version.eventCount} elements • {version.duration.toFixed(1)}s
+                                    </span>
+                                </span>
+                            </button>
+
+                            {selectedId === version.id && (
+                                <div className="px-2 pb-2 space-y-2">
+                                    {!diff ? (
+                                        <p className="text-gray-500">Comparing...</p>
+                                    ) : isDiffEmpty(diff) ? (
+                                        <p className="text-gray-500">Same as the saved project</p>
+                                    ) : (
+                                        <ul className="space-y-0.5 text-gray-300">
+                                            {diff.added.map((event) => (
+                                                <li key={`added-${event.id}`} className="truncate text-green-400">
+                                                    + {event.label}
+                                                </li>
+                                            ))}
+                                            {diff.removed.map((event) => (
+                                                <li key={`removed-${event.id}`} className="truncate text-red-400">
+                                                    − {event.label}
+                                                </li>
+                                            ))}
+                                            {diff.changed.map((event) => (
+                                                <li
+                                                    key={`changed-${event.id}`}
+                                                    className="truncate text-orange-300"
+                                                    title={event.fields.join(", ")}
+                                                >
+                                                    ~ {event.label} ({event.fields.length} {event.fields.length === 1 ? "field" : "fields"})
+                                                </li>
+                                            ))}
+                                            {diff.reordered > 0 && (
+                                                <li className="text-gray-400">↕ {diff.reordered} reordered</li>
+                                            )}
+                                            {diff.duration && (
+                                                <li className="text-gray-400">
+                                                    ⏱ {diff.duration.from.toFixed(1)}s → {diff.duration.to.toFixed(1)}s
+                                                </li>
+                                            )}
+                                        </ul>
+                                    )}
+                                    <button
+                                        onClick={() => restore(version)}
+                                        disabled={isRestoring || !diff || isDiffEmpty(diff)}
+                                        className="w-full py-1.5 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors disabled:opacity-50"
+                                    >
+                                        {isRestoring ? "Restoring..." : "↩️ Restore this version"}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+}
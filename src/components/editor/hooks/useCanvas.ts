@@ -3,110 +3,12 @@
 import { useEffect, useRef } from "react";
 import * as fabric from "fabric";
 import { useEditorStore } from "@/stores/editor-store";
-import type { TimelineEvent, Animation } from "@/lib/schemas/timeline";
-
-type EasingType = "linear" | "easeIn" | "easeOut" | "easeInOut" | "bounce";
-
-/**
- * Easing functions for animations
- */
-const easingFunctions: Record<EasingType, (t: number) => number> = {
-  linear: (t) => t,
-  easeIn: (t) => t * t,
-  easeOut: (t) => t * (2 - t),
-  easeInOut: (t) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
-  bounce: (t) => {
-    if (t < 1 / 2.75) return 7.5625 * t * t;
-    if (t < 2 / 2.75) return 7.5625 * (t -= 1.5 / 2.75) * t + 0.75;
-    if (t < 2.5 / 2.75) return 7.5625 * (t -= 2.25 / 2.75) * t + 0.9375;
-    return 7.5625 * (t -= 2.625 / 2.75) * t + 0.984375;
-  },
-};
-
-/**
- * Interpolate an animation value at a specific local time
- */
-function interpolateAnimation(
-  animation: Animation,
-  localTime: number,
-  eventDuration: number
-): number | string | null {
-  const animDuration = animation.duration ?? eventDuration;
-  const startTime = animation.delay ?? 0;
-
-  if (localTime < startTime) {
-    return animation.from;
-  }
-
-  if (localTime >= startTime + animDuration) {
-    return animation.to;
-  }
-
-  const progress = (localTime - startTime) / animDuration;
-  const easingFn =
-    easingFunctions[animation.easing as EasingType] || easingFunctions.linear;
-  const easedProgress = easingFn(progress);
-
-  // Handle numeric interpolation
-  if (typeof animation.from === "number" && typeof animation.to === "number") {
-    return animation.from + (animation.to - animation.from) * easedProgress;
-  }
-
-  // For colors/strings, return based on progress
-  return progress < 0.5 ? animation.from : animation.to;
-}
-
-/**
- * Compute animated properties for an event at a specific time
- */
-function computeAnimatedProperties(
-  event: TimelineEvent,
-  currentTime: number
-): Record<string, unknown> {
-  const properties = { ...event.properties } as Record<string, unknown>;
-
-  if (event.animations && event.animations.length > 0) {
-    const eventLocalTime = currentTime - event.startTime;
-
-    for (const animation of event.animations) {
-      const animatedValue = interpolateAnimation(
-        animation,
-        eventLocalTime,
-        event.duration
-      );
-      if (animatedValue !== null) {
-        properties[animation.property] = animatedValue;
-      }
-    }
-  }
-
-  // Check if event has an AI-generated opacity animation
-  const hasOpacityAnimation = event.animations?.some(anim => anim.property === "opacity");
-
-  // Only apply smooth exit effect if no AI-generated opacity animation exists
-  if (!hasOpacityAnimation) {
-    const exitDuration = 0.8; // seconds - longer for smoother transition
-    const localTime = currentTime - event.startTime;
-    const timeUntilEnd = event.duration - localTime;
-    
-    if (timeUntilEnd <= exitDuration && timeUntilEnd > 0) {
-      // Calculate exit progress (0 = just started exit, 1 = fully exited)
-      const exitProgress = 1 - (timeUntilEnd / exitDuration);
-      // Apply easeIn for smooth exit
-      const easedExitProgress = exitProgress * exitProgress;
-      
-      // Fade out opacity
-      const currentOpacity = (properties.opacity as number) ?? 1;
-      properties.opacity = currentOpacity * (1 - easedExitProgress);
-      
-      // Slight scale down for more professional look
-      const currentScale = (properties.scale as number) ?? 1;
-      properties.scale = currentScale * (1 - easedExitProgress * 0.1);
-    }
-  }
-
-  return properties;
-}
+import type { ShapeProperties, TimelineEvent } from "@/lib/schemas/timeline";
+import { computeEventProperties, getVisibleEvents } from "@/lib/core/timeline/evaluate";
+import { isPropertyAnimated, keyframeUpdatesForManualValue } from "@/lib/core/timeline/keyframes";
+import { resolveFill } from "@/lib/core/gradient";
+import { createBlurredImage } from "@/lib/core/blur";
+import { DEFAULT_POLYGON_SIDES, lineEndpoints, regularPolygonPoints, shapeSize } from "@/lib/core/shapes";
 
 type RectBounds = { left: number; top: number; width: number; height: number };
 type TextLayoutItem = {
@@ -241,21 +143,17 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
       const event = project?.events.find(ev => ev.id === id);
       const shapeType = (event?.properties as Record<string, unknown> | undefined)?.shapeType as string | undefined;
 
-      // Helper function to update property and freeze any related animations
+      // Helper function to update property and key any related animation at the playhead
       const updatePropAndAnimation = (property: string, value: number) => {
         updateEventProperty(id, property, value);
         
-        // If this property has an animation, freeze it at the new value
-        if (event?.animations) {
-          const hasAnimation = event.animations.some(anim => anim.property === property);
-          if (hasAnimation) {
-            const updatedAnimations = event.animations.map(anim => {
-              if (anim.property === property) {
-                return { ...anim, from: value, to: value };
-              }
-              return anim;
-            });
-            useEditorStore.getState().updateEvent(id, { animations: updatedAnimations });
+        // Re-read the event so consecutive updates don't overwrite each other's keyframes
+        const state = useEditorStore.getState();
+        const latest = state.project?.events.find(ev => ev.id === id);
+        if (latest) {
+          const updates = keyframeUpdatesForManualValue(latest, property, value, state.currentTime - latest.startTime);
+          if (updates) {
+            state.updateEvent(id, updates);
           }
         }
       };
@@ -308,31 +206,36 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
       updatePropAndAnimation("x", target.left);
       updatePropAndAnimation("y", target.top);
 
+      // Scale applied by animations at render time - not part of the user's resize
+      const renderScale = (target.data?.renderScale as number) || 1;
+      const userScaleX = target.scaleX / renderScale;
+      const userScaleY = target.scaleY / renderScale;
+
       // Handle scaling/resizing for different object types
       if (target.type === "textbox") {
         // For text, update fontSize based on scale
-        const scaledFontSize = Math.round(target.fontSize * target.scaleY);
+        const scaledFontSize = Math.round(target.fontSize * userScaleY);
         updatePropAndAnimation("fontSize", scaledFontSize);
         // Reset scale after applying to fontSize
-        target.set({ scaleX: 1, scaleY: 1 });
+        target.set({ scaleX: renderScale, scaleY: renderScale });
         target.fontSize = scaledFontSize;
       } else if (target.type === "rect" || target.type === "ellipse") {
         // For rectangles and ellipses, update width and height based on scale
-        const newWidth = Math.round(target.width * target.scaleX);
-        const newHeight = Math.round(target.height * target.scaleY);
+        const newWidth = Math.round(target.width * userScaleX);
+        const newHeight = Math.round(target.height * userScaleY);
         updatePropAndAnimation("width", newWidth);
         updatePropAndAnimation("height", newHeight);
         // Reset scale after applying to dimensions
         target.set({ 
           width: newWidth, 
           height: newHeight, 
-          scaleX: 1, 
-          scaleY: 1,
+          scaleX: renderScale, 
+          scaleY: renderScale,
         });
       } else if (target.type === "circle") {
         // For circles, update radius based on scale (use average of scaleX and scaleY for uniform scaling)
         const currentRadius = target.radius || 50;
-        const newRadius = Math.round(currentRadius * Math.max(target.scaleX, target.scaleY));
+        const newRadius = Math.round(currentRadius * Math.max(userScaleX, userScaleY));
         updatePropAndAnimation("radius", newRadius);
         // Also update width/height for consistency
         updatePropAndAnimation("width", newRadius * 2);
@@ -340,9 +243,15 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
         // Reset scale after applying to radius
         target.set({ 
           radius: newRadius, 
-          scaleX: 1, 
-          scaleY: 1,
+          scaleX: renderScale, 
+          scaleY: renderScale,
         });
+      } else if (target.type === "polygon") {
+        // Polygon points are rebuilt from width/height on the next render, so resize the box they are drawn in
+        const size = shapeSize(event?.properties as ShapeProperties);
+        updatePropAndAnimation("width", Math.round(size.width * userScaleX));
+        updatePropAndAnimation("height", Math.round(size.height * userScaleY));
+        target.set({ scaleX: renderScale, scaleY: renderScale });
       } else if (target.type === "image") {
         // For images, store the scale factors
         updatePropAndAnimation("scaleX", target.scaleX);
@@ -421,6 +330,11 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
     const textObjects: TextLayoutItem[] = [];
     const existingObjects: { [key: string]: any } = {};
 
+    // Drop blurred stand-ins from the previous render (blur transitions)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    canvas.getObjects().filter((obj: any) => obj.data?.blurOverlayFor).forEach((obj: fabric.FabricObject) => canvas.remove(obj));
+    const blurOverlays: { source: fabric.FabricObject; image: fabric.FabricImage }[] = [];
+
     // Collect existing objects by id
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     canvas.getObjects().forEach((obj: any) => {
@@ -429,24 +343,19 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
       }
     });
 
-    // Render objects visible at current time
-    project.events.forEach((event: TimelineEvent) => {
-      // Check if event should be visible - increased tolerance for smoother transitions
-      const visibilityEpsilon = 0.5; // 500ms tolerance for playback timing
-      const isVisible =
-        currentTime >= event.startTime - visibilityEpsilon &&
-        currentTime <= event.startTime + event.duration + visibilityEpsilon;
-      if (!isVisible) return;
-
+    // Render objects visible at current time, in the same order and with the
+    // same computed properties as the exporters (shared frame evaluation)
+    const stage = { width: project.width, height: project.height };
+    getVisibleEvents(project.events, currentTime).forEach((event: TimelineEvent, drawIndex: number) => {
       // Calculate animated properties at current time
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const props = computeAnimatedProperties(event, currentTime) as any;
+      const props = computeEventProperties(event, currentTime, stage) as any;
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       let fabricObj: any = null;
 
-      // Only apply scale to images - text and shapes should not have scale property
-      // This prevents dimension multiplication when dragging imported elements
-      const scale = event.type === "image" ? (props.scale as number) ?? 1 : 1;
+      // Animated scale is stored on the object as data.renderScale so that
+      // object:modified can separate it from user resizing
+      const scale = (props.scale as number) ?? 1;
 
       const commonProps = {
         left: props.x as number,
@@ -478,8 +387,8 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
             fill: props.fill || "#ffffff",
             textAlign: props.textAlign || "center",
             opacity: (props.opacity as number) ?? 1,
-            scaleX: 1,
-            scaleY: 1,
+            scaleX: scale,
+            scaleY: scale,
             angle: (props.rotation as number) ?? 0,
             left: xPos,
             top: yPos,
@@ -501,8 +410,8 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
             originX: "center" as const,
             originY: "center" as const,
             opacity: (props.opacity as number) ?? 1,
-            scaleX: 1, // Always use scale 1 for text to prevent dimension issues
-            scaleY: 1, // Always use scale 1 for text to prevent dimension issues
+            scaleX: scale,
+            scaleY: scale,
             angle: (props.rotation as number) ?? 0,
             left: xPos,
             top: yPos,
@@ -531,6 +440,8 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
         layoutCacheRef.current[event.id] = { x: xPos, y: yPos };
       } else if (event.type === "shape") {
         const shapeType = props.shapeType;
+        // Same defaults as FabricRenderer, so the preview matches the export
+        const size = shapeSize(props);
         
         // Check if we can reuse an existing shape object
         const existingShape = existingObjects[event.id];
@@ -547,7 +458,8 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
           (shapeType === "ellipse" && existingShape.type === "ellipse") ||
           (shapeType === "line" && existingShape.type === "line") ||
           (shapeType === "arrow" && existingShape.type === "rect" && existingShape.data?.shapeType === "arrow") ||
-          (shapeType === "triangle" && existingShape.type === "triangle")
+          (shapeType === "triangle" && existingShape.type === "triangle") ||
+          (shapeType === "polygon" && existingShape.type === "polygon")
         );
         
         if (canReuse) {
@@ -561,8 +473,10 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
               top: props.y as number,
               width: props.width || 100,
               height: props.height || 100,
-              fill: props.fill || "#8b5cf6",
+              fill: resolveFill(props, "#8b5cf6"),
               opacity: (props.opacity as number) ?? 1,
+              scaleX: scale,
+              scaleY: scale,
               angle: (props.rotation as number) ?? 0,
               rx: props.cornerRadius || 0,
               ry: props.cornerRadius || 0,
@@ -571,19 +485,23 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
             fabricObj.set({
               left: props.x as number,
               top: props.y as number,
-              radius: props.radius || 50,
-              fill: props.fill || "#8b5cf6",
+              radius: props.radius || Math.min(size.width, size.height) / 2,
+              fill: resolveFill(props, "#8b5cf6"),
               opacity: (props.opacity as number) ?? 1,
+              scaleX: scale,
+              scaleY: scale,
               angle: (props.rotation as number) ?? 0,
             });
           } else if (shapeType === "ellipse") {
             fabricObj.set({
               left: props.x as number,
               top: props.y as number,
-              rx: (props.width || 100) / 2,
-              ry: (props.height || 50) / 2,
-              fill: props.fill || "#8b5cf6",
+              rx: size.width / 2,
+              ry: size.height / 2,
+              fill: resolveFill(props, "#8b5cf6"),
               opacity: (props.opacity as number) ?? 1,
+              scaleX: scale,
+              scaleY: scale,
               angle: (props.rotation as number) ?? 0,
             });
           } else if (shapeType === "triangle") {
@@ -592,45 +510,28 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
               top: props.y as number,
               width: props.width || 100,
               height: props.height || 100,
-              fill: props.fill || "#8b5cf6",
+              fill: resolveFill(props, "#8b5cf6"),
               opacity: (props.opacity as number) ?? 1,
+              scaleX: scale,
+              scaleY: scale,
               angle: (props.rotation as number) ?? 0,
             });
           } else if (shapeType === "line") {
-            const x1 = (props.x1 as number) ?? 0;
-            const y1 = (props.y1 as number) ?? 0;
-            const x2 = (props.x2 as number) ?? 100;
-            const y2 = (props.y2 as number) ?? 0;
-            const centerX = (x1 + x2) / 2;
-            const centerY = (y1 + y2) / 2;
-            const targetX = (props.x as number) ?? centerX;
-            const targetY = (props.y as number) ?? centerY;
-            const dx = targetX - centerX;
-            const dy = targetY - centerY;
+            const [x1, y1, x2, y2] = lineEndpoints(props);
             fabricObj.set({
-              x1: x1 + dx,
-              y1: y1 + dy,
-              x2: x2 + dx,
-              y2: y2 + dy,
+              x1,
+              y1,
+              x2,
+              y2,
               stroke: (props.stroke as string) || props.fill || "#ffffff",
               strokeWidth: (props.strokeWidth as number) || 4,
               opacity: (props.opacity as number) ?? 1,
+              scaleX: scale,
+              scaleY: scale,
+              angle: (props.rotation as number) ?? 0,
             });
           } else if (shapeType === "arrow") {
-            const x1 = (props.x1 as number) ?? 0;
-            const y1 = (props.y1 as number) ?? 0;
-            const x2 = (props.x2 as number) ?? 100;
-            const y2 = (props.y2 as number) ?? 0;
-            const centerX = (x1 + x2) / 2;
-            const centerY = (y1 + y2) / 2;
-            const targetX = (props.x as number) ?? centerX;
-            const targetY = (props.y as number) ?? centerY;
-            const dx = targetX - centerX;
-            const dy = targetY - centerY;
-            const adjX1 = x1 + dx;
-            const adjY1 = y1 + dy;
-            const adjX2 = x2 + dx;
-            const adjY2 = y2 + dy;
+            const [adjX1, adjY1, adjX2, adjY2] = lineEndpoints(props);
             const angle = Math.atan2(adjY2 - adjY1, adjX2 - adjX1) * (180 / Math.PI);
             const length = Math.hypot(adjX2 - adjX1, adjY2 - adjY1);
             const strokeWidth = (props.strokeWidth as number) || 4;
@@ -642,7 +543,22 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
               height: thickness,
               fill: (props.stroke as string) || props.fill || "#ffffff",
               opacity: (props.opacity as number) ?? 1,
-              angle,
+              scaleX: scale,
+              scaleY: scale,
+              angle: angle + ((props.rotation as number) ?? 0),
+            });
+          } else if (shapeType === "polygon") {
+            // New points change the polygon's box, so it is measured again before it is placed
+            fabricObj.set({ points: regularPolygonPoints(props.sides || DEFAULT_POLYGON_SIDES, size.width, size.height) });
+            fabricObj.setBoundingBox();
+            fabricObj.set({
+              left: props.x as number,
+              top: props.y as number,
+              fill: resolveFill(props, "#8b5cf6"),
+              opacity: (props.opacity as number) ?? 1,
+              scaleX: scale,
+              scaleY: scale,
+              angle: (props.rotation as number) ?? 0,
             });
           }
           
@@ -654,45 +570,37 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
               ...commonProps,
               width: props.width || 100,
               height: props.height || 100,
-              fill: props.fill || "#8b5cf6",
+              fill: resolveFill(props, "#8b5cf6"),
               rx: props.cornerRadius || 0,
               ry: props.cornerRadius || 0,
             });
           } else if (shapeType === "circle") {
             fabricObj = new fabric.Circle({
               ...commonProps,
-              radius: props.radius || 50,
-              fill: props.fill || "#8b5cf6",
+              radius: props.radius || Math.min(size.width, size.height) / 2,
+              fill: resolveFill(props, "#8b5cf6"),
             });
           } else if (shapeType === "ellipse") {
             fabricObj = new fabric.Ellipse({
               ...commonProps,
-              rx: (props.width || 100) / 2,
-              ry: (props.height || 50) / 2,
-              fill: props.fill || "#8b5cf6",
+              rx: size.width / 2,
+              ry: size.height / 2,
+              fill: resolveFill(props, "#8b5cf6"),
             });
           } else if (shapeType === "line") {
           // Simple line from (x1,y1) to (x2,y2)
-          const x1 = (props.x1 as number) ?? 0;
-          const y1 = (props.y1 as number) ?? 0;
-          const x2 = (props.x2 as number) ?? 100;
-          const y2 = (props.y2 as number) ?? 0;
-          const centerX = (x1 + x2) / 2;
-          const centerY = (y1 + y2) / 2;
-          const targetX = (props.x as number) ?? centerX;
-          const targetY = (props.y as number) ?? centerY;
-          const dx = targetX - centerX;
-          const dy = targetY - centerY;
-          const adjX1 = x1 + dx;
-          const adjY1 = y1 + dy;
-          const adjX2 = x2 + dx;
-          const adjY2 = y2 + dy;
+          const [adjX1, adjY1, adjX2, adjY2] = lineEndpoints(props);
+          const targetX = (adjX1 + adjX2) / 2;
+          const targetY = (adjY1 + adjY2) / 2;
           fabricObj = new fabric.Line([adjX1, adjY1, adjX2, adjY2], {
             stroke: (props.stroke as string) || props.fill || "#ffffff",
             strokeWidth: (props.strokeWidth as number) || 4,
             opacity: (props.opacity as number) ?? 1,
             originX: "center",
             originY: "center",
+            scaleX: scale,
+            scaleY: scale,
+            angle: (props.rotation as number) ?? 0,
           });
           fabricObj.data = {
             id: event.id,
@@ -707,20 +615,9 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
           };
         } else if (shapeType === "arrow") {
           // Arrow: render as rounded rectangle bar
-          const x1 = (props.x1 as number) ?? 0;
-          const y1 = (props.y1 as number) ?? 0;
-          const x2 = (props.x2 as number) ?? 100;
-          const y2 = (props.y2 as number) ?? 0;
-          const centerX = (x1 + x2) / 2;
-          const centerY = (y1 + y2) / 2;
-          const targetX = (props.x as number) ?? centerX;
-          const targetY = (props.y as number) ?? centerY;
-          const dx = targetX - centerX;
-          const dy = targetY - centerY;
-          const adjX1 = x1 + dx;
-          const adjY1 = y1 + dy;
-          const adjX2 = x2 + dx;
-          const adjY2 = y2 + dy;
+          const [adjX1, adjY1, adjX2, adjY2] = lineEndpoints(props);
+          const targetX = (adjX1 + adjX2) / 2;
+          const targetY = (adjY1 + adjY2) / 2;
           const strokeColor = (props.stroke as string) || props.fill || "#ffffff";
           const strokeWidth = (props.strokeWidth as number) || 4;
           
@@ -735,7 +632,9 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
             height: thickness,
             fill: strokeColor,
             opacity: (props.opacity as number) ?? 1,
-            angle,
+            scaleX: scale,
+            scaleY: scale,
+            angle: angle + ((props.rotation as number) ?? 0),
             originX: "center",
             originY: "center",
             rx: thickness / 2,
@@ -760,8 +659,13 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
             ...commonProps,
             width: width,
             height: height,
-            fill: props.fill || "#8b5cf6",
+            fill: resolveFill(props, "#8b5cf6"),
           });
+        } else if (shapeType === "polygon") {
+          fabricObj = new fabric.Polygon(
+            regularPolygonPoints(props.sides || DEFAULT_POLYGON_SIDES, size.width, size.height),
+            { ...commonProps, fill: resolveFill(props, "#8b5cf6") }
+          );
         }
         }
         if (fabricObj && !fabricObj.data) {
@@ -772,6 +676,8 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
       }
 
       if (fabricObj) {
+        fabricObj.data = { ...fabricObj.data, renderScale: scale };
+
         // Only add to canvas if this is a newly created object (not reused)
         // For shapes: if canReuse was true, we updated an existing object
         // For text: if existingObjects[event.id] was found, we updated an existing object
@@ -781,6 +687,8 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
         if (!isReusedObject) {
           canvas.add(fabricObj);
         }
+        // Keep stacking order in sync with the draw order used for export
+        canvas.moveObjectTo(fabricObj, drawIndex);
         
         // For textboxes, force position update after adding to canvas
         // This ensures position is applied after height calculation
@@ -800,11 +708,21 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
         }
 
         if (event.type === "text" && fabricObj instanceof fabric.Textbox) {
-          const hasPositionAnimation =
-            event.animations?.some((anim) => anim.property === "x" || anim.property === "y") ?? false;
+          const hasPositionAnimation = isPropertyAnimated(event, "x") || isPropertyAnimated(event, "y");
           textObjects.push({ id: event.id, obj: fabricObj, layer: event.layer, hasPositionAnimation });
         }
 
+        // Fabric filters only apply to images: draw a blurred raster in place of the
+        // object and keep the (invisible) original for selection and editing
+        const blur = (props.blur as number) ?? 0;
+        if (blur > 0) {
+          const image = createBlurredImage(fabricObj, blur);
+          image.set({ selectable: false, evented: false });
+          (image as unknown as { data: unknown }).data = { blurOverlayFor: event.id };
+          blurOverlays.push({ source: fabricObj, image });
+          fabricObj.set({ opacity: 0 });
+        }
+
         // Track object if it should be re-selected
         if (selectedId && event.id === selectedId) {
           objectToSelect = fabricObj;
@@ -856,6 +774,11 @@ export function useCanvas(containerRef?: React.RefObject<HTMLDivElement | null>)
       }
     });
 
+    // Insert blurred stand-ins directly above their source objects
+    blurOverlays.forEach(({ source, image }) => {
+      canvas.insertAt(canvas.getObjects().indexOf(source) + 1, image);
+    });
+
     canvas.requestRenderAll();
 
     // Restore selection after render
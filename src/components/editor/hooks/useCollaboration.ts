@@ -0,0 +1,194 @@
+"use client";
+
+import { useEffect } from "react";
+import { useEditorStore } from "@/stores/editor-store";
+import { useCollabStore } from "@/stores/collab-store";
+import { CollabDocument, type CollabOp } from "@/lib/collab/document";
+import {
+  peerColor,
+  type CollabClientMessage,
+  type CollabPresence,
+  type CollabServerMessage,
+} from "@/lib/collab/protocol";
+
+const COLLAB_URL = process.env.NEXT_PUBLIC_COLLAB_URL;
+
+// Writes are batched, so a drag sends a few messages a second rather than one per mouse move
+const OPS_INTERVAL_MS = 50;
+const PRESENCE_INTERVAL_MS = 100;
+// Reconnects back off from 2 seconds to a minute, and start over once a connection is welcomed
+const RECONNECT_DELAY_MS = 2000;
+const MAX_RECONNECT_DELAY_MS = 60_000;
+// Token responses worth asking again for - a proxy or the app restarting. Anything else won't change by retrying
+const RETRY_TOKEN_STATUSES = [502, 503, 504];
+
+function currentPresence(): CollabPresence {
+  const { selectedIds, currentTime } = useEditorStore.getState();
+  return { selection: [...selectedIds], playhead: currentTime };
+}
+
+/**
+ * Share the project's timeline with everyone else who has it open, through the relay at
+ * NEXT_PUBLIC_COLLAB_URL (does nothing when it is unset). Peers end up in useCollabStore.
+ * Each connection joins with a fresh token from the app, which tells the relay the user's role; when the app
+ * refuses one (no access, COLLAB_SECRET unset) the editor stays offline instead of asking again.
+ * A read-only editor follows along and shows its presence, but never sends edits.
+ */
+export function useCollaboration(projectId: string, userName: string | null, readOnly = false): void {
+  useEffect(() => {
+    if (!COLLAB_URL || !userName) return;
+
+    const { setStatus, setPeers, upsertPeer, removePeer, reset } = useCollabStore.getState();
+    const user = { name: userName, color: peerColor(userName) };
+    // Kept across reconnects, so edits made while offline are merged back in
+    const document = new CollabDocument(crypto.randomUUID());
+    let joined = false;
+    let applyingRemote = false;
+    let pendingOps: CollabOp[] = [];
+    let opsTimer: ReturnType<typeof setTimeout> | null = null;
+    let presenceTimer: ReturnType<typeof setTimeout> | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let reconnectDelay = RECONNECT_DELAY_MS;
+    let socket: WebSocket | null = null;
+    let stopped = false;
+
+    const send = (message: CollabClientMessage): boolean => {
+      if (socket?.readyState !== WebSocket.OPEN) return false;
+      socket.send(JSON.stringify(message));
+      return true;
+    };
+
+    const flushOps = () => {
+      opsTimer = null;
+      // Left pending while offline - the next welcome sends the whole document anyway
+      if (pendingOps.length > 0 && send({ type: "ops", ops: pendingOps })) {
+        pendingOps = [];
+      }
+    };
+
+    const queueOps = (ops: CollabOp[]) => {
+      if (ops.length === 0) return;
+      pendingOps.push(...ops);
+      opsTimer ??= setTimeout(flushOps, OPS_INTERVAL_MS);
+    };
+
+    const queuePresence = () => {
+      presenceTimer ??= setTimeout(() => {
+        presenceTimer = null;
+        send({ type: "presence", presence: currentPresence() });
+      }, PRESENCE_INTERVAL_MS);
+    };
+
+    const showDocument = () => {
+      applyingRemote = true;
+      useEditorStore.getState().applyRemoteEvents(document.events());
+      applyingRemote = false;
+    };
+
+    const handleMessage = (message: CollabServerMessage) => {
+      switch (message.type) {
+        case "welcome": {
+          const { project } = useEditorStore.getState();
+          if (message.ops.length === 0 && !joined) {
+            // First one in - the room starts from this editor's copy (a read-only one waits for an editor)
+            if (project && !readOnly) document.update(project.events);
+          } else if (document.apply(message.ops)) {
+            showDocument();
+          }
+          joined = true;
+          reconnectDelay = RECONNECT_DELAY_MS;
+          pendingOps = [];
+          // The room may be missing writes (a new room, or ours from while offline); extra ones are ignored
+          if (!readOnly) send({ type: "ops", ops: document.snapshot() });
+          setPeers(message.peers);
+          setStatus("connected");
+          break;
+        }
+        case "ops":
+          if (document.apply(message.ops)) showDocument();
+          break;
+        case "peer":
+          upsertPeer(message.peer);
+          break;
+        case "leave":
+          removePeer(message.clientId);
+          break;
+      }
+    };
+
+    const retry = () => {
+      setStatus("offline");
+      setPeers([]);
+      reconnectTimer = setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    };
+
+    // Tokens are short-lived, so every connection asks for its own. "retry" when it's worth asking again,
+    // "refused" when the app answered that it won't issue one
+    const fetchToken = async (): Promise<string | "retry" | "refused"> => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/collab-token`, { method: "POST" });
+        if (!response.ok) {
+          if (RETRY_TOKEN_STATUSES.includes(response.status)) return "retry";
+          console.warn(`Collaboration is off - the app refused a token (status ${response.status})`);
+          return "refused";
+        }
+        const { token } = await response.json();
+        return token;
+      } catch {
+        return "retry";
+      }
+    };
+
+    const connect = async () => {
+      setStatus("connecting");
+      const token = await fetchToken();
+      if (stopped) return;
+      if (token === "refused") {
+        setStatus("off");
+        return;
+      }
+      if (token === "retry") {
+        retry();
+        return;
+      }
+
+      socket = new WebSocket(COLLAB_URL);
+      socket.onopen = () => {
+        send({ type: "join", token, user, presence: currentPresence() });
+      };
+      socket.onmessage = (event) => {
+        try {
+          handleMessage(JSON.parse(event.data));
+        } catch (error) {
+          console.warn("Ignoring collaboration message:", error);
+        }
+      };
+      socket.onclose = () => {
+        if (!stopped) retry();
+      };
+    };
+
+    const unsubscribe = useEditorStore.subscribe((state, previous) => {
+      if (!joined || applyingRemote) return;
+      if (!readOnly && state.project && state.project.events !== previous.project?.events) {
+        queueOps(document.update(state.project.events));
+      }
+      if (state.selectedIds !== previous.selectedIds || state.currentTime !== previous.currentTime) {
+        queuePresence();
+      }
+    });
+
+    connect();
+
+    return () => {
+      stopped = true;
+      unsubscribe();
+      [opsTimer, presenceTimer, reconnectTimer].forEach((timer) => timer && clearTimeout(timer));
+      // Send what is still batched so peers don't miss the last edit
+      flushOps();
+      socket?.close();
+      reset();
+    };
+  }, [projectId, userName, readOnly]);
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { loadWaveform, type Waveform } from "@/lib/core/audio/waveform";
+
+/**
+ * Waveform peaks for an audio source (null while loading or when unavailable)
+ */
+export function useWaveform(src: string | undefined): Waveform | null {
+  const [loaded, setLoaded] = useState<{ src: string; waveform: Waveform | null } | null>(null);
+
+  useEffect(() => {
+    if (!src) return;
+    let cancelled = false;
+    loadWaveform(src).then((waveform) => {
+      if (!cancelled) setLoaded({ src, waveform });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  // Ignore a result that belongs to a previous src
+  return loaded && loaded.src === src ? loaded.waveform : null;
+}
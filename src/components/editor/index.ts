@@ -6,3 +6,5 @@ export { ExportModal } from "./ExportModal";
 export { AIGenerateModal } from "./AIGenerateModal";
 export { EditorClient } from "./EditorClient";
 export { ContextMenu } from "./ContextMenu";
+export { VersionHistoryDrawer } from "./VersionHistoryDrawer";
+export { SaveConflictModal } from "./SaveConflictModal";
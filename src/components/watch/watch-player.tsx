@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { TimelinePlayer } from "@/lib/core/TimelinePlayer";
+import { AudioMixer } from "@/lib/core/audio/AudioMixer";
+import type { VideoProject } from "@/lib/schemas/timeline";
+import type { PlayerOptions } from "@/lib/types/share-link";
+
+interface WatchPlayerProps {
+    project: VideoProject;
+    options: PlayerOptions;
+    // Fill the window (the <iframe> embed) instead of the page's width
+    fill?: boolean;
+}
+
+const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+export function WatchPlayer({ project, options, fill = false }: WatchPlayerProps) {
+    const frameRef = useRef<HTMLDivElement>(null);
+    const stageRef = useRef<HTMLDivElement>(null);
+    const playerRef = useRef<TimelinePlayer | null>(null);
+    const [isReady, setIsReady] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+    // Browsers only allow autoplay without sound
+    const [isMuted, setIsMuted] = useState(options.autoplay);
+    const { autoplay, loop } = options;
+
+    useEffect(() => {
+        const stage = stageRef.current;
+        if (!stage) return;
+
+        const player = new TimelinePlayer(project, {
+            loop,
+            onTimeUpdate: setCurrentTime,
+            onPlayingChange: setIsPlaying,
+        });
+        player.setMuted(autoplay);
+        playerRef.current = player;
+        let cancelled = false;
+
+        player
+            .initialize()
+            .then((canvas) => {
+                if (cancelled) {
+                    player.destroy();
+                    return;
+                }
+                // Rendered at the project size, scaled to the player by CSS
+                canvas.style.width = "100%";
+                canvas.style.height = "100%";
+                stage.replaceChildren(canvas);
+                setIsReady(true);
+                if (autoplay) player.play();
+            })
+            .catch((err) => {
+                console.error("Failed to load player:", err);
+                if (!cancelled) setError("This video couldn't be loaded");
+            });
+
+        return () => {
+            cancelled = true;
+            player.destroy();
+            playerRef.current = null;
+            stage.replaceChildren();
+        };
+    }, [project, autoplay, loop]);
+
+    const togglePlay = () => {
+        const player = playerRef.current;
+        if (!player || !isReady) return;
+        if (player.isPlaying()) {
+            player.pause();
+        } else {
+            player.play();
+        }
+    };
+
+    const toggleMute = () => {
+        playerRef.current?.setMuted(!isMuted);
+        setIsMuted(!isMuted);
+    };
+
+    const toggleFullscreen = () => {
+        if (document.fullscreenElement) {
+            document.exitFullscreen();
+        } else {
+            frameRef.current?.requestFullscreen?.();
+        }
+    };
+
+    const hasAudio = AudioMixer.hasAudio(project);
+    const ratio = project.width / project.height;
+
+    return (
+        <div
+            ref={frameRef}
+            className="relative bg-black overflow-hidden select-none"
+            style={{
+                aspectRatio: `${project.width} / ${project.height}`,
+                width: fill ? `min(100vw, ${100 * ratio}vh)` : "100%",
+            }}
+        >
+            <div ref={stageRef} className="absolute inset-0 cursor-pointer" onClick={togglePlay} />
+
+            {!isReady && !error && (
+                <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-400">
+                    Loading...
+                </div>
+            )}
+
+            {error && (
+                <div className="absolute inset-0 flex items-center justify-center text-sm text-red-400">{error}</div>
+            )}
+
+            {/* Big play button while paused - also the only control when controls are off */}
+            {isReady && !isPlaying && (
+                <button
+                    onClick={togglePlay}
+                    className="absolute inset-0 m-auto w-16 h-16 flex items-center justify-center rounded-full bg-black/60 text-white text-2xl hover:bg-purple-600/80 transition-colors cursor-pointer"
+                    title="Play"
+                >
+                    ▶
+                </button>
+            )}
+
+            {options.controls && isReady && (
+                <div className="absolute bottom-0 inset-x-0 flex items-center gap-3 px-3 py-2 bg-linear-to-t from-black/80 to-transparent text-white text-sm">
+                    <button onClick={togglePlay} className="w-6 cursor-pointer" title={isPlaying ? "Pause" : "Play"}>
+                        {isPlaying ? "⏸" : "▶"}
+                    </button>
+                    <input
+                        type="range"
+                        min={0}
+                        max={project.duration}
+                        step={0.01}
+                        value={currentTime}
+                        onChange={(e) => playerRef.current?.seek(Number(e.target.value))}
+                        className="flex-1 accent-purple-500 cursor-pointer"
+                    />
+                    <span className="font-mono text-xs text-gray-300 tabular-nums">
+                        {formatTime(currentTime)} / {formatTime(project.duration)}
+                    </span>
+                    {hasAudio && (
+                        <button onClick={toggleMute} className="cursor-pointer" title={isMuted ? "Unmute" : "Mute"}>
+                            {isMuted ? "🔇" : "🔊"}
+                        </button>
+                    )}
+                    <button onClick={toggleFullscreen} className="cursor-pointer" title="Fullscreen">
+                        ⛶
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -94,7 +94,7 @@ ANIMATIONS:
   "property": "opacity" | "scale" | "x" | "y" | "rotation",
   "from": 0,
   "to": 1,
-  "easing": "easeOut" | "easeIn" | "easeInOut" | "linear" | "bounce"
+  "easing": "easeOut" | "easeIn" | "easeInOut" | "linear" | "bounce" | "elastic" | "back"
 }
 
 TRANSITIONS (optional, for smooth scene changes):
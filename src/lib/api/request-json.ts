@@ -0,0 +1,16 @@
+/**
+ * Request JSON - fetch for client components that call the app's API
+ * Resolves to the response body, or throws the API's message (the first validation issue for a 422).
+ */
+
+export async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.issues?.[0]?.message || body?.error || `Status ${response.status}`);
+  }
+  return body as T;
+}
@@ -0,0 +1,226 @@
+/**
+ * CollabDocument - The shared timeline as a CRDT: a last-writer-wins register per event field
+ * Every change is a batch of register writes stamped with a Lamport clock, so peers can apply
+ * them in any order, and more than once, and still end up with the same events.
+ *
+ * Registers per event: "$alive" (added or deleted), "$position" (array order, as a fractional
+ * index), each top-level field ("startTime", "layer", ...) and each property ("properties.fontSize").
+ */
+
+import type { TimelineEvent } from "@/lib/schemas/timeline";
+import { jsonEqual } from "@/lib/versions/diff";
+
+// [counter, clientId] - the client id breaks ties between writes with the same counter
+export type Clock = [number, string];
+
+export interface CollabOp {
+  eventId: string;
+  field: string;
+  // Absent when the write removed the field
+  value?: unknown;
+  clock: Clock;
+}
+
+interface Register {
+  value?: unknown;
+  clock: Clock;
+}
+
+const ALIVE = "$alive";
+const POSITION = "$position";
+const PROPERTY_PREFIX = "properties.";
+
+function compareClocks(a: Clock, b: Clock): number {
+  if (a[0] !== b[0]) return a[0] - b[0];
+  return a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0;
+}
+
+// Position keys are base-36 strings compared as strings; none ends in "0", so there is always room before one
+const DIGITS = "0123456789abcdefghijklmnopqrstuvwxyz";
+
+/**
+ * A position key between `before` and `after` ("" for the start and the end)
+ */
+function positionBetween(before: string, after: string): string {
+  let key = "";
+  for (let i = 0; ; i++) {
+    const low = i < before.length ? DIGITS.indexOf(before[i]) : 0;
+    const high = after && i < after.length ? DIGITS.indexOf(after[i]) : DIGITS.length;
+    if (high - low > 1) {
+      return key + DIGITS[Math.floor((low + high) / 2)];
+    }
+    key += DIGITS[low];
+    // Below `after` from here on, so only `before` still bounds the rest
+    if (low < high) after = "";
+  }
+}
+
+/**
+ * Indices of the longest run of entries already in increasing order - those keep their positions
+ */
+function increasingRun(less: (a: number, b: number) => boolean, indices: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous = new Map<number, number>();
+
+  for (const index of indices) {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (less(tails[mid], index)) low = mid + 1;
+      else high = mid;
+    }
+    if (low > 0) previous.set(index, tails[low - 1]);
+    tails[low] = index;
+  }
+
+  const run = new Set<number>();
+  for (let index = tails[tails.length - 1]; index !== undefined; index = previous.get(index)!) {
+    run.add(index);
+  }
+  return run;
+}
+
+export class CollabDocument {
+  private registers = new Map<string, Map<string, Register>>();
+  private counter = 0;
+
+  constructor(readonly clientId: string) {}
+
+  // The highest counter seen - the next local write is stamped above it
+  get clock(): number {
+    return this.counter;
+  }
+
+  /**
+   * Apply writes from any peer - returns whether the document changed
+   */
+  apply(ops: CollabOp[]): boolean {
+    let changed = false;
+
+    for (const op of ops) {
+      this.counter = Math.max(this.counter, op.clock[0]);
+
+      let fields = this.registers.get(op.eventId);
+      if (!fields) {
+        fields = new Map();
+        this.registers.set(op.eventId, fields);
+      }
+
+      const current = fields.get(op.field);
+      if (!current || compareClocks(op.clock, current.clock) > 0) {
+        fields.set(op.field, "value" in op ? { value: op.value, clock: op.clock } : { clock: op.clock });
+        changed = true;
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Every register as a write - enough for a new peer to rebuild the document
+   */
+  snapshot(): CollabOp[] {
+    const ops: CollabOp[] = [];
+    this.registers.forEach((fields, eventId) => {
+      fields.forEach((register, field) => ops.push({ eventId, field, ...register }));
+    });
+    return ops;
+  }
+
+  private position(eventId: string): string {
+    return (this.registers.get(eventId)?.get(POSITION)?.value as string | undefined) ?? "";
+  }
+
+  /**
+   * The events that are alive, in array order
+   */
+  events(): TimelineEvent[] {
+    const alive = [...this.registers.entries()].filter(([, fields]) => fields.get(ALIVE)?.value === true);
+
+    alive.sort(([aId], [bId]) => {
+      const a = this.position(aId);
+      const b = this.position(bId);
+      return a < b ? -1 : a > b ? 1 : aId < bId ? -1 : 1;
+    });
+
+    return alive.map(([id, fields]) => this.materialize(id, fields));
+  }
+
+  private materialize(id: string, fields: Map<string, Register>): TimelineEvent {
+    const event: Record<string, unknown> = { id };
+    const properties: Record<string, unknown> = {};
+    fields.forEach((register, field) => {
+      if (field.startsWith("$") || !("value" in register)) return;
+      if (field.startsWith(PROPERTY_PREFIX)) {
+        properties[field.slice(PROPERTY_PREFIX.length)] = register.value;
+      } else {
+        event[field] = register.value;
+      }
+    });
+    return { ...event, properties } as TimelineEvent;
+  }
+
+  /**
+   * Writes that turn the document into `next` - applied locally, to be sent to the other peers
+   */
+  update(next: TimelineEvent[]): CollabOp[] {
+    const current = new Map(this.events().map((event) => [event.id, event]));
+    const ops: CollabOp[] = [];
+    const write = (eventId: string, field: string, value: unknown) => {
+      const clock: Clock = [this.counter + ops.length + 1, this.clientId];
+      ops.push(value === undefined ? { eventId, field, clock } : { eventId, field, value, clock });
+    };
+    const writeChanged = (eventId: string, prefix: string, before: object, after: object) => {
+      const a = before as Record<string, unknown>;
+      const b = after as Record<string, unknown>;
+      for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+        if (!prefix && (key === "id" || key === "properties")) continue;
+        if (!jsonEqual(a[key], b[key])) write(eventId, prefix + key, b[key]);
+      }
+    };
+
+    for (const event of next) {
+      let before = current.get(event.id);
+      if (!before) {
+        write(event.id, ALIVE, true);
+        // A deleted event coming back (e.g. undo) still has its old fields
+        const fields = this.registers.get(event.id);
+        before = fields ? this.materialize(event.id, fields) : undefined;
+      }
+
+      writeChanged(event.id, "", before ?? {}, event);
+      writeChanged(event.id, PROPERTY_PREFIX, before?.properties ?? {}, event.properties);
+    }
+
+    const nextIds = new Set(next.map((event) => event.id));
+    current.forEach((_, id) => {
+      if (!nextIds.has(id)) write(id, ALIVE, false);
+    });
+
+    // Keep the positions of the longest run already in order, and place the rest around them
+    const positions = next.map((event) => (current.has(event.id) ? this.position(event.id) : undefined));
+    const less = (a: number, b: number) =>
+      positions[a]! < positions[b]! || (positions[a] === positions[b] && next[a].id < next[b].id);
+    const kept = increasingRun(
+      less,
+      positions.flatMap((position, index) => (position === undefined ? [] : [index]))
+    );
+
+    let previous = "";
+    next.forEach((event, index) => {
+      if (kept.has(index)) {
+        previous = positions[index]!;
+        return;
+      }
+      let following = index + 1;
+      while (following < next.length && !kept.has(following)) following++;
+      const after = following < next.length ? positions[following]! : "";
+      previous = positionBetween(previous, after);
+      write(event.id, POSITION, previous);
+    });
+
+    this.apply(ops);
+    return ops;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Collaboration Protocol - JSON messages between editors and the collaboration relay
+ * An editor joins a project's room with a token from the app (see token.ts), then sends its document
+ * writes and presence as they change.
+ */
+
+import { z } from "zod";
+import type { CollabOp } from "./document";
+
+export interface CollabUser {
+  name: string;
+  color: string;
+}
+
+// Where a peer is in the project - shown in Canvas (selection) and Timeline (playhead)
+export interface CollabPresence {
+  selection: string[];
+  playhead: number;
+}
+
+export interface CollabPeer {
+  clientId: string;
+  user: CollabUser;
+  presence: CollabPresence;
+}
+
+export type CollabClientMessage =
+  // The token names the project and the editor's role in it
+  | { type: "join"; token: string; user: CollabUser; presence: CollabPresence }
+  | { type: "ops"; ops: CollabOp[] }
+  | { type: "presence"; presence: CollabPresence };
+
+export type CollabServerMessage =
+  // The room's document so far (empty for the first editor, who seeds it) and who else is in it
+  | { type: "welcome"; clientId: string; ops: CollabOp[]; peers: CollabPeer[] }
+  | { type: "ops"; ops: CollabOp[] }
+  // A peer joined or moved
+  | { type: "peer"; peer: CollabPeer }
+  | { type: "leave"; clientId: string };
+
+// What the relay accepts from an editor - anything else closes the connection
+const CollabUserSchema = z.object({
+  name: z.string().min(1).max(100),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i),
+});
+
+const CollabPresenceSchema = z.object({
+  selection: z.array(z.string().max(200)).max(10_000),
+  playhead: z.number().min(0),
+});
+
+const CollabOpSchema = z.object({
+  eventId: z.string().min(1).max(200),
+  // "$alive", "$position", a top-level field or "properties.<name>"
+  field: z.string().regex(/^(\$alive|\$position|(properties\.)?[A-Za-z]\w*)$/),
+  value: z.unknown().optional(),
+  clock: z.tuple([z.number().int().min(0).max(Number.MAX_SAFE_INTEGER), z.string().min(1).max(100)]),
+});
+
+export const CollabClientMessageSchema: z.ZodType<CollabClientMessage> = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("join"),
+    token: z.string().min(1).max(2000),
+    user: CollabUserSchema,
+    presence: CollabPresenceSchema,
+  }),
+  z.object({ type: z.literal("ops"), ops: z.array(CollabOpSchema).max(100_000) }),
+  z.object({ type: z.literal("presence"), presence: CollabPresenceSchema }),
+]);
+
+// Peer colours, picked from the user's name so they stay the same across sessions
+const PEER_COLORS = ["#f472b6", "#38bdf8", "#4ade80", "#facc15", "#fb923c", "#a78bfa", "#2dd4bf", "#f87171"];
+
+export function peerColor(name: string): string {
+  let hash = 0;
+  for (const char of name) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+}
@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WebSocket } from "ws";
+import { startCollabRelay, type CollabRelay } from "./relay";
+import { CollabDocument } from "./document";
+import { signCollabToken } from "./token";
+import type { CollabClientMessage, CollabServerMessage } from "./protocol";
+import type { TimelineEvent } from "@/lib/schemas/timeline";
+import type { MemberRole } from "@/lib/types/sharing";
+
+const SECRET = "relay-test-secret";
+const presence = { selection: [], playhead: 0 };
+
+function token(role: MemberRole, projectId = "p1", expiresAt = Date.now() + 60_000, secret = SECRET) {
+  return signCollabToken({ projectId, userId: `user-${role}`, role, expiresAt }, secret);
+}
+
+function join(name: string, joinToken: string): CollabClientMessage {
+  return { type: "join", token: joinToken, user: { name, color: "#f472b6" }, presence };
+}
+
+const title = {
+  id: "e1",
+  type: "text",
+  startTime: 0,
+  duration: 2,
+  properties: { text: "Hello", fontSize: 48 },
+  animations: [],
+} as unknown as TimelineEvent;
+
+// A connected editor that keeps every message the relay sends it
+async function connect(relay: CollabRelay) {
+  const socket = new WebSocket(`ws://localhost:${relay.port}`);
+  const received: CollabServerMessage[] = [];
+  const waiters: (() => void)[] = [];
+  socket.on("message", (data) => {
+    received.push(JSON.parse(data.toString()));
+    waiters.splice(0).forEach((wake) => wake());
+  });
+  const closed = new Promise<number>((resolve) => socket.on("close", (code) => resolve(code)));
+  await new Promise((resolve, reject) => {
+    socket.once("open", resolve);
+    socket.once("error", reject);
+  });
+
+  return {
+    socket,
+    closed,
+    send: (message: CollabClientMessage | string) =>
+      socket.send(typeof message === "string" ? message : JSON.stringify(message)),
+    // The next message of `type`, waiting for it if it hasn't arrived yet
+    next: async <T extends CollabServerMessage["type"]>(type: T) => {
+      for (;;) {
+        const index = received.findIndex((message) => message.type === type);
+        if (index >= 0) return received.splice(index, 1)[0] as Extract<CollabServerMessage, { type: T }>;
+        await new Promise<void>((resolve) => waiters.push(resolve));
+      }
+    },
+  };
+}
+
+// A viewer's token with the claims rewritten to make them an owner
+const promoted = Buffer.from(JSON.stringify({ projectId: "p1", userId: "u", role: "OWNER", expiresAt: 9e15 })).toString(
+  "base64url"
+);
+
+describe("collaboration relay", () => {
+  let relay: CollabRelay;
+
+  beforeEach(async () => {
+    vi.stubEnv("COLLAB_SECRET", SECRET);
+    relay = await startCollabRelay(0);
+  });
+
+  afterEach(async () => {
+    await relay.close();
+    vi.unstubAllEnvs();
+  });
+
+  it("welcomes an editor with a valid token into the project's room", async () => {
+    const ada = await connect(relay);
+    ada.send(join("Ada", token("OWNER")));
+    expect(await ada.next("welcome")).toMatchObject({ ops: [], peers: [] });
+
+    const bob = await connect(relay);
+    bob.send(join("Bob", token("VIEWER")));
+    expect((await bob.next("welcome")).peers.map((peer) => peer.user.name)).toEqual(["Ada"]);
+    expect((await ada.next("peer")).peer.user.name).toBe("Bob");
+
+    // Another project is another room
+    const cy = await connect(relay);
+    cy.send(join("Cy", token("EDITOR", "p2")));
+    expect((await cy.next("welcome")).peers).toEqual([]);
+    [ada, bob, cy].forEach(({ socket }) => socket.close());
+  });
+
+  it.each([
+    ["expired", token("EDITOR", "p1", Date.now() - 1)],
+    ["signed with another secret", token("EDITOR", "p1", Date.now() + 60_000, "not-the-secret")],
+    ["tampered with", token("VIEWER").replace(/^[^.]+/, promoted)],
+    ["not a token", "p1"],
+  ])("refuses a join with a token that is %s", async (_, badToken) => {
+    const intruder = await connect(relay);
+    intruder.send(join("Eve", badToken));
+    expect(await intruder.closed).toBe(1008);
+  });
+
+  it("merges concurrent edits from two editors", async () => {
+    const ada = await connect(relay);
+    const adaDocument = new CollabDocument("ada");
+    ada.send(join("Ada", token("OWNER")));
+    await ada.next("welcome");
+    ada.send({ type: "ops", ops: adaDocument.update([title]) });
+
+    const bob = await connect(relay);
+    const bobDocument = new CollabDocument("bob");
+    bob.send(join("Bob", token("EDITOR")));
+    bobDocument.apply((await bob.next("welcome")).ops);
+    expect(bobDocument.events()).toEqual([title]);
+
+    // Both change the same title at once - one moves it, the other retypes it
+    const moved = adaDocument.update([{ ...title, startTime: 3 }]);
+    const retyped = bobDocument.update([{ ...title, properties: { ...title.properties, text: "Hi" } }]);
+    ada.send({ type: "ops", ops: moved });
+    bob.send({ type: "ops", ops: retyped });
+    adaDocument.apply((await ada.next("ops")).ops);
+    bobDocument.apply((await bob.next("ops")).ops);
+
+    const merged = { ...title, startTime: 3, properties: { ...title.properties, text: "Hi" } };
+    expect(adaDocument.events()).toEqual([merged]);
+    expect(bobDocument.events()).toEqual([merged]);
+
+    // And the room keeps the merge for whoever joins next
+    const cy = await connect(relay);
+    const cyDocument = new CollabDocument("cy");
+    cy.send(join("Cy", token("VIEWER")));
+    cyDocument.apply((await cy.next("welcome")).ops);
+    expect(cyDocument.events()).toEqual([merged]);
+    [ada, bob, cy].forEach(({ socket }) => socket.close());
+  });
+
+  it("drops writes from viewers", async () => {
+    const ada = await connect(relay);
+    ada.send(join("Ada", token("EDITOR")));
+    await ada.next("welcome");
+
+    const viewer = await connect(relay);
+    viewer.send(join("Vic", token("VIEWER")));
+    await viewer.next("welcome");
+    viewer.send({ type: "ops", ops: new CollabDocument("vic").update([title]) });
+    // Presence still goes through, and arrives after the dropped write would have
+    viewer.send({ type: "presence", presence: { selection: ["e1"], playhead: 1 } });
+    await ada.next("peer");
+    expect((await ada.next("peer")).peer.presence.playhead).toBe(1);
+
+    const late = await connect(relay);
+    late.send(join("Cy", token("EDITOR")));
+    expect((await late.next("welcome")).ops).toEqual([]);
+    [ada, viewer, late].forEach(({ socket }) => socket.close());
+  });
+
+  it("refuses writes whose clock jumps far ahead of the room's", async () => {
+    const ada = await connect(relay);
+    const adaDocument = new CollabDocument("ada");
+    ada.send(join("Ada", token("OWNER")));
+    await ada.next("welcome");
+    ada.send({ type: "ops", ops: adaDocument.update([title]) });
+
+    // A write stamped so high that no later one could beat it
+    const mallory = await connect(relay);
+    mallory.send(join("Mallory", token("EDITOR")));
+    await mallory.next("welcome");
+    mallory.send({
+      type: "ops",
+      ops: [{ eventId: "e1", field: "startTime", value: 9, clock: [Number.MAX_SAFE_INTEGER, "mallory"] }],
+    });
+    expect(await mallory.closed).toBe(1008);
+
+    // The room never took it, so Ada's next write still wins
+    const late = await connect(relay);
+    const lateDocument = new CollabDocument("late");
+    late.send(join("Cy", token("VIEWER")));
+    lateDocument.apply((await late.next("welcome")).ops);
+    ada.send({ type: "ops", ops: adaDocument.update([{ ...title, startTime: 3 }]) });
+    lateDocument.apply((await late.next("ops")).ops);
+    expect(lateDocument.events()[0].startTime).toBe(3);
+    ada.socket.close();
+    late.socket.close();
+  });
+
+  it("closes only the connection that sent a malformed frame", async () => {
+    const good = await connect(relay);
+    good.send(join("Ada", token("EDITOR")));
+    await good.next("welcome");
+
+    const bad = await connect(relay);
+    bad.send(join("Bob", token("EDITOR")));
+    await bad.next("welcome");
+    bad.send(JSON.stringify({ type: "ops", ops: "not a list" }));
+    expect(await bad.closed).toBe(1008);
+
+    const junk = await connect(relay);
+    junk.send("{ not json");
+    expect(await junk.closed).toBe(1008);
+
+    // The relay is still up, and the room still works for everyone else
+    const late = await connect(relay);
+    late.send(join("Cy", token("EDITOR")));
+    expect((await late.next("welcome")).peers.map((peer) => peer.user.name)).toEqual(["Ada"]);
+    good.socket.close();
+    late.socket.close();
+  });
+});
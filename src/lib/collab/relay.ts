@@ -0,0 +1,159 @@
+/**
+ * Collaboration Relay - WebSocket server that shares each project's document between its editors
+ * A room per project keeps the document (as its registers) so a late joiner gets the current state,
+ * and passes writes and presence on to everyone else in the room. Rooms are dropped once empty;
+ * the project itself is persisted by the editors' saves.
+ *
+ * Runs in-process: `npm run collab-relay`, or startCollabRelay() from a test.
+ * Joining takes a token the app signed for the project (token.ts), and only editors and owners may write.
+ */
+
+import { randomUUID } from "node:crypto";
+import { WebSocket, WebSocketServer, type RawData } from "ws";
+import { CollabDocument } from "./document";
+import { CollabClientMessageSchema } from "./protocol";
+import type { CollabClientMessage, CollabPeer, CollabServerMessage } from "./protocol";
+import { collabSecret, verifyCollabToken } from "./token";
+import { hasRole, type MemberRole } from "@/lib/types/sharing";
+
+export const DEFAULT_COLLAB_PORT = 4001;
+
+/**
+ * How far a write's clock may run ahead of the room's - past it, the connection is closed
+ * An editor rejoining a new room sends clocks from its whole session, so this is generous; what it stops is
+ * a clock near Number.MAX_SAFE_INTEGER, above which no later write can win.
+ */
+export const MAX_CLOCK_AHEAD = 1_000_000;
+
+export interface CollabRelay {
+  port: number;
+  close: () => Promise<void>;
+}
+
+interface Room {
+  document: CollabDocument;
+  peers: Map<WebSocket, CollabPeer>;
+}
+
+function send(socket: WebSocket, message: CollabServerMessage): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function broadcast(room: Room, from: WebSocket, message: CollabServerMessage): void {
+  room.peers.forEach((_, socket) => {
+    if (socket !== from) send(socket, message);
+  });
+}
+
+function parseMessage(data: RawData): CollabClientMessage | null {
+  let json: unknown;
+  try {
+    json = JSON.parse(data.toString());
+  } catch {
+    return null;
+  }
+  const parsed = CollabClientMessageSchema.safeParse(json);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Start a relay on `port` (0 picks a free one) - resolves once it is listening
+ * Tokens are checked against `secret`, COLLAB_SECRET by default.
+ */
+export function startCollabRelay(port = DEFAULT_COLLAB_PORT, secret = collabSecret()): Promise<CollabRelay> {
+  const rooms = new Map<string, Room>();
+  const server = new WebSocketServer({ port });
+
+  server.on("connection", (socket) => {
+    let room: Room | null = null;
+    let projectId: string | null = null;
+    let role: MemberRole = "VIEWER";
+    const clientId = randomUUID();
+
+    const receive = (message: CollabClientMessage) => {
+      if (message.type === "join") {
+        if (room) return; // One project per connection
+        const claims = verifyCollabToken(message.token, secret);
+        if (!claims) {
+          socket.close(1008, "Invalid token");
+          return;
+        }
+        projectId = claims.projectId;
+        role = claims.role;
+        room = rooms.get(projectId) ?? { document: new CollabDocument("relay"), peers: new Map() };
+        rooms.set(projectId, room);
+
+        const peer: CollabPeer = { clientId, user: message.user, presence: message.presence };
+        send(socket, {
+          type: "welcome",
+          clientId,
+          ops: room.document.snapshot(),
+          peers: [...room.peers.values()],
+        });
+        room.peers.set(socket, peer);
+        broadcast(room, socket, { type: "peer", peer });
+        return;
+      }
+
+      const peer = room?.peers.get(socket);
+      if (!room || !peer) return;
+
+      if (message.type === "ops") {
+        // Viewers follow along; their writes would otherwise reach editors and be autosaved
+        if (!hasRole(role, "EDITOR")) return;
+        const limit = room.document.clock + MAX_CLOCK_AHEAD;
+        if (message.ops.some(({ clock }) => clock[0] > limit)) {
+          socket.close(1008, "Clock too far ahead");
+          return;
+        }
+        room.document.apply(message.ops);
+        broadcast(room, socket, { type: "ops", ops: message.ops });
+      } else if (message.type === "presence") {
+        peer.presence = message.presence;
+        broadcast(room, socket, { type: "peer", peer });
+      }
+    };
+
+    // A bad frame only costs the editor that sent it its connection
+    socket.on("message", (data) => {
+      const message = parseMessage(data);
+      if (!message) {
+        socket.close(1008, "Invalid message");
+        return;
+      }
+      try {
+        receive(message);
+      } catch (error) {
+        console.warn("Closing collaboration connection after a failed message:", error);
+        socket.close(1011, "Message failed");
+      }
+    });
+
+    // e.g. a frame over the size limit - ws closes the socket itself
+    socket.on("error", (error) => console.warn("Collaboration connection error:", error.message));
+
+    socket.on("close", () => {
+      if (!room || !projectId) return;
+      room.peers.delete(socket);
+      broadcast(room, socket, { type: "leave", clientId });
+      if (room.peers.size === 0) rooms.delete(projectId);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.once("listening", () => {
+      const address = server.address();
+      resolve({
+        port: typeof address === "object" && address ? address.port : port,
+        close: () =>
+          new Promise<void>((done) => {
+            server.clients.forEach((client) => client.terminate());
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
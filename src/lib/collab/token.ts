@@ -0,0 +1,69 @@
+/**
+ * Collaboration Tokens - What the app signs so the relay knows who may join a project's room
+ * The app checks the project role (authorizeProject) and signs it with COLLAB_SECRET; the relay,
+ * which has no database, only checks the signature and expiry. A token is only used to join, so it is short-lived.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import type { MemberRole } from "@/lib/types/sharing";
+
+export const COLLAB_TOKEN_TTL_MS = 60_000;
+
+export interface CollabTokenClaims {
+  projectId: string;
+  userId: string;
+  role: MemberRole;
+  // Epoch milliseconds
+  expiresAt: number;
+}
+
+const CollabTokenClaimsSchema = z.object({
+  projectId: z.string().min(1),
+  userId: z.string().min(1),
+  role: z.enum(["OWNER", "EDITOR", "VIEWER"]),
+  expiresAt: z.number(),
+});
+
+/**
+ * The secret shared by the app and the relay - throws when it isn't set, so neither runs without one
+ */
+export function collabSecret(): string {
+  const secret = process.env.COLLAB_SECRET;
+  if (!secret) throw new Error("COLLAB_SECRET is not set");
+  return secret;
+}
+
+function signature(payload: string, secret: string): Buffer {
+  return createHmac("sha256", secret).update(payload).digest();
+}
+
+/**
+ * `<claims>.<signature>`, both base64url
+ */
+export function signCollabToken(claims: CollabTokenClaims, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `${payload}.${signature(payload, secret).toString("base64url")}`;
+}
+
+/**
+ * The claims of a token signed with `secret` that hasn't expired, null for anything else
+ */
+export function verifyCollabToken(token: string, secret: string, now = Date.now()): CollabTokenClaims | null {
+  const [payload, signed, ...rest] = token.split(".");
+  if (!payload || !signed || rest.length > 0) return null;
+
+  const expected = signature(payload, secret);
+  const actual = Buffer.from(signed, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch {
+    return null;
+  }
+  const claims = CollabTokenClaimsSchema.safeParse(json);
+  if (!claims.success || claims.data.expiresAt <= now) return null;
+  return claims.data;
+}
@@ -0,0 +1,210 @@
+/**
+ * AnimatedImageExporter - GIF and APNG export for places where MP4 is inconvenient
+ * Renders frames with the shared FabricRenderer at a reduced frame rate and size, then encodes in the browser
+ */
+
+import type { VideoProject } from "@/lib/schemas/timeline";
+import { TimelineController } from "./timeline/TimelineController";
+import { FabricRenderer } from "./FabricRenderer";
+import type { ExportProgress } from "./VideoExporter";
+import { buildPalette, hasTransparency, mapToPalette, type Palette } from "./image/quantize";
+import { encodeGif, type GifFrame } from "./image/gif";
+import { encodeApng } from "./image/apng";
+import { downloadBlob, exportFilename } from "./download";
+
+export type AnimatedImageFormat = "gif" | "apng";
+export type PaletteMode = "global" | "perFrame";
+
+export interface AnimatedImageExportOptions {
+  project: VideoProject;
+  format: AnimatedImageFormat;
+  /** Output frame rate (capped at the project frame rate) */
+  fps?: number;
+  /** Frames wider than this are scaled down, keeping the aspect ratio */
+  maxWidth?: number;
+  /** Number of repeats; 0 loops forever */
+  loop?: number;
+  /** GIF only: one palette for the whole animation or one per frame */
+  palette?: PaletteMode;
+  /** GIF only: Floyd-Steinberg dithering */
+  dither?: boolean;
+  filename?: string;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+interface RenderedFrames {
+  width: number;
+  height: number;
+  fps: number;
+  frames: Uint8ClampedArray[];
+}
+
+const nextTick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Per-frame delays in `unitsPerSecond` with rounding error carried forward, so the total stays exact
+ */
+function frameDelays(count: number, fps: number, unitsPerSecond: number): number[] {
+  return Array.from(
+    { length: count },
+    (_, i) => Math.round(((i + 1) * unitsPerSecond) / fps) - Math.round((i * unitsPerSecond) / fps)
+  );
+}
+
+export class AnimatedImageExporter {
+  static isSupported(format: AnimatedImageFormat): boolean {
+    if (typeof document === "undefined") return false;
+    return format === "gif" || typeof CompressionStream !== "undefined";
+  }
+
+  async export(options: AnimatedImageExportOptions): Promise<Blob> {
+    const { format, onProgress = () => {} } = options;
+
+    const rendered = await this.renderFrames(options);
+    const totalFrames = rendered.frames.length;
+    const report = (currentFrame: number, message: string) =>
+      onProgress({
+        phase: "encoding",
+        currentFrame,
+        totalFrames,
+        percentage: 50 + Math.round((currentFrame / totalFrames) * 50),
+        message,
+      });
+
+    const blob = format === "gif"
+      ? await this.encodeGif(rendered, options, report)
+      : await encodeApng(
+          rendered.width,
+          rendered.height,
+          frameDelays(totalFrames, rendered.fps, 1000).map((delay, i) => ({
+            rgba: rendered.frames[i],
+            delayNum: delay,
+            delayDen: 1000,
+          })),
+          {
+            loop: options.loop ?? 0,
+            onFrame: (i) => report(i + 1, `Compressing frame ${i + 1}/${totalFrames}`),
+          }
+        );
+
+    onProgress({ phase: "complete", currentFrame: totalFrames, totalFrames, percentage: 100, message: "Export complete!" });
+    return blob;
+  }
+
+  async exportAndDownload(options: AnimatedImageExportOptions): Promise<Blob> {
+    const blob = await this.export(options);
+    downloadBlob(blob, exportFilename(options.project.name, options.format === "gif" ? "gif" : "png", options.filename));
+    return blob;
+  }
+
+  /**
+   * Render every output frame and read it back at the output size
+   */
+  private async renderFrames(options: AnimatedImageExportOptions): Promise<RenderedFrames> {
+    const { project, onProgress = () => {} } = options;
+    const fps = Math.min(options.fps ?? 15, project.fps);
+    const scale = Math.min(1, (options.maxWidth ?? project.width) / project.width);
+    const width = Math.max(1, Math.round(project.width * scale));
+    const height = Math.max(1, Math.round(project.height * scale));
+    const totalFrames = Math.max(1, Math.ceil(project.duration * fps));
+
+    onProgress({ phase: "preparing", currentFrame: 0, totalFrames, percentage: 0, message: "Loading assets..." });
+
+    const controller = new TimelineController(project);
+    const renderer = new FabricRenderer(project);
+    const output = document.createElement("canvas");
+    output.width = width;
+    output.height = height;
+    const context = output.getContext("2d", { willReadFrequently: true });
+    if (!context) {
+      throw new Error("Canvas 2D context unavailable");
+    }
+    context.imageSmoothingQuality = "high";
+
+    const frames: Uint8ClampedArray[] = [];
+    try {
+      await renderer.initialize();
+      const source = renderer.getCanvas();
+      if (!source) {
+        throw new Error("Renderer canvas unavailable");
+      }
+
+      for (let frame = 0; frame < totalFrames; frame++) {
+        renderer.renderFrame(controller.getStateAtTime(frame / fps, frame));
+        context.clearRect(0, 0, width, height);
+        context.drawImage(source, 0, 0, width, height);
+        frames.push(context.getImageData(0, 0, width, height).data);
+
+        onProgress({
+          phase: "rendering",
+          currentFrame: frame + 1,
+          totalFrames,
+          percentage: Math.round(((frame + 1) / totalFrames) * 50),
+          message: `Rendering frame ${frame + 1}/${totalFrames}`,
+        });
+        await nextTick();
+      }
+    } finally {
+      renderer.destroy();
+    }
+
+    return { width, height, fps, frames };
+  }
+
+  private async encodeGif(
+    rendered: RenderedFrames,
+    options: AnimatedImageExportOptions,
+    report: (currentFrame: number, message: string) => void
+  ): Promise<Blob> {
+    const { width, height, fps, frames } = rendered;
+    const dither = options.dither ?? true;
+    const delays = frameDelays(frames.length, fps, 100);
+
+    // One table entry is reserved for transparency when any pixel needs it
+    const withTransparency = (palette: Palette, transparent: boolean) =>
+      transparent ? { palette: [...palette, [0, 0, 0]] as Palette, transparentIndex: palette.length } : { palette };
+
+    let globalPalette: Palette | undefined;
+    let globalTransparentIndex: number | undefined;
+    if ((options.palette ?? "global") === "global") {
+      report(0, "Building palette...");
+      const transparent = frames.some(hasTransparency);
+      const table = withTransparency(buildPalette(frames, transparent ? 255 : 256), transparent);
+      globalPalette = table.palette;
+      globalTransparentIndex = table.transparentIndex;
+    }
+
+    const gifFrames: GifFrame[] = [];
+    for (let i = 0; i < frames.length; i++) {
+      let palette = globalPalette;
+      let transparentIndex = globalTransparentIndex;
+      let localPalette: Palette | undefined;
+      if (!globalPalette) {
+        const transparent = hasTransparency(frames[i]);
+        const table = withTransparency(buildPalette([frames[i]], transparent ? 255 : 256), transparent);
+        palette = localPalette = table.palette;
+        transparentIndex = table.transparentIndex;
+      }
+
+      gifFrames.push({
+        indices: mapToPalette(frames[i], width, height, palette!, { dither, transparentIndex }),
+        palette: localPalette,
+        delay: delays[i],
+        transparentIndex,
+      });
+
+      report(i + 1, `Quantizing frame ${i + 1}/${frames.length}`);
+      await nextTick();
+    }
+
+    options.onProgress?.({
+      phase: "muxing",
+      currentFrame: frames.length,
+      totalFrames: frames.length,
+      percentage: 100,
+      message: "Writing GIF file...",
+    });
+    return encodeGif(width, height, gifFrames, { globalPalette, loop: options.loop ?? 0 });
+  }
+}
+
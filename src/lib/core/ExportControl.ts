@@ -0,0 +1,89 @@
+/**
+ * ExportControl - Pause, resume and cancel for a running export
+ * The exporter awaits checkpoint() between frames; activeSeconds() leaves paused time out of rate and ETA.
+ */
+
+export type ExportControlState = "running" | "paused" | "cancelled";
+
+export class ExportCancelledError extends Error {
+  constructor() {
+    super("Export cancelled");
+    this.name = "ExportCancelledError";
+  }
+}
+
+export class ExportControl {
+  private state: ExportControlState = "running";
+  private listeners = new Set<(state: ExportControlState) => void>();
+  private resumeWaiters: (() => void)[] = [];
+  private startedAt = performance.now();
+  private pausedAt: number | null = null;
+  private pausedTotal = 0;
+
+  getState(): ExportControlState {
+    return this.state;
+  }
+
+  pause(): void {
+    if (this.state !== "running") return;
+    this.pausedAt = performance.now();
+    this.setState("paused");
+  }
+
+  resume(): void {
+    if (this.state !== "paused") return;
+    this.endPause();
+    this.setState("running");
+  }
+
+  cancel(): void {
+    if (this.state === "cancelled") return;
+    this.endPause();
+    this.setState("cancelled");
+  }
+
+  /**
+   * Called with every state change; returns an unsubscribe function
+   */
+  subscribe(listener: (state: ExportControlState) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Wait while paused, throw ExportCancelledError once cancelled
+   */
+  async checkpoint(): Promise<void> {
+    while (this.state === "paused") {
+      await new Promise<void>((resolve) => this.resumeWaiters.push(resolve));
+    }
+    if (this.state === "cancelled") {
+      throw new ExportCancelledError();
+    }
+  }
+
+  /**
+   * Seconds since the control was created, not counting time spent paused
+   */
+  activeSeconds(): number {
+    const pausedNow = this.pausedAt === null ? 0 : performance.now() - this.pausedAt;
+    return (performance.now() - this.startedAt - this.pausedTotal - pausedNow) / 1000;
+  }
+
+  private endPause(): void {
+    if (this.pausedAt !== null) {
+      this.pausedTotal += performance.now() - this.pausedAt;
+      this.pausedAt = null;
+    }
+  }
+
+  private setState(state: ExportControlState): void {
+    this.state = state;
+    if (state !== "paused") {
+      const waiters = this.resumeWaiters;
+      this.resumeWaiters = [];
+      waiters.forEach((resolve) => resolve());
+    }
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
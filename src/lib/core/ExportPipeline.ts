@@ -0,0 +1,275 @@
+/**
+ * ExportPipeline - Frame rendering and WebCodecs encoding, shared by the main thread and the export worker
+ * Renders every frame with FabricRenderer, encodes it with an explicit timestamp and muxes MP4 or WebM
+ * together with audio mixed beforehand on the main thread (OfflineAudioContext has no worker equivalent).
+ * The muxed file streams into a file picked by the user, or into memory pages when there is none.
+ */
+
+import * as fabric from "fabric";
+import { TRANSPARENT_BACKGROUND } from "@/lib/schemas/timeline";
+import { TimelineController } from "./timeline/TimelineController";
+import { FabricRenderer } from "./FabricRenderer";
+import { VideoEncoderWrapper } from "./encoder/VideoEncoder";
+import { VideoMuxer } from "./encoder/Muxer";
+import { WebmVideoMuxer } from "./encoder/WebmMuxer";
+import { AudioEncoderWrapper } from "./encoder/AudioEncoder";
+import type { AudioSamples } from "./encoder/AudioEncoder";
+import type { AudioEncoderConfig } from "./encoder/types";
+import { describeVideoCodec } from "./encoder/codecs";
+import { FileSink, MemorySink } from "./encoder/MuxerSink";
+import type { MuxerSink } from "./encoder/MuxerSink";
+import { ExportControl } from "./ExportControl";
+import type { ExportOptions, ExportProgress } from "./VideoExporter";
+
+// Frames allowed to wait in an encoder before rendering pauses - fewer at high resolutions, where each frame is large
+const MAX_ENCODE_QUEUE = 8;
+const MAX_QUEUED_FRAME_BYTES = 128 * 1024 * 1024;
+// Yield to the event loop this often so progress updates and control messages get through
+const YIELD_EVERY_FRAMES = 5;
+
+const nextTick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+function maxQueuedFrames(width: number, height: number): number {
+  return Math.max(2, Math.min(MAX_ENCODE_QUEUE, Math.floor(MAX_QUEUED_FRAME_BYTES / (width * height * 4))));
+}
+
+/**
+ * Mixed-down audio as plain channel data, so it can be transferred to the worker
+ */
+export interface MixedAudio {
+  channels: Float32Array<ArrayBuffer>[];
+  sampleRate: number;
+  config: AudioEncoderConfig;
+}
+
+export type PipelineOptions = Pick<
+  ExportOptions,
+  "project" | "config" | "container" | "output" | "destination" | "onProgress"
+> & {
+  control: ExportControl;
+};
+
+/**
+ * No video encoder accepts the configuration - the caller falls back to MediaRecorder
+ */
+export class EncoderUnavailableError extends Error {
+  constructor(cause: unknown) {
+    super(`WebCodecs encoder unavailable: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = "EncoderUnavailableError";
+  }
+}
+
+// Main thread -> export worker
+export type ExportWorkerRequest =
+  | {
+      type: "start";
+      options: Pick<ExportOptions, "project" | "config" | "container" | "output" | "destination">;
+      audio: MixedAudio | null;
+    }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "cancel" };
+
+// Export worker -> main thread
+export type ExportWorkerResponse =
+  | { type: "progress"; progress: ExportProgress }
+  | { type: "done"; blob: Blob }
+  | { type: "error"; reason: "unavailable" | "cancelled" | "failed"; message: string };
+
+/**
+ * Draw the source's alpha channel as an opaque grayscale image (white = opaque), the input for the alpha stream
+ */
+function drawAlphaMatte(context: CanvasRenderingContext2D, source: HTMLCanvasElement): void {
+  const { width, height } = context.canvas;
+  context.globalCompositeOperation = "copy";
+  context.drawImage(source, 0, 0);
+  // White where the source is opaque, scaled by its alpha...
+  context.globalCompositeOperation = "source-in";
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  // ...then composited onto black so the luma equals the alpha
+  context.globalCompositeOperation = "destination-over";
+  context.fillStyle = "#000000";
+  context.fillRect(0, 0, width, height);
+}
+
+function toAudioSamples(audio: MixedAudio): AudioSamples {
+  return {
+    length: audio.channels[0]?.length ?? 0,
+    sampleRate: audio.sampleRate,
+    numberOfChannels: audio.channels.length,
+    getChannelData: (channel: number) => audio.channels[channel],
+  };
+}
+
+/**
+ * Render, encode and mux the whole project; resolves with the finished file
+ */
+export async function runExportPipeline(options: PipelineOptions, audio: MixedAudio | null): Promise<Blob> {
+  const { project, onProgress = () => {}, config, control } = options;
+  // Presets may render at another size and frame rate; the project is scaled, not re-laid out
+  const output = options.output ?? { width: project.width, height: project.height, fps: project.fps };
+  const isWebm = options.container === "webm";
+  const controller = new TimelineController(project, output.fps);
+  const totalFrames = controller.getTotalFrames();
+  const report = (progress: Omit<ExportProgress, "totalFrames">) => onProgress({ ...progress, totalFrames });
+
+  report({ phase: "preparing", currentFrame: 0, percentage: 0, message: "Initializing encoder..." });
+
+  const encoderConfig = {
+    width: output.width,
+    height: output.height,
+    fps: output.fps,
+    bitrate: config?.bitrate ?? 10_000_000,
+    codec: config?.codec ?? (isWebm ? "vp09.00.10.08" : "avc1.640028"),
+  };
+
+  const encoder = new VideoEncoderWrapper(encoderConfig);
+  let muxer: VideoMuxer | WebmVideoMuxer | null = null;
+
+  try {
+    await encoder.initialize((chunk) => muxer?.addVideoChunk(chunk));
+  } catch (err) {
+    encoder.close();
+    throw new EncoderUnavailableError(err);
+  }
+
+  const codec = encoder.getActualCodec();
+  report({
+    phase: "preparing",
+    currentFrame: 0,
+    percentage: 0,
+    message: `Encoding with ${describeVideoCodec(codec)}`,
+    codec,
+  });
+
+  // The alpha plane is encoded as a separate grayscale stream with the same codec and keyframes (VP8/VP9 only)
+  let alphaEncoder: VideoEncoderWrapper | null = null;
+  if (isWebm && project.backgroundColor === TRANSPARENT_BACKGROUND && /^(vp09|vp8)/.test(codec)) {
+    alphaEncoder = new VideoEncoderWrapper({ ...encoderConfig, codec });
+    try {
+      await alphaEncoder.initialize((chunk) => (muxer as WebmVideoMuxer | null)?.addAlphaChunk(chunk));
+    } catch (err) {
+      alphaEncoder.close();
+      alphaEncoder = null;
+      console.warn("Alpha encoding unavailable, exporting without transparency:", err);
+    }
+  }
+
+  const renderer = new FabricRenderer(project, output);
+  let audioEncoder: AudioEncoderWrapper | null = null;
+  let sink: MuxerSink | null = null;
+  let finished = false;
+
+  try {
+    sink = options.destination ? await FileSink.open(options.destination) : new MemorySink();
+    muxer = isWebm
+      ? new WebmVideoMuxer({
+          config: encoderConfig,
+          codec,
+          sink,
+          audio: audio
+            ? { sampleRate: audio.config.sampleRate, numberOfChannels: audio.config.numberOfChannels }
+            : undefined,
+          alpha: alphaEncoder !== null,
+        })
+      : new VideoMuxer({
+          config: encoderConfig,
+          codec,
+          sink,
+          audio: audio
+            ? {
+                codec: audio.config.codec,
+                sampleRate: audio.config.sampleRate,
+                numberOfChannels: audio.config.numberOfChannels,
+              }
+            : undefined,
+        });
+    muxer.initialize();
+
+    if (audio) {
+      report({ phase: "preparing", currentFrame: 0, percentage: 0, message: "Encoding audio..." });
+      audioEncoder = new AudioEncoderWrapper(audio.config);
+      audioEncoder.initialize((chunk, metadata) => muxer?.addAudioChunk(chunk, metadata));
+      await audioEncoder.encodeBuffer(toAudioSamples(audio));
+    }
+
+    report({ phase: "preparing", currentFrame: 0, percentage: 0, message: "Loading assets..." });
+    await renderer.initialize();
+
+    const canvas = renderer.getCanvas();
+    if (!canvas) {
+      throw new Error("Renderer canvas unavailable");
+    }
+
+    let matte: CanvasRenderingContext2D | null = null;
+    if (alphaEncoder) {
+      const matteCanvas = fabric.util.createCanvasElement();
+      matteCanvas.width = output.width;
+      matteCanvas.height = output.height;
+      matte = matteCanvas.getContext("2d");
+      if (!matte) {
+        throw new Error("Canvas 2D context unavailable");
+      }
+    }
+
+    // Rate and ETA count from the first frame, so asset loading doesn't skew them
+    const framesStartedAt = control.activeSeconds();
+    const queueLimit = maxQueuedFrames(output.width, output.height);
+
+    for (let frame = 0; frame < totalFrames; frame++) {
+      await control.checkpoint();
+
+      renderer.renderFrame(controller.getFrameState(frame));
+      await encoder.encodeFrame(canvas, frame);
+      if (alphaEncoder && matte) {
+        drawAlphaMatte(matte, canvas);
+        await alphaEncoder.encodeFrame(matte.canvas, frame);
+      }
+
+      // Back-pressure: a few frames in each encoder and a bounded amount of output waiting for the disk
+      await encoder.drain(queueLimit);
+      await alphaEncoder?.drain(queueLimit);
+      await sink.ready();
+      if (frame % YIELD_EVERY_FRAMES === 0) {
+        await nextTick();
+      }
+
+      const elapsed = control.activeSeconds() - framesStartedAt;
+      const fps = elapsed > 0 ? (frame + 1) / elapsed : 0;
+      report({
+        phase: "encoding",
+        currentFrame: frame + 1,
+        percentage: Math.round(((frame + 1) / totalFrames) * 100),
+        message: `Encoding frame ${frame + 1}/${totalFrames}`,
+        codec,
+        fps,
+        etaSeconds: fps > 0 ? (totalFrames - frame - 1) / fps : undefined,
+      });
+    }
+
+    await encoder.finalize();
+    await alphaEncoder?.finalize();
+
+    report({
+      phase: "muxing",
+      currentFrame: totalFrames,
+      percentage: 100,
+      message: `Creating ${isWebm ? "WebM" : "MP4"} file...`,
+      codec,
+    });
+    const blob = await muxer.close();
+    finished = true;
+
+    report({ phase: "complete", currentFrame: totalFrames, percentage: 100, message: "Export complete!", codec });
+    return blob;
+  } finally {
+    if (!finished) {
+      await sink?.abort();
+    }
+    encoder.close();
+    alphaEncoder?.close();
+    audioEncoder?.close();
+    renderer.destroy();
+  }
+}
@@ -8,61 +8,188 @@ import type {
   VideoProject,
   TextProperties,
   ShapeProperties,
+  ImageProperties,
+  BackgroundProperties,
+  ConnectorProperties,
 } from "@/lib/schemas/timeline";
+import { TRANSPARENT_BACKGROUND } from "@/lib/schemas/timeline";
 import type { FrameState, ComputedEventState } from "./timeline/TimelineController";
+import { createFabricGradient, resolveFill } from "./gradient";
+import { withBlur } from "./blur";
+import { loadImageSource } from "./offscreen";
+import { DEFAULT_POLYGON_SIDES, lineEndpoints, regularPolygonPoints, shapeSize } from "./shapes";
+
+/**
+ * Output frame size when it differs from the project's - the project is scaled as a whole, not re-laid out
+ */
+export interface RenderOutputSize {
+  width: number;
+  height: number;
+  /** "contain" letterboxes with the project background, "cover" crops the overflow */
+  fit?: "contain" | "cover";
+}
 
 export class FabricRenderer {
   private canvas: fabric.StaticCanvas | null = null;
   private project: VideoProject;
+  private output: RenderOutputSize;
+  // Project area inside the output frame, in output pixels
+  private viewport = { left: 0, top: 0, width: 0, height: 0 };
   private isInitialized: boolean = false;
+  // Decoded images keyed by URL - frames render synchronously, so images load up front
+  private images = new Map<string, HTMLImageElement>();
 
-  constructor(project: VideoProject) {
+  constructor(project: VideoProject, output?: RenderOutputSize) {
     this.project = project;
+    this.output = output ?? { width: project.width, height: project.height };
   }
 
   async initialize(): Promise<void> {
-    const canvasEl = document.createElement("canvas");
-    canvasEl.width = this.project.width;
-    canvasEl.height = this.project.height;
+    const { width, height, fit = "contain" } = this.output;
+    // Goes through Fabric's environment, so this is an OffscreenCanvas inside the export worker
+    const canvasEl = fabric.util.createCanvasElement();
+    canvasEl.width = width;
+    canvasEl.height = height;
 
     this.canvas = new fabric.StaticCanvas(canvasEl, {
-      width: this.project.width,
-      height: this.project.height,
-      backgroundColor: this.project.backgroundColor || "#000000",
+      width,
+      height,
+      backgroundColor: this.backgroundFill(),
+      // The background color covers the whole output, including letterbox bars
+      backgroundVpt: false,
+      // Frames are encoded at the output size, not the screen's pixel ratio
+      enableRetinaScaling: false,
     });
 
+    const scaleX = width / this.project.width;
+    const scaleY = height / this.project.height;
+    const scale = fit === "cover" ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+    this.viewport = {
+      left: (width - this.project.width * scale) / 2,
+      top: (height - this.project.height * scale) / 2,
+      width: this.project.width * scale,
+      height: this.project.height * scale,
+    };
+    this.canvas.setViewportTransform([scale, 0, 0, scale, this.viewport.left, this.viewport.top]);
+
+    await this.preloadImages();
+
     this.isInitialized = true;
   }
 
+  /**
+   * Load every image referenced by the project before the first frame is rendered
+   * Images that fail to load are skipped (the event renders nothing)
+   */
+  private async preloadImages(): Promise<void> {
+    const urls = new Set<string>();
+    for (const event of this.project.events) {
+      const props = event.properties as Record<string, unknown>;
+      if (event.type === "image" && typeof props.src === "string") {
+        urls.add(props.src);
+      } else if (event.type === "background" && props.type === "image" && typeof props.image === "string") {
+        urls.add(props.image);
+      }
+    }
+
+    await Promise.all(
+      [...urls]
+        .filter((url) => !this.images.has(url))
+        .map(async (url) => {
+          try {
+            this.images.set(url, await loadImageSource(url));
+          } catch (error) {
+            console.warn(`Failed to load image ${url}:`, error);
+          }
+        })
+    );
+  }
+
   renderFrame(frameState: FrameState): void {
     if (!this.canvas) {
       throw new Error("Renderer not initialized");
     }
 
     this.canvas.clear();
-    this.canvas.backgroundColor = this.project.backgroundColor || "#000000";
+    this.canvas.backgroundColor = this.backgroundFill();
 
     for (const eventState of frameState.events) {
-      this.renderEvent(eventState);
+      this.renderEvent(eventState, frameState);
     }
 
     this.canvas.renderAll();
+    this.paintLetterbox();
   }
 
-  private renderEvent(eventState: ComputedEventState): void {
+  /**
+   * Cover anything drawn outside the project area when it is letterboxed into the output frame
+   */
+  private paintLetterbox(): void {
+    if (!this.canvas) return;
+    const { width, height } = this.output;
+    const { left, top, width: innerWidth, height: innerHeight } = this.viewport;
+    if (left <= 0 && top <= 0) return;
+
+    const ctx = this.canvas.getContext();
+    const fill = this.backgroundFill();
+    const bars = [
+      [0, 0, width, top],
+      [0, top + innerHeight, width, height - top - innerHeight],
+      [0, top, left, innerHeight],
+      [left + innerWidth, top, width - left - innerWidth, innerHeight],
+    ];
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = fill;
+    for (const [x, y, w, h] of bars) {
+      if (w <= 0 || h <= 0) continue;
+      if (fill) ctx.fillRect(x, y, w, h);
+      else ctx.clearRect(x, y, w, h);
+    }
+    ctx.restore();
+  }
+
+  /**
+   * Canvas fill for the project background - none for a transparent project, so cleared pixels keep alpha 0
+   */
+  private backgroundFill(): string {
+    const color = this.project.backgroundColor || "#000000";
+    return color === TRANSPARENT_BACKGROUND ? "" : color;
+  }
+
+  private renderEvent(eventState: ComputedEventState, frameState: FrameState): void {
     const { event, properties } = eventState;
 
+    const computed = properties as Record<string, unknown>;
+    // Animated uniform scale (from animations, transitions or the smooth exit effect)
+    const scale = (computed.scale as number) ?? 1;
+
+    let object: fabric.FabricObject | null = null;
     switch (event.type) {
       case "text":
-        this.renderText(properties as TextProperties);
+        object = this.renderText(properties as TextProperties, scale);
         break;
       case "shape":
-        this.renderShape(properties as ShapeProperties);
+        object = this.renderShape(properties as ShapeProperties, scale);
+        break;
+      case "image":
+        object = this.renderImage(properties as ImageProperties, scale);
+        break;
+      case "background":
+        object = this.renderBackground(computed as BackgroundProperties & { opacity?: number }, scale);
+        break;
+      case "connector":
+        object = this.renderConnector(computed as unknown as ConnectorProperties, frameState);
         break;
     }
+
+    if (object) {
+      // Blur transitions rasterize the object so the Fabric Blur filter can be applied
+      this.canvas!.add(withBlur(object, computed.blur as number | undefined));
+    }
   }
 
-  private renderText(props: TextProperties): void {
+  private renderText(props: TextProperties, scale: number): fabric.FabricObject {
     const text = new fabric.Textbox(props.text, {
       left: props.x,
       top: props.y,
@@ -76,29 +203,32 @@ export class FabricRenderer {
       width: 600,
       opacity: props.opacity ?? 1,
       angle: props.rotation || 0,
+      scaleX: scale,
+      scaleY: scale,
     });
 
-    this.canvas!.add(text);
+    return text;
   }
 
-  private renderShape(props: ShapeProperties): void {
+  private renderShape(props: ShapeProperties, scale: number): fabric.FabricObject | null {
     const commonProps = {
       left: props.x,
       top: props.y,
       originX: "center" as const,
       originY: "center" as const,
-      fill: props.fill || "#ffffff",
+      fill: resolveFill(props, "#ffffff"),
       opacity: props.opacity ?? 1,
       angle: props.rotation || 0,
       stroke: props.stroke,
       strokeWidth: props.strokeWidth || 0,
+      scaleX: scale,
+      scaleY: scale,
     };
 
     let shape: fabric.FabricObject | null = null;
 
     const shapeType = props.shapeType;
-    const width = props.width || 100;
-    const height = props.height || 100;
+    const { width, height } = shapeSize(props);
 
     switch (shapeType) {
       case "rect":
@@ -125,11 +255,159 @@ export class FabricRenderer {
           ry: height / 2,
         });
         break;
+
+      case "triangle":
+        shape = new fabric.Triangle({
+          ...commonProps,
+          width,
+          height,
+        });
+        break;
+
+      case "polygon":
+        shape = new fabric.Polygon(regularPolygonPoints(props.sides || DEFAULT_POLYGON_SIDES, width, height), {
+          ...commonProps,
+        });
+        break;
+
+      case "line": {
+        const [x1, y1, x2, y2] = lineEndpoints(props);
+        shape = new fabric.Line([x1, y1, x2, y2], {
+          stroke: props.stroke || props.fill || "#ffffff",
+          strokeWidth: props.strokeWidth || 4,
+          opacity: props.opacity ?? 1,
+          originX: "center",
+          originY: "center",
+          angle: props.rotation || 0,
+          scaleX: scale,
+          scaleY: scale,
+        });
+        break;
+      }
+
+      case "arrow": {
+        // Rounded bar, matching the editor preview
+        const [x1, y1, x2, y2] = lineEndpoints(props);
+        const thickness = Math.max((props.strokeWidth || 4) * 2, 8);
+        shape = new fabric.Rect({
+          left: (x1 + x2) / 2,
+          top: (y1 + y2) / 2,
+          originX: "center",
+          originY: "center",
+          width: Math.hypot(x2 - x1, y2 - y1),
+          height: thickness,
+          rx: thickness / 2,
+          ry: thickness / 2,
+          fill: props.stroke || props.fill || "#ffffff",
+          opacity: props.opacity ?? 1,
+          // Rotation turns the bar about its midpoint, on top of the direction it points in
+          angle: (Math.atan2(y2 - y1, x2 - x1) * 180) / Math.PI + (props.rotation || 0),
+          scaleX: scale,
+          scaleY: scale,
+        });
+        break;
+      }
     }
 
-    if (shape) {
-      this.canvas!.add(shape);
+    return shape;
+  }
+
+  private renderImage(props: ImageProperties, scale: number): fabric.FabricObject | null {
+    const element = this.images.get(props.src);
+    if (!element) return null;
+
+    const image = new fabric.FabricImage(element, {
+      left: props.x,
+      top: props.y,
+      originX: "center",
+      originY: "center",
+      opacity: props.opacity ?? 1,
+      angle: props.rotation || 0,
+    });
+    fitImage(image, props.width, props.height, props.fit || "cover", scale);
+
+    return image;
+  }
+
+  private renderBackground(
+    props: BackgroundProperties & { opacity?: number },
+    scale: number
+  ): fabric.FabricObject | null {
+    const { width, height } = this.project;
+    const common = {
+      left: width / 2,
+      top: height / 2,
+      originX: "center" as const,
+      originY: "center" as const,
+      opacity: props.opacity ?? 1,
+    };
+
+    if (props.type === "image") {
+      const element = props.image ? this.images.get(props.image) : undefined;
+      if (!element) return null;
+      const image = new fabric.FabricImage(element, common);
+      fitImage(image, width, height, "cover", scale);
+      return image;
+    }
+
+    const fill =
+      props.type === "gradient" && props.gradient && props.gradient.colors.length > 0
+        ? createFabricGradient(props.gradient)
+        : props.color || this.project.backgroundColor || "#000000";
+
+    return new fabric.Rect({
+      ...common,
+      width,
+      height,
+      fill,
+      scaleX: scale,
+      scaleY: scale,
+    });
+  }
+
+  /**
+   * Line or arrow between the centers of two events visible in the same frame
+   */
+  private renderConnector(props: ConnectorProperties, frameState: FrameState): fabric.FabricObject | null {
+    const position = (id: string) => {
+      const state = frameState.events.find((e) => e.event.id === id);
+      const computed = state?.properties as { x?: unknown; y?: unknown } | undefined;
+      if (typeof computed?.x !== "number" || typeof computed?.y !== "number") return null;
+      return { x: computed.x, y: computed.y };
+    };
+
+    const source = position(props.sourceId);
+    const target = position(props.targetId);
+    if (!source || !target) return null;
+
+    const stroke = props.stroke || "#ffffff";
+    const strokeWidth = props.strokeWidth || 2;
+    let path = `M ${source.x} ${source.y} L ${target.x} ${target.y}`;
+
+    if ((props.type || "arrow") === "arrow") {
+      const angle = Math.atan2(target.y - source.y, target.x - source.x);
+      const headLength = Math.max(strokeWidth * 4, 12);
+      const spread = Math.PI / 7;
+      const left = {
+        x: target.x - headLength * Math.cos(angle - spread),
+        y: target.y - headLength * Math.sin(angle - spread),
+      };
+      const right = {
+        x: target.x - headLength * Math.cos(angle + spread),
+        y: target.y - headLength * Math.sin(angle + spread),
+      };
+      path += ` M ${target.x} ${target.y} L ${left.x} ${left.y} L ${right.x} ${right.y} Z`;
     }
+
+    // The open shaft has no area, so filling only paints the arrowhead
+    return new fabric.Path(path, {
+      stroke,
+      strokeWidth,
+      fill: stroke,
+      strokeLineCap: "round",
+      strokeLineJoin: "round",
+      opacity: props.opacity ?? 1,
+    });
   }
 
   getCanvas(): HTMLCanvasElement | null {
@@ -149,3 +427,42 @@ export class FabricRenderer {
     this.isInitialized = false;
   }
 }
+
+/**
+ * Size an image to a width x height box
+ * cover crops the source to fill the box, contain letterboxes, fill stretches
+ */
+function fitImage(
+  image: fabric.FabricImage,
+  width: number,
+  height: number,
+  fit: ImageProperties["fit"],
+  scale: number
+): void {
+  const element = image.getElement();
+  const naturalWidth = element.width || 1;
+  const naturalHeight = element.height || 1;
+
+  if (fit === "fill") {
+    image.set({ scaleX: (width / naturalWidth) * scale, scaleY: (height / naturalHeight) * scale });
+    return;
+  }
+
+  if (fit === "contain") {
+    const factor = Math.min(width / naturalWidth, height / naturalHeight) * scale;
+    image.set({ scaleX: factor, scaleY: factor });
+    return;
+  }
+
+  const factor = Math.max(width / naturalWidth, height / naturalHeight);
+  const cropWidth = width / factor;
+  const cropHeight = height / factor;
+  image.set({
+    cropX: (naturalWidth - cropWidth) / 2,
+    cropY: (naturalHeight - cropHeight) / 2,
+    width: cropWidth,
+    height: cropHeight,
+    scaleX: factor * scale,
+    scaleY: factor * scale,
+  });
+}
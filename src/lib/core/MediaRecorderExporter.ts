@@ -4,79 +4,10 @@
  */
 
 import * as fabric from "fabric";
-import type { VideoProject, TimelineEvent, Animation } from "@/lib/schemas/timeline";
-
-type EasingType = "linear" | "easeIn" | "easeOut" | "easeInOut" | "bounce";
-
-const easingFunctions: Record<EasingType, (t: number) => number> = {
-  linear: (t) => t,
-  easeIn: (t) => t * t,
-  easeOut: (t) => t * (2 - t),
-  easeInOut: (t) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
-  bounce: (t) => {
-    if (t < 1 / 2.75) return 7.5625 * t * t;
-    if (t < 2 / 2.75) return 7.5625 * (t -= 1.5 / 2.75) * t + 0.75;
-    if (t < 2.5 / 2.75) return 7.5625 * (t -= 2.25 / 2.75) * t + 0.9375;
-    return 7.5625 * (t -= 2.625 / 2.75) * t + 0.984375;
-  },
-};
-
-function interpolateAnimation(
-  animation: Animation,
-  localTime: number,
-  eventDuration: number
-): number | string | null {
-  const animDuration = animation.duration ?? eventDuration;
-  const startTime = animation.delay ?? animation.startTime ?? 0;
-
-  if (localTime < startTime) return animation.from;
-  if (localTime >= startTime + animDuration) return animation.to;
-
-  const progress = (localTime - startTime) / animDuration;
-  const easingFn =
-    easingFunctions[(animation.easing as EasingType) || "linear"] || easingFunctions.linear;
-  const easedProgress = easingFn(progress);
-
-  if (typeof animation.from === "number" && typeof animation.to === "number") {
-    return animation.from + (animation.to - animation.from) * easedProgress;
-  }
-  return progress < 0.5 ? animation.from : animation.to;
-}
-
-function computeProperties(event: TimelineEvent, currentTime: number): Record<string, unknown> {
-  const properties = { ...event.properties } as Record<string, unknown>;
-  if (event.animations && event.animations.length > 0) {
-    const localTime = currentTime - event.startTime;
-    for (const animation of event.animations) {
-      const value = interpolateAnimation(animation, localTime, event.duration);
-      if (value !== null) {
-        properties[animation.property] = value;
-      }
-    }
-  }
-
-  // Apply smooth exit effect (fade out during last 0.3 seconds)
-  const exitDuration = 0.3; // seconds
-  const localTime = currentTime - event.startTime;
-  const timeUntilEnd = event.duration - localTime;
-  
-  if (timeUntilEnd <= exitDuration && timeUntilEnd > 0) {
-    // Calculate exit progress (0 = just started exit, 1 = fully exited)
-    const exitProgress = 1 - (timeUntilEnd / exitDuration);
-    // Apply easeOut for smooth exit
-    const easedExitProgress = exitProgress * (2 - exitProgress);
-    
-    // Fade out opacity
-    const currentOpacity = (properties.opacity as number) ?? 1;
-    properties.opacity = currentOpacity * (1 - easedExitProgress);
-    
-    // Optional: slight scale down for more professional look
-    const currentScale = (properties.scale as number) ?? 1;
-    properties.scale = currentScale * (1 - easedExitProgress * 0.1); // Scale down by 10%
-  }
-
-  return properties;
-}
+import type { VideoProject } from "@/lib/schemas/timeline";
+import { TimelineController } from "./timeline/TimelineController";
+import { resolveFill } from "./gradient";
+import { withBlur } from "./blur";
 
 export interface MediaRecorderExportOptions {
   project: VideoProject;
@@ -143,7 +74,8 @@ export class MediaRecorderExporter {
     };
 
     // Render frames at correct timing
-    const totalFrames = Math.ceil(project.duration * project.fps);
+    const controller = new TimelineController(project);
+    const totalFrames = controller.getTotalFrames();
     const frameDuration = 1000 / project.fps; // milliseconds per frame
 
     // Start recording
@@ -152,20 +84,15 @@ export class MediaRecorderExporter {
     // Render each frame with proper timing to ensure correct video duration
     const renderFrame = (frame: number): Promise<void> => {
       return new Promise((resolve) => {
-        const currentTime = frame / project.fps;
+        const frameState = controller.getFrameState(frame);
 
         // Render frame
         fabricCanvas.clear();
         fabricCanvas.backgroundColor = project.backgroundColor || "#000000";
 
-        for (const event of project.events) {
-          const isVisible =
-            currentTime >= event.startTime &&
-            currentTime <= event.startTime + event.duration;
-          if (!isVisible) continue;
-
+        for (const { event, properties } of frameState.events) {
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          const props = computeProperties(event, currentTime) as any;
+          const props = properties as any;
           const scale = (props.scale as number) ?? 1;
           const commonProps = {
             left: props.x as number,
@@ -187,7 +114,7 @@ export class MediaRecorderExporter {
               textAlign: props.textAlign || "center",
               width: 600,
             });
-            fabricCanvas.add(text);
+            fabricCanvas.add(withBlur(text, props.blur));
           } else if (event.type === "shape") {
             const shapeType = props.shapeType;
             if (shapeType === "rect") {
@@ -195,18 +122,18 @@ export class MediaRecorderExporter {
                 ...commonProps,
                 width: props.width || 100,
                 height: props.height || 100,
-                fill: props.fill || "#8b5cf6",
+                fill: resolveFill(props, "#8b5cf6"),
                 rx: props.cornerRadius || 0,
                 ry: props.cornerRadius || 0,
               });
-              fabricCanvas.add(rect);
+              fabricCanvas.add(withBlur(rect, props.blur));
             } else if (shapeType === "circle") {
               const circle = new fabric.Circle({
                 ...commonProps,
                 radius: props.radius || 50,
-                fill: props.fill || "#8b5cf6",
+                fill: resolveFill(props, "#8b5cf6"),
               });
-              fabricCanvas.add(circle);
+              fabricCanvas.add(withBlur(circle, props.blur));
             }
           }
         }
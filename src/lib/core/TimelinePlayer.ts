@@ -0,0 +1,199 @@
+/**
+ * TimelinePlayer - Plays a project live in the browser, without exporting it first
+ * Frames come from the shared FabricRenderer and TimelineController on every animation frame; the audio
+ * is mixed down once by AudioMixer and played alongside from the current time.
+ */
+
+import type { VideoProject } from "@/lib/schemas/timeline";
+import { TimelineController } from "./timeline/TimelineController";
+import { FabricRenderer } from "./FabricRenderer";
+import { AudioMixer } from "./audio/AudioMixer";
+
+export interface TimelinePlayerOptions {
+  /** Start over at the end instead of stopping */
+  loop?: boolean;
+  /** Frames are rendered at most this wide, and scaled by the page */
+  maxWidth?: number;
+  /** Called with the current time after every rendered frame */
+  onTimeUpdate?: (time: number) => void;
+  /** Called when playback starts or stops, including at the end */
+  onPlayingChange?: (playing: boolean) => void;
+}
+
+const DEFAULT_MAX_WIDTH = 1920;
+
+export class TimelinePlayer {
+  private project: VideoProject;
+  private options: TimelinePlayerOptions;
+  private controller: TimelineController;
+  private renderer: FabricRenderer;
+  private time = 0;
+  private playing = false;
+  private animationFrame: number | null = null;
+  private lastTimestamp = 0;
+  // Audio - mixed in the background, so the picture doesn't wait for it
+  private audioBuffer: AudioBuffer | null = null;
+  private audioContext: AudioContext | null = null;
+  private audioSource: AudioBufferSourceNode | null = null;
+  private gain: GainNode | null = null;
+  private muted = false;
+  private destroyed = false;
+
+  constructor(project: VideoProject, options: TimelinePlayerOptions = {}) {
+    this.project = project;
+    this.options = options;
+    this.controller = new TimelineController(project);
+
+    const scale = Math.min(1, (options.maxWidth ?? DEFAULT_MAX_WIDTH) / project.width);
+    this.renderer = new FabricRenderer(project, {
+      width: Math.max(1, Math.round(project.width * scale)),
+      height: Math.max(1, Math.round(project.height * scale)),
+    });
+  }
+
+  /**
+   * Load the project's images and draw the first frame; resolves to the canvas to show
+   */
+  async initialize(): Promise<HTMLCanvasElement> {
+    await this.renderer.initialize();
+    const canvas = this.renderer.getCanvas();
+    if (!canvas) {
+      throw new Error("Renderer canvas unavailable");
+    }
+    this.render();
+
+    if (AudioMixer.hasAudio(this.project) && AudioMixer.isSupported()) {
+      new AudioMixer(this.project)
+        .mix()
+        .then((buffer) => {
+          if (this.destroyed) return;
+          this.audioBuffer = buffer;
+          this.startAudio();
+        })
+        .catch((error) => console.warn("Failed to mix audio:", error));
+    }
+
+    return canvas;
+  }
+
+  getDuration(): number {
+    return this.project.duration;
+  }
+
+  getTime(): number {
+    return this.time;
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  isMuted(): boolean {
+    return this.muted;
+  }
+
+  play(): void {
+    if (this.playing || this.destroyed) return;
+    if (this.time >= this.project.duration) {
+      this.time = 0;
+    }
+    this.playing = true;
+    this.lastTimestamp = performance.now();
+    this.animationFrame = requestAnimationFrame(this.tick);
+    this.startAudio();
+    this.options.onPlayingChange?.(true);
+  }
+
+  pause(): void {
+    if (!this.playing) return;
+    this.playing = false;
+    if (this.animationFrame !== null) cancelAnimationFrame(this.animationFrame);
+    this.animationFrame = null;
+    this.stopAudio();
+    this.options.onPlayingChange?.(false);
+  }
+
+  seek(time: number): void {
+    this.time = Math.max(0, Math.min(time, this.project.duration));
+    this.render();
+    // Restart the audio from the new time
+    this.startAudio();
+  }
+
+  /**
+   * Browsers only let audio start after a click or key press, so unmuting should come from one
+   */
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    if (this.gain) this.gain.gain.value = muted ? 0 : 1;
+    if (!muted) {
+      this.audioContext?.resume().catch(() => undefined);
+      if (!this.audioSource) this.startAudio();
+    }
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+    this.pause();
+    this.audioContext?.close().catch(() => undefined);
+    this.audioContext = null;
+    this.renderer.destroy();
+  }
+
+  private tick = (timestamp: number) => {
+    if (!this.playing) return;
+
+    this.time += (timestamp - this.lastTimestamp) / 1000;
+    this.lastTimestamp = timestamp;
+
+    if (this.time >= this.project.duration) {
+      if (this.options.loop) {
+        this.time %= this.project.duration || 1;
+        this.startAudio();
+      } else {
+        this.time = this.project.duration;
+        this.render();
+        this.pause();
+        return;
+      }
+    }
+
+    this.render();
+    this.animationFrame = requestAnimationFrame(this.tick);
+  };
+
+  private render(): void {
+    if (!this.renderer.isReady()) return;
+    this.renderer.renderFrame(this.controller.getStateAtTime(this.time));
+    this.options.onTimeUpdate?.(this.time);
+  }
+
+  private startAudio(): void {
+    this.stopAudio();
+    if (!this.playing || this.muted || !this.audioBuffer) return;
+    if (this.time >= this.audioBuffer.duration) return;
+
+    if (!this.audioContext || !this.gain) {
+      this.audioContext = new AudioContext();
+      this.gain = this.audioContext.createGain();
+      this.gain.connect(this.audioContext.destination);
+    }
+
+    const source = this.audioContext.createBufferSource();
+    source.buffer = this.audioBuffer;
+    source.connect(this.gain);
+    source.start(0, this.time);
+    this.audioSource = source;
+  }
+
+  private stopAudio(): void {
+    if (!this.audioSource) return;
+    try {
+      this.audioSource.stop();
+    } catch {
+      // Already ended
+    }
+    this.audioSource.disconnect();
+    this.audioSource = null;
+  }
+}
@@ -4,75 +4,14 @@
  */
 
 import * as fabric from "fabric";
-import type { VideoProject, TimelineEvent, Animation } from "@/lib/schemas/timeline";
-
-type EasingType = "linear" | "easeIn" | "easeOut" | "easeInOut" | "bounce";
-
-const easingFunctions: Record<EasingType, (t: number) => number> = {
-  linear: (t) => t,
-  easeIn: (t) => t * t,
-  easeOut: (t) => t * (2 - t),
-  easeInOut: (t) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
-  bounce: (t) => {
-    if (t < 1 / 2.75) return 7.5625 * t * t;
-    if (t < 2 / 2.75) return 7.5625 * (t -= 1.5 / 2.75) * t + 0.75;
-    if (t < 2.5 / 2.75) return 7.5625 * (t -= 2.25 / 2.75) * t + 0.9375;
-    return 7.5625 * (t -= 2.625 / 2.75) * t + 0.984375;
-  },
-};
-
-function interpolateAnimation(
-  animation: Animation,
-  localTime: number,
-  eventDuration: number
-): number | string | null {
-  const animDuration = animation.duration ?? eventDuration;
-  const startTime = animation.delay ?? animation.startTime ?? 0;
-
-  if (localTime < startTime) return animation.from;
-  if (localTime >= startTime + animDuration) return animation.to;
-
-  const progress = (localTime - startTime) / animDuration;
-  const easingFn =
-    easingFunctions[(animation.easing as EasingType) || "linear"] || easingFunctions.linear;
-  const easedProgress = easingFn(progress);
-
-  if (typeof animation.from === "number" && typeof animation.to === "number") {
-    return animation.from + (animation.to - animation.from) * easedProgress;
-  }
-  return progress < 0.5 ? animation.from : animation.to;
-}
-
-function computeProperties(event: TimelineEvent, currentTime: number): Record<string, unknown> {
-  const properties = { ...event.properties } as Record<string, unknown>;
-  if (event.animations && event.animations.length > 0) {
-    const localTime = currentTime - event.startTime;
-    for (const animation of event.animations) {
-      const value = interpolateAnimation(animation, localTime, event.duration);
-      if (value !== null) {
-        properties[animation.property] = value;
-      }
-    }
-  }
-
-  // Apply smooth exit effect (fade out during last 0.3 seconds)
-  const exitDuration = 0.3;
-  const localTime = currentTime - event.startTime;
-  const timeUntilEnd = event.duration - localTime;
-  
-  if (timeUntilEnd <= exitDuration && timeUntilEnd > 0) {
-    const exitProgress = 1 - (timeUntilEnd / exitDuration);
-    const easedExitProgress = exitProgress * (2 - exitProgress);
-    
-    const currentOpacity = (properties.opacity as number) ?? 1;
-    properties.opacity = currentOpacity * (1 - easedExitProgress);
-    
-    const currentScale = (properties.scale as number) ?? 1;
-    properties.scale = currentScale * (1 - easedExitProgress * 0.1);
-  }
-
-  return properties;
-}
+import type { VideoProject } from "@/lib/schemas/timeline";
+import { TimelineController } from "./timeline/TimelineController";
+import type { RenderOutputSize } from "./FabricRenderer";
+import { resolveFill } from "./gradient";
+import { withBlur } from "./blur";
+import { downloadBlob, exportFilename } from "./download";
+import { AudioMixer } from "./audio/AudioMixer";
+import type { ExportControl } from "./ExportControl";
 
 export interface ExportProgress {
   phase: "preparing" | "rendering" | "encoding" | "muxing" | "complete" | "error";
@@ -80,15 +19,31 @@ export interface ExportProgress {
   totalFrames: number;
   percentage: number;
   message: string;
+  /** Codec string the encoder actually used, once known */
+  codec?: string;
+  /** Frames rendered and encoded per second while running (WebCodecs only) */
+  fps?: number;
+  /** Estimated seconds left, excluding time spent paused */
+  etaSeconds?: number;
 }
 
 export interface ExportOptions {
   project: VideoProject;
   config?: {
     bitrate?: number;
+    /** Preferred codec string; the encoder falls back within the same container family */
+    codec?: string;
   };
+  /** Output size and frame rate when they differ from the project's (WebCodecs only) */
+  output?: RenderOutputSize & { fps: number };
+  /** Output container for the WebCodecs export (MP4 by default); WebM keeps a transparent background */
+  container?: "mp4" | "webm";
+  /** File to stream the output into as it is muxed (WebCodecs only) - keeps long exports out of memory */
+  destination?: FileSystemFileHandle;
   filename?: string;
   onProgress?: (progress: ExportProgress) => void;
+  /** Pause, resume or cancel the export while it runs (WebCodecs only) */
+  control?: ExportControl;
 }
 
 export class VideoExporter {
@@ -120,9 +75,26 @@ export class VideoExporter {
 
     // Setup MediaRecorder with the best available codec
     const stream = canvas.captureStream(project.fps);
+
+    // MediaRecorder records in real time, so the mixed audio is played into the stream
+    let audioContext: AudioContext | null = null;
+    let audioSource: AudioBufferSourceNode | null = null;
+    if (AudioMixer.hasAudio(project) && AudioMixer.isSupported()) {
+      const mixed = await new AudioMixer(project).mix();
+      if (mixed) {
+        audioContext = new AudioContext({ sampleRate: mixed.sampleRate });
+        const destination = audioContext.createMediaStreamDestination();
+        audioSource = audioContext.createBufferSource();
+        audioSource.buffer = mixed;
+        audioSource.connect(destination);
+        destination.stream.getAudioTracks().forEach((track) => stream.addTrack(track));
+      }
+    }
     
     // Try VP9 first (best quality), then H.264 (best compatibility), then VP8
+    // Audio variants are listed first so an audio track gets a codec the container supports
     const mimeTypes = [
+      ...(audioSource ? ["video/webm;codecs=vp9,opus", "video/mp4;codecs=avc1.640028,mp4a.40.2"] : []),
       "video/webm;codecs=vp9",
       "video/mp4;codecs=avc1.640028",  // H.264 High Profile
       "video/mp4;codecs=avc1.42E01E",  // H.264 Baseline
@@ -158,11 +130,13 @@ export class VideoExporter {
       }
     };
 
-    const totalFrames = Math.ceil(project.duration * project.fps);
+    const controller = new TimelineController(project);
+    const totalFrames = controller.getTotalFrames();
     const frameDuration = 1000 / project.fps;
 
     // Start recording
     recorder.start();
+    audioSource?.start();
 
     onProgress({
       phase: "encoding",
@@ -174,20 +148,15 @@ export class VideoExporter {
 
     // Render each frame with proper timing
     for (let frame = 0; frame < totalFrames; frame++) {
-      const currentTime = frame / project.fps;
+      const frameState = controller.getFrameState(frame);
 
       // Render frame
       fabricCanvas.clear();
       fabricCanvas.backgroundColor = project.backgroundColor || "#000000";
 
-      for (const event of project.events) {
-        const isVisible =
-          currentTime >= event.startTime &&
-          currentTime <= event.startTime + event.duration;
-        if (!isVisible) continue;
-
+      for (const { event, properties } of frameState.events) {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const props = computeProperties(event, currentTime) as any;
+        const props = properties as any;
         const scale = (props.scale as number) ?? 1;
         const commonProps = {
           left: props.x as number,
@@ -210,7 +179,7 @@ export class VideoExporter {
             fontWeight: props.fontWeight || "normal",
             width: 600,
           });
-          fabricCanvas.add(text);
+          fabricCanvas.add(withBlur(text, props.blur));
         } else if (event.type === "shape") {
           const shapeType = props.shapeType;
           if (shapeType === "rect") {
@@ -218,26 +187,26 @@ export class VideoExporter {
               ...commonProps,
               width: props.width || 100,
               height: props.height || 100,
-              fill: props.fill || "#8b5cf6",
+              fill: resolveFill(props, "#8b5cf6"),
               rx: props.cornerRadius || 0,
               ry: props.cornerRadius || 0,
             });
-            fabricCanvas.add(rect);
+            fabricCanvas.add(withBlur(rect, props.blur));
           } else if (shapeType === "circle") {
             const circle = new fabric.Circle({
               ...commonProps,
               radius: props.radius || 50,
-              fill: props.fill || "#8b5cf6",
+              fill: resolveFill(props, "#8b5cf6"),
             });
-            fabricCanvas.add(circle);
+            fabricCanvas.add(withBlur(circle, props.blur));
           } else if (shapeType === "ellipse") {
             const ellipse = new fabric.Ellipse({
               ...commonProps,
               rx: (props.width || 100) / 2,
               ry: (props.height || 100) / 2,
-              fill: props.fill || "#8b5cf6",
+              fill: resolveFill(props, "#8b5cf6"),
             });
-            fabricCanvas.add(ellipse);
+            fabricCanvas.add(withBlur(ellipse, props.blur));
           } else if (shapeType === "line") {
             // Simple line from (x1,y1) to (x2,y2)
             const x1 = (props.x1 as number) ?? 0;
@@ -251,7 +220,7 @@ export class VideoExporter {
               originX: "center",
               originY: "center",
             });
-            fabricCanvas.add(line);
+            fabricCanvas.add(withBlur(line, props.blur));
           } else if (shapeType === "arrow") {
             // Arrow: render as rounded rectangle bar
             const x1 = (props.x1 as number) ?? 0;
@@ -289,7 +258,7 @@ export class VideoExporter {
               rx: thickness / 2,
               ry: thickness / 2,
             });
-            fabricCanvas.add(bar);
+            fabricCanvas.add(withBlur(bar, props.blur));
           } else if (shapeType === "triangle") {
             // Triangle shape
             const width = (props.width as number) || 100;
@@ -298,9 +267,9 @@ export class VideoExporter {
               ...commonProps,
               width: width,
               height: height,
-              fill: props.fill || "#8b5cf6",
+              fill: resolveFill(props, "#8b5cf6"),
             });
-            fabricCanvas.add(triangle);
+            fabricCanvas.add(withBlur(triangle, props.blur));
           }
         }
       }
@@ -339,26 +308,16 @@ export class VideoExporter {
 
     // Cleanup
     fabricCanvas.dispose();
+    await audioContext?.close();
 
     const mimeType = selectedMimeType.includes("mp4") ? "video/mp4" : "video/webm";
     return new Blob(chunks, { type: mimeType });
   }
 
-  async exportAndDownload(options: ExportOptions): Promise<void> {
+  async exportAndDownload(options: ExportOptions): Promise<Blob> {
     const blob = await this.export(options);
     const extension = blob.type.includes("mp4") ? "mp4" : "webm";
-    const baseName =
-      options.filename?.replace(/\.(mp4|webm)$/i, "") ||
-      options.project.name.replace(/\s+/g, "-").toLowerCase();
-    const filename = `${baseName}.${extension}`;
-
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    downloadBlob(blob, exportFilename(options.project.name, extension, options.filename));
+    return blob;
   }
 }
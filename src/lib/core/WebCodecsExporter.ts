@@ -0,0 +1,166 @@
+/**
+ * WebCodecsExporter - Frame-exact offline export using WebCodecs
+ * Audio is mixed here (AAC, or Opus when AAC encoding is unavailable); rendering and encoding run in a
+ * dedicated worker on an OffscreenCanvas so the editor stays responsive, or on this thread without one.
+ * WebM output uses VP9 + Opus and, for a transparent project background, a second VP9 stream for alpha.
+ * Runs as fast as the encoder allows; falls back to VideoExporter (MediaRecorder) without WebCodecs.
+ */
+
+import type { VideoProject } from "@/lib/schemas/timeline";
+import { VideoEncoderWrapper } from "./encoder/VideoEncoder";
+import { AudioEncoderWrapper } from "./encoder/AudioEncoder";
+import type { AudioCodec } from "./encoder/types";
+import { AudioMixer } from "./audio/AudioMixer";
+import { VideoExporter } from "./VideoExporter";
+import type { ExportOptions } from "./VideoExporter";
+import { ExportCancelledError, ExportControl } from "./ExportControl";
+import { EncoderUnavailableError, runExportPipeline } from "./ExportPipeline";
+import type { ExportWorkerRequest, ExportWorkerResponse, MixedAudio, PipelineOptions } from "./ExportPipeline";
+import { downloadBlob, exportFilename } from "./download";
+
+const AUDIO_SETTINGS = { sampleRate: 48_000, numberOfChannels: 2, bitrate: 192_000 };
+
+export class WebCodecsExporter {
+  static isSupported(): boolean {
+    return VideoEncoderWrapper.isSupported() && typeof document !== "undefined";
+  }
+
+  /**
+   * Fabric can render off the main thread when workers get OffscreenCanvas
+   */
+  static canUseWorker(): boolean {
+    return typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined";
+  }
+
+  async export(options: ExportOptions): Promise<Blob> {
+    if (!WebCodecsExporter.isSupported()) {
+      console.warn("WebCodecs unavailable, falling back to MediaRecorder export");
+      return this.recordInRealTime(options);
+    }
+
+    const { project, onProgress = () => {} } = options;
+    const control = options.control ?? new ExportControl();
+
+    // Audio is mixed up front so the muxer can declare the track before any chunk arrives
+    if (AudioMixer.hasAudio(project)) {
+      onProgress({ phase: "preparing", currentFrame: 0, totalFrames: 0, percentage: 0, message: "Mixing audio..." });
+    }
+    // WebM only carries Opus
+    const audio = await this.prepareAudio(project, options.container === "webm" ? ["opus"] : ["aac", "opus"]);
+    await control.checkpoint();
+
+    const pipelineOptions = { ...options, control };
+    try {
+      return WebCodecsExporter.canUseWorker()
+        ? await this.runInWorker(pipelineOptions, audio)
+        : await runExportPipeline(pipelineOptions, audio);
+    } catch (err) {
+      if (!(err instanceof EncoderUnavailableError)) throw err;
+      // No usable codec on this machine - MediaRecorder still works in real time
+      console.warn("WebCodecs encoder unavailable, falling back to MediaRecorder export:", err);
+      return this.recordInRealTime(options);
+    }
+  }
+
+  /**
+   * MediaRecorder fallback; a recording is small enough to buffer, then it goes to the chosen file if there is one
+   */
+  private async recordInRealTime(options: ExportOptions): Promise<Blob> {
+    const blob = await new VideoExporter().export(options);
+    if (options.destination) {
+      const writable = await options.destination.createWritable();
+      await writable.write(blob);
+      await writable.close();
+    }
+    return blob;
+  }
+
+  /**
+   * Run the pipeline in a module worker, forwarding progress out and pause/resume/cancel in
+   */
+  private runInWorker(options: PipelineOptions, audio: MixedAudio | null): Promise<Blob> {
+    const { project, config, container, output, destination, onProgress = () => {}, control } = options;
+    const worker = new Worker(new URL("../../workers/export.worker.ts", import.meta.url), { type: "module" });
+    const send = (message: ExportWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+    return new Promise<Blob>((resolve, reject) => {
+      const finish = () => {
+        unsubscribe();
+        worker.terminate();
+      };
+
+      const unsubscribe = control.subscribe((state) => {
+        if (state === "cancelled") {
+          // Nothing the worker has produced is needed any more
+          finish();
+          reject(new ExportCancelledError());
+        } else {
+          send({ type: state === "paused" ? "pause" : "resume" });
+        }
+      });
+
+      worker.onmessage = (e: MessageEvent<ExportWorkerResponse>) => {
+        const message = e.data;
+        if (message.type === "progress") {
+          onProgress(message.progress);
+          return;
+        }
+        finish();
+        if (message.type === "done") {
+          resolve(message.blob);
+        } else if (message.reason === "unavailable") {
+          reject(new EncoderUnavailableError(message.message));
+        } else if (message.reason === "cancelled") {
+          reject(new ExportCancelledError());
+        } else {
+          reject(new Error(message.message));
+        }
+      };
+      worker.onerror = (e) => {
+        finish();
+        reject(new Error(e.message || "Export worker failed"));
+      };
+
+      send(
+        { type: "start", options: { project, config, container, output, destination }, audio },
+        audio ? audio.channels.map((channel) => channel.buffer) : []
+      );
+      if (control.getState() === "paused") {
+        send({ type: "pause" });
+      }
+    });
+  }
+
+  /**
+   * Mix the project's audio and pick an encodable codec (null when silent or unsupported)
+   */
+  private async prepareAudio(
+    project: VideoProject,
+    codecs: AudioCodec[]
+  ): Promise<MixedAudio | null> {
+    if (!AudioMixer.hasAudio(project) || !AudioMixer.isSupported()) return null;
+
+    const codec = await AudioEncoderWrapper.findSupportedCodec(codecs, AUDIO_SETTINGS);
+    if (!codec) {
+      console.warn("No supported audio codec, exporting without audio");
+      return null;
+    }
+
+    const buffer = await new AudioMixer(project, AUDIO_SETTINGS).mix();
+    if (!buffer) return null;
+
+    // Copies, so they can be transferred to the worker
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i).slice());
+    return { channels, sampleRate: buffer.sampleRate, config: { ...AUDIO_SETTINGS, codec } };
+  }
+
+  async exportAndDownload(options: ExportOptions): Promise<Blob> {
+    const blob = await this.export(options);
+    // Already written to the file the user picked
+    if (options.destination) return blob;
+
+    const extension = blob.type.includes("mp4") ? "mp4" : "webm";
+    downloadBlob(blob, exportFilename(options.project.name, extension, options.filename));
+    return blob;
+  }
+}
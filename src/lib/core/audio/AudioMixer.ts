@@ -0,0 +1,125 @@
+/**
+ * AudioMixer - Offline mixdown of every audio event in a project
+ * Decodes each source once, then schedules start time, in-point, volume, mute and fades on an OfflineAudioContext
+ */
+
+import type { VideoProject, TimelineEvent, AudioProperties } from "@/lib/schemas/timeline";
+
+export interface AudioMixerOptions {
+  sampleRate?: number;
+  numberOfChannels?: number;
+}
+
+export class AudioMixer {
+  private project: VideoProject;
+  private sampleRate: number;
+  private numberOfChannels: number;
+  // Decoded sources keyed by URL (several events may share a file)
+  private buffers = new Map<string, Promise<AudioBuffer | null>>();
+
+  constructor(project: VideoProject, options: AudioMixerOptions = {}) {
+    this.project = project;
+    this.sampleRate = options.sampleRate ?? 48_000;
+    this.numberOfChannels = options.numberOfChannels ?? 2;
+  }
+
+  static isSupported(): boolean {
+    return typeof OfflineAudioContext !== "undefined";
+  }
+
+  /**
+   * Audio events that can be heard - they have a source, aren't muted and have volume
+   */
+  static getAudibleEvents(project: VideoProject): TimelineEvent[] {
+    return project.events.filter((event) => {
+      if (event.type !== "audio") return false;
+      const props = event.properties as AudioProperties;
+      return !!props.src && !props.isMuted && (props.volume ?? 1) > 0;
+    });
+  }
+
+  static hasAudio(project: VideoProject): boolean {
+    return AudioMixer.getAudibleEvents(project).length > 0;
+  }
+
+  /**
+   * Render the project's audio to a single buffer spanning the project duration
+   * Returns null when nothing is audible; sources that fail to load are skipped
+   */
+  async mix(): Promise<AudioBuffer | null> {
+    const events = AudioMixer.getAudibleEvents(this.project);
+    if (events.length === 0) return null;
+
+    const length = Math.max(1, Math.ceil(this.project.duration * this.sampleRate));
+    const context = new OfflineAudioContext(this.numberOfChannels, length, this.sampleRate);
+
+    const decoded = await Promise.all(
+      events.map((event) => this.decode(context, (event.properties as AudioProperties).src!))
+    );
+
+    let scheduled = 0;
+    events.forEach((event, i) => {
+      const buffer = decoded[i];
+      if (buffer && this.schedule(context, event, buffer)) scheduled++;
+    });
+
+    if (scheduled === 0) return null;
+    return context.startRendering();
+  }
+
+  private decode(context: BaseAudioContext, src: string): Promise<AudioBuffer | null> {
+    let buffer = this.buffers.get(src);
+    if (!buffer) {
+      buffer = fetch(src)
+        .then((response) => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          return response.arrayBuffer();
+        })
+        .then((data) => context.decodeAudioData(data))
+        .catch((error) => {
+          console.warn(`Failed to load audio ${src}:`, error);
+          return null;
+        });
+      this.buffers.set(src, buffer);
+    }
+    return buffer;
+  }
+
+  /**
+   * Connect one event's source through a gain envelope (volume + linear fades)
+   */
+  private schedule(context: OfflineAudioContext, event: TimelineEvent, buffer: AudioBuffer): boolean {
+    const props = event.properties as AudioProperties;
+    const start = Math.max(0, event.startTime);
+    const offset = Math.min(Math.max(0, props.sourceOffset ?? 0), buffer.duration);
+    const duration = Math.min(event.duration, buffer.duration - offset, this.project.duration - start);
+    if (duration <= 0) return false;
+
+    const end = start + duration;
+    const volume = props.volume ?? 1;
+
+    // Fades that don't fit are shortened proportionally so they never overlap
+    let fadeIn = Math.max(0, props.fadeIn ?? 0);
+    let fadeOut = Math.max(0, props.fadeOut ?? 0);
+    if (fadeIn + fadeOut > duration) {
+      const ratio = duration / (fadeIn + fadeOut);
+      fadeIn *= ratio;
+      fadeOut *= ratio;
+    }
+
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(fadeIn > 0 ? 0 : volume, start);
+    if (fadeIn > 0) gain.gain.linearRampToValueAtTime(volume, start + fadeIn);
+    if (fadeOut > 0) {
+      gain.gain.setValueAtTime(volume, end - fadeOut);
+      gain.gain.linearRampToValueAtTime(0, end);
+    }
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(gain);
+    gain.connect(context.destination);
+    source.start(start, offset, duration);
+    return true;
+  }
+}
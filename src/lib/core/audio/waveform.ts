@@ -0,0 +1,101 @@
+/**
+ * Waveform - Peak data for drawing audio clips, cached per source URL
+ * Decoding uses the browser's audio decoder; peak reduction runs in a worker
+ */
+
+export interface Waveform {
+  /** Max absolute amplitude (0..1) per bucket, across all channels */
+  peaks: Float32Array;
+  peaksPerSecond: number;
+  /** Source duration in seconds */
+  duration: number;
+}
+
+export const PEAKS_PER_SECOND = 100;
+
+// Sample rate used for decoding - only peaks are kept, so full quality isn't needed
+const DECODE_SAMPLE_RATE = 22_050;
+
+const cache = new Map<string, Promise<Waveform | null>>();
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (peaks: Float32Array) => void; reject: (error: Error) => void }>();
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL("../../../workers/waveform.worker.ts", import.meta.url));
+    worker.onmessage = (e: MessageEvent<{ id: number; success: boolean; peaks?: Float32Array; error?: string }>) => {
+      const request = pending.get(e.data.id);
+      if (!request) return;
+      pending.delete(e.data.id);
+      if (e.data.success && e.data.peaks) request.resolve(e.data.peaks);
+      else request.reject(new Error(e.data.error || "Waveform worker failed"));
+    };
+  }
+  return worker;
+}
+
+function computePeaks(buffer: AudioBuffer): Promise<Float32Array> {
+  // Copies are transferred so the worker owns them (the AudioBuffer's own arrays stay intact)
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i).slice());
+  const samplesPerPeak = Math.max(1, Math.round(buffer.sampleRate / PEAKS_PER_SECOND));
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage(
+      { id, channels, samplesPerPeak },
+      channels.map((channel) => channel.buffer)
+    );
+  });
+}
+
+async function buildWaveform(src: string): Promise<Waveform | null> {
+  try {
+    const response = await fetch(src);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = await response.arrayBuffer();
+
+    const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+    const buffer = await context.decodeAudioData(data);
+    const peaks = await computePeaks(buffer);
+    return { peaks, peaksPerSecond: PEAKS_PER_SECOND, duration: buffer.duration };
+  } catch (error) {
+    console.warn(`Failed to build waveform for ${src}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Waveform for an audio URL (null when it can't be loaded or decoded)
+ */
+export function loadWaveform(src: string): Promise<Waveform | null> {
+  let waveform = cache.get(src);
+  if (!waveform) {
+    waveform = buildWaveform(src);
+    cache.set(src, waveform);
+  }
+  return waveform;
+}
+
+/**
+ * Peaks covering [start, start + duration) seconds of the source, max-pooled down to `count` buckets
+ */
+export function sliceWaveform(waveform: Waveform, start: number, duration: number, count: number): number[] {
+  const from = Math.max(0, Math.floor(start * waveform.peaksPerSecond));
+  const to = Math.min(waveform.peaks.length, Math.ceil((start + duration) * waveform.peaksPerSecond));
+  const span = to - from;
+  if (span <= 0 || count <= 0) return [];
+
+  const buckets = Math.min(count, span);
+  return Array.from({ length: buckets }, (_, i) => {
+    const bucketStart = from + Math.floor((i * span) / buckets);
+    const bucketEnd = Math.max(bucketStart + 1, from + Math.floor(((i + 1) * span) / buckets));
+    let max = 0;
+    for (let j = bucketStart; j < bucketEnd; j++) {
+      if (waveform.peaks[j] > max) max = waveform.peaks[j];
+    }
+    return max;
+  });
+}
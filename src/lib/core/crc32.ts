@@ -0,0 +1,24 @@
+/**
+ * CRC-32 (IEEE) - Checksum used by PNG chunks and ZIP entries
+ */
+
+let table: Uint32Array | null = null;
+
+function getTable(): Uint32Array {
+  if (!table) {
+    table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      table[n] = c >>> 0;
+    }
+  }
+  return table;
+}
+
+export function crc32(bytes: Uint8Array): number {
+  const lookup = getTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = lookup[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
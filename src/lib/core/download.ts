@@ -0,0 +1,48 @@
+/**
+ * Download - Save a generated Blob through a temporary object URL
+ */
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * File name for an export - the caller's name (export extension replaced) or the slugified project name
+ */
+export function exportFilename(projectName: string, extension: string, filename?: string): string {
+  const baseName =
+    filename?.replace(/\.(mp4|webm|gif|png|zip)$/i, "") || projectName.replace(/\s+/g, "-").toLowerCase();
+  return `${baseName}.${extension}`;
+}
+
+type SaveFilePicker = (options: {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+export function canPickSaveFile(): boolean {
+  return typeof window !== "undefined" && "showSaveFilePicker" in window;
+}
+
+/**
+ * Ask where to save a file before it is generated, so it can be streamed there (null without the File System Access API)
+ * Rejects with an "AbortError" DOMException when the user dismisses the picker
+ */
+export async function pickSaveFile(
+  filename: string,
+  type: { description: string; mimeType: string }
+): Promise<FileSystemFileHandle | null> {
+  if (!canPickSaveFile()) return null;
+  const extension = filename.slice(filename.lastIndexOf("."));
+  return (window as unknown as { showSaveFilePicker: SaveFilePicker }).showSaveFilePicker({
+    suggestedName: filename,
+    types: [{ description: type.description, accept: { [type.mimeType]: [extension] } }],
+  });
+}
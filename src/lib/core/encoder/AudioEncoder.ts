@@ -0,0 +1,130 @@
+/**
+ * AudioEncoder - WebCodecs API wrapper for AAC/Opus encoding of a mixed AudioBuffer
+ */
+
+import type { AudioCodec, AudioEncoderConfig } from "./types";
+
+/**
+ * The parts of an AudioBuffer the encoder reads - lets the export worker pass plain channel arrays
+ */
+export type AudioSamples = Pick<AudioBuffer, "length" | "sampleRate" | "numberOfChannels" | "getChannelData">;
+
+export type AudioChunkCallback = (chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata) => void;
+
+// WebCodecs codec strings for each container-level codec
+const CODEC_STRINGS: Record<AudioCodec, string> = {
+  aac: "mp4a.40.2", // AAC-LC
+  opus: "opus",
+};
+
+// Samples per AudioData frame handed to the encoder
+const FRAME_SIZE = 4096;
+const MAX_ENCODE_QUEUE = 32;
+
+export class AudioEncoderWrapper {
+  private encoder: AudioEncoder | null = null;
+  private config: AudioEncoderConfig;
+  private encodeError: Error | null = null;
+
+  constructor(config: AudioEncoderConfig) {
+    this.config = config;
+  }
+
+  static isSupported(): boolean {
+    return typeof AudioEncoder !== "undefined" && typeof AudioData !== "undefined";
+  }
+
+  /**
+   * First codec from `preferred` the browser can encode with these settings
+   */
+  static async findSupportedCodec(
+    preferred: AudioCodec[],
+    settings: Omit<AudioEncoderConfig, "codec">
+  ): Promise<AudioCodec | null> {
+    if (!AudioEncoderWrapper.isSupported()) return null;
+
+    for (const codec of preferred) {
+      try {
+        const support = await AudioEncoder.isConfigSupported({
+          codec: CODEC_STRINGS[codec],
+          sampleRate: settings.sampleRate,
+          numberOfChannels: settings.numberOfChannels,
+          bitrate: settings.bitrate,
+        });
+        if (support.supported) return codec;
+      } catch (err) {
+        console.debug(`Audio codec ${codec} check failed:`, err);
+      }
+    }
+    return null;
+  }
+
+  initialize(onChunk: AudioChunkCallback): void {
+    if (!AudioEncoderWrapper.isSupported()) {
+      throw new Error("WebCodecs AudioEncoder is not supported in this browser");
+    }
+
+    this.encoder = new AudioEncoder({
+      output: (chunk, metadata) => onChunk(chunk, metadata),
+      error: (error: DOMException) => {
+        console.error("AudioEncoder error:", error);
+        this.encodeError = error;
+      },
+    });
+
+    this.encoder.configure({
+      codec: CODEC_STRINGS[this.config.codec],
+      sampleRate: this.config.sampleRate,
+      numberOfChannels: this.config.numberOfChannels,
+      bitrate: this.config.bitrate,
+    });
+    this.encodeError = null;
+  }
+
+  /**
+   * Encode a whole buffer as consecutive planar frames starting at timestamp 0
+   */
+  async encodeBuffer(buffer: AudioSamples): Promise<void> {
+    if (!this.encoder) {
+      throw new Error("Audio encoder not initialized");
+    }
+
+    const channels = this.config.numberOfChannels;
+    for (let offset = 0; offset < buffer.length; offset += FRAME_SIZE) {
+      if (this.encodeError) throw this.encodeError;
+
+      const frames = Math.min(FRAME_SIZE, buffer.length - offset);
+      const planar = new Float32Array(frames * channels);
+      for (let channel = 0; channel < channels; channel++) {
+        // Mono sources are duplicated across channels
+        const source = buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1));
+        planar.set(source.subarray(offset, offset + frames), channel * frames);
+      }
+
+      const data = new AudioData({
+        format: "f32-planar",
+        sampleRate: buffer.sampleRate,
+        numberOfFrames: frames,
+        numberOfChannels: channels,
+        timestamp: Math.round((offset / buffer.sampleRate) * 1_000_000),
+        data: planar,
+      });
+      this.encoder.encode(data);
+      data.close();
+
+      while (this.encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    }
+
+    await this.encoder.flush();
+    if (this.encodeError) throw this.encodeError;
+  }
+
+  close(): void {
+    if (this.encoder && this.encoder.state !== "closed") {
+      this.encoder.close();
+    }
+    this.encoder = null;
+  }
+}
@@ -1,33 +1,50 @@
 /**
  * Muxer - mp4-muxer integration for creating MP4 files
  * Handles H.264/AVC encoding with proper AVCC configuration
+ * With a sink, samples are streamed out as they arrive and the index (moov) is written at the end.
  */
 
-import { Muxer, ArrayBufferTarget } from "mp4-muxer";
-import type { EncoderConfig } from "./types";
+import { Muxer, ArrayBufferTarget, StreamTarget } from "mp4-muxer";
+import type { AudioCodec, EncoderConfig } from "./types";
 import type { EncodedChunk } from "./VideoEncoder";
+import { SINK_CHUNK_SIZE } from "./MuxerSink";
+import type { MuxerSink } from "./MuxerSink";
 
 export interface MuxerOptions {
   config: EncoderConfig;
   fastStart?: boolean;
   codec?: string;
+  /** Declares an audio track (AAC or Opus) alongside the video */
+  audio?: {
+    codec: AudioCodec;
+    sampleRate: number;
+    numberOfChannels: number;
+  };
+  /** Stream the file into this sink instead of an in-memory ArrayBuffer; finish with close() */
+  sink?: MuxerSink;
 }
 
 export type MuxerCodec = "avc" | "vp9" | "hevc" | "av1";
 
 export class VideoMuxer {
-  private muxer: Muxer<ArrayBufferTarget> | null = null;
+  private muxer: Muxer<ArrayBufferTarget | StreamTarget> | null = null;
   private config: EncoderConfig;
   private fastStart: boolean;
   private isFinalized: boolean = false;
   private videoCodec: MuxerCodec;
+  private codecString: string;
   private codecPrivate: Uint8Array | null = null;
   private hasAddedFirstKeyframe: boolean = false;
+  private audio: MuxerOptions["audio"];
+  private sink: MuxerSink | null;
 
   constructor(options: MuxerOptions) {
     this.config = options.config;
+    this.audio = options.audio;
+    this.sink = options.sink ?? null;
     this.fastStart = options.fastStart ?? true;
-    this.videoCodec = this.detectMuxerCodec(options.codec || options.config.codec);
+    this.codecString = options.codec || options.config.codec;
+    this.videoCodec = this.detectMuxerCodec(this.codecString);
   }
 
   private detectMuxerCodec(codecString: string): MuxerCodec {
@@ -53,14 +70,19 @@ export class VideoMuxer {
 
   initialize(): void {
     console.log(`Initializing muxer with codec: ${this.videoCodec}`);
+    const sink = this.sink;
     this.muxer = new Muxer({
-      target: new ArrayBufferTarget(),
+      target: sink
+        ? new StreamTarget({ onData: (data, position) => sink.write(data, position), chunked: true, chunkSize: SINK_CHUNK_SIZE })
+        : new ArrayBufferTarget(),
       video: {
         codec: this.videoCodec,
         width: this.config.width,
         height: this.config.height,
       },
-      fastStart: this.fastStart ? "in-memory" : false,
+      ...(this.audio ? { audio: this.audio } : {}),
+      // In-memory fast start would hold every sample until the end, which streaming is meant to avoid
+      fastStart: this.fastStart && !sink ? "in-memory" : false,
       firstTimestampBehavior: "offset",
     });
     this.isFinalized = false;
@@ -76,37 +98,51 @@ export class VideoMuxer {
       throw new Error("Muxer already finalized");
     }
 
-    // Store codec description from first keyframe
+    // The first keyframe carries the codec description (the AVCC/HVCC record).
+    // mp4-muxer writes it into the sample description box, so it must be passed as metadata.
+    let meta: EncodedVideoChunkMetadata | undefined;
     if (chunk.isKeyFrame && chunk.description && !this.codecPrivate) {
       this.codecPrivate = chunk.description;
+      meta = {
+        decoderConfig: {
+          codec: this.codecString,
+          codedWidth: this.config.width,
+          codedHeight: this.config.height,
+          description: chunk.description,
+        },
+      };
     }
 
-    // For AVC, we need to use addVideoChunkRaw with proper handling
-    // Pass the codec description (AVCC data) when available
-    if (this.videoCodec === "avc" && this.codecPrivate) {
-      // Use addVideoChunkRaw with the codec private data for keyframes
-      if (chunk.isKeyFrame && !this.hasAddedFirstKeyframe) {
-        this.hasAddedFirstKeyframe = true;
-        // First keyframe - the muxer should auto-detect from the data
-      }
+    if (chunk.isKeyFrame && !this.hasAddedFirstKeyframe) {
+      this.hasAddedFirstKeyframe = true;
     }
 
-    // Use addVideoChunkRaw for all chunks - mp4-muxer handles parsing
     this.muxer.addVideoChunkRaw(
       chunk.data,
       chunk.isKeyFrame ? "key" : "delta",
       chunk.timestamp,
-      chunk.duration
+      chunk.duration,
+      meta
     );
   }
 
+  addAudioChunk(chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata): void {
+    if (!this.muxer) {
+      throw new Error("Muxer not initialized");
+    }
+    if (!this.audio) {
+      throw new Error("Muxer has no audio track");
+    }
+    this.muxer.addAudioChunk(chunk, metadata);
+  }
+
   addVideoChunks(chunks: EncodedChunk[]): void {
     for (const chunk of chunks) {
       this.addVideoChunk(chunk);
     }
   }
 
-  finalize(): ArrayBuffer {
+  private finishMuxing(): void {
     if (!this.muxer) {
       throw new Error("Muxer not initialized");
     }
@@ -116,11 +152,29 @@ export class VideoMuxer {
 
     this.muxer.finalize();
     this.isFinalized = true;
+  }
+
+  finalize(): ArrayBuffer {
+    if (this.sink) {
+      throw new Error("Muxer output went to a sink, use close()");
+    }
+    this.finishMuxing();
 
-    const target = this.muxer.target as ArrayBufferTarget;
+    const target = this.muxer!.target as ArrayBufferTarget;
     return target.buffer;
   }
 
+  /**
+   * Finish the file and return it, whether it was streamed to a sink or built in memory
+   */
+  async close(): Promise<Blob> {
+    if (!this.sink) {
+      return this.getBlob();
+    }
+    this.finishMuxing();
+    return this.sink.close("video/mp4");
+  }
+
   getBlob(): Blob {
     const buffer = this.finalize();
     return new Blob([buffer], { type: "video/mp4" });
@@ -0,0 +1,115 @@
+/**
+ * MuxerSink - Where a muxer's bytes go while the file is being written
+ * The muxers emit positioned writes through a StreamTarget (headers are patched at the end), so no export has to
+ * exist as one large ArrayBuffer: FileSink streams to disk through the File System Access API, MemorySink keeps
+ * fixed-size pages and joins them into a Blob once the file is complete.
+ */
+
+export interface MuxerSink {
+  /** Bytes at an absolute file position; may be queued */
+  write(data: Uint8Array, position: number): void;
+  /** Resolves once queued writes are below the sink's limit - the exporter waits on this between frames */
+  ready(): Promise<void>;
+  /** Flush everything and return the finished file */
+  close(type: string): Promise<Blob>;
+  /** Discard the output */
+  abort(): Promise<void>;
+}
+
+// Size of the chunks muxers hand to a sink, and of MemorySink's pages
+export const SINK_CHUNK_SIZE = 8 * 1024 * 1024;
+// Bytes FileSink lets wait for the disk before ready() blocks
+const MAX_PENDING_WRITE_BYTES = 64 * 1024 * 1024;
+
+export class MemorySink implements MuxerSink {
+  private pages: Uint8Array<ArrayBuffer>[] = [];
+  private size = 0;
+
+  write(data: Uint8Array, position: number): void {
+    for (let offset = 0; offset < data.length; ) {
+      const at = position + offset;
+      const index = Math.floor(at / SINK_CHUNK_SIZE);
+      const pageOffset = at % SINK_CHUNK_SIZE;
+      const length = Math.min(data.length - offset, SINK_CHUNK_SIZE - pageOffset);
+      if (!this.pages[index]) {
+        this.pages[index] = new Uint8Array(SINK_CHUNK_SIZE);
+      }
+      this.pages[index].set(data.subarray(offset, offset + length), pageOffset);
+      offset += length;
+    }
+    this.size = Math.max(this.size, position + data.length);
+  }
+
+  async ready(): Promise<void> {}
+
+  async close(type: string): Promise<Blob> {
+    const pageCount = Math.ceil(this.size / SINK_CHUNK_SIZE);
+    const parts = Array.from({ length: pageCount }, (_, i) => {
+      const page = this.pages[i] ?? new Uint8Array(SINK_CHUNK_SIZE);
+      return i === pageCount - 1 ? page.subarray(0, this.size - i * SINK_CHUNK_SIZE) : page;
+    });
+    this.pages = [];
+    return new Blob(parts, { type });
+  }
+
+  async abort(): Promise<void> {
+    this.pages = [];
+    this.size = 0;
+  }
+}
+
+export class FileSink implements MuxerSink {
+  private handle: FileSystemFileHandle;
+  private writable: FileSystemWritableFileStream;
+  private queue: Promise<void> = Promise.resolve();
+  private pendingBytes = 0;
+  private writeError: unknown = null;
+
+  private constructor(handle: FileSystemFileHandle, writable: FileSystemWritableFileStream) {
+    this.handle = handle;
+    this.writable = writable;
+  }
+
+  static isSupported(): boolean {
+    return typeof FileSystemFileHandle !== "undefined" && "createWritable" in FileSystemFileHandle.prototype;
+  }
+
+  static async open(handle: FileSystemFileHandle): Promise<FileSink> {
+    return new FileSink(handle, await handle.createWritable());
+  }
+
+  write(data: Uint8Array, position: number): void {
+    this.pendingBytes += data.length;
+    // Writes run one at a time, in order; a failure is surfaced by the next ready() or close()
+    this.queue = this.queue.then(async () => {
+      try {
+        if (!this.writeError) {
+          await this.writable.write({ type: "write", data: data as Uint8Array<ArrayBuffer>, position });
+        }
+      } catch (err) {
+        this.writeError = err;
+      } finally {
+        this.pendingBytes -= data.length;
+      }
+    });
+  }
+
+  async ready(): Promise<void> {
+    if (this.pendingBytes > MAX_PENDING_WRITE_BYTES) {
+      await this.queue;
+    }
+    if (this.writeError) throw this.writeError;
+  }
+
+  async close(): Promise<Blob> {
+    await this.queue;
+    if (this.writeError) throw this.writeError;
+    await this.writable.close();
+    // Backed by the file on disk, not by memory
+    return this.handle.getFile();
+  }
+
+  async abort(): Promise<void> {
+    await this.writable.abort().catch(() => {});
+  }
+}
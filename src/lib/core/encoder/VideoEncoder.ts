@@ -3,6 +3,7 @@
  */
 
 import type { EncoderConfig } from "./types";
+import { codecSpecificConfig } from "./codecs";
 
 export interface EncodedChunk {
   data: Uint8Array;
@@ -21,6 +22,7 @@ export class VideoEncoderWrapper {
   private onChunkCallback?: (chunk: EncodedChunk) => void;
   private codecDescription?: Uint8Array;
   private actualCodec: string = "";
+  private encodeError: Error | null = null;
 
   // H.264 codec variants - prioritized for best MP4 compatibility
   // Chrome/Edge have excellent H.264 hardware encoding support
@@ -33,6 +35,12 @@ export class VideoEncoderWrapper {
     "avc1.42E01E", // H.264 Baseline Level 3.0
   ];
 
+  // WebM-compatible variants, used when a VP8/VP9 codec is requested
+  private static readonly WEBM_FALLBACK_CODECS = [
+    "vp09.00.10.08", // VP9 Profile 0, 8-bit
+    "vp8",
+  ];
+
   constructor(config: EncoderConfig) {
     this.config = config;
   }
@@ -45,19 +53,18 @@ export class VideoEncoderWrapper {
     codec: string;
     config: VideoEncoderConfig;
   } | null> {
+    // Fallbacks stay in the requested codec's container family (VP9 also fits in MP4)
+    const isWebmCodec = /^(vp09|vp9|vp8|av01)/.test(this.config.codec);
+    const fallbacks = isWebmCodec ? VideoEncoderWrapper.WEBM_FALLBACK_CODECS : VideoEncoderWrapper.FALLBACK_CODECS;
     const codecs = this.config.codec
-      ? [
-          this.config.codec,
-          ...VideoEncoderWrapper.FALLBACK_CODECS.filter((c) => c !== this.config.codec),
-        ]
-      : VideoEncoderWrapper.FALLBACK_CODECS;
+      ? [this.config.codec, ...fallbacks.filter((c) => c !== this.config.codec)]
+      : fallbacks;
 
     // Try hardware acceleration first, then software
     const accelerationModes: HardwareAcceleration[] = ["prefer-hardware", "prefer-software", "no-preference"];
 
     for (const acceleration of accelerationModes) {
       for (const codec of codecs) {
-        const isAvc = codec.startsWith("avc");
         const isVp9 = codec.startsWith("vp09") || codec === "vp9";
         
         const codecConfig: VideoEncoderConfig = {
@@ -67,8 +74,8 @@ export class VideoEncoderWrapper {
           bitrate: this.config.bitrate,
           framerate: this.config.fps,
           hardwareAcceleration: acceleration,
-          // AVC-specific config
-          ...(isAvc ? { avc: { format: "avc" } } : {}),
+          // AVC/HEVC bitstream format for MP4
+          ...codecSpecificConfig(codec),
           // VP9 may need alpha mode for some browsers
           ...(isVp9 ? { alpha: "discard" as const } : {}),
         };
@@ -117,8 +124,9 @@ export class VideoEncoderWrapper {
         this.handleEncodedChunk(chunk, metadata);
       },
       error: (error: DOMException) => {
+        // Thrown from the callback it would be unhandled - surface it on the next call instead
         console.error("VideoEncoder error:", error);
-        throw error;
+        this.encodeError = error;
       },
     });
 
@@ -126,6 +134,7 @@ export class VideoEncoderWrapper {
     this.isInitialized = true;
     this.frameCount = 0;
     this.chunks = [];
+    this.encodeError = null;
   }
 
   private handleEncodedChunk(
@@ -152,10 +161,11 @@ export class VideoEncoderWrapper {
       description,
     };
 
-    this.chunks.push(encodedChunk);
-
+    // Chunks handed to a callback aren't kept, so streaming exports don't hold the whole stream in memory
     if (this.onChunkCallback) {
       this.onChunkCallback(encodedChunk);
+    } else {
+      this.chunks.push(encodedChunk);
     }
   }
 
@@ -167,6 +177,9 @@ export class VideoEncoderWrapper {
     if (!this.encoder || !this.isInitialized) {
       throw new Error("Encoder not initialized");
     }
+    if (this.encodeError) {
+      throw this.encodeError;
+    }
 
     const timestamp = Math.floor((frameNumber / this.config.fps) * 1_000_000);
     const duration = Math.floor(1_000_000 / this.config.fps);
@@ -190,9 +203,46 @@ export class VideoEncoderWrapper {
     }
 
     await this.encoder.flush();
+    if (this.encodeError) {
+      throw this.encodeError;
+    }
     return this.chunks;
   }
 
+  /**
+   * Frames submitted but not yet encoded - callers wait on this to apply back-pressure
+   */
+  getQueueSize(): number {
+    return this.encoder?.encodeQueueSize ?? 0;
+  }
+
+  /**
+   * Wait until no more than `maxQueueSize` frames are queued, woken by the encoder's dequeue event
+   */
+  async drain(maxQueueSize: number): Promise<void> {
+    while (this.encoder && this.encoder.state === "configured" && this.encoder.encodeQueueSize > maxQueueSize) {
+      if (this.encodeError) {
+        throw this.encodeError;
+      }
+      const encoder = this.encoder;
+      await new Promise<void>((resolve) => {
+        // The timeout covers browsers without the dequeue event and encoders that error out while waiting
+        const timer = setTimeout(resolve, 50);
+        encoder.addEventListener(
+          "dequeue",
+          () => {
+            clearTimeout(timer);
+            resolve();
+          },
+          { once: true }
+        );
+      });
+    }
+    if (this.encodeError) {
+      throw this.encodeError;
+    }
+  }
+
   getChunks(): EncodedChunk[] {
     return this.chunks;
   }
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { WebmAlphaWriter } from "./WebmAlphaWriter";
+
+const CLUSTER_ID = [0x1f, 0x43, 0xb6, 0x75];
+const SEGMENT_ID = [0x18, 0x53, 0x80, 0x67];
+const DURATION_ID = [0x44, 0x89];
+
+const writerOptions = { width: 16, height: 16, codecId: "V_VP9" };
+
+// One second at 10 fps with a keyframe every 4 frames
+const frames = Array.from({ length: 10 }, (_, i) => ({
+  data: new Uint8Array([i, 0xaa]),
+  alpha: new Uint8Array([i, 0xbb]),
+  timestamp: i * 100_000,
+  isKeyFrame: i % 4 === 0,
+}));
+
+function indexOf(bytes: Uint8Array, pattern: number[], from = 0): number {
+  for (let i = from; i <= bytes.length - pattern.length; i++) {
+    if (pattern.every((value, j) => bytes[i + j] === value)) return i;
+  }
+  return -1;
+}
+
+function count(bytes: Uint8Array, pattern: number[]): number {
+  let total = 0;
+  for (let i = indexOf(bytes, pattern); i >= 0; i = indexOf(bytes, pattern, i + 1)) total++;
+  return total;
+}
+
+// Replays positioned writes the way a MuxerSink does
+function streamed() {
+  const writes: { data: Uint8Array; position: number }[] = [];
+  const writer = new WebmAlphaWriter({
+    ...writerOptions,
+    onData: (data, position) => writes.push({ data: data.slice(), position }),
+  });
+  const file = () => {
+    const out = new Uint8Array(writes.reduce((size, { data, position }) => Math.max(size, position + data.length), 0));
+    for (const { data, position } of writes) out.set(data, position);
+    return out;
+  };
+  return { writer, writes, file };
+}
+
+function writeAll(writer: WebmAlphaWriter) {
+  for (const frame of frames) {
+    writer.addVideoChunk(frame.data, frame.timestamp, frame.isKeyFrame);
+    writer.addAlphaChunk(frame.alpha, frame.timestamp);
+  }
+}
+
+describe("WebmAlphaWriter", () => {
+  it("streams the same file it builds in memory", () => {
+    const inMemory = new WebmAlphaWriter(writerOptions);
+    writeAll(inMemory);
+    const buffer = inMemory.finalize();
+
+    const { writer, file } = streamed();
+    writeAll(writer);
+    expect(writer.finalize()).toBeNull();
+
+    expect(buffer).not.toBeNull();
+    expect(file()).toEqual(new Uint8Array(buffer!));
+  });
+
+  it("writes a cluster once the next keyframe and its alpha chunks have arrived", () => {
+    const { writer, file } = streamed();
+    for (const frame of frames.slice(0, 5)) {
+      writer.addVideoChunk(frame.data, frame.timestamp, frame.isKeyFrame);
+    }
+    expect(count(file(), CLUSTER_ID)).toBe(0);
+
+    for (const frame of frames.slice(0, 5)) {
+      writer.addAlphaChunk(frame.alpha, frame.timestamp);
+    }
+    expect(count(file(), CLUSTER_ID)).toBe(1);
+    expect(indexOf(file(), [3, 0xbb])).toBeGreaterThan(0);
+
+    for (const frame of frames.slice(5)) {
+      writer.addVideoChunk(frame.data, frame.timestamp, frame.isKeyFrame);
+      writer.addAlphaChunk(frame.alpha, frame.timestamp);
+    }
+    writer.finalize();
+    expect(count(file(), CLUSTER_ID)).toBe(3);
+  });
+
+  it("patches the segment size and duration on finalize", () => {
+    const { writer, file } = streamed();
+    writeAll(writer);
+    writer.finalize();
+    const bytes = file();
+
+    const segment = indexOf(bytes, SEGMENT_ID);
+    const size = bytes.subarray(segment + 4, segment + 12);
+    expect(size[0]).toBe(0x01);
+    const body = size.slice(1).reduce((value, byte) => value * 256 + byte, 0);
+    expect(segment + 12 + body).toBe(bytes.length);
+
+    const duration = indexOf(bytes, [...DURATION_ID, 0x88]);
+    const view = new DataView(bytes.buffer, bytes.byteOffset + duration + 3, 8);
+    expect(view.getFloat64(0)).toBeCloseTo(1000, 6);
+  });
+});
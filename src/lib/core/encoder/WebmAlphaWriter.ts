@@ -0,0 +1,426 @@
+/**
+ * WebmAlphaWriter - Minimal WebM writer for VP8/VP9 video with an alpha channel
+ * The alpha plane is a second VP8/VP9 stream stored in each block's BlockAdditions (BlockAddID 1),
+ * which webm-muxer does not write for video. Clusters are written out as soon as the next keyframe (and every alpha
+ * chunk before it) has arrived; the Segment size, Duration, SeekHead and Cues are patched in on finalize.
+ */
+
+interface VideoBlock {
+  data: Uint8Array;
+  alpha?: Uint8Array;
+  timestamp: number; // microseconds
+  isKeyFrame: boolean;
+}
+
+interface AudioBlock {
+  data: Uint8Array;
+  timestamp: number; // microseconds
+}
+
+export interface WebmAlphaWriterOptions {
+  width: number;
+  height: number;
+  /** "V_VP9" or "V_VP8" */
+  codecId: string;
+  /** Declares an Opus audio track */
+  audio?: {
+    sampleRate: number;
+    numberOfChannels: number;
+  };
+  /** Receives the file as positioned writes (the header is patched last); without it finalize() returns the file */
+  onData?: (data: Uint8Array, position: number) => void;
+}
+
+// Matroska element IDs
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimestampScale: 0x2ad7b1,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  MaxBlockAdditionID: 0x55ee,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  AlphaMode: 0x53c0,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timestamp: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  ReferenceBlock: 0xfb,
+  BlockAdditions: 0x75a1,
+  BlockMore: 0xa6,
+  BlockAddID: 0xee,
+  BlockAdditional: 0xa5,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+} as const;
+
+const VIDEO_TRACK = 1;
+const AUDIO_TRACK = 2;
+// Block timestamps are signed 16-bit offsets from the cluster timestamp
+const MAX_CLUSTER_SPAN_MS = 30_000;
+// Segment size until finalize patches it in: all ones is "unknown", so a file cut short still plays
+const UNKNOWN_SEGMENT_SIZE = new Uint8Array([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+
+const textEncoder = new TextEncoder();
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function idBytes(id: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value & 0xff);
+  return new Uint8Array(bytes);
+}
+
+// Variable-length size: the leading bit position gives the byte count
+function vint(value: number): Uint8Array {
+  let length = 1;
+  while (value >= 2 ** (7 * length) - 1) length++;
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1, rest = value; i >= 0; i--, rest = Math.floor(rest / 256)) bytes[i] = rest & 0xff;
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+}
+
+// Size with a fixed 8-byte width, so it can be patched in place
+function vint8(value: number): Uint8Array {
+  const bytes = uintBytes(value, 8);
+  bytes[0] |= 0x01;
+  return bytes;
+}
+
+function uintBytes(value: number, width?: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let rest = value; rest > 0 || bytes.length === 0; rest = Math.floor(rest / 256)) bytes.unshift(rest & 0xff);
+  while (width && bytes.length < width) bytes.unshift(0);
+  return new Uint8Array(bytes);
+}
+
+function element(id: number, content: Uint8Array | Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const body = content instanceof Uint8Array ? content : concat(content);
+  return concat([idBytes(id), vint(body.length), body]);
+}
+
+const uint = (id: number, value: number, width?: number) => element(id, uintBytes(value, width));
+const text = (id: number, value: string) => element(id, textEncoder.encode(value));
+
+function float(id: number, value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+}
+
+function int16(id: number, value: number): Uint8Array {
+  const bytes = new Uint8Array(2);
+  new DataView(bytes.buffer).setInt16(0, value);
+  return element(id, bytes);
+}
+
+// Track number, timestamp relative to the cluster, flags
+function blockHeader(track: number, relativeMs: number, flags: number): Uint8Array {
+  const header = new Uint8Array(4);
+  const view = new DataView(header.buffer);
+  view.setUint8(0, 0x80 | track);
+  view.setInt16(1, relativeMs);
+  view.setUint8(3, flags);
+  return header;
+}
+
+/**
+ * Identification header for Opus when the encoder doesn't provide one (RFC 7845 section 5.1)
+ */
+function opusHead(sampleRate: number, numberOfChannels: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(textEncoder.encode("OpusHead"));
+  view.setUint8(8, 1);
+  view.setUint8(9, numberOfChannels);
+  view.setUint16(10, 0, true);
+  view.setUint32(12, sampleRate, true);
+  return head;
+}
+
+export class WebmAlphaWriter {
+  private options: WebmAlphaWriterOptions;
+  // Blocks not written yet - video waits for the next keyframe and its alpha chunks
+  private video: VideoBlock[] = [];
+  private alpha = new Map<number, Uint8Array>();
+  private audio: AudioBlock[] = [];
+  private audioPrivate: Uint8Array | null = null;
+  // Output: the next write position, and the writes themselves when there is no onData
+  private position = 0;
+  private writes: { data: Uint8Array; position: number }[] = [];
+  // File positions of the parts patched on finalize (segmentStart is -1 until the header is out)
+  private segmentStart = -1;
+  private infoOffset = 0;
+  private tracksOffset = 0;
+  private durationPosition = 0;
+  private cuePoints: { time: number; position: number }[] = [];
+  private previousVideoMs: number | null = null;
+  private frameDurationMs = 0;
+  private endMs = 0;
+
+  constructor(options: WebmAlphaWriterOptions) {
+    this.options = options;
+  }
+
+  addVideoChunk(data: Uint8Array, timestamp: number, isKeyFrame: boolean): void {
+    const previous = this.video[this.video.length - 1];
+    if (previous && !this.frameDurationMs) {
+      this.frameDurationMs = (timestamp - previous.timestamp) / 1000;
+    }
+    this.endMs = Math.max(this.endMs, timestamp / 1000 + this.frameDurationMs);
+    this.video.push({ data, timestamp, isKeyFrame });
+    if (isKeyFrame) this.flushClusters();
+  }
+
+  /**
+   * Alpha stream chunk for the color frame with the same timestamp
+   */
+  addAlphaChunk(data: Uint8Array, timestamp: number): void {
+    this.alpha.set(timestamp, data);
+    this.flushClusters();
+  }
+
+  /**
+   * Audio should arrive ahead of the video it plays under (the exporter encodes it first) - a chunk that comes
+   * after its clusters were written goes into the next one
+   */
+  addAudioChunk(chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata): void {
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+    this.audio.push({ data, timestamp: chunk.timestamp });
+    this.endMs = Math.max(this.endMs, chunk.timestamp / 1000);
+
+    const description = metadata?.decoderConfig?.description;
+    if (!this.audioPrivate && description) {
+      this.audioPrivate = ArrayBuffer.isView(description)
+        ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength).slice()
+        : new Uint8Array(description).slice();
+    }
+  }
+
+  /**
+   * Write what is left, the Cues, and patch the header; returns the file unless it went to onData
+   */
+  finalize(): ArrayBuffer | null {
+    this.writeClusters(this.video.length);
+
+    const cues = element(
+      ID.Cues,
+      this.cuePoints.map(({ time, position }) =>
+        element(ID.CuePoint, [
+          uint(ID.CueTime, time),
+          element(ID.CueTrackPositions, [uint(ID.CueTrack, VIDEO_TRACK), uint(ID.CueClusterPosition, position)]),
+        ])
+      )
+    );
+    const cuesOffset = this.position - this.segmentStart;
+    this.write(cues);
+
+    this.write(vint8(this.position - this.segmentStart), this.segmentStart - 8);
+    this.write(this.seekHead(cuesOffset), this.segmentStart);
+    this.write(float(ID.Duration, this.endMs).subarray(-8), this.durationPosition);
+
+    if (this.options.onData) return null;
+    const file = new Uint8Array(this.position);
+    for (const { data, position } of this.writes) file.set(data, position);
+    this.writes = [];
+    return file.buffer;
+  }
+
+  private write(data: Uint8Array, position = this.position): void {
+    if (this.options.onData) {
+      this.options.onData(data, position);
+    } else {
+      this.writes.push({ data, position });
+    }
+    this.position = Math.max(this.position, position + data.length);
+  }
+
+  /**
+   * EBML header, then the Segment with a placeholder size, SeekHead and Duration - written before the first cluster,
+   * when the audio track's CodecPrivate is known
+   */
+  private writeHeader(): void {
+    this.write(
+      element(ID.EBML, [
+        uint(ID.EBMLVersion, 1),
+        uint(ID.EBMLReadVersion, 1),
+        uint(ID.EBMLMaxIDLength, 4),
+        uint(ID.EBMLMaxSizeLength, 8),
+        text(ID.DocType, "webm"),
+        uint(ID.DocTypeVersion, 4),
+        uint(ID.DocTypeReadVersion, 2),
+      ])
+    );
+    this.write(concat([idBytes(ID.Segment), UNKNOWN_SEGMENT_SIZE]));
+    this.segmentStart = this.position;
+
+    // Offsets are relative to the start of the Segment body; SeekPosition has a fixed width so the SeekHead keeps its size
+    const info = element(ID.Info, [
+      uint(ID.TimestampScale, 1_000_000),
+      text(ID.MuxingApp, "videographic"),
+      text(ID.WritingApp, "videographic"),
+      float(ID.Duration, 0),
+    ]);
+    this.infoOffset = this.seekHead(0).length;
+    this.tracksOffset = this.infoOffset + info.length;
+    this.write(this.seekHead(0));
+    this.write(info);
+    // Duration is Info's last child, so its 8-byte value ends the element
+    this.durationPosition = this.position - 8;
+    this.write(this.tracksElement());
+  }
+
+  /**
+   * Write every complete group of pictures: a keyframe up to the next one, once each frame has its alpha chunk
+   */
+  private flushClusters(): void {
+    let end = 0;
+    for (let i = 1; i < this.video.length; i++) {
+      if (!this.alpha.has(this.video[i - 1].timestamp)) break;
+      if (this.video[i].isKeyFrame) end = i;
+    }
+    if (end > 0) this.writeClusters(end);
+  }
+
+  /**
+   * Interleave the first `count` video blocks with the audio before the next video block; a new cluster starts at
+   * every video keyframe
+   */
+  private writeClusters(count: number): void {
+    if (this.segmentStart < 0) this.writeHeader();
+
+    const video = this.video.splice(0, count);
+    const until = this.video[0]?.timestamp ?? Infinity;
+    const audio = this.audio.filter((block) => block.timestamp < until);
+    this.audio = this.audio.filter((block) => block.timestamp >= until);
+    for (const block of video) {
+      block.alpha = this.alpha.get(block.timestamp);
+      this.alpha.delete(block.timestamp);
+    }
+
+    const blocks = [
+      ...video.map((block) => ({ ...block, kind: "video" as const })),
+      ...audio.map((block) => ({ ...block, kind: "audio" as const })),
+    ].sort((a, b) => a.timestamp - b.timestamp || (a.kind === "video" ? -1 : 1));
+
+    let current: Uint8Array[] = [];
+    let clusterStart = 0;
+    let cueTime: number | null = null;
+
+    const flush = () => {
+      if (current.length > 0) {
+        if (cueTime !== null) this.cuePoints.push({ time: cueTime, position: this.position - this.segmentStart });
+        this.write(element(ID.Cluster, [uint(ID.Timestamp, clusterStart), ...current]));
+      }
+      current = [];
+    };
+
+    for (const block of blocks) {
+      const ms = Math.round(block.timestamp / 1000);
+      const startsCluster = block.kind === "video" && block.isKeyFrame;
+      if (current.length === 0 || startsCluster || Math.abs(ms - clusterStart) > MAX_CLUSTER_SPAN_MS) {
+        flush();
+        clusterStart = ms;
+        cueTime = startsCluster ? ms : null;
+      }
+
+      const relative = ms - clusterStart;
+      if (block.kind === "audio") {
+        current.push(element(ID.SimpleBlock, [blockHeader(AUDIO_TRACK, relative, 0x80), block.data]));
+        continue;
+      }
+
+      const children: Uint8Array[] = [element(ID.Block, [blockHeader(VIDEO_TRACK, relative, 0), block.data])];
+      if (!block.isKeyFrame && this.previousVideoMs !== null) {
+        children.push(int16(ID.ReferenceBlock, this.previousVideoMs - ms));
+      }
+      if (block.alpha) {
+        children.push(
+          element(ID.BlockAdditions, [
+            element(ID.BlockMore, [uint(ID.BlockAddID, 1), element(ID.BlockAdditional, block.alpha)]),
+          ])
+        );
+      }
+      current.push(element(ID.BlockGroup, children));
+      this.previousVideoMs = ms;
+    }
+    flush();
+  }
+
+  private seekHead(cuesOffset: number): Uint8Array {
+    const seek = (id: number, position: number) =>
+      element(ID.Seek, [element(ID.SeekID, idBytes(id)), uint(ID.SeekPosition, position, 8)]);
+    return element(ID.SeekHead, [
+      seek(ID.Info, this.infoOffset),
+      seek(ID.Tracks, this.tracksOffset),
+      seek(ID.Cues, cuesOffset),
+    ]);
+  }
+
+  private tracksElement(): Uint8Array {
+    const { width, height, codecId, audio } = this.options;
+    const entries = [
+      element(ID.TrackEntry, [
+        uint(ID.TrackNumber, VIDEO_TRACK),
+        uint(ID.TrackUID, VIDEO_TRACK),
+        uint(ID.TrackType, 1),
+        text(ID.CodecID, codecId),
+        uint(ID.MaxBlockAdditionID, 1),
+        element(ID.Video, [uint(ID.PixelWidth, width), uint(ID.PixelHeight, height), uint(ID.AlphaMode, 1)]),
+      ]),
+    ];
+    if (audio) {
+      entries.push(
+        element(ID.TrackEntry, [
+          uint(ID.TrackNumber, AUDIO_TRACK),
+          uint(ID.TrackUID, AUDIO_TRACK),
+          uint(ID.TrackType, 2),
+          text(ID.CodecID, "A_OPUS"),
+          element(ID.CodecPrivate, this.audioPrivate ?? opusHead(audio.sampleRate, audio.numberOfChannels)),
+          element(ID.Audio, [float(ID.SamplingFrequency, audio.sampleRate), uint(ID.Channels, audio.numberOfChannels)]),
+        ])
+      );
+    }
+    return element(ID.Tracks, entries);
+  }
+}
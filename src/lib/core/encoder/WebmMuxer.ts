@@ -1,74 +1,106 @@
 /**
  * WebM Muxer - webm-muxer integration for VP8/VP9 codecs
+ * With `alpha`, output goes through WebmAlphaWriter instead, since webm-muxer can't store the alpha stream
+ * With a sink, clusters are streamed out as they complete, with or without alpha.
  */
 
-import { Muxer, ArrayBufferTarget } from "webm-muxer";
+import { Muxer, ArrayBufferTarget, StreamTarget } from "webm-muxer";
 import type { EncoderConfig } from "./types";
 import type { EncodedChunk } from "./VideoEncoder";
+import { WebmAlphaWriter } from "./WebmAlphaWriter";
+import { SINK_CHUNK_SIZE } from "./MuxerSink";
+import type { MuxerSink } from "./MuxerSink";
 
 export interface WebmMuxerOptions {
   config: EncoderConfig;
   codec: string;
+  /** Declares an Opus audio track alongside the video */
+  audio?: {
+    sampleRate: number;
+    numberOfChannels: number;
+  };
+  /** Keep transparency: every color chunk is paired with an alpha chunk from addAlphaChunk */
+  alpha?: boolean;
+  /** Stream the file into this sink instead of an in-memory ArrayBuffer; finish with close() */
+  sink?: MuxerSink;
 }
 
 export class WebmVideoMuxer {
-  private muxer: Muxer<ArrayBufferTarget> | null = null;
+  private muxer: Muxer<ArrayBufferTarget | StreamTarget> | null = null;
   private config: EncoderConfig;
   private isFinalized: boolean = false;
   private codec: string;
+  private audio: WebmMuxerOptions["audio"];
+  private alpha: boolean;
+  private alphaWriter: WebmAlphaWriter | null = null;
+  private sink: MuxerSink | null;
 
   constructor(options: WebmMuxerOptions) {
     this.config = options.config;
     this.codec = options.codec;
+    this.audio = options.audio;
+    this.alpha = options.alpha ?? false;
+    this.sink = options.sink ?? null;
   }
 
   initialize(): void {
     console.log(`Initializing WebM muxer with codec: ${this.codec}`);
     
     // Determine the WebM codec type
-    const isVp9 = this.codec.startsWith("vp09") || this.codec === "vp9";
-    const codecType = isVp9 ? "V_VP9" : "V_VP8";
+    const codecType = this.codec.startsWith("av01")
+      ? "V_AV1"
+      : this.codec.startsWith("vp09") || this.codec === "vp9"
+        ? "V_VP9"
+        : "V_VP8";
 
+    this.isFinalized = false;
+    if (this.alpha) {
+      this.alphaWriter = new WebmAlphaWriter({
+        width: this.config.width,
+        height: this.config.height,
+        codecId: codecType,
+        audio: this.audio,
+        onData: this.sink ? (data, position) => this.sink?.write(data, position) : undefined,
+      });
+      return;
+    }
+
+    const sink = this.sink;
     this.muxer = new Muxer({
-      target: new ArrayBufferTarget(),
+      target: sink
+        ? new StreamTarget({ onData: (data, position) => sink.write(data, position), chunked: true, chunkSize: SINK_CHUNK_SIZE })
+        : new ArrayBufferTarget(),
       video: {
         codec: codecType,
         width: this.config.width,
         height: this.config.height,
         frameRate: this.config.fps,
       },
+      ...(this.audio ? { audio: { codec: "A_OPUS", ...this.audio } } : {}),
     });
-    this.isFinalized = false;
   }
 
   addVideoChunk(chunk: EncodedChunk): void {
-    if (!this.muxer) {
-      throw new Error("WebM Muxer not initialized");
-    }
     if (this.isFinalized) {
       throw new Error("WebM Muxer already finalized");
     }
-
-    // webm-muxer uses addVideoChunk with an EncodedVideoChunk-like object
-    // We create a fake chunk object that matches the expected interface
-    const videoChunk = {
-      type: chunk.isKeyFrame ? "key" as const : "delta" as const,
-      timestamp: chunk.timestamp,
-      duration: chunk.duration,
-      byteLength: chunk.data.byteLength,
-      copyTo: (destination: ArrayBufferLike) => {
-        new Uint8Array(destination).set(chunk.data);
-      },
-    };
+    if (this.alphaWriter) {
+      this.alphaWriter.addVideoChunk(chunk.data, chunk.timestamp, chunk.isKeyFrame);
+      return;
+    }
+    if (!this.muxer) {
+      throw new Error("WebM Muxer not initialized");
+    }
 
     // Create metadata with decoderConfig including colorSpace
     // This is required by webm-muxer for proper handling
-    const isVp9 = this.codec.startsWith("vp09") || this.codec === "vp9";
     const meta = {
       decoderConfig: {
-        codec: isVp9 ? "vp09.00.10.08" : "vp8",
+        codec: this.codec === "vp9" ? "vp09.00.10.08" : this.codec,
         codedWidth: this.config.width,
         codedHeight: this.config.height,
+        // AV1 needs its av1C record as CodecPrivate
+        description: chunk.description,
         colorSpace: {
           primaries: "bt709",
           transfer: "bt709", 
@@ -78,12 +110,39 @@ export class WebmVideoMuxer {
       },
     };
 
-    this.muxer.addVideoChunk(
-      videoChunk as unknown as EncodedVideoChunk,
+    // addVideoChunk only accepts real EncodedVideoChunk instances; the raw variant takes the copied bytes
+    this.muxer.addVideoChunkRaw(
+      chunk.data,
+      chunk.isKeyFrame ? "key" : "delta",
+      chunk.timestamp,
       meta as unknown as EncodedVideoChunkMetadata
     );
   }
 
+  /**
+   * Alpha plane of the color chunk with the same timestamp (alpha mode only)
+   */
+  addAlphaChunk(chunk: EncodedChunk): void {
+    if (!this.alphaWriter) {
+      throw new Error("WebM Muxer was not created with alpha");
+    }
+    this.alphaWriter.addAlphaChunk(chunk.data, chunk.timestamp);
+  }
+
+  addAudioChunk(chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata): void {
+    if (!this.audio) {
+      throw new Error("WebM Muxer has no audio track");
+    }
+    if (this.alphaWriter) {
+      this.alphaWriter.addAudioChunk(chunk, metadata);
+      return;
+    }
+    if (!this.muxer) {
+      throw new Error("WebM Muxer not initialized");
+    }
+    this.muxer.addAudioChunk(chunk, metadata);
+  }
+
   addVideoChunks(chunks: EncodedChunk[]): void {
     for (const chunk of chunks) {
       this.addVideoChunk(chunk);
@@ -91,18 +150,42 @@ export class WebmVideoMuxer {
   }
 
   finalize(): ArrayBuffer {
-    if (!this.muxer) {
-      throw new Error("WebM Muxer not initialized");
+    if (this.sink) {
+      throw new Error("WebM Muxer output went to a sink, use close()");
     }
+    return this.finishMuxing() as ArrayBuffer;
+  }
+
+  /**
+   * Finish the file and return it, whether it was streamed to a sink or built in memory
+   */
+  async close(): Promise<Blob> {
+    if (!this.sink) {
+      return this.getBlob();
+    }
+    this.finishMuxing();
+    return this.sink.close("video/webm");
+  }
+
+  /**
+   * Returns the finished file, or null when it was streamed to a sink
+   */
+  private finishMuxing(): ArrayBuffer | null {
     if (this.isFinalized) {
       throw new Error("WebM Muxer already finalized");
     }
+    if (this.alphaWriter) {
+      this.isFinalized = true;
+      return this.alphaWriter.finalize();
+    }
+    if (!this.muxer) {
+      throw new Error("WebM Muxer not initialized");
+    }
 
     this.muxer.finalize();
     this.isFinalized = true;
 
-    const target = this.muxer.target as ArrayBufferTarget;
-    return target.buffer;
+    return this.sink ? null : (this.muxer.target as ArrayBufferTarget).buffer;
   }
 
   getBlob(): Blob {
@@ -128,10 +211,11 @@ export class WebmVideoMuxer {
 
   reset(): void {
     this.muxer = null;
+    this.alphaWriter = null;
     this.isFinalized = false;
   }
 
   isReady(): boolean {
-    return this.muxer !== null && !this.isFinalized;
+    return (this.muxer !== null || this.alphaWriter !== null) && !this.isFinalized;
   }
 }
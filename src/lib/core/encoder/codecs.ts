@@ -0,0 +1,166 @@
+/**
+ * Codecs - Video codec catalog and capability probing
+ * Codec strings carry a level, so they are built for the target resolution and frame rate before probing
+ */
+
+export type VideoContainer = "mp4" | "webm";
+export type VideoCodecFamily = "avc" | "hevc" | "vp9" | "av1";
+
+export interface VideoCodecOption {
+  id: string;
+  label: string;
+  family: VideoCodecFamily;
+  containers: VideoContainer[];
+  /** Codec strings of this option start with this prefix (profile included) */
+  prefix: string;
+}
+
+export interface CodecProbeResult {
+  option: VideoCodecOption;
+  /** Codec string at the probed size, e.g. "avc1.640028" */
+  codec: string;
+  supported: boolean;
+  /** A hardware encoder accepted the configuration */
+  hardware: boolean;
+}
+
+export interface CodecProbeTarget {
+  width: number;
+  height: number;
+  fps: number;
+  bitrate: number;
+}
+
+export const VIDEO_CODEC_OPTIONS: VideoCodecOption[] = [
+  { id: "avc-high", label: "H.264 High", family: "avc", containers: ["mp4"], prefix: "avc1.6400" },
+  { id: "avc-main", label: "H.264 Main", family: "avc", containers: ["mp4"], prefix: "avc1.4d00" },
+  { id: "avc-baseline", label: "H.264 Baseline", family: "avc", containers: ["mp4"], prefix: "avc1.4200" },
+  { id: "hevc-main", label: "HEVC (H.265) Main", family: "hevc", containers: ["mp4"], prefix: "hvc1.1.6.L" },
+  { id: "vp9", label: "VP9", family: "vp9", containers: ["mp4", "webm"], prefix: "vp09.00." },
+  { id: "av1", label: "AV1 Main", family: "av1", containers: ["mp4", "webm"], prefix: "av01.0." },
+];
+
+// [max picture size in pixels, max pixel rate per second, level code] per codec, lowest level first
+type LevelTable = [number, number, string][];
+
+const AVC_LEVELS: LevelTable = [
+  [921_600, 27_648_000, "1f"], // 3.1
+  [1_310_720, 55_296_000, "20"], // 3.2
+  [2_097_152, 62_914_560, "28"], // 4.0
+  [2_228_224, 133_693_440, "2a"], // 4.2
+  [5_652_480, 150_994_944, "32"], // 5.0
+  [9_437_184, 251_658_240, "33"], // 5.1
+  [9_437_184, 530_841_600, "34"], // 5.2
+  [35_651_584, 1_069_547_520, "3c"], // 6.0
+];
+
+const HEVC_LEVELS: LevelTable = [
+  [983_040, 33_177_600, "93"], // 3.1
+  [2_228_224, 66_846_720, "120"], // 4.0
+  [2_228_224, 133_693_440, "123"], // 4.1
+  [8_912_896, 267_386_880, "150"], // 5.0
+  [8_912_896, 534_773_760, "153"], // 5.1
+  [35_651_584, 1_069_547_520, "180"], // 6.0
+];
+
+const VP9_LEVELS: LevelTable = [
+  [983_040, 36_864_000, "31"],
+  [2_228_224, 83_558_400, "40"],
+  [2_228_224, 160_432_128, "41"],
+  [8_912_896, 311_951_360, "50"],
+  [8_912_896, 588_251_136, "51"],
+  [35_651_584, 1_176_502_272, "60"],
+];
+
+const AV1_LEVELS: LevelTable = [
+  [1_065_024, 39_938_400, "05"], // 3.1
+  [2_359_296, 77_856_768, "08"], // 4.0
+  [2_359_296, 155_713_536, "09"], // 4.1
+  [8_912_896, 273_715_200, "12"], // 5.0
+  [8_912_896, 547_430_400, "13"], // 5.1
+  [35_651_584, 1_094_860_800, "16"], // 6.0
+];
+
+function pickLevel(table: LevelTable, width: number, height: number, fps: number): string {
+  const pictureSize = width * height;
+  const level = table.find(([maxSize, maxRate]) => pictureSize <= maxSize && pictureSize * fps <= maxRate);
+  return (level ?? table[table.length - 1])[2];
+}
+
+/**
+ * Codec string for an option at the given output size and frame rate
+ */
+export function buildCodecString(option: VideoCodecOption, width: number, height: number, fps: number): string {
+  switch (option.family) {
+    case "avc":
+      return `${option.prefix}${pickLevel(AVC_LEVELS, width, height, fps)}`;
+    case "hevc":
+      return `${option.prefix}${pickLevel(HEVC_LEVELS, width, height, fps)}.B0`;
+    case "vp9":
+      return `${option.prefix}${pickLevel(VP9_LEVELS, width, height, fps)}.08`;
+    case "av1":
+      return `${option.prefix}${pickLevel(AV1_LEVELS, width, height, fps)}M.08`;
+  }
+}
+
+export function findVideoCodecOption(codec: string): VideoCodecOption | undefined {
+  return VIDEO_CODEC_OPTIONS.find((option) => codec.startsWith(option.prefix));
+}
+
+/**
+ * Human-readable codec name, e.g. "H.264 High (avc1.640028)"
+ */
+export function describeVideoCodec(codec: string): string {
+  const option = findVideoCodecOption(codec);
+  return option ? `${option.label} (${codec})` : codec;
+}
+
+/**
+ * Container-specific encoder settings - MP4 wants length-prefixed AVC/HEVC with the parameter sets in the description
+ */
+export function codecSpecificConfig(codec: string): Partial<VideoEncoderConfig> {
+  if (codec.startsWith("avc")) return { avc: { format: "avc" } };
+  if (codec.startsWith("hvc") || codec.startsWith("hev")) {
+    return { hevc: { format: "hevc" } } as Partial<VideoEncoderConfig>;
+  }
+  return {};
+}
+
+/**
+ * Ask the browser which codecs can encode at the target size, and whether in hardware
+ */
+export async function probeVideoCodecs(target: CodecProbeTarget): Promise<CodecProbeResult[]> {
+  if (typeof VideoEncoder === "undefined") {
+    return VIDEO_CODEC_OPTIONS.map((option) => ({
+      option,
+      codec: buildCodecString(option, target.width, target.height, target.fps),
+      supported: false,
+      hardware: false,
+    }));
+  }
+
+  const isSupported = async (config: VideoEncoderConfig) => {
+    try {
+      return (await VideoEncoder.isConfigSupported(config)).supported === true;
+    } catch {
+      return false;
+    }
+  };
+
+  return Promise.all(
+    VIDEO_CODEC_OPTIONS.map(async (option) => {
+      const codec = buildCodecString(option, target.width, target.height, target.fps);
+      const config: VideoEncoderConfig = {
+        codec,
+        width: target.width,
+        height: target.height,
+        bitrate: target.bitrate,
+        framerate: target.fps,
+        ...codecSpecificConfig(codec),
+      };
+      const hardware = await isSupported({ ...config, hardwareAcceleration: "prefer-hardware" });
+      const supported = hardware || (await isSupported({ ...config, hardwareAcceleration: "no-preference" }));
+      return { option, codec, supported, hardware };
+    })
+  );
+}
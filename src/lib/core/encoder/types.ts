@@ -17,3 +17,12 @@ export interface ExportProgress {
   percentage: number;
   message?: string;
 }
+
+export type AudioCodec = "aac" | "opus";
+
+export interface AudioEncoderConfig {
+  sampleRate: number;
+  numberOfChannels: number;
+  bitrate: number;
+  codec: AudioCodec;
+}
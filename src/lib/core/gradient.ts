@@ -0,0 +1,52 @@
+/**
+ * Gradient fills - Build Fabric.js gradients from timeline gradient properties
+ * Shared by the editor canvas and the exporters
+ */
+
+import * as fabric from "fabric";
+import type { Gradient } from "@/lib/schemas/timeline";
+import { getGradientStops } from "./timeline/color";
+
+export type FabricGradient = fabric.Gradient<"linear", "linear"> | fabric.Gradient<"radial", "radial">;
+
+/**
+ * Create a Fabric gradient sized relative to the object it fills
+ * Linear angle 0 runs left to right, 90 top to bottom
+ */
+export function createFabricGradient(gradient: Gradient): FabricGradient {
+  const stops = getGradientStops(gradient);
+  const colorStops = gradient.colors.map((color, i) => ({ offset: stops[i], color }));
+
+  if (gradient.type === "radial") {
+    return new fabric.Gradient<"radial">({
+      type: "radial",
+      gradientUnits: "percentage",
+      coords: { x1: 0.5, y1: 0.5, r1: 0, x2: 0.5, y2: 0.5, r2: 0.5 },
+      colorStops,
+    });
+  }
+
+  const radians = ((gradient.angle ?? 0) * Math.PI) / 180;
+  const dx = Math.cos(radians) / 2;
+  const dy = Math.sin(radians) / 2;
+
+  return new fabric.Gradient<"linear">({
+    type: "linear",
+    gradientUnits: "percentage",
+    coords: { x1: 0.5 - dx, y1: 0.5 - dy, x2: 0.5 + dx, y2: 0.5 + dy },
+    colorStops,
+  });
+}
+
+/**
+ * Fill for a shape - the gradient when one is set, otherwise the solid color
+ */
+export function resolveFill(
+  props: { fill?: unknown; gradient?: Gradient },
+  fallback: string
+): string | FabricGradient {
+  if (props.gradient && props.gradient.colors.length > 0) {
+    return createFabricGradient(props.gradient);
+  }
+  return (props.fill as string) || fallback;
+}
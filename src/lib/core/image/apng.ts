@@ -0,0 +1,115 @@
+/**
+ * APNG - Animated PNG writer (truecolor + alpha)
+ * Compression uses the browser's CompressionStream("deflate"), which emits the zlib format PNG expects
+ */
+
+import { crc32 } from "../crc32";
+
+export interface ApngFrame {
+  rgba: Uint8ClampedArray;
+  /** Display time as a fraction delayNum / delayDen seconds */
+  delayNum: number;
+  delayDen: number;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function chunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+function u32s(...values: number[]): Uint8Array {
+  const out = new Uint8Array(values.length * 4);
+  const view = new DataView(out.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value));
+  return out;
+}
+
+/**
+ * zlib-compressed scanlines, each prefixed with the Sub filter (byte minus the pixel to its left)
+ */
+async function deflateScanlines(rgba: Uint8ClampedArray, width: number, height: number): Promise<Uint8Array> {
+  const stride = width * 4;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (stride + 1);
+    raw[row] = 1; // Sub
+    for (let x = 0; x < stride; x++) {
+      const value = rgba[y * stride + x];
+      raw[row + 1 + x] = x < 4 ? value : value - rgba[y * stride + x - 4];
+    }
+  }
+
+  const stream = new Blob([raw]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * IHDR payload for 8-bit RGBA
+ */
+function rgbaHeader(width: number, height: number): Uint8Array {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // Bit depth
+  header[9] = 6; // Color type: RGBA
+  return header;
+}
+
+/**
+ * Encode frames as an animated PNG
+ * `loop` is the number of plays (0 = forever)
+ */
+export async function encodeApng(
+  width: number,
+  height: number,
+  frames: ApngFrame[],
+  options: { loop: number; onFrame?: (index: number) => void }
+): Promise<Blob> {
+  const parts: Uint8Array<ArrayBuffer>[] = [
+    new Uint8Array(PNG_SIGNATURE),
+    chunk("IHDR", rgbaHeader(width, height)),
+    chunk("acTL", u32s(frames.length, options.loop)),
+  ];
+
+  let sequence = 0;
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+
+    // fcTL: full-size frame at 0,0 that replaces the previous one (dispose none, blend source)
+    const control = new Uint8Array(26);
+    const view = new DataView(control.buffer);
+    view.setUint32(0, sequence++);
+    view.setUint32(4, width);
+    view.setUint32(8, height);
+    view.setUint32(12, 0);
+    view.setUint32(16, 0);
+    view.setUint16(20, frame.delayNum);
+    view.setUint16(22, frame.delayDen);
+    control[24] = 0;
+    control[25] = 0;
+    parts.push(chunk("fcTL", control));
+
+    const data = await deflateScanlines(frame.rgba, width, height);
+    if (i === 0) {
+      // The first frame doubles as the static image for viewers without APNG support
+      parts.push(chunk("IDAT", data));
+    } else {
+      const payload = new Uint8Array(4 + data.length);
+      new DataView(payload.buffer).setUint32(0, sequence++);
+      payload.set(data, 4);
+      parts.push(chunk("fdAT", payload));
+    }
+    options.onFrame?.(i);
+  }
+
+  parts.push(chunk("IEND", new Uint8Array(0)));
+  return new Blob(parts, { type: "image/apng" });
+}
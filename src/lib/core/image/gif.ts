@@ -0,0 +1,195 @@
+/**
+ * GIF - Minimal animated GIF89a writer (LZW-compressed indexed frames)
+ */
+
+import type { Palette } from "./quantize";
+
+export interface GifFrame {
+  indices: Uint8Array;
+  /** Local color table; omit to use the global one */
+  palette?: Palette;
+  /** Display time in hundredths of a second */
+  delay: number;
+  transparentIndex?: number;
+}
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  private buffer = new Uint8Array(4096);
+  private length = 0;
+
+  byte(value: number): void {
+    if (this.length === this.buffer.length) this.flush();
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  u16(value: number): void {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(values: ArrayLike<number>): void {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  string(value: string): void {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  private flush(): void {
+    this.chunks.push(this.buffer.slice(0, this.length));
+    this.length = 0;
+  }
+
+  toBlobParts(): Uint8Array<ArrayBuffer>[] {
+    this.flush();
+    return this.chunks as Uint8Array<ArrayBuffer>[];
+  }
+}
+
+/**
+ * Color table size field: tables hold 2^(n+1) entries
+ */
+function tableSizeBits(colors: number): number {
+  let bits = 0;
+  while (1 << (bits + 1) < colors) bits++;
+  return bits;
+}
+
+function writeColorTable(out: ByteWriter, palette: Palette): void {
+  const size = 1 << (tableSizeBits(palette.length) + 1);
+  for (let i = 0; i < size; i++) {
+    const [r, g, b] = palette[i] ?? [0, 0, 0];
+    out.byte(r);
+    out.byte(g);
+    out.byte(b);
+  }
+}
+
+/**
+ * LZW-compress indices into GIF data sub-blocks
+ */
+function writeImageData(out: ByteWriter, indices: Uint8Array, colors: number): void {
+  const minCodeSize = Math.max(2, tableSizeBits(colors) + 1);
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+
+  out.byte(minCodeSize);
+
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const emitByte = (value: number) => {
+    block[blockLength++] = value;
+    if (blockLength === 255) {
+      out.byte(255);
+      out.bytes(block);
+      blockLength = 0;
+    }
+  };
+
+  let codeSize = minCodeSize + 1;
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      emitByte(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  let table = new Map<number, number>();
+  let nextCode = eoiCode + 1;
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === 4096) {
+      // Table full - reset
+      emit(clearCode);
+      table = new Map();
+      nextCode = eoiCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+
+  emit(prefix);
+  emit(eoiCode);
+  if (bitCount > 0) emitByte(bitBuffer & 0xff);
+  if (blockLength > 0) {
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+  }
+  out.byte(0); // Block terminator
+}
+
+/**
+ * Encode frames as an animated GIF
+ * `loop` is the number of repeats (0 = forever)
+ */
+export function encodeGif(
+  width: number,
+  height: number,
+  frames: GifFrame[],
+  options: { globalPalette?: Palette; loop: number }
+): Blob {
+  const out = new ByteWriter();
+  const { globalPalette, loop } = options;
+
+  out.string("GIF89a");
+  out.u16(width);
+  out.u16(height);
+  out.byte(globalPalette ? 0x80 | 0x70 | tableSizeBits(globalPalette.length) : 0x70);
+  out.byte(0); // Background color index
+  out.byte(0); // Pixel aspect ratio
+  if (globalPalette) writeColorTable(out, globalPalette);
+
+  // NETSCAPE2.0 application extension (loop count)
+  out.bytes([0x21, 0xff, 0x0b]);
+  out.string("NETSCAPE2.0");
+  out.bytes([0x03, 0x01]);
+  out.u16(loop);
+  out.byte(0);
+
+  for (const frame of frames) {
+    const palette = frame.palette ?? globalPalette ?? [[0, 0, 0]];
+    const transparent = frame.transparentIndex !== undefined;
+
+    // Graphic control extension: delay, transparency, dispose to background
+    out.bytes([0x21, 0xf9, 0x04]);
+    out.byte((transparent ? 2 << 2 : 1 << 2) | (transparent ? 1 : 0));
+    out.u16(frame.delay);
+    out.byte(frame.transparentIndex ?? 0);
+    out.byte(0);
+
+    // Image descriptor
+    out.byte(0x2c);
+    out.u16(0);
+    out.u16(0);
+    out.u16(width);
+    out.u16(height);
+    out.byte(frame.palette ? 0x80 | tableSizeBits(frame.palette.length) : 0);
+    if (frame.palette) writeColorTable(out, frame.palette);
+
+    writeImageData(out, frame.indices, palette.length);
+  }
+
+  out.byte(0x3b); // Trailer
+  return new Blob(out.toBlobParts(), { type: "image/gif" });
+}
@@ -0,0 +1,168 @@
+/**
+ * Quantize - Median-cut palettes and palette mapping (with optional Floyd-Steinberg dithering)
+ * Used by the GIF encoder, which is limited to 256 colors per frame
+ */
+
+export type Palette = [number, number, number][];
+
+// Pixels with alpha below this are treated as fully transparent
+export const ALPHA_THRESHOLD = 128;
+
+// Upper bound on pixels sampled when building a palette
+const MAX_SAMPLES = 60_000;
+
+interface ColorBox {
+  pixels: number[]; // packed 0xRRGGBB
+}
+
+function channel(color: number, shift: number): number {
+  return (color >> shift) & 0xff;
+}
+
+function boxRange(box: ColorBox): { shift: number; range: number } {
+  let best = { shift: 16, range: -1 };
+  for (const shift of [16, 8, 0]) {
+    let min = 255;
+    let max = 0;
+    for (const color of box.pixels) {
+      const value = channel(color, shift);
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    if (max - min > best.range) best = { shift, range: max - min };
+  }
+  return best;
+}
+
+/**
+ * Build a palette of at most `maxColors` entries from one or more RGBA buffers
+ */
+export function buildPalette(frames: Uint8ClampedArray[], maxColors: number): Palette {
+  const totalPixels = frames.reduce((sum, frame) => sum + frame.length / 4, 0);
+  const stride = Math.max(1, Math.floor(totalPixels / MAX_SAMPLES));
+
+  const pixels: number[] = [];
+  let index = 0;
+  for (const frame of frames) {
+    for (let i = 0; i < frame.length; i += 4, index++) {
+      if (index % stride !== 0 || frame[i + 3] < ALPHA_THRESHOLD) continue;
+      pixels.push((frame[i] << 16) | (frame[i + 1] << 8) | frame[i + 2]);
+    }
+  }
+  if (pixels.length === 0) return [[0, 0, 0]];
+
+  // Repeatedly split the box with the widest channel range at its median
+  const boxes: ColorBox[] = [{ pixels }];
+  while (boxes.length < maxColors) {
+    let target = -1;
+    let targetRange = 0;
+    let targetShift = 16;
+    boxes.forEach((box, i) => {
+      if (box.pixels.length < 2) return;
+      const { shift, range } = boxRange(box);
+      if (range > targetRange) {
+        target = i;
+        targetRange = range;
+        targetShift = shift;
+      }
+    });
+    if (target === -1) break;
+
+    const sorted = boxes[target].pixels.sort((a, b) => channel(a, targetShift) - channel(b, targetShift));
+    const median = Math.floor(sorted.length / 2);
+    boxes.splice(target, 1, { pixels: sorted.slice(0, median) }, { pixels: sorted.slice(median) });
+  }
+
+  return boxes.map((box) => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    for (const color of box.pixels) {
+      r += channel(color, 16);
+      g += channel(color, 8);
+      b += channel(color, 0);
+    }
+    const n = box.pixels.length;
+    return [Math.round(r / n), Math.round(g / n), Math.round(b / n)];
+  });
+}
+
+/**
+ * Map RGBA pixels to palette indices
+ * When `transparentIndex` is set, pixels below the alpha threshold use it (and are never dithered)
+ */
+export function mapToPalette(
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: Palette,
+  options: { dither: boolean; transparentIndex?: number }
+): Uint8Array {
+  const indices = new Uint8Array(width * height);
+  // Nearest-color lookups cached on 5 bits per channel
+  const cache = new Int16Array(32 * 32 * 32).fill(-1);
+
+  const nearest = (r: number, g: number, b: number) => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    if (cache[key] >= 0) return cache[key];
+    let best = 0;
+    let bestDistance = Infinity;
+    palette.forEach(([pr, pg, pb], i) => {
+      if (i === options.transparentIndex) return;
+      const distance = (pr - r) ** 2 * 2 + (pg - g) ** 2 * 4 + (pb - b) ** 2 * 3;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    });
+    cache[key] = best;
+    return best;
+  };
+
+  // Error diffusion rows (current and next), 3 channels each
+  let current = new Float32Array((width + 2) * 3);
+  let next = new Float32Array((width + 2) * 3);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const i = p * 4;
+      if (options.transparentIndex !== undefined && rgba[i + 3] < ALPHA_THRESHOLD) {
+        indices[p] = options.transparentIndex;
+        continue;
+      }
+
+      const e = (x + 1) * 3;
+      const r = Math.min(255, Math.max(0, rgba[i] + current[e]));
+      const g = Math.min(255, Math.max(0, rgba[i + 1] + current[e + 1]));
+      const b = Math.min(255, Math.max(0, rgba[i + 2] + current[e + 2]));
+      const index = nearest(Math.round(r), Math.round(g), Math.round(b));
+      indices[p] = index;
+
+      if (options.dither) {
+        const [pr, pg, pb] = palette[index];
+        const errors = [r - pr, g - pg, b - pb];
+        for (let c = 0; c < 3; c++) {
+          current[e + 3 + c] += (errors[c] * 7) / 16;
+          next[e - 3 + c] += (errors[c] * 3) / 16;
+          next[e + c] += (errors[c] * 5) / 16;
+          next[e + 3 + c] += errors[c] / 16;
+        }
+      }
+    }
+    [current, next] = [next, current];
+    next.fill(0);
+  }
+
+  return indices;
+}
+
+/**
+ * Whether any pixel is below the alpha threshold
+ */
+export function hasTransparency(rgba: Uint8ClampedArray): boolean {
+  for (let i = 3; i < rgba.length; i += 4) {
+    if (rgba[i] < ALPHA_THRESHOLD) return true;
+  }
+  return false;
+}
@@ -3,24 +3,83 @@
  */
 
 // Types
-export type { EncoderConfig } from "./encoder/types";
+export type { EncoderConfig, AudioEncoderConfig, AudioCodec } from "./encoder/types";
 
 // Timeline
 export { TimelineController } from "./timeline/TimelineController";
 export type { FrameState, ComputedEventState } from "./timeline/TimelineController";
+export {
+  computeEventProperties,
+  getVisibleEvents,
+  isEventVisible,
+  interpolateAnimation,
+  evaluateKeyframeTrack,
+  applyEasing,
+  easingFunctions,
+  EXIT_DURATION,
+} from "./timeline/evaluate";
+export type { EasingType } from "./timeline/evaluate";
+export { cubicBezier, steps, spring, resolveEasing, describeEasing } from "./timeline/easing";
+export type { EasingFunction } from "./timeline/easing";
+export {
+  migrateAnimationsToKeyframes,
+  upsertKeyframe,
+  setKeyframeTrack,
+  createDefaultTrack,
+} from "./timeline/keyframes";
 
 // Encoder
 export { VideoEncoderWrapper, DEFAULT_ENCODER_CONFIG } from "./encoder/VideoEncoder";
 export type { EncodedChunk } from "./encoder/VideoEncoder";
+export {
+  VIDEO_CODEC_OPTIONS,
+  buildCodecString,
+  describeVideoCodec,
+  findVideoCodecOption,
+  probeVideoCodecs,
+} from "./encoder/codecs";
+export type {
+  VideoContainer,
+  VideoCodecFamily,
+  VideoCodecOption,
+  CodecProbeResult,
+  CodecProbeTarget,
+} from "./encoder/codecs";
+
+export { AudioEncoderWrapper } from "./encoder/AudioEncoder";
+
+// Audio
+export { AudioMixer } from "./audio/AudioMixer";
 
 // Muxer
 export { VideoMuxer, createMuxer } from "./encoder/Muxer";
 export { WebmVideoMuxer } from "./encoder/WebmMuxer";
+export { MemorySink, FileSink } from "./encoder/MuxerSink";
+export type { MuxerSink } from "./encoder/MuxerSink";
 
 // Renderer
 export { FabricRenderer } from "./FabricRenderer";
+export type { RenderOutputSize } from "./FabricRenderer";
+
+// Live playback
+export { TimelinePlayer } from "./TimelinePlayer";
+export type { TimelinePlayerOptions } from "./TimelinePlayer";
+
+// Thumbnails
+export { renderProjectThumbnails, posterTime } from "./thumbnail";
+export type { ProjectThumbnails } from "./thumbnail";
 
 // Exporter
 export { VideoExporter } from "./VideoExporter";
 export type { ExportOptions, ExportProgress } from "./VideoExporter";
+export { WebCodecsExporter } from "./WebCodecsExporter";
+export { ExportControl, ExportCancelledError } from "./ExportControl";
+export type { ExportControlState } from "./ExportControl";
+export { AnimatedImageExporter } from "./AnimatedImageExporter";
+export type { AnimatedImageFormat, AnimatedImageExportOptions, PaletteMode } from "./AnimatedImageExporter";
+export { FrameSequenceExporter } from "./FrameSequenceExporter";
+export type { FrameSequenceExportOptions, StillFrameExportOptions } from "./FrameSequenceExporter";
+export { downloadBlob, exportFilename, canPickSaveFile, pickSaveFile } from "./download";
+export { PLATFORM_PRESETS, getPlatformPreset } from "./presets";
+export type { PlatformPreset } from "./presets";
 
@@ -0,0 +1,89 @@
+/**
+ * Offscreen - Lets Fabric run inside a Web Worker
+ * Workers have no DOM, so Fabric's environment gets a minimal document whose canvases are OffscreenCanvas
+ * objects with the few element methods Fabric touches (attributes, classList, style).
+ */
+
+import * as fabric from "fabric";
+
+type OffscreenCanvasElement = OffscreenCanvas & {
+  style: { cssText: string; [property: string]: string };
+  classList: { add(...tokens: string[]): void; remove(...tokens: string[]): void };
+  hasAttribute(name: string): boolean;
+  getAttribute(name: string): string | null;
+  setAttribute(name: string, value: string): void;
+  removeAttribute(name: string): void;
+};
+
+function createOffscreenCanvasElement(): OffscreenCanvasElement {
+  const canvas = new OffscreenCanvas(300, 150);
+  const attributes = new Map<string, string>();
+
+  return Object.assign(canvas, {
+    style: { cssText: "" },
+    classList: { add() {}, remove() {} },
+    hasAttribute: (name: string) => attributes.has(name),
+    getAttribute: (name: string) => attributes.get(name) ?? null,
+    setAttribute: (name: string, value: string) => {
+      // width/height attributes size the bitmap, as they do on <canvas>
+      if (name === "width") canvas.width = Number(value);
+      else if (name === "height") canvas.height = Number(value);
+      else attributes.set(name, value);
+    },
+    removeAttribute: (name: string) => {
+      attributes.delete(name);
+    },
+  });
+}
+
+export function isWorkerScope(): boolean {
+  return typeof document === "undefined" && typeof OffscreenCanvas !== "undefined";
+}
+
+let installed = false;
+
+/**
+ * Point Fabric at OffscreenCanvas-backed elements - call once in the worker before creating any canvas
+ */
+export function installOffscreenFabricEnv(): void {
+  if (installed) return;
+  installed = true;
+
+  const offscreenDocument = {
+    createElement: (tagName: string) => {
+      if (tagName !== "canvas") {
+        throw new Error(`<${tagName}> is not available in a worker`);
+      }
+      return createOffscreenCanvasElement();
+    },
+    getElementById: () => null,
+    documentElement: {},
+  };
+
+  fabric.config.configure({ devicePixelRatio: 1 });
+  fabric.setEnv({
+    document: offscreenDocument as unknown as Document,
+    window: self as unknown as Window & typeof globalThis,
+    isTouchSupported: false,
+    // Reporting no WebGL makes filters (blur) use Fabric's Canvas 2D backend
+    WebGLProbe: { GLPrecision: undefined, queryWebGL() {}, isSupported: () => false },
+    dispose() {},
+    copyPasteData: {},
+  });
+}
+
+/**
+ * Load an image as something Fabric can draw - <img> on the main thread, ImageBitmap in a worker
+ */
+export async function loadImageSource(url: string): Promise<HTMLImageElement> {
+  if (isWorkerScope()) {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    // Fabric only reads width/height and draws the source, which ImageBitmap supports
+    return (await createImageBitmap(await response.blob())) as unknown as HTMLImageElement;
+  }
+  const image = await fabric.FabricImage.fromURL(url, { crossOrigin: "anonymous" });
+  return image.getElement() as HTMLImageElement;
+}
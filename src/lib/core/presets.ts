@@ -0,0 +1,95 @@
+/**
+ * Export Presets - Output settings for common destination platforms
+ * Each preset renders the project scaled into its frame size (see FabricRenderer's RenderOutputSize)
+ */
+
+export interface PlatformPreset {
+  id: string;
+  label: string;
+  icon: string;
+  width: number;
+  height: number;
+  fps: number;
+  container: "mp4" | "webm";
+  codec: string;
+  bitrate: number;
+  /** Longest video the platform accepts, in seconds */
+  maxDuration?: number;
+}
+
+export const PLATFORM_PRESETS: PlatformPreset[] = [
+  {
+    id: "youtube-1080p",
+    label: "YouTube 1080p",
+    icon: "▶️",
+    width: 1920,
+    height: 1080,
+    fps: 30,
+    container: "mp4",
+    codec: "avc1.640028", // High, level 4.0
+    bitrate: 12_000_000,
+  },
+  {
+    id: "youtube-4k",
+    label: "YouTube 4K",
+    icon: "▶️",
+    width: 3840,
+    height: 2160,
+    fps: 30,
+    container: "mp4",
+    codec: "avc1.640033", // High, level 5.1 (required above 1080p)
+    bitrate: 45_000_000,
+  },
+  {
+    id: "instagram-reel",
+    label: "Instagram Reel",
+    icon: "📸",
+    width: 1080,
+    height: 1920,
+    fps: 30,
+    container: "mp4",
+    codec: "avc1.640028",
+    bitrate: 8_000_000,
+    maxDuration: 90,
+  },
+  {
+    id: "tiktok",
+    label: "TikTok",
+    icon: "🎵",
+    width: 1080,
+    height: 1920,
+    fps: 30,
+    container: "mp4",
+    codec: "avc1.640028",
+    bitrate: 10_000_000,
+    maxDuration: 600,
+  },
+  {
+    id: "twitter",
+    label: "X / Twitter",
+    icon: "🐦",
+    width: 1280,
+    height: 720,
+    fps: 30,
+    container: "mp4",
+    codec: "avc1.64001f", // High, level 3.1
+    bitrate: 6_000_000,
+    maxDuration: 140,
+  },
+  {
+    id: "linkedin-square",
+    label: "LinkedIn Square",
+    icon: "💼",
+    width: 1080,
+    height: 1080,
+    fps: 30,
+    container: "mp4",
+    codec: "avc1.640028",
+    bitrate: 8_000_000,
+    maxDuration: 600,
+  },
+];
+
+export function getPlatformPreset(id: string): PlatformPreset | undefined {
+  return PLATFORM_PRESETS.find((preset) => preset.id === id);
+}
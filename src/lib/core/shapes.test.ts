@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { lineEndpoints, regularPolygonPoints, shapeSize } from "./shapes";
+
+describe("shapeSize", () => {
+  it("gives ellipses a wide default box and other shapes a square one", () => {
+    expect(shapeSize({ shapeType: "ellipse" })).toEqual({ width: 100, height: 50 });
+    expect(shapeSize({ shapeType: "polygon" })).toEqual({ width: 100, height: 100 });
+    expect(shapeSize({ shapeType: "ellipse", width: 40, height: 80 })).toEqual({ width: 40, height: 80 });
+  });
+});
+
+describe("lineEndpoints", () => {
+  it("moves the line so its midpoint is at x/y", () => {
+    expect(lineEndpoints({ x: 200, y: 50, x1: 0, y1: 0, x2: 100, y2: 0 })).toEqual([150, 50, 250, 50]);
+  });
+});
+
+describe("regularPolygonPoints", () => {
+  it("starts at the top of the box", () => {
+    const [top, ...rest] = regularPolygonPoints(6, 100, 80);
+    expect(top.x).toBeCloseTo(0);
+    expect(top.y).toBeCloseTo(-40);
+    expect(rest).toHaveLength(5);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Shape geometry - Defaults and vertex math shared by the editor canvas (useCanvas) and FabricRenderer
+ * Both draw shapes from the same numbers, so the preview matches the export.
+ */
+
+import type { ShapeProperties } from "@/lib/schemas/timeline";
+
+export const DEFAULT_POLYGON_SIDES = 6;
+
+/**
+ * Width and height of a shape's box, for shapes saved without one
+ */
+export function shapeSize(props: Pick<ShapeProperties, "shapeType" | "width" | "height">): {
+  width: number;
+  height: number;
+} {
+  return {
+    width: props.width || 100,
+    // Ellipses start wider than they are tall, so they don't look like circles
+    height: props.height || (props.shapeType === "ellipse" ? 50 : 100),
+  };
+}
+
+/**
+ * Line/arrow endpoints, translated so their midpoint follows the (animated) x/y position
+ */
+export function lineEndpoints(
+  props: Pick<ShapeProperties, "x" | "y" | "x1" | "y1" | "x2" | "y2">
+): [number, number, number, number] {
+  const x1 = props.x1 ?? 0;
+  const y1 = props.y1 ?? 0;
+  const x2 = props.x2 ?? 100;
+  const y2 = props.y2 ?? 0;
+  const dx = (props.x ?? (x1 + x2) / 2) - (x1 + x2) / 2;
+  const dy = (props.y ?? (y1 + y2) / 2) - (y1 + y2) / 2;
+  return [x1 + dx, y1 + dy, x2 + dx, y2 + dy];
+}
+
+/**
+ * Vertices of a regular polygon inscribed in a width x height box, first vertex at the top
+ */
+export function regularPolygonPoints(sides: number, width: number, height: number): { x: number; y: number }[] {
+  const count = Math.max(3, Math.round(sides));
+  return Array.from({ length: count }, (_, i) => {
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / count;
+    return { x: (Math.cos(angle) * width) / 2, y: (Math.sin(angle) * height) / 2 };
+  });
+}
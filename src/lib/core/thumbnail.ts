@@ -0,0 +1,88 @@
+/**
+ * Thumbnails - Poster frame and hover preview strip for the dashboard, rendered in the browser on save
+ * Frames come from the shared FabricRenderer at a small output size and are encoded as WebP
+ * (JPEG in browsers that can't encode WebP, e.g. Safari).
+ */
+
+import type { VideoProject } from "@/lib/schemas/timeline";
+import { PREVIEW_FRAME_COUNT } from "@/lib/types/project";
+import { TimelineController } from "./timeline/TimelineController";
+import { FabricRenderer } from "./FabricRenderer";
+
+export interface ProjectThumbnails {
+  /** Poster frame as a data URL */
+  thumbnail: string;
+  /** PREVIEW_FRAME_COUNT frames side by side, as a data URL */
+  previewStrip: string;
+}
+
+const THUMBNAIL_WIDTH = 480;
+const PREVIEW_FRAME_WIDTH = 240;
+const IMAGE_QUALITY = 0.8;
+
+/**
+ * The project's poster frame time - thumbnailTime when set, otherwise the midpoint
+ */
+export function posterTime(project: VideoProject): number {
+  const time = project.thumbnailTime ?? project.duration / 2;
+  return Math.max(0, Math.min(time, project.duration));
+}
+
+function encodeImage(canvas: HTMLCanvasElement): string {
+  const webp = canvas.toDataURL("image/webp", IMAGE_QUALITY);
+  return webp.startsWith("data:image/webp") ? webp : canvas.toDataURL("image/jpeg", IMAGE_QUALITY);
+}
+
+/**
+ * Render frames at `times` at the given width; `draw` receives the renderer canvas after each one
+ */
+async function renderFrames(
+  project: VideoProject,
+  width: number,
+  times: number[],
+  draw: (canvas: HTMLCanvasElement, index: number) => void
+): Promise<void> {
+  const height = Math.max(1, Math.round((width * project.height) / project.width));
+  const controller = new TimelineController(project);
+  const renderer = new FabricRenderer(project, { width, height });
+
+  try {
+    await renderer.initialize();
+    const canvas = renderer.getCanvas();
+    if (!canvas) {
+      throw new Error("Renderer canvas unavailable");
+    }
+    times.forEach((time, index) => {
+      renderer.renderFrame(controller.getStateAtTime(time));
+      draw(canvas, index);
+    });
+  } finally {
+    renderer.destroy();
+  }
+}
+
+export async function renderProjectThumbnails(project: VideoProject): Promise<ProjectThumbnails> {
+  let thumbnail = "";
+  await renderFrames(project, THUMBNAIL_WIDTH, [posterTime(project)], (canvas) => {
+    thumbnail = encodeImage(canvas);
+  });
+
+  // Preview frames are spread evenly, each taken from the middle of its slice of the project
+  const frameHeight = Math.max(1, Math.round((PREVIEW_FRAME_WIDTH * project.height) / project.width));
+  const strip = document.createElement("canvas");
+  strip.width = PREVIEW_FRAME_WIDTH * PREVIEW_FRAME_COUNT;
+  strip.height = frameHeight;
+  const context = strip.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas 2D context unavailable");
+  }
+  const times = Array.from(
+    { length: PREVIEW_FRAME_COUNT },
+    (_, i) => ((i + 0.5) / PREVIEW_FRAME_COUNT) * project.duration
+  );
+  await renderFrames(project, PREVIEW_FRAME_WIDTH, times, (canvas, index) => {
+    context.drawImage(canvas, index * PREVIEW_FRAME_WIDTH, 0);
+  });
+
+  return { thumbnail, previewStrip: encodeImage(strip) };
+}
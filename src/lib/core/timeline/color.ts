@@ -0,0 +1,291 @@
+/**
+ * Color interpolation - Parse CSS colors and tween them in sRGB, linear-light or OKLCH space
+ * Also interpolates gradients stop by stop
+ */
+
+import type { ColorSpace, Gradient } from "@/lib/schemas/timeline";
+
+/**
+ * RGBA color with all channels in 0..1 (sRGB, not premultiplied)
+ */
+export interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+// CSS named colors (CSS Color Module Level 4)
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: "f0f8ff", antiquewhite: "faebd7", aqua: "00ffff", aquamarine: "7fffd4", azure: "f0ffff",
+  beige: "f5f5dc", bisque: "ffe4c4", black: "000000", blanchedalmond: "ffebcd", blue: "0000ff",
+  blueviolet: "8a2be2", brown: "a52a2a", burlywood: "deb887", cadetblue: "5f9ea0", chartreuse: "7fff00",
+  chocolate: "d2691e", coral: "ff7f50", cornflowerblue: "6495ed", cornsilk: "fff8dc", crimson: "dc143c",
+  cyan: "00ffff", darkblue: "00008b", darkcyan: "008b8b", darkgoldenrod: "b8860b", darkgray: "a9a9a9",
+  darkgreen: "006400", darkgrey: "a9a9a9", darkkhaki: "bdb76b", darkmagenta: "8b008b", darkolivegreen: "556b2f",
+  darkorange: "ff8c00", darkorchid: "9932cc", darkred: "8b0000", darksalmon: "e9967a", darkseagreen: "8fbc8f",
+  darkslateblue: "483d8b", darkslategray: "2f4f4f", darkslategrey: "2f4f4f", darkturquoise: "00ced1", darkviolet: "9400d3",
+  deeppink: "ff1493", deepskyblue: "00bfff", dimgray: "696969", dimgrey: "696969", dodgerblue: "1e90ff",
+  firebrick: "b22222", floralwhite: "fffaf0", forestgreen: "228b22", fuchsia: "ff00ff", gainsboro: "dcdcdc",
+  ghostwhite: "f8f8ff", gold: "ffd700", goldenrod: "daa520", gray: "808080", green: "008000",
+  greenyellow: "adff2f", grey: "808080", honeydew: "f0fff0", hotpink: "ff69b4", indianred: "cd5c5c",
+  indigo: "4b0082", ivory: "fffff0", khaki: "f0e68c", lavender: "e6e6fa", lavenderblush: "fff0f5",
+  lawngreen: "7cfc00", lemonchiffon: "fffacd", lightblue: "add8e6", lightcoral: "f08080", lightcyan: "e0ffff",
+  lightgoldenrodyellow: "fafad2", lightgray: "d3d3d3", lightgreen: "90ee90", lightgrey: "d3d3d3", lightpink: "ffb6c1",
+  lightsalmon: "ffa07a", lightseagreen: "20b2aa", lightskyblue: "87cefa", lightslategray: "778899", lightslategrey: "778899",
+  lightsteelblue: "b0c4de", lightyellow: "ffffe0", lime: "00ff00", limegreen: "32cd32", linen: "faf0e6",
+  magenta: "ff00ff", maroon: "800000", mediumaquamarine: "66cdaa", mediumblue: "0000cd", mediumorchid: "ba55d3",
+  mediumpurple: "9370db", mediumseagreen: "3cb371", mediumslateblue: "7b68ee", mediumspringgreen: "00fa9a", mediumturquoise: "48d1cc",
+  mediumvioletred: "c71585", midnightblue: "191970", mintcream: "f5fffa", mistyrose: "ffe4e1", moccasin: "ffe4b5",
+  navajowhite: "ffdead", navy: "000080", oldlace: "fdf5e6", olive: "808000", olivedrab: "6b8e23",
+  orange: "ffa500", orangered: "ff4500", orchid: "da70d6", palegoldenrod: "eee8aa", palegreen: "98fb98",
+  paleturquoise: "afeeee", palevioletred: "db7093", papayawhip: "ffefd5", peachpuff: "ffdab9", peru: "cd853f",
+  pink: "ffc0cb", plum: "dda0dd", powderblue: "b0e0e6", purple: "800080", rebeccapurple: "663399",
+  red: "ff0000", rosybrown: "bc8f8f", royalblue: "4169e1", saddlebrown: "8b4513", salmon: "fa8072",
+  sandybrown: "f4a460", seagreen: "2e8b57", seashell: "fff5ee", sienna: "a0522d", silver: "c0c0c0",
+  skyblue: "87ceeb", slateblue: "6a5acd", slategray: "708090", slategrey: "708090", snow: "fffafa",
+  springgreen: "00ff7f", steelblue: "4682b4", tan: "d2b48c", teal: "008080", thistle: "d8bfd8",
+  tomato: "ff6347", turquoise: "40e0d0", violet: "ee82ee", wheat: "f5deb3", white: "ffffff",
+  whitesmoke: "f5f5f5", yellow: "ffff00", yellowgreen: "9acd32",
+};
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+function parseHex(hex: string): RGBA | null {
+  if (!/^[0-9a-f]+$/i.test(hex)) return null;
+  if (hex.length === 3 || hex.length === 4) {
+    hex = hex.split("").map((c) => c + c).join("");
+  }
+  if (hex.length !== 6 && hex.length !== 8) return null;
+
+  const channel = (i: number) => parseInt(hex.slice(i, i + 2), 16) / 255;
+  return { r: channel(0), g: channel(2), b: channel(4), a: hex.length === 8 ? channel(6) : 1 };
+}
+
+// Parse "12", "50%" or "0.5" style function arguments
+function parseChannel(value: string, scale: number): number {
+  return value.endsWith("%") ? parseFloat(value) / 100 : parseFloat(value) / scale;
+}
+
+function parseHue(value: string): number {
+  const n = parseFloat(value);
+  if (value.endsWith("turn")) return n * 360;
+  if (value.endsWith("rad")) return (n * 180) / Math.PI;
+  if (value.endsWith("grad")) return n * 0.9;
+  return n;
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  h = ((h % 360) + 360) % 360;
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [f(0), f(8), f(4)];
+}
+
+/**
+ * Parse a CSS color (hex, rgb(a), hsl(a), named, transparent) - returns null for anything else
+ */
+export function parseColor(input: string): RGBA | null {
+  const value = input.trim().toLowerCase();
+
+  if (value === "transparent") return { r: 0, g: 0, b: 0, a: 0 };
+  if (value.startsWith("#")) return parseHex(value.slice(1));
+  if (NAMED_COLORS[value]) return parseHex(NAMED_COLORS[value]);
+
+  const match = value.match(/^(rgba?|hsla?)\(([^)]*)\)$/);
+  if (!match) return null;
+
+  // Accept both "1, 2, 3, 0.5" and "1 2 3 / 0.5"
+  const args = match[2].split(/[\s,/]+/).filter(Boolean);
+  if (args.length < 3) return null;
+  const alpha = args[3] !== undefined ? clamp01(parseChannel(args[3], 1)) : 1;
+
+  if (match[1].startsWith("rgb")) {
+    const [r, g, b] = args.slice(0, 3).map((arg) => clamp01(parseChannel(arg, 255)));
+    if ([r, g, b].some(isNaN)) return null;
+    return { r, g, b, a: alpha };
+  }
+
+  const h = parseHue(args[0]);
+  const s = clamp01(parseChannel(args[1], 100));
+  const l = clamp01(parseChannel(args[2], 100));
+  if ([h, s, l].some(isNaN)) return null;
+  const [r, g, b] = hslToRgb(h, s, l);
+  return { r, g, b, a: alpha };
+}
+
+/**
+ * Whether a string can be parsed as a color
+ */
+export function isColor(value: unknown): value is string {
+  return typeof value === "string" && parseColor(value) !== null;
+}
+
+/**
+ * Format as #rrggbb when opaque, rgba() otherwise
+ */
+export function formatColor({ r, g, b, a }: RGBA): string {
+  const to255 = (n: number) => Math.round(clamp01(n) * 255);
+  if (a >= 1) {
+    return "#" + [r, g, b].map((n) => to255(n).toString(16).padStart(2, "0")).join("");
+  }
+  return `rgba(${to255(r)}, ${to255(g)}, ${to255(b)}, ${Math.round(clamp01(a) * 1000) / 1000})`;
+}
+
+// sRGB transfer functions
+const toLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+const fromLinear = (c: number) => (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+
+// Linear sRGB <-> OKLab (Björn Ottosson's matrices)
+function linearToOklab(r: number, g: number, b: number): [number, number, number] {
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+}
+
+function oklabToLinear(L: number, a: number, b: number): [number, number, number] {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.291485548 * b, 3);
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ];
+}
+
+// Below this chroma the hue is meaningless (greys) and the other color's hue is used
+const ACHROMATIC_CHROMA = 1e-4;
+
+function interpolateOklch(from: RGBA, to: RGBA, t: number): RGBA {
+  const toLch = (c: RGBA) => {
+    const [L, a, b] = linearToOklab(toLinear(c.r), toLinear(c.g), toLinear(c.b));
+    return { L, C: Math.hypot(a, b), H: (Math.atan2(b, a) * 180) / Math.PI };
+  };
+  const p = toLch(from);
+  const q = toLch(to);
+
+  if (p.C < ACHROMATIC_CHROMA) p.H = q.H;
+  if (q.C < ACHROMATIC_CHROMA) q.H = p.H;
+
+  // Shortest way around the hue circle
+  let dH = q.H - p.H;
+  if (dH > 180) dH -= 360;
+  if (dH < -180) dH += 360;
+
+  const L = p.L + (q.L - p.L) * t;
+  const C = p.C + (q.C - p.C) * t;
+  const H = ((p.H + dH * t) * Math.PI) / 180;
+  const [r, g, b] = oklabToLinear(L, C * Math.cos(H), C * Math.sin(H));
+
+  return {
+    r: clamp01(fromLinear(r)),
+    g: clamp01(fromLinear(g)),
+    b: clamp01(fromLinear(b)),
+    a: from.a + (to.a - from.a) * t,
+  };
+}
+
+// Premultiplied so fading to/from transparent doesn't pass through a dark fringe
+function interpolateRgb(from: RGBA, to: RGBA, t: number, linear: boolean): RGBA {
+  const encode = linear ? toLinear : (c: number) => c;
+  const decode = linear ? fromLinear : (c: number) => c;
+  const a = from.a + (to.a - from.a) * t;
+  if (a <= 0) return { r: 0, g: 0, b: 0, a: 0 };
+
+  const channel = (c1: number, c2: number) =>
+    clamp01(decode((encode(c1) * from.a + (encode(c2) * to.a - encode(c1) * from.a) * t) / a));
+
+  return { r: channel(from.r, to.r), g: channel(from.g, to.g), b: channel(from.b, to.b), a };
+}
+
+/**
+ * Interpolate two CSS colors - returns null if either side isn't a color
+ */
+export function interpolateColor(
+  from: string,
+  to: string,
+  t: number,
+  colorSpace: ColorSpace = "srgb"
+): string | null {
+  const a = parseColor(from);
+  const b = parseColor(to);
+  if (!a || !b) return null;
+
+  const mixed =
+    colorSpace === "oklch" ? interpolateOklch(a, b, t) : interpolateRgb(a, b, t, colorSpace === "linear");
+  return formatColor(mixed);
+}
+
+/**
+ * Whether a value is a gradient object
+ */
+export function isGradient(value: unknown): value is Gradient {
+  return typeof value === "object" && value !== null && Array.isArray((value as Gradient).colors);
+}
+
+/**
+ * Stop offsets for a gradient (explicit `stops`, or evenly spaced)
+ */
+export function getGradientStops(gradient: Gradient): number[] {
+  const count = gradient.colors.length;
+  return gradient.colors.map((_, i) => gradient.stops?.[i] ?? (count > 1 ? i / (count - 1) : 0));
+}
+
+/**
+ * Interpolate two gradients stop by stop
+ *
+ * The shorter gradient is padded by repeating its last stop; the type switches at 50%.
+ */
+export function interpolateGradient(
+  from: Gradient,
+  to: Gradient,
+  t: number,
+  colorSpace: ColorSpace = "srgb"
+): Gradient {
+  const count = Math.max(from.colors.length, to.colors.length);
+  const fromStops = getGradientStops(from);
+  const toStops = getGradientStops(to);
+  const pick = <T>(list: T[], i: number) => list[Math.min(i, list.length - 1)];
+
+  const colors: string[] = [];
+  const stops: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const c1 = pick(from.colors, i) ?? "transparent";
+    const c2 = pick(to.colors, i) ?? "transparent";
+    colors.push(interpolateColor(c1, c2, t, colorSpace) ?? (t < 0.5 ? c1 : c2));
+    const s1 = pick(fromStops, i) ?? 0;
+    const s2 = pick(toStops, i) ?? 0;
+    stops.push(s1 + (s2 - s1) * t);
+  }
+
+  const fromAngle = from.angle ?? 0;
+  const toAngle = to.angle ?? 0;
+
+  return {
+    type: t < 0.5 ? from.type : to.type,
+    colors,
+    stops,
+    angle: fromAngle + (toAngle - fromAngle) * t,
+  };
+}
+
+/**
+ * CSS representation of a gradient (for UI swatches)
+ */
+export function gradientToCss(gradient: Gradient): string {
+  const stops = getGradientStops(gradient);
+  const colorStops = gradient.colors.map((color, i) => `${color} ${Math.round(stops[i] * 100)}%`).join(", ");
+  if (gradient.type === "radial") {
+    return `radial-gradient(circle, ${colorStops})`;
+  }
+  // Angle 0 runs left to right (CSS 0deg runs bottom to top)
+  return `linear-gradient(${(gradient.angle ?? 0) + 90}deg, ${colorStops})`;
+}
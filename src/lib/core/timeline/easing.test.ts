@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { cubicBezier, spring, steps } from "./easing";
+
+// Largest change between neighbouring frames of a 60 fps, 1 second segment
+function largestStep(fn: (t: number) => number): number {
+  let largest = 0;
+  for (let frame = 1; frame <= 60; frame++) {
+    largest = Math.max(largest, Math.abs(fn(frame / 60) - fn((frame - 1) / 60)));
+  }
+  return largest;
+}
+
+describe("spring", () => {
+  it("starts at 0 and ends at 1", () => {
+    const fn = spring({ stiffness: 100, damping: 10, mass: 1 });
+    expect(fn(0)).toBe(0);
+    expect(fn(1)).toBe(1);
+  });
+
+  it("approaches 1 continuously on the last frames", () => {
+    const fn = spring({ stiffness: 100, damping: 10, mass: 1 });
+    expect(fn(59 / 60)).toBeCloseTo(1, 2);
+  });
+
+  it("lands on the target without a jump when undamped", () => {
+    const fn = spring({ stiffness: 100, damping: 0, mass: 1 });
+    expect(Math.abs(1 - fn(1 - 1e-9))).toBeLessThan(1e-6);
+    expect(Math.abs(1 - fn(59 / 60))).toBeLessThan(0.01);
+  });
+
+  it("stays continuous for critically and over-damped springs", () => {
+    for (const damping of [20, 80]) {
+      const fn = spring({ stiffness: 100, damping, mass: 1 });
+      expect(fn(1 - 1e-9)).toBeCloseTo(1, 6);
+      expect(largestStep(fn)).toBeLessThan(0.5);
+    }
+  });
+});
+
+describe("cubicBezier", () => {
+  it("matches the CSS ease curve at its midpoint", () => {
+    expect(cubicBezier(0.25, 0.1, 0.25, 1)(0.5)).toBeCloseTo(0.8024, 3);
+  });
+});
+
+describe("steps", () => {
+  it("jumps at the end or the start of each step", () => {
+    expect(steps(4)(0.3)).toBe(0.25);
+    expect(steps(4, "start")(0.3)).toBe(0.5);
+  });
+});
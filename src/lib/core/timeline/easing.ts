@@ -0,0 +1,231 @@
+/**
+ * Easing curves - Named presets plus parametric cubic-bezier, steps and spring curves
+ * Every curve maps 0..1 progress to eased progress (elastic, back and spring may overshoot)
+ */
+
+import type {
+  CubicBezierEasing,
+  Easing,
+  NamedEasing,
+  SpringEasing,
+  StepsEasing,
+} from "@/lib/schemas/timeline";
+
+export type EasingFunction = (t: number) => number;
+
+/**
+ * Easing functions for the named presets
+ */
+export const easingFunctions: Record<NamedEasing, EasingFunction> = {
+  linear: (t) => t,
+  easeIn: (t) => t * t,
+  easeOut: (t) => t * (2 - t),
+  easeInOut: (t) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
+  bounce: (t) => {
+    if (t < 1 / 2.75) return 7.5625 * t * t;
+    if (t < 2 / 2.75) return 7.5625 * (t -= 1.5 / 2.75) * t + 0.75;
+    if (t < 2.5 / 2.75) return 7.5625 * (t -= 2.25 / 2.75) * t + 0.9375;
+    return 7.5625 * (t -= 2.625 / 2.75) * t + 0.984375;
+  },
+  elastic: (t) => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    return Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * ((2 * Math.PI) / 3)) + 1;
+  },
+  back: (t) => {
+    const c1 = 1.70158;
+    const c3 = c1 + 1;
+    return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2);
+  },
+};
+
+/**
+ * CSS-style cubic-bezier(x1, y1, x2, y2) with fixed endpoints (0,0) and (1,1)
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFunction {
+  if (x1 === y1 && x2 === y2) return easingFunctions.linear;
+
+  // Polynomial coefficients for x(s) and y(s)
+  const cx = 3 * x1;
+  const bx = 3 * (x2 - x1) - cx;
+  const ax = 1 - cx - bx;
+  const cy = 3 * y1;
+  const by = 3 * (y2 - y1) - cy;
+  const ay = 1 - cy - by;
+
+  const sampleX = (s: number) => ((ax * s + bx) * s + cx) * s;
+  const sampleY = (s: number) => ((ay * s + by) * s + cy) * s;
+  const sampleDerivativeX = (s: number) => (3 * ax * s + 2 * bx) * s + cx;
+
+  // Find the curve parameter s for a given x (Newton-Raphson, bisection fallback)
+  const solveX = (x: number) => {
+    let s = x;
+    for (let i = 0; i < 8; i++) {
+      const error = sampleX(s) - x;
+      if (Math.abs(error) < 1e-6) return s;
+      const derivative = sampleDerivativeX(s);
+      if (Math.abs(derivative) < 1e-6) break;
+      s -= error / derivative;
+    }
+
+    let lo = 0;
+    let hi = 1;
+    s = x;
+    for (let i = 0; i < 32; i++) {
+      const value = sampleX(s);
+      if (Math.abs(value - x) < 1e-6) break;
+      if (value < x) lo = s;
+      else hi = s;
+      s = (lo + hi) / 2;
+    }
+    return s;
+  };
+
+  return (t) => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    return sampleY(solveX(t));
+  };
+}
+
+/**
+ * CSS-style steps(n, jump-start | jump-end)
+ */
+export function steps(count: number, position: "start" | "end" = "end"): EasingFunction {
+  const n = Math.max(1, Math.round(count));
+  return (t) => {
+    if (t <= 0) return position === "start" ? 1 / n : 0;
+    if (t >= 1) return 1;
+    const step = Math.floor(t * n) + (position === "start" ? 1 : 0);
+    return Math.min(step, n) / n;
+  };
+}
+
+/**
+ * Longest physical time a spring is simulated for (undamped springs never settle)
+ */
+const MAX_SPRING_SECONDS = 10;
+const SPRING_REST_THRESHOLD = 1e-3;
+// Slowest decay allowed, so even an undamped spring has come to rest by MAX_SPRING_SECONDS
+const MIN_SPRING_DECAY = Math.log(1 / SPRING_REST_THRESHOLD) / MAX_SPRING_SECONDS;
+
+/**
+ * Damped harmonic oscillator released from 0 towards 1 with zero initial velocity
+ *
+ * The spring's physical settle time is stretched to the segment, so the motion always
+ * lands on the target exactly when the next keyframe is reached. Damping of 0 would swing forever,
+ * so the decay never drops below MIN_SPRING_DECAY.
+ */
+export function spring({ stiffness, damping, mass }: Omit<SpringEasing, "type">): EasingFunction {
+  const k = Math.max(stiffness, 1e-6);
+  const m = Math.max(mass, 1e-6);
+  const omega0 = Math.sqrt(k / m);
+  const zeta = Math.max(damping, 0) / (2 * Math.sqrt(k * m));
+
+  let position: (time: number) => number;
+  let settleTime: number;
+
+  if (zeta < 1) {
+    // Underdamped - oscillates around the target
+    const omegaD = omega0 * Math.sqrt(1 - zeta * zeta);
+    const decay = Math.max(zeta * omega0, MIN_SPRING_DECAY);
+    position = (time) =>
+      1 - Math.exp(-decay * time) * (Math.cos(omegaD * time) + (decay / omegaD) * Math.sin(omegaD * time));
+    const amplitude = Math.sqrt(1 + (decay / omegaD) ** 2);
+    settleTime = Math.log(amplitude / SPRING_REST_THRESHOLD) / decay;
+  } else {
+    if (zeta === 1) {
+      // Critically damped
+      position = (time) => 1 - Math.exp(-omega0 * time) * (1 + omega0 * time);
+    } else {
+      // Overdamped
+      const root = Math.sqrt(zeta * zeta - 1);
+      const r1 = -omega0 * (zeta - root);
+      const r2 = -omega0 * (zeta + root);
+      position = (time) => 1 - (r2 * Math.exp(r1 * time) - r1 * Math.exp(r2 * time)) / (r2 - r1);
+    }
+    // Monotonic approach - step until within the rest threshold
+    settleTime = MAX_SPRING_SECONDS;
+    for (let time = 0; time <= MAX_SPRING_SECONDS; time += 1 / 120) {
+      if (1 - position(time) < SPRING_REST_THRESHOLD) {
+        settleTime = time;
+        break;
+      }
+    }
+  }
+
+  const duration = Math.min(Math.max(settleTime, 1e-3), MAX_SPRING_SECONDS);
+  // What is left to travel at the end of the simulation, spread over the segment instead of
+  // jumping on the last frame
+  const residual = 1 - position(duration);
+
+  return (t) => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    return position(t * duration) + residual * t;
+  };
+}
+
+/**
+ * Default parameters used when switching a keyframe to a parametric curve
+ */
+export const DEFAULT_CUBIC_BEZIER: CubicBezierEasing = { type: "cubicBezier", x1: 0.25, y1: 0.1, x2: 0.25, y2: 1 };
+export const DEFAULT_STEPS: StepsEasing = { type: "steps", steps: 4, position: "end" };
+export const DEFAULT_SPRING: SpringEasing = { type: "spring", stiffness: 100, damping: 10, mass: 1 };
+
+// Parametric curves are rebuilt on every frame otherwise (spring settle time search, etc.)
+const resolvedCache = new Map<string, EasingFunction>();
+const MAX_CACHED_CURVES = 256;
+
+function buildEasing(easing: Exclude<Easing, NamedEasing>): EasingFunction {
+  switch (easing.type) {
+    case "cubicBezier":
+      return cubicBezier(easing.x1, easing.y1, easing.x2, easing.y2);
+    case "steps":
+      return steps(easing.steps, easing.position);
+    case "spring":
+      return spring(easing);
+  }
+}
+
+/**
+ * Resolve an easing (named or parametric) to a function (unknown values fall back to linear)
+ */
+export function resolveEasing(easing: Easing | string | undefined): EasingFunction {
+  if (!easing) return easingFunctions.linear;
+  if (typeof easing === "string") {
+    return easingFunctions[easing as NamedEasing] || easingFunctions.linear;
+  }
+
+  const key = JSON.stringify(easing);
+  let fn = resolvedCache.get(key);
+  if (!fn) {
+    fn = buildEasing(easing) || easingFunctions.linear;
+    if (resolvedCache.size >= MAX_CACHED_CURVES) resolvedCache.clear();
+    resolvedCache.set(key, fn);
+  }
+  return fn;
+}
+
+/**
+ * Apply an easing to a 0..1 progress value
+ */
+export function applyEasing(easing: Easing | string | undefined, t: number): number {
+  return resolveEasing(easing)(t);
+}
+
+/**
+ * Short human readable label, e.g. "easeOut" or "cubic-bezier(0.25, 0.1, 0.25, 1)"
+ */
+export function describeEasing(easing: Easing | undefined): string {
+  if (!easing) return "linear";
+  if (typeof easing === "string") return easing;
+  switch (easing.type) {
+    case "cubicBezier":
+      return `cubic-bezier(${easing.x1}, ${easing.y1}, ${easing.x2}, ${easing.y2})`;
+    case "steps":
+      return `steps(${easing.steps}, ${easing.position ?? "end"})`;
+    case "spring":
+      return `spring(${easing.stiffness}, ${easing.damping}, ${easing.mass})`;
+  }
+}
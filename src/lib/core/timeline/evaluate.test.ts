@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import type { KeyframeTrack, TimelineEvent, Transition } from "@/lib/schemas/timeline";
+import { EXIT_DURATION, TRANSITION_MAX_BLUR, applyTransitions, computeEventProperties, evaluateKeyframeTrack } from "./evaluate";
+
+const FPS = 30;
+const STAGE = { width: 1000, height: 500 };
+
+// Frame times 0, 1/30 ... up to `seconds`
+const frames = (seconds: number) => Array.from({ length: Math.round(seconds * FPS) + 1 }, (_, i) => i / FPS);
+
+function textEvent(overrides: Partial<TimelineEvent> = {}): TimelineEvent {
+  return {
+    id: "title",
+    type: "text",
+    startTime: 0,
+    duration: 3,
+    layer: 0,
+    properties: {
+      text: "Hello",
+      fontSize: 48,
+      fontFamily: "Inter",
+      fontWeight: "normal",
+      fontStyle: "normal",
+      fill: "#ffffff",
+      textAlign: "center",
+      opacity: 1,
+      x: 100,
+      y: 50,
+      rotation: 0,
+    },
+    ...overrides,
+  } as TimelineEvent;
+}
+
+function transition(type: Transition["type"], duration = 1): Transition {
+  return { type, duration, easing: "linear" };
+}
+
+describe("evaluateKeyframeTrack", () => {
+  const track: KeyframeTrack = [
+    { time: 0, value: 0, easing: "linear" },
+    { time: 1, value: 100, easing: "easeIn" },
+    { time: 2, value: 0 },
+  ];
+
+  it("is undefined for an empty track", () => {
+    expect(evaluateKeyframeTrack([], 0.5)).toBeUndefined();
+  });
+
+  it("interpolates linearly frame by frame", () => {
+    for (const time of frames(1)) {
+      expect(evaluateKeyframeTrack(track, time)).toBeCloseTo(time * 100, 6);
+    }
+  });
+
+  it("eases each segment with the curve of its first keyframe", () => {
+    for (const time of frames(1)) {
+      expect(evaluateKeyframeTrack(track, 1 + time)).toBeCloseTo(100 - 100 * time * time, 6);
+    }
+  });
+
+  it("holds the first and last values outside the track", () => {
+    expect(evaluateKeyframeTrack(track, -1)).toBe(0);
+    expect(evaluateKeyframeTrack(track, 5)).toBe(0);
+  });
+
+  it("sorts keyframes by time", () => {
+    const shuffled: KeyframeTrack = [track[2], track[0], track[1]];
+    expect(evaluateKeyframeTrack(shuffled, 0.5)).toBeCloseTo(50, 6);
+  });
+
+  it("switches non-color strings at the midpoint", () => {
+    const labels: KeyframeTrack = [
+      { time: 0, value: "left" },
+      { time: 1, value: "right" },
+    ];
+    expect(evaluateKeyframeTrack(labels, 0.49)).toBe("left");
+    expect(evaluateKeyframeTrack(labels, 0.5)).toBe("right");
+  });
+});
+
+describe("computeEventProperties", () => {
+  it("drives keyframed properties from the event start", () => {
+    const event = textEvent({
+      startTime: 1,
+      keyframes: {
+        x: [
+          { time: 0, value: 0, easing: "linear" },
+          { time: 2, value: 600 },
+        ],
+      },
+      exitTransition: transition("none"),
+    });
+
+    for (const time of frames(2)) {
+      expect(computeEventProperties(event, 1 + time, STAGE).x).toBeCloseTo(time * 300, 6);
+    }
+  });
+
+  it("lets keyframes override a legacy animation of the same property", () => {
+    const event = textEvent({
+      animations: [{ property: "x", from: 0, to: 1000, duration: 1 }],
+      keyframes: { x: [{ time: 0, value: 42 }] },
+    });
+    expect(computeEventProperties(event, 0.5, STAGE).x).toBe(42);
+  });
+
+  it("plays legacy animations when there is no track", () => {
+    const event = textEvent({ animations: [{ property: "y", from: 0, to: 90, duration: 1, easing: "linear" }] });
+    for (const time of frames(1)) {
+      expect(computeEventProperties(event, time, STAGE).y).toBeCloseTo(time * 90, 6);
+    }
+  });
+
+  it("applies the automatic smooth exit over the last EXIT_DURATION seconds", () => {
+    const event = textEvent();
+    const exitStart = event.duration - EXIT_DURATION;
+
+    expect(computeEventProperties(event, exitStart - 1 / FPS, STAGE)).toMatchObject({ opacity: 1 });
+    for (const time of frames(EXIT_DURATION).slice(0, -1)) {
+      const progress = time / EXIT_DURATION;
+      const properties = computeEventProperties(event, exitStart + time, STAGE);
+      expect(properties.opacity).toBeCloseTo(1 - progress * progress, 6);
+      expect(properties.scale).toBeCloseTo(1 - progress * progress * 0.1, 6);
+    }
+  });
+
+  it("skips the smooth exit when opacity is animated", () => {
+    const event = textEvent({ keyframes: { opacity: [{ time: 0, value: 0.5 }] } });
+    expect(computeEventProperties(event, 2.9, STAGE).opacity).toBe(0.5);
+  });
+
+  it("doesn't change the event", () => {
+    const event = textEvent({ transition: transition("fade") });
+    computeEventProperties(event, 0.5, STAGE);
+    expect((event.properties as { opacity: number }).opacity).toBe(1);
+  });
+});
+
+describe("applyTransitions", () => {
+  const at = (event: TimelineEvent, localTime: number) => {
+    const properties = { ...event.properties } as Record<string, unknown>;
+    applyTransitions(properties, event, localTime, STAGE);
+    return properties;
+  };
+
+  it("fades in frame by frame and leaves the rest of the event alone", () => {
+    const event = textEvent({ transition: transition("fade") });
+    for (const time of frames(1).slice(0, -1)) {
+      expect(at(event, time).opacity).toBeCloseTo(time, 6);
+    }
+    expect(at(event, 1).opacity).toBe(1);
+    expect(at(event, 1.5).opacity).toBe(1);
+  });
+
+  it("fades out towards the end", () => {
+    const event = textEvent({ exitTransition: transition("fade") });
+    for (const time of frames(1).slice(1)) {
+      expect(at(event, event.duration - time).opacity).toBeCloseTo(Math.min(time, 1), 6);
+    }
+  });
+
+  it("slides in from the right and out to the left", () => {
+    const event = textEvent({ transition: transition("slideLeft"), exitTransition: transition("slideLeft") });
+    for (const time of frames(1).slice(0, -1)) {
+      expect(at(event, time).x).toBeCloseTo(100 + (1 - time) * STAGE.width, 6);
+      expect(at(event, event.duration - time).x).toBeCloseTo(100 - (1 - time) * STAGE.width, 6);
+    }
+  });
+
+  it("slides vertically by the stage height", () => {
+    const event = textEvent({ transition: transition("slideDown") });
+    expect(at(event, 0.5).y).toBeCloseTo(50 - 0.5 * STAGE.height, 6);
+  });
+
+  it("scales up from nothing", () => {
+    const event = textEvent({ transition: transition("scale", 0.5) });
+    expect(at(event, 0).scale).toBe(0);
+    expect(at(event, 0.25).scale).toBeCloseTo(0.5, 6);
+  });
+
+  it("blurs while fading", () => {
+    const event = textEvent({ transition: transition("blur") });
+    const properties = at(event, 0.25);
+    expect(properties.opacity).toBeCloseTo(0.25, 6);
+    expect(properties.blur).toBeCloseTo(0.75 * TRANSITION_MAX_BLUR, 6);
+  });
+
+  it("eases the transition progress", () => {
+    const event = textEvent({ transition: { type: "fade", duration: 1, easing: "easeIn" } });
+    expect(at(event, 0.5).opacity).toBeCloseTo(0.25, 6);
+  });
+
+  it("ignores none and zero-length transitions", () => {
+    const event = textEvent({ transition: transition("none"), exitTransition: transition("fade", 0) });
+    expect(at(event, 0)).toEqual(event.properties);
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Frame evaluation - Pure, DOM-free computation of event state at a point in time
+ * Shared by the editor preview (useCanvas), TimelineController/FabricRenderer and all exporters
+ * so that what is previewed is exactly what is exported
+ */
+
+import type {
+  Animation,
+  AnimationValue,
+  ColorSpace,
+  Easing,
+  KeyframeTrack,
+  TimelineEvent,
+  Transition,
+} from "@/lib/schemas/timeline";
+import { applyEasing } from "./easing";
+import { interpolateColor, interpolateGradient, isGradient } from "./color";
+
+export type EasingType = Easing;
+
+export { applyEasing, easingFunctions, resolveEasing } from "./easing";
+
+/**
+ * Length of the automatic "smooth exit" (fade + slight scale down) at the end of each event
+ */
+export const EXIT_DURATION = 0.8; // seconds
+
+/**
+ * Blur amount (Fabric Blur filter units, fraction of the object size) at the start of a blur transition
+ */
+export const TRANSITION_MAX_BLUR = 0.25;
+
+/**
+ * Canvas size used to compute slide distances
+ */
+export interface StageSize {
+  width: number;
+  height: number;
+}
+
+const DEFAULT_STAGE: StageSize = { width: 1920, height: 1080 };
+
+/**
+ * Interpolate between two values at an eased 0..1 progress
+ * Numbers are lerped, colors and gradients are mixed in the given color space
+ */
+export function interpolateValue(
+  from: AnimationValue,
+  to: AnimationValue,
+  easedProgress: number,
+  progress: number = easedProgress,
+  colorSpace?: ColorSpace
+): AnimationValue {
+  // Handle numeric interpolation
+  if (typeof from === "number" && typeof to === "number") {
+    return from + (to - from) * easedProgress;
+  }
+
+  if (typeof from === "string" && typeof to === "string") {
+    const color = interpolateColor(from, to, easedProgress, colorSpace);
+    if (color !== null) return color;
+  }
+
+  if (isGradient(from) && isGradient(to)) {
+    return interpolateGradient(from, to, easedProgress, colorSpace);
+  }
+
+  // For other strings (or mismatched types), return based on progress
+  return progress < 0.5 ? from : to;
+}
+
+/**
+ * Interpolate an animation value at a specific event-local time
+ */
+export function interpolateAnimation(
+  animation: Animation,
+  localTime: number,
+  eventDuration: number
+): AnimationValue {
+  const animDuration = animation.duration ?? eventDuration;
+  const startTime = animation.delay ?? animation.startTime ?? 0;
+
+  if (localTime < startTime) {
+    return animation.from;
+  }
+
+  if (localTime >= startTime + animDuration || animDuration <= 0) {
+    return animation.to;
+  }
+
+  const progress = (localTime - startTime) / animDuration;
+  const easedProgress = applyEasing(animation.easing, progress);
+
+  return interpolateValue(animation.from, animation.to, easedProgress, progress, animation.colorSpace);
+}
+
+/**
+ * Evaluate a keyframe track at a specific event-local time
+ * Holds the first value before the first keyframe and the last value after the last one
+ */
+export function evaluateKeyframeTrack(
+  track: KeyframeTrack,
+  localTime: number
+): AnimationValue | undefined {
+  if (track.length === 0) return undefined;
+
+  const keyframes = [...track].sort((a, b) => a.time - b.time);
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+
+  if (localTime <= first.time) return first.value;
+  if (localTime >= last.time) return last.value;
+
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const current = keyframes[i];
+    const next = keyframes[i + 1];
+    if (localTime >= current.time && localTime < next.time) {
+      const span = next.time - current.time;
+      const progress = span > 0 ? (localTime - current.time) / span : 1;
+      const easedProgress = applyEasing(current.easing, progress);
+      return interpolateValue(current.value, next.value, easedProgress, progress, current.colorSpace);
+    }
+  }
+
+  return last.value;
+}
+
+/**
+ * Whether an event is on screen at the given time (start inclusive, end exclusive)
+ */
+export function isEventVisible(event: TimelineEvent, time: number): boolean {
+  return time >= event.startTime && time < event.startTime + event.duration;
+}
+
+function isBackgroundEvent(event: TimelineEvent): boolean {
+  const id = event.id.toLowerCase();
+  return event.type === "background" || id.includes("bg") || id.includes("background");
+}
+
+/**
+ * Events visible at the given time, in draw order (bottom first)
+ */
+export function getVisibleEvents(events: TimelineEvent[], time: number): TimelineEvent[] {
+  return events
+    .filter((event) => isEventVisible(event, time))
+    .sort((a, b) => {
+      if (a.layer !== b.layer) return a.layer - b.layer;
+      // If layers are equal, prioritize background elements to be drawn first (at the bottom)
+      const isABg = isBackgroundEvent(a);
+      const isBBg = isBackgroundEvent(b);
+      if (isABg && !isBBg) return -1;
+      if (!isABg && isBBg) return 1;
+      return 0;
+    });
+}
+
+/**
+ * Apply one transition at a 0..1 visibility factor (0 = fully out, 1 = at rest)
+ * `direction` is 1 when entering and -1 when exiting, so slides leave the way they point
+ */
+function applyTransition(
+  properties: Record<string, unknown>,
+  transition: Transition,
+  visibility: number,
+  direction: 1 | -1,
+  stage: StageSize
+): void {
+  const hidden = 1 - visibility;
+
+  switch (transition.type) {
+    case "fade":
+      properties.opacity = ((properties.opacity as number) ?? 1) * visibility;
+      break;
+    case "scale":
+      properties.scale = ((properties.scale as number) ?? 1) * visibility;
+      break;
+    case "blur":
+      properties.opacity = ((properties.opacity as number) ?? 1) * visibility;
+      properties.blur = Math.max((properties.blur as number) ?? 0, hidden * TRANSITION_MAX_BLUR);
+      break;
+    // slideLeft moves right-to-left: enters from the right, exits to the left
+    case "slideLeft":
+    case "slideRight":
+    case "slideUp":
+    case "slideDown": {
+      const sign = transition.type === "slideLeft" || transition.type === "slideUp" ? 1 : -1;
+      const horizontal = transition.type === "slideLeft" || transition.type === "slideRight";
+      const key = horizontal ? "x" : "y";
+      if (typeof properties[key] !== "number") break;
+      const distance = horizontal ? stage.width : stage.height;
+      properties[key] = (properties[key] as number) + sign * direction * hidden * distance;
+      break;
+    }
+  }
+}
+
+/**
+ * Enter/exit transitions (`transition` / `exitTransition`) at an event-local time
+ */
+export function applyTransitions(
+  properties: Record<string, unknown>,
+  event: TimelineEvent,
+  localTime: number,
+  stage: StageSize
+): void {
+  const enter = event.transition;
+  if (enter && enter.type !== "none" && enter.duration > 0 && localTime < enter.duration) {
+    const progress = Math.min(Math.max(localTime / enter.duration, 0), 1);
+    applyTransition(properties, enter, applyEasing(enter.easing, progress), 1, stage);
+  }
+
+  const exit = event.exitTransition;
+  const timeUntilEnd = event.duration - localTime;
+  if (exit && exit.type !== "none" && exit.duration > 0 && timeUntilEnd < exit.duration) {
+    const progress = Math.min(Math.max(timeUntilEnd / exit.duration, 0), 1);
+    applyTransition(properties, exit, applyEasing(exit.easing, progress), -1, stage);
+  }
+}
+
+/**
+ * Compute animated properties for an event at a specific (project) time
+ * `stage` is the project size, used for slide transitions
+ */
+export function computeEventProperties(
+  event: TimelineEvent,
+  time: number,
+  stage: StageSize = DEFAULT_STAGE
+): Record<string, unknown> {
+  const properties = { ...event.properties } as Record<string, unknown>;
+  const localTime = time - event.startTime;
+
+  if (event.animations && event.animations.length > 0) {
+    for (const animation of event.animations) {
+      properties[animation.property] = interpolateAnimation(
+        animation,
+        localTime,
+        event.duration
+      );
+    }
+  }
+
+  // Keyframe tracks take precedence over legacy animations for the same property
+  if (event.keyframes) {
+    for (const [property, track] of Object.entries(event.keyframes)) {
+      const value = track ? evaluateKeyframeTrack(track, localTime) : undefined;
+      if (value !== undefined) {
+        properties[property] = value;
+      }
+    }
+  }
+
+  applyTransitions(properties, event, localTime, stage);
+
+  // Only apply smooth exit effect if no explicit opacity animation or exit transition exists
+  const hasOpacityAnimation =
+    event.animations?.some((anim) => anim.property === "opacity") ||
+    (event.keyframes?.opacity?.length ?? 0) > 0;
+  const hasExitTransition = !!event.exitTransition && event.exitTransition.type !== "none";
+
+  if (!hasOpacityAnimation && !hasExitTransition) {
+    const timeUntilEnd = event.duration - localTime;
+
+    if (timeUntilEnd <= EXIT_DURATION && timeUntilEnd > 0) {
+      // Calculate exit progress (0 = just started exit, 1 = fully exited)
+      const exitProgress = 1 - timeUntilEnd / EXIT_DURATION;
+      // Apply easeIn for smooth exit
+      const easedExitProgress = exitProgress * exitProgress;
+
+      // Fade out opacity
+      const currentOpacity = (properties.opacity as number) ?? 1;
+      properties.opacity = currentOpacity * (1 - easedExitProgress);
+
+      // Slight scale down for more professional look
+      const currentScale = (properties.scale as number) ?? 1;
+      properties.scale = currentScale * (1 - easedExitProgress * 0.1);
+    }
+  }
+
+  return properties;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import type { Animation, TimelineEvent } from "@/lib/schemas/timeline";
+import { migrateAnimationsToKeyframes, upsertKeyframe } from "./keyframes";
+import { computeEventProperties } from "./evaluate";
+
+function eventWith(animations: Animation[]): TimelineEvent {
+  return {
+    id: "box",
+    type: "shape",
+    startTime: 0,
+    duration: 4,
+    layer: 0,
+    properties: { shapeType: "rect", x: 0, y: 0, fill: "#ffffff", opacity: 1, rotation: 0 },
+    animations,
+    // No automatic smooth exit, so only the animations move x
+    exitTransition: { type: "none", duration: 0, easing: "linear" },
+  } as TimelineEvent;
+}
+
+const slideIn: Animation = { property: "x", from: 0, to: 100, duration: 1, easing: "easeIn" };
+const slideOut: Animation = { property: "x", from: 100, to: 300, delay: 1, duration: 1, easing: "easeOut" };
+
+describe("upsertKeyframe", () => {
+  it("replaces a keyframe at the same time and keeps its easing when none is given", () => {
+    const track = upsertKeyframe([{ time: 1, value: 5, easing: "bounce" }], { time: 1, value: 7 });
+    expect(track).toEqual([{ time: 1, value: 7, easing: "bounce" }]);
+  });
+});
+
+describe("migrateAnimationsToKeyframes", () => {
+  it("chains back-to-back animations into one track", () => {
+    const { keyframes, animations } = migrateAnimationsToKeyframes(eventWith([slideIn, slideOut]));
+    expect(animations).toEqual([]);
+    expect(keyframes?.x).toEqual([
+      { time: 0, value: 0, easing: "easeIn" },
+      { time: 1, value: 100, easing: "easeOut" },
+      { time: 2, value: 300 },
+    ]);
+  });
+
+  it("gives the same track whatever order the animations are in", () => {
+    const inOrder = migrateAnimationsToKeyframes(eventWith([slideIn, slideOut]));
+    const reversed = migrateAnimationsToKeyframes(eventWith([slideOut, slideIn]));
+    expect(reversed.keyframes).toEqual(inOrder.keyframes);
+  });
+
+  it("keeps the easing of the animation starting where another ends", () => {
+    const migrated = migrateAnimationsToKeyframes(eventWith([slideOut, slideIn]));
+    // easeOut from 100 to 300, half way through the second second
+    expect(computeEventProperties(migrated, 1.5).x).toBeCloseTo(100 + 200 * 0.75, 6);
+  });
+
+  it("leaves existing tracks alone", () => {
+    const event = { ...eventWith([slideIn]), keyframes: { x: [{ time: 0, value: 42 }] } };
+    expect(migrateAnimationsToKeyframes(event).keyframes?.x).toEqual([{ time: 0, value: 42 }]);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Keyframe helpers - Migration from legacy from/to animations and track editing
+ * All functions are pure and return new objects
+ */
+
+import type {
+  AnimatableProperty,
+  Animation,
+  AnimationValue,
+  Easing,
+  Keyframe,
+  KeyframeTrack,
+  KeyframeTracks,
+  TimelineEvent,
+} from "@/lib/schemas/timeline";
+
+/**
+ * Keyframes closer than this (seconds) are treated as the same keyframe
+ */
+export const KEYFRAME_TIME_EPSILON = 1 / 1000;
+
+function sortTrack(track: KeyframeTrack): KeyframeTrack {
+  return [...track].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Insert a keyframe, replacing any existing keyframe at (almost) the same time
+ */
+export function upsertKeyframe(track: KeyframeTrack, keyframe: Keyframe): KeyframeTrack {
+  const existing = track.find((k) => Math.abs(k.time - keyframe.time) < KEYFRAME_TIME_EPSILON);
+  const rest = track.filter((k) => k !== existing);
+  return sortTrack([...rest, { ...keyframe, easing: keyframe.easing ?? existing?.easing }]);
+}
+
+/**
+ * Convert legacy `animations` into keyframe tracks
+ *
+ * Each animation contributes a keyframe at its start (carrying its easing) and one at its end.
+ * Several animations on the same property (e.g. fade in + fade out) become one ordered track,
+ * so they no longer override each other. Existing tracks win over migrated keyframes.
+ */
+export function migrateAnimationsToKeyframes(event: TimelineEvent): TimelineEvent {
+  if (!event.animations || event.animations.length === 0) return event;
+
+  const tracks: KeyframeTracks = {};
+  const startOf = (animation: Animation) =>
+    Math.max(0, animation.delay ?? animation.startTime ?? 0);
+
+  // In time order, so an animation starting where another ends takes over that keyframe with its own easing
+  const animations = [...event.animations].sort((a, b) => startOf(a) - startOf(b));
+
+  for (const animation of animations) {
+    const start = startOf(animation);
+    const end = start + Math.max(0, animation.duration ?? event.duration);
+    let track = tracks[animation.property] ?? [];
+    track = upsertKeyframe(track, { time: start, value: animation.from, easing: animation.easing ?? "linear" });
+    // No easing of its own - a keyframe already at the end time keeps the curve it starts
+    track = upsertKeyframe(track, { time: end, value: animation.to });
+    tracks[animation.property] = track;
+  }
+
+  return {
+    ...event,
+    animations: [],
+    keyframes: { ...tracks, ...event.keyframes },
+  };
+}
+
+/**
+ * Whether a property is driven by a keyframe track or a legacy animation
+ */
+export function isPropertyAnimated(event: TimelineEvent, property: string): boolean {
+  return (
+    (event.keyframes?.[property as AnimatableProperty]?.length ?? 0) > 0 ||
+    (event.animations?.some((anim) => anim.property === property) ?? false)
+  );
+}
+
+/**
+ * Updates to apply when the user sets an animated property by hand at an event-local time
+ *
+ * Keyframe tracks get a keyframe at that time; legacy animations are frozen at the value.
+ * Returns null when the property is not animated.
+ */
+export function keyframeUpdatesForManualValue(
+  event: TimelineEvent,
+  property: string,
+  value: AnimationValue,
+  localTime: number
+): Partial<TimelineEvent> | null {
+  const updates: Partial<TimelineEvent> = {};
+  const track = event.keyframes?.[property as AnimatableProperty];
+
+  if (track && track.length > 0) {
+    const time = Math.min(Math.max(0, localTime), event.duration);
+    updates.keyframes = {
+      ...event.keyframes,
+      [property]: upsertKeyframe(track, { time, value }),
+    };
+  }
+
+  if (event.animations?.some((anim) => anim.property === property)) {
+    updates.animations = event.animations.map((anim) =>
+      anim.property === property ? { ...anim, from: value, to: value } : anim
+    );
+  }
+
+  return Object.keys(updates).length > 0 ? updates : null;
+}
+
+/**
+ * Replace a whole track (an empty track removes the property)
+ */
+export function setKeyframeTrack(
+  keyframes: KeyframeTracks | undefined,
+  property: AnimatableProperty,
+  track: KeyframeTrack
+): KeyframeTracks {
+  const next: KeyframeTracks = { ...keyframes };
+  if (track.length === 0) {
+    delete next[property];
+  } else {
+    next[property] = sortTrack(track);
+  }
+  return next;
+}
+
+/**
+ * Default two-keyframe track for a newly added property animation
+ */
+export function createDefaultTrack(
+  property: AnimatableProperty,
+  currentValue: AnimationValue | undefined,
+  easing: Easing = "easeOut"
+): KeyframeTrack {
+  switch (property) {
+    case "opacity":
+      return [{ time: 0, value: 0, easing }, { time: 0.5, value: 1 }];
+    case "scale":
+      return [{ time: 0, value: 0.8, easing }, { time: 0.5, value: 1 }];
+    case "rotation":
+      return [{ time: 0, value: 0, easing }, { time: 0.5, value: 360 }];
+    default: {
+      const value = currentValue ?? 0;
+      return [{ time: 0, value, easing }, { time: 0.5, value }];
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import type { VideoProject as StoredVideoProject } from "@/lib/types/project";
+import { toTimelineProject } from "./project";
+import { computeEventProperties } from "./evaluate";
+
+// A title that fades in over its first second and out over its last, saved before keyframes existed
+const stored = {
+  id: "p1",
+  name: "Legacy",
+  description: null,
+  width: 1920,
+  height: 1080,
+  fps: 30,
+  duration: 4,
+  backgroundColor: "#000000",
+  thumbnailTime: null,
+  timeline: [
+    {
+      id: "title",
+      type: "text",
+      startTime: 0,
+      duration: 4,
+      properties: { text: "Hello", x: 0, y: 0, fontSize: 48, fill: "#ffffff", opacity: 1 },
+      animations: [
+        { property: "opacity", from: 0, to: 1, duration: 1, easing: "linear" },
+        { property: "opacity", from: 1, to: 0, delay: 3, duration: 1, easing: "linear" },
+      ],
+      exitTransition: { type: "none", duration: 0, easing: "linear" },
+    },
+  ],
+} as unknown as StoredVideoProject;
+
+describe("toTimelineProject", () => {
+  it("keeps both legacy fades on a property, as the editor plays them", () => {
+    const project = toTimelineProject(stored);
+    const [title] = project.events;
+
+    expect(title.layer).toBe(0);
+    expect(title.animations).toEqual([]);
+    expect(computeEventProperties(title, 0).opacity).toBe(0);
+    expect(computeEventProperties(title, 2).opacity).toBe(1);
+    expect(computeEventProperties(title, 3.5).opacity).toBeCloseTo(0.5);
+  });
+
+  it("fills in the optional columns the way the editor page does", () => {
+    const project = toTimelineProject(stored);
+    expect(project.description).toBeUndefined();
+    expect(project.thumbnailTime).toBeUndefined();
+    expect(project.backgroundColor).toBe("#000000");
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Saved projects -> timeline projects - How the editor, the watch page and the render worker load a project
+ * The array order is the layer, and legacy from/to animations become keyframe tracks, so every
+ * player evaluates the same events.
+ */
+
+import type { TimelineEvent, VideoProject } from "@/lib/schemas/timeline";
+import type { VideoProject as StoredVideoProject } from "@/lib/types/project";
+import { migrateAnimationsToKeyframes } from "./keyframes";
+
+// A timeline event as saved - the layer is its position in the array
+export type SavedTimelineEvent = Omit<TimelineEvent, "layer">;
+
+export function toTimelineEvents(timeline: SavedTimelineEvent[]): TimelineEvent[] {
+  return timeline.map((event, index) =>
+    migrateAnimationsToKeyframes({ ...event, layer: index, animations: event.animations || [] })
+  );
+}
+
+export function toTimelineProject(project: StoredVideoProject): VideoProject {
+  return {
+    id: project.id,
+    name: project.name,
+    description: project.description || undefined,
+    width: project.width,
+    height: project.height,
+    fps: project.fps,
+    duration: project.duration,
+    backgroundColor: project.backgroundColor,
+    thumbnailTime: project.thumbnailTime ?? undefined,
+    events: toTimelineEvents(project.timeline),
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Zip - Minimal ZIP archive writer (stored entries, no compression)
+ * Meant for already-compressed payloads such as PNG frames; each entry is moved into a Blob as it is added
+ */
+
+import { crc32 } from "./crc32";
+
+interface CentralRecord {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+// DOS date/time fields (ZIP has no time zone; local time is conventional)
+function dosDateTime(date: Date): { time: number; day: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    day: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export class ZipWriter {
+  private encoder = new TextEncoder();
+  private stamp = dosDateTime(new Date());
+  private parts: Blob[] = [];
+  private records: CentralRecord[] = [];
+  private offset = 0;
+
+  /**
+   * Append a file (names are stored as UTF-8)
+   */
+  add(name: string, data: Uint8Array<ArrayBuffer>): void {
+    const record: CentralRecord = {
+      name: this.encoder.encode(name),
+      crc: crc32(data),
+      size: data.length,
+      offset: this.offset,
+    };
+
+    const local = new Uint8Array(30 + record.name.length);
+    const view = new DataView(local.buffer);
+    view.setUint32(0, 0x04034b50, true); // Local file header signature
+    view.setUint16(4, 20, true); // Version needed
+    view.setUint16(6, 0x0800, true); // UTF-8 names
+    view.setUint16(8, 0, true); // Stored
+    view.setUint16(10, this.stamp.time, true);
+    view.setUint16(12, this.stamp.day, true);
+    view.setUint32(14, record.crc, true);
+    view.setUint32(18, record.size, true);
+    view.setUint32(22, record.size, true);
+    view.setUint16(26, record.name.length, true);
+    local.set(record.name, 30);
+
+    this.parts.push(new Blob([local, data]));
+    this.records.push(record);
+    this.offset += local.length + record.size;
+  }
+
+  /**
+   * Write the central directory and return the archive
+   */
+  finish(): Blob {
+    const headers = this.records.map((record) => {
+      const header = new Uint8Array(46 + record.name.length);
+      const view = new DataView(header.buffer);
+      view.setUint32(0, 0x02014b50, true); // Central directory header signature
+      view.setUint16(4, 20, true); // Version made by
+      view.setUint16(6, 20, true); // Version needed
+      view.setUint16(8, 0x0800, true);
+      view.setUint16(10, 0, true);
+      view.setUint16(12, this.stamp.time, true);
+      view.setUint16(14, this.stamp.day, true);
+      view.setUint32(16, record.crc, true);
+      view.setUint32(20, record.size, true);
+      view.setUint32(24, record.size, true);
+      view.setUint16(28, record.name.length, true);
+      view.setUint32(42, record.offset, true);
+      header.set(record.name, 46);
+      return header;
+    });
+
+    const directorySize = headers.reduce((sum, header) => sum + header.length, 0);
+    const end = new Uint8Array(22);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, 0x06054b50, true); // End of central directory signature
+    view.setUint16(8, this.records.length, true);
+    view.setUint16(10, this.records.length, true);
+    view.setUint32(12, directorySize, true);
+    view.setUint32(16, this.offset, true);
+
+    return new Blob([...this.parts, ...headers, end], { type: "application/zip" });
+  }
+}
@@ -0,0 +1,12 @@
+import { authorizeProject } from "@/lib/data/projects";
+import { COLLAB_TOKEN_TTL_MS, collabSecret, signCollabToken } from "@/lib/collab/token";
+
+// A token for joining the project's collaboration room, carrying the user's role in it
+export async function issueCollabToken(projectId: string): Promise<{ token: string; expiresAt: string } | null> {
+  const access = await authorizeProject(projectId, "VIEWER");
+  if (!access) return null;
+
+  const expiresAt = Date.now() + COLLAB_TOKEN_TTL_MS;
+  const token = signCollabToken({ projectId, userId: access.userId, role: access.role, expiresAt }, collabSecret());
+  return { token, expiresAt: new Date(expiresAt).toISOString() };
+}
@@ -0,0 +1,99 @@
+import type { Readable } from "node:stream";
+import { db } from "@/lib/db";
+import { authorizeProject } from "@/lib/data/projects";
+import { getExportStorage } from "@/lib/storage";
+import {
+  ARTIFACT_FILE_TYPES,
+  ExportArtifactRecord,
+  removeExportArtifact,
+  saveExportArtifact,
+} from "@/lib/storage/artifacts";
+import {
+  ExportArtifactFormat,
+  ExportArtifactMetadata,
+  ExportArtifactSummary,
+} from "@/lib/types/export";
+import { MemberRole } from "@/lib/types/sharing";
+
+function toSummary(artifact: ExportArtifactRecord): ExportArtifactSummary {
+  return {
+    id: artifact.id,
+    projectId: artifact.projectId,
+    renderJobId: artifact.renderJobId,
+    format: artifact.format as ExportArtifactFormat,
+    width: artifact.width,
+    height: artifact.height,
+    duration: artifact.duration,
+    size: Number(artifact.size),
+    checksum: artifact.checksum,
+    downloadUrl: `/api/exports/${artifact.id}/download`,
+    createdAt: artifact.createdAt.toISOString(),
+  };
+}
+
+async function findAuthorizedArtifact(id: string, required: MemberRole): Promise<ExportArtifactRecord | null> {
+  const artifact: ExportArtifactRecord | null = await db.exportArtifact.findUnique({ where: { id } });
+  if (!artifact || !(await authorizeProject(artifact.projectId, required))) return null;
+  return artifact;
+}
+
+export async function getProjectExports(projectId: string): Promise<ExportArtifactSummary[] | null> {
+  if (!(await authorizeProject(projectId, "VIEWER"))) return null;
+
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    select: {
+      exports: { orderBy: { createdAt: "desc" } },
+    },
+  });
+
+  if (!project) return null;
+
+  return project.exports.map((artifact: ExportArtifactRecord) => toSummary(artifact));
+}
+
+export async function createProjectExport(
+  projectId: string,
+  metadata: ExportArtifactMetadata,
+  body: Readable
+): Promise<ExportArtifactSummary | null> {
+  if (!(await authorizeProject(projectId, "EDITOR"))) return null;
+
+  return toSummary(await saveExportArtifact(projectId, metadata, body));
+}
+
+export async function getExportFile(
+  id: string
+): Promise<{ body: Readable; size: number; mimeType: string; filename: string } | null> {
+  const artifact = await findAuthorizedArtifact(id, "VIEWER");
+  if (!artifact) return null;
+
+  const file = await getExportStorage().get(artifact.storagePath);
+  if (!file) return null;
+
+  const { extension, mimeType } = ARTIFACT_FILE_TYPES[artifact.format as ExportArtifactFormat];
+  const project = await db.project.findUnique({
+    where: { id: artifact.projectId },
+    select: { name: true },
+  });
+  const baseName = (project?.name ?? "export").replace(/\s+/g, "-").toLowerCase();
+
+  return {
+    ...file,
+    mimeType,
+    filename: `${baseName}-${artifact.createdAt.toISOString().slice(0, 10)}.${extension}`,
+  };
+}
+
+export async function deleteExport(id: string): Promise<boolean> {
+  const artifact = await findAuthorizedArtifact(id, "EDITOR");
+  if (!artifact) return false;
+
+  try {
+    await removeExportArtifact(artifact);
+    return true;
+  } catch (error) {
+    console.error("Failed to delete export:", error);
+    return false;
+  }
+}
@@ -0,0 +1,200 @@
+import { db } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { authorizeProject } from "@/lib/data/projects";
+import { ProjectInviteInput } from "@/lib/schemas/project";
+import {
+  MemberRole,
+  MemberSummary,
+  MemberUser,
+  ProjectInviteSummary,
+  ProjectSharing,
+} from "@/lib/types/sharing";
+
+// Thrown for a share that can't be made, e.g. inviting the project's owner
+export class ShareError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShareError";
+  }
+}
+
+const USER_SELECT = { id: true, name: true, email: true, image: true } as const;
+
+const INVITE_INCLUDE = {
+  project: { select: { name: true } },
+  invitedBy: { select: { name: true, email: true } },
+} as const;
+
+interface InviteRecord {
+  id: string;
+  projectId: string;
+  email: string;
+  role: MemberRole;
+  createdAt: Date;
+  project: { name: string };
+  invitedBy: { name: string | null; email: string };
+}
+
+function toInviteSummary(invite: InviteRecord): ProjectInviteSummary {
+  return {
+    id: invite.id,
+    projectId: invite.projectId,
+    projectName: invite.project.name,
+    email: invite.email,
+    role: invite.role,
+    invitedBy: invite.invitedBy.name ?? invite.invitedBy.email,
+    createdAt: invite.createdAt.toISOString(),
+  };
+}
+
+// Who has the project and who is invited - pending invites are only listed for owners
+export async function getProjectSharing(projectId: string): Promise<ProjectSharing | null> {
+  const access = await authorizeProject(projectId, "VIEWER");
+  if (!access) return null;
+
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    select: {
+      user: { select: USER_SELECT },
+      members: { include: { user: { select: USER_SELECT } }, orderBy: { createdAt: "asc" } },
+      invites: { include: INVITE_INCLUDE, orderBy: { createdAt: "asc" } },
+      workspace: { select: { id: true, name: true } },
+    },
+  });
+
+  if (!project) return null;
+
+  return {
+    role: access.role,
+    owner: project.user,
+    members: project.members.map((member: { user: MemberUser; role: MemberRole }): MemberSummary => ({
+      user: member.user,
+      role: member.role,
+    })),
+    invites: access.role === "OWNER" ? project.invites.map((invite: InviteRecord) => toInviteSummary(invite)) : [],
+    workspace: project.workspace,
+  };
+}
+
+/**
+ * Invite someone by email. Sending it again changes the role; for someone who is already
+ * a member, it changes their role straight away.
+ */
+export async function inviteToProject(projectId: string, input: ProjectInviteInput): Promise<ProjectSharing | null> {
+  const access = await authorizeProject(projectId, "OWNER");
+  if (!access) return null;
+
+  const email = input.email.trim().toLowerCase();
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    select: { user: { select: { email: true } } },
+  });
+  if (!project) return null;
+  if (project.user.email.toLowerCase() === email) {
+    throw new ShareError("That's the project's owner");
+  }
+
+  const member = await db.projectMember.findFirst({
+    where: { projectId, user: { email: { equals: email, mode: "insensitive" } } },
+    select: { id: true },
+  });
+
+  if (member) {
+    await db.projectMember.update({ where: { id: member.id }, data: { role: input.role } });
+  } else {
+    await db.projectInvite.upsert({
+      where: { projectId_email: { projectId, email } },
+      create: { projectId, email, role: input.role, invitedById: access.userId },
+      update: { role: input.role, invitedById: access.userId },
+    });
+  }
+
+  return getProjectSharing(projectId);
+}
+
+export async function updateProjectMember(
+  projectId: string,
+  userId: string,
+  role: MemberRole
+): Promise<ProjectSharing | null> {
+  if (!(await authorizeProject(projectId, "OWNER"))) return null;
+
+  const updated = await db.projectMember.updateMany({
+    where: { projectId, userId },
+    data: { role },
+  });
+  if (updated.count === 0) return null;
+
+  return getProjectSharing(projectId);
+}
+
+// Owners can remove anyone; everyone else can only remove themselves (leave the project)
+export async function removeProjectMember(projectId: string, userId: string): Promise<boolean> {
+  const session = await auth();
+  const isSelf = userId === session?.user?.id;
+  if (!(await authorizeProject(projectId, isSelf ? "VIEWER" : "OWNER"))) return false;
+
+  const removed = await db.projectMember.deleteMany({
+    where: { projectId, userId },
+  });
+  return removed.count > 0;
+}
+
+// Invites waiting for the signed-in user, matched by their email
+export async function getPendingInvites(): Promise<ProjectInviteSummary[]> {
+  const session = await auth();
+  if (!session?.user?.email) return [];
+
+  const invites = await db.projectInvite.findMany({
+    where: { email: session.user.email.toLowerCase() },
+    include: INVITE_INCLUDE,
+    orderBy: { createdAt: "desc" },
+  });
+
+  return invites.map((invite: InviteRecord) => toInviteSummary(invite));
+}
+
+async function findInvite(id: string): Promise<{ invite: InviteRecord; isInvitee: boolean; userId: string } | null> {
+  const session = await auth();
+  if (!session?.user?.id) return null;
+
+  const invite: InviteRecord | null = await db.projectInvite.findUnique({
+    where: { id },
+    include: INVITE_INCLUDE,
+  });
+  if (!invite) return null;
+
+  return {
+    invite,
+    isInvitee: invite.email === session.user.email?.toLowerCase(),
+    userId: session.user.id,
+  };
+}
+
+// Turn an invite for the signed-in user into a membership - resolves to the project id
+export async function acceptInvite(id: string): Promise<string | null> {
+  const found = await findInvite(id);
+  if (!found?.isInvitee) return null;
+  const { invite, userId } = found;
+
+  await db.$transaction([
+    db.projectMember.upsert({
+      where: { projectId_userId: { projectId: invite.projectId, userId } },
+      create: { projectId: invite.projectId, userId, role: invite.role },
+      update: { role: invite.role },
+    }),
+    db.projectInvite.delete({ where: { id } }),
+  ]);
+
+  return invite.projectId;
+}
+
+// The invitee declines, or an owner of the project revokes it
+export async function deleteInvite(id: string): Promise<boolean> {
+  const found = await findInvite(id);
+  if (!found) return false;
+  if (!found.isInvitee && !(await authorizeProject(found.invite.projectId, "OWNER"))) return false;
+
+  await db.projectInvite.delete({ where: { id } });
+  return true;
+}
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { db, tx } = vi.hoisted(() => {
+  const tx = {
+    project: { findFirst: vi.fn(), updateMany: vi.fn(), findUniqueOrThrow: vi.fn() },
+    projectVersion: { create: vi.fn(), findFirst: vi.fn(), findMany: vi.fn(), deleteMany: vi.fn() },
+  };
+  const db = {
+    $transaction: vi.fn(),
+    project: { findUnique: vi.fn(), create: vi.fn() },
+  };
+  return { db, tx };
+});
+
+vi.mock("@/lib/db", () => ({ db }));
+vi.mock("@/lib/auth", () => ({ auth: async () => ({ user: { id: "owner" } }) }));
+vi.mock("@/lib/storage", () => ({ getExportStorage: vi.fn() }));
+vi.mock("@prisma/client", () => ({ ProjectStatus: { DRAFT: "DRAFT" } }));
+
+import { InvalidTimelineError, ProjectConflictError, duplicateProject, updateProject } from "./projects";
+
+const stored = { id: "p1", userId: "owner", workspaceId: null, revision: 4, timeline: [], duration: 5 };
+const timeline = [{ id: "e1", type: "text", startTime: 0, duration: 1, properties: {}, animations: [] }];
+
+describe("updateProject", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // The owner can open the project, and the transaction runs its callback like Prisma does
+    db.project.findUnique.mockResolvedValue(stored);
+    db.$transaction.mockImplementation((run: (client: typeof tx) => unknown) => run(tx));
+    tx.project.findFirst.mockResolvedValue({ timeline: [], duration: 5 });
+    tx.project.findUniqueOrThrow.mockResolvedValue({ ...stored, revision: 5, timeline });
+    tx.projectVersion.findFirst.mockResolvedValue(null);
+    tx.projectVersion.findMany.mockResolvedValue([]);
+  });
+
+  it("records the baseline and the new version after a successful save", async () => {
+    tx.project.updateMany.mockResolvedValue({ count: 1 });
+
+    const project = await updateProject("p1", { timeline } as never, 4);
+
+    expect(project?.revision).toBe(5);
+    expect(tx.project.updateMany).toHaveBeenCalledWith(expect.objectContaining({ where: { id: "p1", revision: 4 } }));
+    expect(tx.projectVersion.create).toHaveBeenCalledTimes(2);
+    expect(tx.projectVersion.create.mock.calls[1][0].data.timeline).toEqual(timeline);
+  });
+
+  it("records nothing when the revision has moved on", async () => {
+    tx.project.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(updateProject("p1", { timeline } as never, 3)).rejects.toBeInstanceOf(ProjectConflictError);
+    expect(tx.projectVersion.create).not.toHaveBeenCalled();
+  });
+
+  it("is null for a project that no longer exists", async () => {
+    tx.project.updateMany.mockResolvedValue({ count: 0 });
+    // Access checks for the save and the conflict lookup pass, then the project is gone
+    db.project.findUnique.mockResolvedValueOnce(stored).mockResolvedValueOnce(stored).mockResolvedValue(null);
+
+    expect(await updateProject("p1", { name: "Renamed" } as never, 4)).toBeNull();
+  });
+
+  it("rethrows database errors instead of reporting a missing project", async () => {
+    const failure = new Error("connection reset");
+    tx.project.updateMany.mockRejectedValue(failure);
+
+    await expect(updateProject("p1", { timeline } as never, 4)).rejects.toBe(failure);
+  });
+});
+
+describe("duplicateProject", () => {
+  // Saved by an older editor: a layer field, an event before zero and an id used twice
+  const legacyTimeline = [
+    { ...timeline[0], layer: 0, startTime: -0.5, properties: { text: "Hello", fontSize: 32, x: 0, y: 0 } },
+    { ...timeline[0], layer: 1, properties: { text: "Again", fontSize: 32, x: 0, y: 0 } },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.project.create.mockImplementation(async ({ data }) => ({ id: "copy", ...data }));
+  });
+
+  it("copies a legacy timeline once it is normalized", async () => {
+    db.project.findUnique.mockResolvedValue({ ...stored, name: "Old", timeline: legacyTimeline });
+
+    const copy = await duplicateProject("p1");
+
+    expect(copy?.timeline.map((event) => [event.id, event.startTime])).toEqual([
+      ["e1", 0],
+      ["e1-2", 0],
+    ]);
+    expect(copy?.timeline[0]).not.toHaveProperty("layer");
+  });
+
+  it("reports what still doesn't validate instead of failing", async () => {
+    db.project.findUnique.mockResolvedValue({ ...stored, timeline: [{ ...timeline[0], properties: { x: 0 } }] });
+
+    const error = await duplicateProject("p1").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(InvalidTimelineError);
+    expect((error as InvalidTimelineError).issues.map((issue) => issue.path)).toContain("$.timeline[0].properties.text");
+    expect(db.project.create).not.toHaveBeenCalled();
+  });
+});
@@ -1,17 +1,116 @@
 import { db } from "@/lib/db";
 import { auth } from "@/lib/auth";
-import { 
-  CreateProjectInput, 
-  UpdateProjectInput, 
-  VideoProject,
-  TimelineEvent 
-} from "@/lib/types/project";
+import { getExportStorage } from "@/lib/storage";
+import { VideoProject } from "@/lib/types/project";
+import { CreateProjectData, UpdateProjectData, ValidationIssue, toValidationIssues } from "@/lib/schemas/project";
+import { StoredTimelineEvent, StoredTimelineSchema, normalizeStoredTimeline } from "@/lib/schemas/timeline";
+import { MemberRole, SharedProject, hasRole, highestRole } from "@/lib/types/sharing";
+import {
+  VersionClient,
+  baselineVersionState,
+  recordAutoVersion,
+  recordVersion,
+  versionData,
+} from "@/lib/versions/snapshots";
 import { ProjectStatus } from "@prisma/client";
 
-export async function createProject(data: CreateProjectInput): Promise<VideoProject | null> {
+// Thrown when the signed-in user can see a project or workspace but their role doesn't allow the change
+export class AccessDeniedError extends Error {
+  constructor(public readonly role: MemberRole, public readonly required: MemberRole) {
+    super(`Requires ${required.toLowerCase()} access`);
+    this.name = "AccessDeniedError";
+  }
+}
+
+// Thrown by updateProject when the project has moved past the revision the save was based on
+export class ProjectConflictError extends Error {
+  constructor(public readonly project: VideoProject) {
+    super("Project was changed since it was loaded");
+    this.name = "ProjectConflictError";
+  }
+}
+
+// Thrown by duplicateProject when the stored timeline doesn't validate, even after normalizeStoredTimeline
+export class InvalidTimelineError extends Error {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super("Stored timeline is invalid");
+    this.name = "InvalidTimelineError";
+  }
+}
+
+// Projects the user can open: their own, ones shared with them, and ones in their workspaces
+export function accessibleBy(userId: string) {
+  return {
+    OR: [
+      { userId },
+      { members: { some: { userId } } },
+      { workspace: { members: { some: { userId } } } },
+    ],
+  };
+}
+
+async function projectRole(projectId: string, userId: string): Promise<MemberRole | null> {
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    select: {
+      userId: true,
+      members: { where: { userId }, select: { role: true } },
+      workspace: { select: { members: { where: { userId }, select: { role: true } } } },
+    },
+  });
+
+  if (!project) return null;
+  if (project.userId === userId) return "OWNER";
+
+  const memberships: { role: MemberRole }[] = [...project.members, ...(project.workspace?.members ?? [])];
+  return highestRole(memberships.map((membership) => membership.role));
+}
+
+/**
+ * Every project access check goes through here. Resolves to the signed-in user and their role,
+ * null when they are signed out or can't see the project (so routes answer 404), and throws
+ * AccessDeniedError when they can see it but their role is below `required` (403).
+ */
+export async function authorizeProject(
+  projectId: string,
+  required: MemberRole
+): Promise<{ userId: string; role: MemberRole } | null> {
+  const session = await auth();
+  if (!session?.user?.id) return null;
+
+  const role = await projectRole(projectId, session.user.id);
+  if (!role) return null;
+  if (!hasRole(role, required)) throw new AccessDeniedError(role, required);
+
+  return { userId: session.user.id, role };
+}
+
+// Same as authorizeProject, for a workspace
+export async function authorizeWorkspace(
+  workspaceId: string,
+  required: MemberRole
+): Promise<{ userId: string; role: MemberRole } | null> {
+  const session = await auth();
+  if (!session?.user?.id) return null;
+
+  const membership = await db.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId: session.user.id } },
+    select: { role: true },
+  });
+
+  if (!membership) return null;
+  if (!hasRole(membership.role, required)) throw new AccessDeniedError(membership.role, required);
+
+  return { userId: session.user.id, role: membership.role };
+}
+
+export async function createProject(data: CreateProjectData): Promise<VideoProject | null> {
   const session = await auth();
   if (!session?.user?.id) return null;
 
+  const timeline = data.timeline || []; // Validated by CreateProjectInputSchema
+  const duration = data.duration || 5.0;
+
   const project = await db.project.create({
     data: {
       name: data.name,
@@ -19,16 +118,18 @@ export async function createProject(data: CreateProjectInput): Promise<VideoProj
       width: data.width || 1920,
       height: data.height || 1080,
       fps: data.fps || 30,
-      duration: data.duration || 5.0,
-      timeline: (data.timeline || []) as any, // Cast JSON compatibility
+      duration,
+      backgroundColor: data.backgroundColor,
+      timeline,
       userId: session.user.id,
       status: ProjectStatus.DRAFT,
+      versions: { create: versionData({ timeline, duration }) },
     },
   });
 
   return {
     ...project,
-    timeline: project.timeline as unknown as TimelineEvent[],
+    timeline: project.timeline as unknown as StoredTimelineEvent[],
   };
 }
 
@@ -47,89 +148,166 @@ export async function getUserProjects(): Promise<VideoProject[]> {
 
   return projects.map((p) => ({
     ...p,
-    timeline: p.timeline as unknown as TimelineEvent[],
+    timeline: p.timeline as unknown as StoredTimelineEvent[],
   }));
 }
 
+interface SharedProjectRecord extends Omit<VideoProject, "timeline"> {
+  timeline: unknown;
+  user: { name: string | null; email: string };
+  members: { role: MemberRole }[];
+  workspace: { name: string; members: { role: MemberRole }[] } | null;
+}
+
+// Projects other people own that the user can open, with the role they have on each
+export async function getSharedProjects(): Promise<SharedProject[]> {
+  const session = await auth();
+  if (!session?.user?.id) return [];
+  const userId = session.user.id;
+
+  const projects = await db.project.findMany({
+    where: {
+      ...accessibleBy(userId),
+      userId: { not: userId },
+    },
+    include: {
+      user: { select: { name: true, email: true } },
+      members: { where: { userId }, select: { role: true } },
+      workspace: { select: { name: true, members: { where: { userId }, select: { role: true } } } },
+    },
+    orderBy: {
+      updatedAt: "desc",
+    },
+  });
+
+  return projects.map(({ user, members, workspace, ...p }: SharedProjectRecord) => {
+    const memberships = [...members, ...(workspace?.members ?? [])];
+    return {
+      ...p,
+      timeline: p.timeline as unknown as StoredTimelineEvent[],
+      role: highestRole(memberships.map((membership) => membership.role)) ?? "VIEWER",
+      ownerName: user.name ?? user.email,
+      workspaceName: workspace?.name ?? null,
+    };
+  });
+}
+
 export async function getProjectById(
   id: string
 ): Promise<VideoProject | null> {
-  const session = await auth();
-  if (!session?.user?.id) return null;
+  if (!(await authorizeProject(id, "VIEWER"))) return null;
 
   const project = await db.project.findUnique({
-    where: {
-      id,
-      userId: session.user.id, // Ensure ownership
-    },
+    where: { id },
   });
 
   if (!project) return null;
 
+  // Normalized, so the editor's next save of an older project passes validation
   return {
     ...project,
-    timeline: project.timeline as unknown as TimelineEvent[],
+    timeline: normalizeStoredTimeline(project.timeline) as StoredTimelineEvent[],
   };
 }
 
+/**
+ * Save changes to a project. With `expectedRevision` the save only applies on top of that
+ * revision, and throws ProjectConflictError (with the current project) when it has moved on.
+ */
 export async function updateProject(
   id: string,
-  data: UpdateProjectInput
+  data: UpdateProjectData,
+  expectedRevision?: number
 ): Promise<VideoProject | null> {
-  const session = await auth();
-  if (!session?.user?.id) return null;
+  if (!(await authorizeProject(id, "EDITOR"))) return null;
 
-  try {
-    const project = await db.project.update({
+  // The save and its version history entries commit together - a rejected save records nothing
+  const project = await db.$transaction(async (tx: VersionClient) => {
+    const baseline = data.timeline ? await baselineVersionState(id, tx) : null;
+
+    const { count } = await tx.project.updateMany({
       where: {
         id,
-        userId: session.user.id,
+        revision: expectedRevision, // No precondition when undefined
       },
       data: {
-        ...data,
-        timeline: data.timeline ? (data.timeline as any) : undefined,
+        ...data, // Validated by UpdateProjectInputSchema
+        revision: { increment: 1 },
       },
     });
+    if (count === 0) return null;
 
-    return {
-      ...project,
-      timeline: project.timeline as unknown as TimelineEvent[],
-    };
-  } catch (error) {
+    const saved = await tx.project.findUniqueOrThrow({ where: { id } });
+
+    // Every save that changes the timeline goes into the version history
+    if (data.timeline) {
+      if (baseline) await recordVersion(id, baseline, null, tx);
+      await recordAutoVersion(
+        id,
+        { timeline: saved.timeline as unknown as StoredTimelineEvent[], duration: saved.duration },
+        tx
+      );
+    }
+    return saved;
+  });
+
+  if (!project) {
+    // Nothing matched - tell a missing project apart from a stale revision
+    if (expectedRevision !== undefined) {
+      const current = await getProjectById(id);
+      if (current) throw new ProjectConflictError(current);
+    }
     return null;
   }
+
+  return {
+    ...project,
+    timeline: project.timeline as unknown as StoredTimelineEvent[],
+  };
 }
 
 export async function deleteProject(id: string): Promise<boolean> {
-  const session = await auth();
-  if (!session?.user?.id) return false;
+  if (!(await authorizeProject(id, "OWNER"))) return false;
 
   try {
+    // Export records go with the project (cascade), their files have to be removed here
+    const exports = await db.exportArtifact.findMany({
+      where: { projectId: id },
+      select: { storagePath: true },
+    });
+
     await db.project.delete({
-      where: {
-        id,
-        userId: session.user.id,
-      },
+      where: { id },
     });
+
+    const storage = getExportStorage();
+    await Promise.all(
+      exports.map((artifact: { storagePath: string }) =>
+        storage.delete(artifact.storagePath).catch((error) => console.warn("Failed to delete export file:", error))
+      )
+    );
     return true;
   } catch (error) {
     return false;
   }
 }
 
+// Copy any project the user can open into their own projects
 export async function duplicateProject(id: string): Promise<VideoProject | null> {
-  const session = await auth();
-  if (!session?.user?.id) return null;
+  const access = await authorizeProject(id, "VIEWER");
+  if (!access) return null;
 
-  const original = await db.project.findFirst({
-    where: { 
-      id, 
-      userId: session.user.id 
-    },
+  const original = await db.project.findUnique({
+    where: { id },
   });
 
   if (!original) return null;
 
+  // The copy is written like any incoming timeline, so a stored one that no longer validates isn't copied as-is
+  const parsed = StoredTimelineSchema.safeParse(normalizeStoredTimeline(original.timeline));
+  if (!parsed.success) throw new InvalidTimelineError(toValidationIssues(parsed.error, ["timeline"]));
+  const timeline = parsed.data;
+
   const project = await db.project.create({
     data: {
       name: `${original.name} (Copy)`,
@@ -138,14 +316,18 @@ export async function duplicateProject(id: string): Promise<VideoProject | null>
       height: original.height,
       fps: original.fps,
       duration: original.duration,
-      timeline: original.timeline as any,
-      userId: session.user.id,
+      backgroundColor: original.backgroundColor,
+      timeline,
+      userId: access.userId,
       status: ProjectStatus.DRAFT,
+      versions: {
+        create: versionData({ timeline, duration: original.duration }),
+      },
     },
   });
 
   return {
     ...project,
-    timeline: project.timeline as unknown as TimelineEvent[],
+    timeline: project.timeline as unknown as StoredTimelineEvent[],
   };
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { db } from "@/lib/db";
+import { authorizeProject } from "@/lib/data/projects";
+import {
+  CreateRenderJobInput,
+  RenderFormat,
+  RenderJobStatus,
+  RenderJobSummary,
+} from "@/lib/types/render";
+
+interface RenderJobRecord {
+  id: string;
+  projectId: string;
+  format: string;
+  presetId: string | null;
+  status: string;
+  progress: number;
+  error: string | null;
+  artifact?: { id: string } | null;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  createdAt: Date;
+}
+
+function toSummary(job: RenderJobRecord): RenderJobSummary {
+  const status = job.status as RenderJobStatus;
+  return {
+    id: job.id,
+    projectId: job.projectId,
+    format: job.format as RenderFormat,
+    presetId: job.presetId,
+    status,
+    progress: job.progress,
+    error: job.error,
+    downloadUrl: job.artifact ? `/api/exports/${job.artifact.id}/download` : null,
+    startedAt: job.startedAt?.toISOString() ?? null,
+    finishedAt: job.finishedAt?.toISOString() ?? null,
+    createdAt: job.createdAt.toISOString(),
+  };
+}
+
+export async function createRenderJob(
+  projectId: string,
+  input: CreateRenderJobInput
+): Promise<RenderJobSummary | null> {
+  if (!(await authorizeProject(projectId, "EDITOR"))) return null;
+
+  const job: RenderJobRecord = await db.renderJob.create({
+    data: {
+      projectId,
+      format: input.format || "mp4",
+      presetId: input.presetId,
+    },
+  });
+
+  await db.project.update({
+    where: { id: projectId },
+    data: { status: "RENDERING" },
+  });
+
+  return toSummary(job);
+}
+
+export async function getRenderJob(id: string): Promise<RenderJobSummary | null> {
+  const job: RenderJobRecord | null = await db.renderJob.findUnique({
+    where: { id },
+    include: { artifact: { select: { id: true } } },
+  });
+
+  if (!job || !(await authorizeProject(job.projectId, "VIEWER"))) return null;
+
+  return toSummary(job);
+}
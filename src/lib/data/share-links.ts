@@ -0,0 +1,111 @@
+import { randomBytes } from "node:crypto";
+import { db } from "@/lib/db";
+import { authorizeProject } from "@/lib/data/projects";
+import { CreateShareLinkInput } from "@/lib/schemas/project";
+import { VideoProject } from "@/lib/types/project";
+import { ShareLinkSummary } from "@/lib/types/share-link";
+import { StoredTimelineEvent } from "@/lib/schemas/timeline";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ShareLinkRecord {
+  id: string;
+  projectId: string;
+  token: string;
+  expiresAt: Date | null;
+  createdAt: Date;
+  createdBy: { name: string | null; email: string };
+}
+
+const SHARE_LINK_INCLUDE = {
+  createdBy: { select: { name: true, email: true } },
+} as const;
+
+function toSummary(link: ShareLinkRecord): ShareLinkSummary {
+  return {
+    id: link.id,
+    projectId: link.projectId,
+    token: link.token,
+    expiresAt: link.expiresAt?.toISOString() ?? null,
+    createdBy: link.createdBy.name ?? link.createdBy.email,
+    createdAt: link.createdAt.toISOString(),
+  };
+}
+
+// What a /watch token leads to - the project, or why it can't be watched any more
+export type WatchLink =
+  | { status: "active"; project: VideoProject }
+  | { status: "expired" | "revoked" };
+
+// The project's links that haven't been revoked (expired ones included, so they can be cleaned up)
+export async function getShareLinks(projectId: string): Promise<ShareLinkSummary[] | null> {
+  if (!(await authorizeProject(projectId, "OWNER"))) return null;
+
+  const links = await db.shareLink.findMany({
+    where: { projectId, revokedAt: null },
+    include: SHARE_LINK_INCLUDE,
+    orderBy: { createdAt: "desc" },
+  });
+
+  return links.map((link: ShareLinkRecord) => toSummary(link));
+}
+
+export async function createShareLink(
+  projectId: string,
+  input: CreateShareLinkInput
+): Promise<ShareLinkSummary | null> {
+  const access = await authorizeProject(projectId, "OWNER");
+  if (!access) return null;
+
+  const link = await db.shareLink.create({
+    data: {
+      projectId,
+      createdById: access.userId,
+      // 192 random bits - the token is the only thing guarding the link
+      token: randomBytes(24).toString("base64url"),
+      expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * DAY_MS) : null,
+    },
+    include: SHARE_LINK_INCLUDE,
+  });
+
+  return toSummary(link);
+}
+
+// Stops the link working straight away; the record stays so /watch can say it was revoked
+export async function revokeShareLink(id: string): Promise<boolean> {
+  const link = await db.shareLink.findUnique({
+    where: { id },
+    select: { projectId: true, revokedAt: true },
+  });
+  if (!link || link.revokedAt) return false;
+  if (!(await authorizeProject(link.projectId, "OWNER"))) return false;
+
+  await db.shareLink.update({
+    where: { id },
+    data: { revokedAt: new Date() },
+  });
+  return true;
+}
+
+/**
+ * Public - no session needed. The token is the only check, so this must not be used for
+ * anything but the read-only player.
+ */
+export async function getWatchLink(token: string): Promise<WatchLink | null> {
+  const link = await db.shareLink.findUnique({
+    where: { token },
+    include: { project: true },
+  });
+
+  if (!link) return null;
+  if (link.revokedAt) return { status: "revoked" };
+  if (link.expiresAt && link.expiresAt.getTime() <= Date.now()) return { status: "expired" };
+
+  return {
+    status: "active",
+    project: {
+      ...link.project,
+      timeline: link.project.timeline as unknown as StoredTimelineEvent[],
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { db, tx } = vi.hoisted(() => {
+  const tx = {
+    project: { updateMany: vi.fn(), findUniqueOrThrow: vi.fn() },
+    projectVersion: { create: vi.fn(), findFirst: vi.fn(), findMany: vi.fn(), deleteMany: vi.fn() },
+  };
+  const db = {
+    $transaction: vi.fn(),
+    project: { findUnique: vi.fn() },
+    projectVersion: { findUnique: vi.fn() },
+  };
+  return { db, tx };
+});
+
+vi.mock("@/lib/db", () => ({ db }));
+vi.mock("@/lib/auth", () => ({ auth: async () => ({ user: { id: "owner" } }) }));
+vi.mock("@/lib/storage", () => ({ getExportStorage: vi.fn() }));
+vi.mock("@prisma/client", () => ({ ProjectStatus: { DRAFT: "DRAFT" } }));
+
+import { ProjectConflictError } from "./projects";
+import { restoreVersion } from "./versions";
+
+const timeline = [{ id: "e1", type: "text", startTime: 0, duration: 1, properties: {}, animations: [] }];
+const stored = { id: "p1", userId: "owner", workspaceId: null, revision: 4, timeline: [], duration: 5 };
+const version = { id: "v1", projectId: "p1", name: null, timeline, duration: 3, eventCount: 1, createdAt: new Date() };
+
+describe("restoreVersion", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.project.findUnique.mockResolvedValue(stored);
+    db.projectVersion.findUnique.mockResolvedValue(version);
+    db.$transaction.mockImplementation((run: (client: typeof tx) => unknown) => run(tx));
+    tx.project.findUniqueOrThrow.mockResolvedValue({ ...stored, revision: 5, timeline, duration: 3 });
+    tx.projectVersion.findFirst.mockResolvedValue({ timeline: [], duration: 5 });
+    tx.projectVersion.findMany.mockResolvedValue([]);
+  });
+
+  it("writes the version and its snapshot in one transaction, on the editor's revision", async () => {
+    tx.project.updateMany.mockResolvedValue({ count: 1 });
+
+    const project = await restoreVersion("v1", 4);
+
+    expect(project?.revision).toBe(5);
+    expect(tx.project.updateMany).toHaveBeenCalledWith({
+      where: { id: "p1", revision: 4 },
+      data: { timeline, duration: 3, revision: { increment: 1 } },
+    });
+    expect(tx.projectVersion.create).toHaveBeenCalledTimes(1);
+    expect(tx.projectVersion.create.mock.calls[0][0].data.timeline).toEqual(timeline);
+  });
+
+  it("records nothing when the project was saved since", async () => {
+    tx.project.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(restoreVersion("v1", 3)).rejects.toBeInstanceOf(ProjectConflictError);
+    expect(tx.projectVersion.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,139 @@
+import { db } from "@/lib/db";
+import { ProjectConflictError, authorizeProject, getProjectById } from "@/lib/data/projects";
+import { VideoProject } from "@/lib/types/project";
+import { StoredTimelineEvent } from "@/lib/schemas/timeline";
+import { MemberRole } from "@/lib/types/sharing";
+import { ProjectVersionSummary, TimelineDiff } from "@/lib/types/version";
+import { diffTimelines } from "@/lib/versions/diff";
+import { ProjectVersionRecord, VersionClient, recordAutoVersion, recordVersion } from "@/lib/versions/snapshots";
+
+type VersionListRecord = Omit<ProjectVersionRecord, "timeline">;
+
+function toSummary(version: VersionListRecord): ProjectVersionSummary {
+  return {
+    id: version.id,
+    projectId: version.projectId,
+    name: version.name,
+    duration: version.duration,
+    eventCount: version.eventCount,
+    createdAt: version.createdAt.toISOString(),
+  };
+}
+
+async function findAuthorizedVersion(id: string, required: MemberRole): Promise<ProjectVersionRecord | null> {
+  const version: ProjectVersionRecord | null = await db.projectVersion.findUnique({ where: { id } });
+  if (!version || !(await authorizeProject(version.projectId, required))) return null;
+  return version;
+}
+
+export async function getProjectVersions(projectId: string): Promise<ProjectVersionSummary[] | null> {
+  if (!(await authorizeProject(projectId, "VIEWER"))) return null;
+
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    select: {
+      versions: {
+        orderBy: { createdAt: "desc" },
+        // Snapshots can be large - listing only needs the summary
+        select: { id: true, projectId: true, name: true, duration: true, eventCount: true, createdAt: true },
+      },
+    },
+  });
+
+  if (!project) return null;
+
+  return project.versions.map((version: VersionListRecord) => toSummary(version));
+}
+
+// Named checkpoint of the project as last saved
+export async function createProjectVersion(projectId: string, name: string): Promise<ProjectVersionSummary | null> {
+  if (!(await authorizeProject(projectId, "EDITOR"))) return null;
+
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    select: { timeline: true, duration: true },
+  });
+
+  if (!project) return null;
+
+  const version = await recordVersion(
+    projectId,
+    { timeline: project.timeline as unknown as StoredTimelineEvent[], duration: project.duration },
+    name
+  );
+  return toSummary(version);
+}
+
+/**
+ * What restoring version `id` would change - compared to the saved project,
+ * or to another version of the same project when `againstId` is given
+ */
+export async function getVersionDiff(id: string, againstId?: string): Promise<TimelineDiff | null> {
+  const version = await findAuthorizedVersion(id, "VIEWER");
+  if (!version) return null;
+
+  const base = againstId
+    ? await db.projectVersion.findFirst({
+        where: { id: againstId, projectId: version.projectId },
+        select: { timeline: true, duration: true },
+      })
+    : await db.project.findUnique({
+        where: { id: version.projectId },
+        select: { timeline: true, duration: true },
+      });
+
+  if (!base) return null;
+
+  return diffTimelines(
+    { timeline: base.timeline as unknown as StoredTimelineEvent[], duration: base.duration },
+    { timeline: version.timeline as unknown as StoredTimelineEvent[], duration: version.duration }
+  );
+}
+
+/**
+ * Put a version's timeline back into its project - a save like any other, so it is conditional on
+ * `expectedRevision` the same way updateProject is, and throws ProjectConflictError when the project has moved on
+ */
+export async function restoreVersion(id: string, expectedRevision?: number): Promise<VideoProject | null> {
+  const version = await findAuthorizedVersion(id, "EDITOR");
+  if (!version) return null;
+
+  // The restore and its version history entry commit together
+  const project = await db.$transaction(async (tx: VersionClient) => {
+    const { count } = await tx.project.updateMany({
+      where: {
+        id: version.projectId,
+        revision: expectedRevision, // No precondition when undefined
+      },
+      data: {
+        timeline: version.timeline as unknown as StoredTimelineEvent[],
+        duration: version.duration,
+        revision: { increment: 1 }, // Editors still on the old revision get a conflict on their next save
+      },
+    });
+    if (count === 0) return null;
+
+    const restored = await tx.project.findUniqueOrThrow({ where: { id: version.projectId } });
+
+    // The restore can be undone from the history too
+    await recordAutoVersion(
+      restored.id,
+      { timeline: restored.timeline as unknown as StoredTimelineEvent[], duration: restored.duration },
+      tx
+    );
+    return restored;
+  });
+
+  if (!project) {
+    if (expectedRevision !== undefined) {
+      const current = await getProjectById(version.projectId);
+      if (current) throw new ProjectConflictError(current);
+    }
+    return null;
+  }
+
+  return {
+    ...project,
+    timeline: project.timeline as unknown as StoredTimelineEvent[],
+  };
+}
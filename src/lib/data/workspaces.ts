@@ -0,0 +1,156 @@
+import { db } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { authorizeProject, authorizeWorkspace } from "@/lib/data/projects";
+import { ShareError } from "@/lib/data/members";
+import { WorkspaceMemberInput } from "@/lib/schemas/project";
+import { MemberRole, MemberSummary, MemberUser, WorkspaceSummary } from "@/lib/types/sharing";
+
+const USER_SELECT = { id: true, name: true, email: true, image: true } as const;
+
+interface WorkspaceMembershipRecord {
+  role: MemberRole;
+  workspace: { id: string; name: string; _count: { members: number } };
+}
+
+function toSummary({ role, workspace }: WorkspaceMembershipRecord): WorkspaceSummary {
+  return {
+    id: workspace.id,
+    name: workspace.name,
+    role,
+    memberCount: workspace._count.members,
+  };
+}
+
+export async function getUserWorkspaces(): Promise<WorkspaceSummary[]> {
+  const session = await auth();
+  if (!session?.user?.id) return [];
+
+  const memberships = await db.workspaceMember.findMany({
+    where: { userId: session.user.id },
+    select: {
+      role: true,
+      workspace: { select: { id: true, name: true, _count: { select: { members: true } } } },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return memberships.map((membership: WorkspaceMembershipRecord) => toSummary(membership));
+}
+
+// New workspace with the signed-in user as its owner
+export async function createWorkspace(name: string): Promise<WorkspaceSummary | null> {
+  const session = await auth();
+  if (!session?.user?.id) return null;
+
+  const workspace = await db.workspace.create({
+    data: {
+      name,
+      members: { create: { userId: session.user.id, role: "OWNER" } },
+    },
+    select: { id: true, name: true },
+  });
+
+  return { ...workspace, role: "OWNER", memberCount: 1 };
+}
+
+// Its projects go back to the people who created them (Project.workspaceId is set null)
+export async function deleteWorkspace(id: string): Promise<boolean> {
+  if (!(await authorizeWorkspace(id, "OWNER"))) return false;
+
+  await db.workspace.delete({ where: { id } });
+  return true;
+}
+
+export async function getWorkspaceMembers(id: string): Promise<MemberSummary[] | null> {
+  if (!(await authorizeWorkspace(id, "VIEWER"))) return null;
+
+  const members = await db.workspaceMember.findMany({
+    where: { workspaceId: id },
+    select: { role: true, user: { select: USER_SELECT } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return members.map((member: { user: MemberUser; role: MemberRole }) => ({ user: member.user, role: member.role }));
+}
+
+/**
+ * Add someone by email, or change their role if they're already in. Workspaces have no invites,
+ * so they need to have signed in once.
+ */
+export async function addWorkspaceMember(id: string, input: WorkspaceMemberInput): Promise<MemberSummary[] | null> {
+  if (!(await authorizeWorkspace(id, "OWNER"))) return null;
+
+  const user = await db.user.findFirst({
+    where: { email: { equals: input.email.trim(), mode: "insensitive" } },
+    select: { id: true },
+  });
+  if (!user) {
+    throw new ShareError("No account with that email - they need to sign in once first");
+  }
+
+  await assertKeepsOwner(id, user.id, input.role);
+  await db.workspaceMember.upsert({
+    where: { workspaceId_userId: { workspaceId: id, userId: user.id } },
+    create: { workspaceId: id, userId: user.id, role: input.role },
+    update: { role: input.role },
+  });
+
+  return getWorkspaceMembers(id);
+}
+
+export async function updateWorkspaceMember(
+  id: string,
+  userId: string,
+  role: MemberRole
+): Promise<MemberSummary[] | null> {
+  if (!(await authorizeWorkspace(id, "OWNER"))) return null;
+
+  await assertKeepsOwner(id, userId, role);
+  const updated = await db.workspaceMember.updateMany({
+    where: { workspaceId: id, userId },
+    data: { role },
+  });
+  if (updated.count === 0) return null;
+
+  return getWorkspaceMembers(id);
+}
+
+// Owners can remove anyone; everyone else can only remove themselves (leave the workspace)
+export async function removeWorkspaceMember(id: string, userId: string): Promise<boolean> {
+  const session = await auth();
+  const isSelf = userId === session?.user?.id;
+  if (!(await authorizeWorkspace(id, isSelf ? "VIEWER" : "OWNER"))) return false;
+
+  await assertKeepsOwner(id, userId, null);
+  const removed = await db.workspaceMember.deleteMany({
+    where: { workspaceId: id, userId },
+  });
+  return removed.count > 0;
+}
+
+// A workspace always keeps an owner - changing `userId` to `role` (null: removing them) mustn't leave none
+async function assertKeepsOwner(workspaceId: string, userId: string, role: MemberRole | null): Promise<void> {
+  if (role === "OWNER") return;
+
+  const otherOwners = await db.workspaceMember.count({
+    where: { workspaceId, role: "OWNER", userId: { not: userId } },
+  });
+  if (otherOwners === 0) {
+    throw new ShareError("A workspace needs at least one owner");
+  }
+}
+
+/**
+ * Move a project into a workspace (its members get their workspace role on it), or back out
+ * with null. Needs ownership of the project and at least editor access to the workspace.
+ */
+export async function moveProjectToWorkspace(projectId: string, workspaceId: string | null): Promise<boolean> {
+  if (!(await authorizeProject(projectId, "OWNER"))) return false;
+  if (workspaceId && !(await authorizeWorkspace(workspaceId, "EDITOR"))) return false;
+
+  await db.project.update({
+    where: { id: projectId },
+    data: { workspaceId },
+  });
+  return true;
+}
@@ -0,0 +1,110 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { AssetDownloadError, downloadAsset, fileToDataUrl, isPrivateAddress } from "./assets";
+
+describe("isPrivateAddress", () => {
+  it.each(["10.1.2.3", "127.0.0.1", "169.254.169.254", "172.20.0.1", "192.168.1.1", "100.64.0.1", "0.0.0.0"])(
+    "blocks %s",
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  );
+
+  it.each([
+    "::1",
+    "fe80::1",
+    "fd00::1",
+    "::ffff:127.0.0.1",
+    "::ffff:169.254.169.254",
+    "::ffff:a9fe:a9fe",
+    "::ffff:0:a9fe:a9fe",
+    "2002:a9fe:a9fe::1",
+  ])("blocks %s", (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(["93.184.216.34", "2606:2800:220:1:248:1893:25c8:1946", "::ffff:93.184.216.34"])("allows %s", (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe("downloadAsset", () => {
+  let server: Server;
+  let port: number;
+  let dir: string;
+  const hits: string[] = [];
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      hits.push(request.url ?? "");
+      if (request.url === "/logo.png") {
+        response.writeHead(200, { "Content-Type": "image/png" }).end("png bytes");
+      } else if (request.url === "/to-metadata") {
+        response.writeHead(302, { Location: "http://169.254.169.254/latest/meta-data/" }).end();
+      } else if (request.url === "/to-localhost") {
+        response.writeHead(302, { Location: `http://localhost:${port}/secret` }).end();
+      } else if (request.url === "/moved") {
+        response.writeHead(301, { Location: "/logo.png" }).end();
+      } else {
+        response.writeHead(404).end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+    dir = await mkdtemp(path.join(tmpdir(), "assets-test-"));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    hits.length = 0;
+    vi.unstubAllEnvs();
+  });
+
+  it("downloads from the app's own asset origin and follows its redirects", async () => {
+    vi.stubEnv("RENDER_ASSET_BASE_URL", `http://127.0.0.1:${port}`);
+    const file = path.join(dir, "logo");
+
+    expect(await downloadAsset(`http://127.0.0.1:${port}/moved`, file)).toBe("image/png");
+    expect(await readFile(file, "utf8")).toBe("png bytes");
+    expect(await fileToDataUrl(file, "image/png")).toBe(`data:image/png;base64,${btoa("png bytes")}`);
+  });
+
+  it("refuses other protocols", async () => {
+    await expect(downloadAsset("file:///etc/passwd", path.join(dir, "x"))).rejects.toBeInstanceOf(AssetDownloadError);
+    await expect(downloadAsset("not a url", path.join(dir, "x"))).rejects.toBeInstanceOf(AssetDownloadError);
+  });
+
+  it("never connects to a private host, by address or by name", async () => {
+    vi.stubEnv("RENDER_ASSET_BASE_URL", "https://app.example.com");
+
+    await expect(downloadAsset(`http://127.0.0.1:${port}/logo.png`, path.join(dir, "x"))).rejects.toThrow(
+      AssetDownloadError
+    );
+    await expect(downloadAsset(`http://localhost:${port}/logo.png`, path.join(dir, "x"))).rejects.toThrow(
+      AssetDownloadError
+    );
+    await expect(downloadAsset("http://[::ffff:a9fe:a9fe]/", path.join(dir, "x"))).rejects.toThrow(AssetDownloadError);
+    expect(hits).toEqual([]);
+  });
+
+  it("checks every hop of a redirect", async () => {
+    vi.stubEnv("RENDER_ASSET_BASE_URL", `http://127.0.0.1:${port}`);
+
+    await expect(downloadAsset(`http://127.0.0.1:${port}/to-metadata`, path.join(dir, "x"))).rejects.toThrow(
+      AssetDownloadError
+    );
+    // Same server, but by a name that isn't the app's origin - it resolves to loopback, so it is refused
+    await expect(downloadAsset(`http://127.0.0.1:${port}/to-localhost`, path.join(dir, "x"))).rejects.toThrow(
+      AssetDownloadError
+    );
+    expect(hits).toEqual(["/to-metadata", "/to-localhost"]);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Asset downloads - How the render worker fetches a project's images and audio
+ * Projects are user input, so the worker downloads each asset itself and hands ffmpeg and Fabric local files
+ * and data URLs. Only http(s) is fetched, and every hop of a redirect is checked against the address the
+ * socket actually connects to: never a private, loopback or link-local one (cloud metadata endpoints,
+ * the internal network) - except the app's own asset origin, which serves uploads.
+ */
+
+import { createWriteStream } from "node:fs";
+import { readFile } from "node:fs/promises";
+import http from "node:http";
+import https from "node:https";
+import type { IncomingMessage } from "node:http";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { lookup, type LookupAddress, type LookupOptions } from "node:dns";
+import { Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { assetBaseUrl } from "./paths";
+
+const MAX_REDIRECTS = 5;
+const DOWNLOAD_TIMEOUT_MS = 30_000;
+export const MAX_ASSET_BYTES = 200 * 1024 * 1024;
+
+// Thrown when an asset can't be downloaded or may not be fetched
+export class AssetDownloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AssetDownloadError";
+  }
+}
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // link-local, including 169.254.169.254 metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved and broadcast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+// IPv4-mapped addresses (::ffff:a9fe:a9fe) are checked against the IPv4 rules by BlockList itself
+for (const [network, prefix] of [
+  ["::", 96], // unspecified and IPv4-compatible
+  ["::1", 128],
+  ["::ffff:0:0:0", 96], // IPv4-translated
+  ["64:ff9b::", 96], // NAT64, maps onto IPv4
+  ["2001::", 32], // Teredo, tunnels to an IPv4 address
+  ["2002::", 16], // 6to4, embeds an IPv4 address
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is private, loopback, link-local or otherwise not on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return blockedAddresses.check(address, "ipv4");
+  if (version === 6) return blockedAddresses.check(address, "ipv6");
+  return true;
+}
+
+/**
+ * dns.lookup that fails for hosts with a private address, so a socket only connects to an address that was checked
+ * The check and the connection use the same answer, so a host can't rebind to another address in between.
+ */
+const publicLookup = ((hostname: string, options: LookupOptions, callback: (...args: unknown[]) => void) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error);
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new AssetDownloadError(`${hostname} resolves to a private address`));
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as LookupFunction;
+
+/**
+ * One request, without following redirects
+ */
+function get(url: URL, trusted: boolean): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const request = client.get(url, { lookup: trusted ? undefined : publicLookup, timeout: DOWNLOAD_TIMEOUT_MS });
+    request.on("response", (response) => {
+      // Belt and braces: the address the response really came from
+      const remote = response.socket.remoteAddress;
+      if (!trusted && (!remote || isPrivateAddress(remote))) {
+        response.destroy();
+        reject(new AssetDownloadError(`${url.host} connected to a private address`));
+        return;
+      }
+      resolve(response);
+    });
+    request.on("timeout", () => request.destroy(new AssetDownloadError(`${url.host} timed out`)));
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Download an http(s) asset to `destination`, following redirects and checking every hop
+ * Resolves to the response's Content-Type; rejects with AssetDownloadError for anything the worker may not fetch.
+ */
+export async function downloadAsset(src: string, destination: string): Promise<string> {
+  let url: URL;
+  try {
+    url = new URL(src);
+  } catch {
+    throw new AssetDownloadError(`Invalid URL ${src}`);
+  }
+  const ownOrigin = new URL(assetBaseUrl()).origin;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new AssetDownloadError(`Unsupported protocol ${url.protocol}`);
+    }
+    const trusted = url.origin === ownOrigin;
+    // URL keeps the brackets around IPv6 hosts; literal addresses skip the lookup, so are checked here
+    const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+    if (!trusted && isIP(host) && isPrivateAddress(host)) {
+      throw new AssetDownloadError(`${host} is a private address`);
+    }
+
+    const response = await get(url, trusted);
+    const status = response.statusCode ?? 0;
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume();
+      url = new URL(response.headers.location, url);
+      continue;
+    }
+    if (status !== 200) {
+      response.resume();
+      throw new AssetDownloadError(`HTTP ${status} from ${url.host}`);
+    }
+
+    let size = 0;
+    const limit = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        size += chunk.length;
+        if (size > MAX_ASSET_BYTES) {
+          callback(new AssetDownloadError(`Asset is larger than ${MAX_ASSET_BYTES} bytes`));
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+    await pipeline(response, limit, createWriteStream(destination));
+    return response.headers["content-type"] ?? "application/octet-stream";
+  }
+
+  throw new AssetDownloadError(`More than ${MAX_REDIRECTS} redirects`);
+}
+
+/**
+ * A downloaded file as a data URL, for Fabric to decode without fetching anything
+ */
+export async function fileToDataUrl(file: string, contentType: string): Promise<string> {
+  const type = contentType.split(";")[0].trim() || "application/octet-stream";
+  return `data:${type};base64,${(await readFile(file)).toString("base64")}`;
+}
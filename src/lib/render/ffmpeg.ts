@@ -0,0 +1,153 @@
+/**
+ * FFmpeg - Encodes raw RGBA frames piped to an ffmpeg process, with the project's audio mixed by ffmpeg filters
+ * The binary comes from FFMPEG_PATH (default "ffmpeg" on the PATH); any build with libx264, libvpx and libopus works.
+ */
+
+import { spawn } from "node:child_process";
+import type { ChildProcessWithoutNullStreams } from "node:child_process";
+import type { RenderFormat } from "@/lib/types/render";
+
+export interface FfmpegAudioInput {
+  src: string;
+  /** Seconds into the project where the clip starts */
+  start: number;
+  /** Seconds skipped at the start of the source */
+  offset: number;
+  duration: number;
+  volume: number;
+  fadeIn: number;
+  fadeOut: number;
+}
+
+export interface FfmpegEncoderOptions {
+  outputPath: string;
+  format: RenderFormat;
+  width: number;
+  height: number;
+  fps: number;
+  bitrate: number;
+  /** Keep the alpha channel (WebM only) */
+  transparent?: boolean;
+  audio?: FfmpegAudioInput[];
+}
+
+const AUDIO_SAMPLE_RATE = 48_000;
+const AUDIO_BITRATE = "192k";
+// ffmpeg output kept for the error message when it exits with a failure
+const STDERR_TAIL_LENGTH = 2_000;
+
+function buildArgs(options: FfmpegEncoderOptions): string[] {
+  const { width, height, fps, bitrate, format, transparent, audio = [] } = options;
+  const args = ["-hide_banner", "-loglevel", "error", "-y"];
+
+  // Frames arrive on stdin, one width*height*4 byte RGBA image per frame
+  args.push("-f", "rawvideo", "-pix_fmt", "rgba", "-s", `${width}x${height}`, "-r", String(fps), "-i", "pipe:0");
+  for (const input of audio) {
+    // Sources are files the worker downloaded (or inline data), so ffmpeg never opens a network connection itself
+    args.push("-protocol_whitelist", input.src.startsWith("data:") ? "data" : "file");
+    args.push("-ss", input.offset.toFixed(3), "-t", input.duration.toFixed(3), "-i", input.src);
+  }
+
+  if (audio.length > 0) {
+    // Same envelope as AudioMixer: volume, linear fades, then placed at the clip's start time
+    const chains = audio.map((input, i) => {
+      const filters = [
+        `aformat=sample_rates=${AUDIO_SAMPLE_RATE}:channel_layouts=stereo`,
+        `volume=${input.volume}`,
+      ];
+      if (input.fadeIn > 0) filters.push(`afade=t=in:st=0:d=${input.fadeIn.toFixed(3)}`);
+      if (input.fadeOut > 0) {
+        filters.push(`afade=t=out:st=${(input.duration - input.fadeOut).toFixed(3)}:d=${input.fadeOut.toFixed(3)}`);
+      }
+      filters.push(`adelay=${Math.round(input.start * 1000)}:all=1`);
+      return `[${i + 1}:a]${filters.join(",")}[a${i}]`;
+    });
+    const mix = `${audio.map((_, i) => `[a${i}]`).join("")}amix=inputs=${audio.length}:duration=longest:normalize=0,apad[aout]`;
+    args.push("-filter_complex", [...chains, mix].join(";"), "-map", "0:v", "-map", "[aout]", "-shortest");
+  }
+
+  if (format === "webm") {
+    args.push("-c:v", "libvpx-vp9", "-pix_fmt", transparent ? "yuva420p" : "yuv420p", "-b:v", String(bitrate));
+    if (audio.length > 0) args.push("-c:a", "libopus", "-b:a", AUDIO_BITRATE);
+  } else {
+    args.push("-c:v", "libx264", "-preset", "medium", "-pix_fmt", "yuv420p", "-b:v", String(bitrate));
+    args.push("-movflags", "+faststart");
+    if (audio.length > 0) args.push("-c:a", "aac", "-b:a", AUDIO_BITRATE);
+  }
+
+  args.push(options.outputPath);
+  return args;
+}
+
+export class FfmpegEncoder {
+  private process: ChildProcessWithoutNullStreams;
+  private exited: Promise<number | null>;
+  private stderr = "";
+
+  constructor(options: FfmpegEncoderOptions) {
+    this.process = spawn(process.env.FFMPEG_PATH || "ffmpeg", buildArgs(options));
+    this.process.stderr.setEncoding("utf8");
+    this.process.stderr.on("data", (text: string) => {
+      this.stderr = (this.stderr + text).slice(-STDERR_TAIL_LENGTH);
+    });
+    this.exited = new Promise((resolve, reject) => {
+      this.process.on("error", reject);
+      this.process.on("close", resolve);
+    });
+    // A failed spawn or an early exit (EPIPE on stdin) is reported through exited instead
+    this.exited.catch(() => {});
+    this.process.stdin.on("error", () => {});
+  }
+
+  /**
+   * Pipe one frame, waiting for ffmpeg to catch up when its input buffer is full
+   */
+  async writeFrame(rgba: Uint8ClampedArray): Promise<void> {
+    const stdin = this.process.stdin;
+    if (stdin.destroyed) {
+      throw await this.failure();
+    }
+    const accepted = stdin.write(new Uint8Array(rgba.buffer, rgba.byteOffset, rgba.byteLength));
+    if (!accepted) {
+      await new Promise<void>((resolve, reject) => {
+        const onDrain = () => {
+          stdin.off("error", onError);
+          resolve();
+        };
+        const onError = (error: Error) => {
+          stdin.off("drain", onDrain);
+          reject(error);
+        };
+        stdin.once("drain", onDrain);
+        stdin.once("error", onError);
+      }).catch(async () => {
+        throw await this.failure();
+      });
+    }
+  }
+
+  /**
+   * Close the input and wait for ffmpeg to write the file
+   */
+  async finish(): Promise<void> {
+    this.process.stdin.end();
+    const code = await this.exited.catch(() => null);
+    if (code !== 0) {
+      throw await this.failure();
+    }
+  }
+
+  abort(): void {
+    this.process.stdin.destroy();
+    this.process.kill("SIGKILL");
+  }
+
+  private async failure(): Promise<Error> {
+    try {
+      const code = await this.exited;
+      return new Error(`ffmpeg exited with code ${code}: ${this.stderr.trim() || "no output"}`);
+    } catch (error) {
+      return new Error(`ffmpeg could not be started: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
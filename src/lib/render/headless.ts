@@ -0,0 +1,168 @@
+/**
+ * Headless - Renders a project in Node, without a browser tab
+ * Fabric runs on its node build's environment (jsdom + node-canvas), the same FabricRenderer and TimelineController
+ * as the browser export draw each frame, and ffmpeg encodes the raw pixels.
+ */
+
+import path from "node:path";
+import * as fabric from "fabric";
+import { getEnv as getNodeEnv } from "fabric/node";
+import type { AudioProperties, VideoProject } from "@/lib/schemas/timeline";
+import { TRANSPARENT_BACKGROUND } from "@/lib/schemas/timeline";
+import { TimelineController } from "@/lib/core/timeline/TimelineController";
+import { FabricRenderer } from "@/lib/core/FabricRenderer";
+import type { RenderOutputSize } from "@/lib/core/FabricRenderer";
+import type { RenderFormat } from "@/lib/types/render";
+import { downloadAsset, fileToDataUrl } from "./assets";
+import { FfmpegEncoder } from "./ffmpeg";
+import type { FfmpegAudioInput } from "./ffmpeg";
+
+export interface HeadlessRenderOptions {
+  outputPath: string;
+  format: RenderFormat;
+  output: RenderOutputSize & { fps: number };
+  bitrate: number;
+  /** Called after every frame with the fraction rendered (0..1) */
+  onProgress?: (fraction: number) => void;
+}
+
+let installed = false;
+
+/**
+ * Point the browser build of Fabric (what FabricRenderer imports) at the node build's jsdom environment
+ */
+export function installNodeFabricEnv(): void {
+  if (installed) return;
+  installed = true;
+  fabric.setEnv(getNodeEnv());
+}
+
+/**
+ * Download the project's images and audio into `dir` - there is no page origin to fetch them from
+ * Relative URLs (e.g. "/uploads/a.png") resolve against `baseUrl`. Images become data URLs for Fabric and audio
+ * becomes local files for ffmpeg, so neither fetches anything itself. Assets that can't be downloaded, or may
+ * not be (see downloadAsset), are cleared and render like a missing file.
+ */
+export async function localizeAssets(project: VideoProject, baseUrl: string, dir: string): Promise<VideoProject> {
+  let count = 0;
+  const localize = async (url: unknown, as: "dataUrl" | "file") => {
+    if (typeof url !== "string" || url === "" || url.startsWith("data:")) return url;
+    const file = path.join(dir, `asset-${count++}`);
+    try {
+      const contentType = await downloadAsset(new URL(url, baseUrl).toString(), file);
+      return as === "file" ? file : await fileToDataUrl(file, contentType);
+    } catch (error) {
+      console.warn(`Skipping asset ${url}:`, error instanceof Error ? error.message : error);
+      return "";
+    }
+  };
+
+  const events = [];
+  // One download at a time, so a project full of large files doesn't fill the worker's memory
+  for (const event of project.events) {
+    const props = event.properties as Record<string, unknown>;
+    if ((event.type === "image" || event.type === "audio") && props.src) {
+      const src = await localize(props.src, event.type === "audio" ? "file" : "dataUrl");
+      events.push({ ...event, properties: { ...props, src } as typeof event.properties });
+    } else if (event.type === "background" && props.image) {
+      const image = await localize(props.image, "dataUrl");
+      events.push({ ...event, properties: { ...props, image } as typeof event.properties });
+    } else {
+      events.push(event);
+    }
+  }
+  return { ...project, events };
+}
+
+/**
+ * The project's audible clips as ffmpeg inputs; sources localizeAssets couldn't download are skipped, like AudioMixer does
+ */
+function collectAudioInputs(project: VideoProject): FfmpegAudioInput[] {
+  const inputs = project.events.map((event): FfmpegAudioInput | null => {
+    if (event.type !== "audio") return null;
+    const props = event.properties as AudioProperties;
+    const volume = props.volume ?? 1;
+    if (!props.src || props.isMuted || volume <= 0) return null;
+
+    const start = Math.max(0, event.startTime);
+    const duration = Math.min(event.duration, project.duration - start);
+    if (duration <= 0) return null;
+
+    // Fades that don't fit are shortened proportionally so they never overlap
+    let fadeIn = Math.max(0, props.fadeIn ?? 0);
+    let fadeOut = Math.max(0, props.fadeOut ?? 0);
+    if (fadeIn + fadeOut > duration) {
+      const ratio = duration / (fadeIn + fadeOut);
+      fadeIn *= ratio;
+      fadeOut *= ratio;
+    }
+
+    return { src: props.src, start, offset: Math.max(0, props.sourceOffset ?? 0), duration, volume, fadeIn, fadeOut };
+  });
+  return inputs.filter((input): input is FfmpegAudioInput => input !== null);
+}
+
+/**
+ * Render every frame of the project into a video file at outputPath
+ */
+export async function renderProjectToFile(project: VideoProject, options: HeadlessRenderOptions): Promise<void> {
+  installNodeFabricEnv();
+
+  const { output } = options;
+  const controller = new TimelineController(project, output.fps);
+  const totalFrames = controller.getTotalFrames();
+  const renderer = new FabricRenderer(project, output);
+  let encoder: FfmpegEncoder | null = null;
+
+  try {
+    await renderer.initialize();
+    const context = renderer.getCanvas()?.getContext("2d");
+    if (!context) {
+      throw new Error("Renderer canvas unavailable");
+    }
+
+    encoder = new FfmpegEncoder({
+      outputPath: options.outputPath,
+      format: options.format,
+      width: output.width,
+      height: output.height,
+      fps: output.fps,
+      bitrate: options.bitrate,
+      transparent: project.backgroundColor === TRANSPARENT_BACKGROUND,
+      audio: collectAudioInputs(project),
+    });
+
+    for (let frame = 0; frame < totalFrames; frame++) {
+      renderer.renderFrame(controller.getFrameState(frame));
+      await encoder.writeFrame(context.getImageData(0, 0, output.width, output.height).data);
+      options.onProgress?.((frame + 1) / totalFrames);
+    }
+    await encoder.finish();
+  } catch (error) {
+    encoder?.abort();
+    throw error;
+  } finally {
+    renderer.destroy();
+  }
+}
+
+/**
+ * A single frame as a JPEG data URL, for the project card thumbnail
+ */
+export async function renderThumbnail(project: VideoProject, time: number, width = 480): Promise<string> {
+  installNodeFabricEnv();
+
+  const height = Math.round((width * project.height) / project.width);
+  const renderer = new FabricRenderer(project, { width, height });
+  try {
+    await renderer.initialize();
+    renderer.renderFrame(new TimelineController(project).getStateAtTime(time));
+    const canvas = renderer.getCanvas();
+    if (!canvas) {
+      throw new Error("Renderer canvas unavailable");
+    }
+    return canvas.toDataURL("image/jpeg", 0.8);
+  } finally {
+    renderer.destroy();
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Render paths - Where the render worker writes files while it encodes, and where it loads assets from
+ */
+
+import path from "node:path";
+
+/**
+ * Scratch directory for files being encoded - finished files move to export storage
+ */
+export function renderOutputDir(): string {
+  return path.resolve(process.env.RENDER_OUTPUT_DIR || "renders");
+}
+
+/**
+ * Base URL that relative asset URLs in a project are resolved against
+ */
+export function assetBaseUrl(): string {
+  return process.env.RENDER_ASSET_BASE_URL || process.env.AUTH_URL || "http://localhost:3000";
+}
@@ -0,0 +1,75 @@
+/**
+ * Render Queue - RenderJob state changes made by the render worker
+ * Jobs are claimed with a conditional update, so any number of workers can poll the same table.
+ */
+
+import { db } from "@/lib/db";
+import type { RenderFormat } from "@/lib/types/render";
+
+export interface ClaimedRenderJob {
+  id: string;
+  projectId: string;
+  format: RenderFormat;
+  presetId: string | null;
+}
+
+// A running job whose worker hasn't reported progress for this long is assumed dead and queued again
+const STALE_AFTER_MS = 5 * 60 * 1000;
+
+/**
+ * Oldest queued job, now marked RUNNING - null when the queue is empty or another worker claimed it first
+ */
+export async function claimNextRenderJob(): Promise<ClaimedRenderJob | null> {
+  const next: ClaimedRenderJob | null = await db.renderJob.findFirst({
+    where: { status: "QUEUED" },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, projectId: true, format: true, presetId: true },
+  });
+  if (!next) return null;
+
+  const { count } = await db.renderJob.updateMany({
+    where: { id: next.id, status: "QUEUED" },
+    data: { status: "RUNNING", startedAt: new Date(), progress: 0 },
+  });
+  return count === 1 ? next : null;
+}
+
+/**
+ * Also serves as the heartbeat that keeps the job from being treated as stale
+ */
+export async function reportRenderProgress(jobId: string, progress: number): Promise<void> {
+  await db.renderJob.update({ where: { id: jobId }, data: { progress } });
+}
+
+/**
+ * The rendered file is already in the export history (saveExportArtifact links it to the job)
+ */
+export async function completeRenderJob(job: ClaimedRenderJob, thumbnail: string | null): Promise<void> {
+  await db.renderJob.update({
+    where: { id: job.id },
+    data: { status: "COMPLETED", progress: 1, finishedAt: new Date() },
+  });
+  await db.project.update({
+    where: { id: job.projectId },
+    data: { status: "COMPLETED", ...(thumbnail ? { thumbnail } : {}) },
+  });
+}
+
+export async function failRenderJob(job: ClaimedRenderJob, error: string): Promise<void> {
+  await db.renderJob.update({
+    where: { id: job.id },
+    data: { status: "FAILED", error, finishedAt: new Date() },
+  });
+  await db.project.update({ where: { id: job.projectId }, data: { status: "FAILED" } });
+}
+
+/**
+ * Put jobs from crashed or killed workers back in the queue
+ */
+export async function requeueStaleRenderJobs(): Promise<number> {
+  const { count } = await db.renderJob.updateMany({
+    where: { status: "RUNNING", updatedAt: { lt: new Date(Date.now() - STALE_AFTER_MS) } },
+    data: { status: "QUEUED", progress: 0, startedAt: null },
+  });
+  return count;
+}
@@ -0,0 +1,123 @@
+/**
+ * Render Worker - Long-running Node process that takes queued render jobs and renders them headlessly
+ * Start it next to the web server with `npm run render-worker`; several workers can share one queue.
+ */
+
+import { createReadStream } from "node:fs";
+import { mkdir, rm } from "node:fs/promises";
+import path from "node:path";
+import { db } from "@/lib/db";
+import type { StoredTimelineEvent } from "@/lib/schemas/timeline";
+import type { VideoProject as StoredVideoProject } from "@/lib/types/project";
+import { toTimelineProject } from "@/lib/core/timeline/project";
+import { getPlatformPreset } from "@/lib/core/presets";
+import { posterTime } from "@/lib/core/thumbnail";
+import { saveExportArtifact } from "@/lib/storage/artifacts";
+import {
+  claimNextRenderJob,
+  completeRenderJob,
+  failRenderJob,
+  reportRenderProgress,
+  requeueStaleRenderJobs,
+} from "./queue";
+import type { ClaimedRenderJob } from "./queue";
+import { localizeAssets, renderProjectToFile, renderThumbnail } from "./headless";
+import { assetBaseUrl, renderOutputDir } from "./paths";
+
+const POLL_INTERVAL_MS = 2_000;
+// Progress is written to the database at most this often
+const PROGRESS_INTERVAL_MS = 1_000;
+const DEFAULT_BITRATE = 10_000_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function processJob(job: ClaimedRenderJob): Promise<void> {
+  const record = await db.project.findUnique({ where: { id: job.projectId } });
+  if (!record) {
+    throw new Error("Project no longer exists");
+  }
+  // The same conversion the editor page does when it loads a project
+  const stored: StoredVideoProject = { ...record, timeline: record.timeline as unknown as StoredTimelineEvent[] };
+
+  const preset = job.presetId ? getPlatformPreset(job.presetId) : undefined;
+  let project = toTimelineProject(stored);
+  if (preset?.maxDuration) {
+    project = { ...project, duration: Math.min(project.duration, preset.maxDuration) };
+  }
+
+  const output = preset
+    ? { width: preset.width, height: preset.height, fps: preset.fps, fit: "contain" as const }
+    : { width: project.width, height: project.height, fps: project.fps };
+  const scratchPath = path.join(renderOutputDir(), `${job.id}.${job.format}`);
+  // Downloaded images and audio, removed along with the scratch file
+  const assetDir = path.join(renderOutputDir(), `${job.id}-assets`);
+  await mkdir(assetDir, { recursive: true });
+
+  let lastReport = 0;
+  try {
+    project = await localizeAssets(project, assetBaseUrl(), assetDir);
+    await renderProjectToFile(project, {
+      outputPath: scratchPath,
+      format: job.format,
+      output,
+      bitrate: preset?.bitrate ?? DEFAULT_BITRATE,
+      onProgress: (fraction) => {
+        const now = Date.now();
+        if (now - lastReport < PROGRESS_INTERVAL_MS) return;
+        lastReport = now;
+        reportRenderProgress(job.id, fraction).catch((error) => console.warn("Failed to report progress:", error));
+      },
+    });
+    await saveExportArtifact(
+      job.projectId,
+      { format: job.format, width: output.width, height: output.height, duration: project.duration },
+      createReadStream(scratchPath),
+      job.id
+    );
+  } finally {
+    await rm(scratchPath, { force: true });
+    await rm(assetDir, { recursive: true, force: true });
+  }
+
+  // A missing thumbnail shouldn't fail a finished render
+  const thumbnail = await renderThumbnail(project, posterTime(project)).catch((error) => {
+    console.warn(`Thumbnail for job ${job.id} failed:`, error);
+    return null;
+  });
+  await completeRenderJob(job, thumbnail);
+}
+
+/**
+ * Poll the queue and render jobs one at a time until the signal is aborted (the current job is finished first)
+ */
+export async function runRenderWorker(signal?: AbortSignal): Promise<void> {
+  console.log(`Render worker started, writing to ${renderOutputDir()}`);
+
+  while (!signal?.aborted) {
+    let job: ClaimedRenderJob | null = null;
+    try {
+      const requeued = await requeueStaleRenderJobs();
+      if (requeued > 0) console.log(`Requeued ${requeued} stalled render job(s)`);
+
+      job = await claimNextRenderJob();
+      if (!job) {
+        await sleep(POLL_INTERVAL_MS);
+        continue;
+      }
+
+      console.log(`Rendering job ${job.id} (project ${job.projectId}, ${job.format})`);
+      await processJob(job);
+      console.log(`Job ${job.id} completed`);
+    } catch (error) {
+      console.error(job ? `Job ${job.id} failed:` : "Render queue error:", error);
+      if (job) {
+        const message = error instanceof Error ? error.message : String(error);
+        await failRenderJob(job, message).catch((err) => console.error("Failed to record job failure:", err));
+      } else {
+        await sleep(POLL_INTERVAL_MS);
+      }
+    }
+  }
+
+  console.log("Render worker stopped");
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { UpdateProjectInputSchema } from "./project";
+
+const webp = "data:image/webp;base64,UklGRh4AAABXRUJQVlA4TBEAAAAvAAAAAAfQ//73v/+BiOh/AAA=";
+
+describe("UpdateProjectInputSchema", () => {
+  it("accepts WebP and JPEG thumbnails", () => {
+    expect(UpdateProjectInputSchema.safeParse({ thumbnail: webp, previewStrip: webp }).success).toBe(true);
+    expect(UpdateProjectInputSchema.safeParse({ thumbnail: "data:image/jpeg;base64,/9j/4AAQ" }).success).toBe(true);
+  });
+
+  it.each([
+    "https://example.com/a.webp",
+    "data:image/svg+xml;base64,PHN2Zz4=",
+    "data:image/webp;base64,AAAA\");background:url(https://example.com)",
+    `data:image/webp;base64,${"A".repeat(2_000_000)}`,
+  ])("rejects %.40s as a thumbnail", (thumbnail) => {
+    expect(UpdateProjectInputSchema.safeParse({ thumbnail }).success).toBe(false);
+    expect(UpdateProjectInputSchema.safeParse({ previewStrip: thumbnail }).success).toBe(false);
+  });
+
+  it("doesn't let clients set the status", () => {
+    expect(UpdateProjectInputSchema.safeParse({ status: "COMPLETED" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import { z } from "zod";
+import { StoredTimelineSchema } from "./timeline";
+import { getPlatformPreset } from "@/lib/core/presets";
+
+// Project fields the API accepts - the timeline is validated event by event against StoredTimelineEventSchema
+const ProjectFieldsSchema = z.object({
+  name: z.string().trim().min(1, "Project name is required").max(200),
+  description: z.string(),
+  width: z.number().int().min(16).max(7680),
+  height: z.number().int().min(16).max(7680),
+  fps: z.number().int().min(1).max(120),
+  duration: z.number().min(0.1),
+  backgroundColor: z.string().trim().min(1).max(64), // CSS color or TRANSPARENT_BACKGROUND
+  timeline: StoredTimelineSchema,
+});
+
+// POST /api/projects body
+export const CreateProjectInputSchema = ProjectFieldsSchema.partial().required({ name: true }).strict();
+
+// Dashboard images from renderProjectThumbnails - WebP, or JPEG where the browser can't encode WebP
+const ImageDataUrlSchema = z
+  .string()
+  .max(2_000_000)
+  .regex(/^data:image\/(webp|jpeg);base64,[A-Za-z0-9+/]+={0,2}$/, "Expected a base64 WebP or JPEG data URL");
+
+// PATCH /api/projects/:id body - status is only set by the server (renders)
+export const UpdateProjectInputSchema = ProjectFieldsSchema.extend({
+  thumbnail: ImageDataUrlSchema,
+  thumbnailTime: z.number().min(0).nullable(), // null goes back to the midpoint
+  previewStrip: ImageDataUrlSchema,
+})
+  .partial()
+  .strict();
+
+// POST /api/projects/:id/versions body - a named checkpoint
+export const CreateVersionInputSchema = z
+  .object({
+    name: z.string().trim().min(1, "Checkpoint name is required").max(100),
+  })
+  .strict();
+
+// Sharing - the owner role only comes from creating a project or workspace, or from a workspace owner
+const EmailSchema = z.string().trim().toLowerCase().email("Enter a valid email address");
+const SharedRoleSchema = z.enum(["EDITOR", "VIEWER"]);
+const WorkspaceRoleSchema = z.enum(["OWNER", "EDITOR", "VIEWER"]);
+
+// POST /api/projects/:id/members body - invite by email
+export const ProjectInviteInputSchema = z.object({ email: EmailSchema, role: SharedRoleSchema }).strict();
+
+// PATCH /api/projects/:id/members/:userId body
+export const ProjectMemberInputSchema = z.object({ role: SharedRoleSchema }).strict();
+
+// PUT /api/projects/:id/workspace body - null moves the project back to its owner's projects
+export const ProjectWorkspaceInputSchema = z.object({ workspaceId: z.string().min(1).nullable() }).strict();
+
+// POST /api/workspaces body
+export const CreateWorkspaceInputSchema = z
+  .object({
+    name: z.string().trim().min(1, "Workspace name is required").max(100),
+  })
+  .strict();
+
+// POST /api/workspaces/:id/members body - adds someone who has signed in before
+export const WorkspaceMemberInputSchema = z.object({ email: EmailSchema, role: WorkspaceRoleSchema }).strict();
+
+// PATCH /api/workspaces/:id/members/:userId body
+export const WorkspaceRoleInputSchema = z.object({ role: WorkspaceRoleSchema }).strict();
+
+// POST /api/projects/:id/share-links body - no expiry when expiresInDays is left out or null
+export const CreateShareLinkInputSchema = z
+  .object({
+    expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+  })
+  .strict();
+
+// POST /api/projects/:id/render body - with a preset, the preset's container wins over format
+export const CreateRenderJobInputSchema = z
+  .object({
+    format: z.enum(["mp4", "webm"]).optional(),
+    presetId: z
+      .string()
+      .refine((id) => getPlatformPreset(id) !== undefined, "Unknown preset")
+      .optional(),
+  })
+  .strict();
+
+// Types - Output (parsed, what the data layer writes)
+export type CreateProjectData = z.infer<typeof CreateProjectInputSchema>;
+export type UpdateProjectData = z.infer<typeof UpdateProjectInputSchema>;
+
+// Types - Input (request bodies, defaults not yet applied)
+export type CreateProjectInput = z.input<typeof CreateProjectInputSchema>;
+export type UpdateProjectInput = z.input<typeof UpdateProjectInputSchema>;
+export type CreateVersionInput = z.input<typeof CreateVersionInputSchema>;
+export type ProjectInviteInput = z.input<typeof ProjectInviteInputSchema>;
+export type WorkspaceMemberInput = z.input<typeof WorkspaceMemberInputSchema>;
+export type CreateShareLinkInput = z.input<typeof CreateShareLinkInputSchema>;
+export type CreateRenderJobInput = z.input<typeof CreateRenderJobInputSchema>;
+
+// One failed check, with a JSONPath to the offending value (e.g. "$.timeline[3].properties.fontSize")
+export interface ValidationIssue {
+  path: string;
+  code: string;
+  message: string;
+}
+
+function toJsonPath(path: PropertyKey[]): string {
+  return path.reduce<string>(
+    (jsonPath, key) =>
+      typeof key === "number"
+        ? `${jsonPath}[${key}]`
+        : /^[A-Za-z_$][\w$]*$/.test(String(key))
+        ? `${jsonPath}.${String(key)}`
+        : `${jsonPath}[${JSON.stringify(String(key))}]`,
+    "$"
+  );
+}
+
+// Flatten a ZodError for a 422 response body
+export function toValidationIssues(error: z.ZodError, basePath: PropertyKey[] = []): ValidationIssue[] {
+  return error.issues.map((issue) => ({
+    path: toJsonPath([...basePath, ...issue.path]),
+    code: issue.code,
+    message: issue.message,
+  }));
+}
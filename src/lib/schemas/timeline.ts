@@ -1,16 +1,76 @@
 import { z } from "zod";
 
+// Animatable properties and easing curves
+export const AnimatablePropertySchema = z.enum(["opacity", "scale", "x", "y", "rotation", "fill", "stroke", "strokeWidth", "gradient"]);
+export const NamedEasingSchema = z.enum(["linear", "easeIn", "easeOut", "easeInOut", "bounce", "elastic", "back"]);
+
+// Parametric easing curves
+export const CubicBezierEasingSchema = z.object({
+  type: z.literal("cubicBezier"),
+  x1: z.number().min(0).max(1),
+  y1: z.number(),
+  x2: z.number().min(0).max(1),
+  y2: z.number(),
+});
+
+export const StepsEasingSchema = z.object({
+  type: z.literal("steps"),
+  steps: z.number().int().min(1),
+  position: z.enum(["start", "end"]).optional(), // Jump at the start or end of each step (default end)
+});
+
+export const SpringEasingSchema = z.object({
+  type: z.literal("spring"),
+  stiffness: z.number().positive(),
+  damping: z.number().min(0),
+  mass: z.number().positive(),
+});
+
+export const EasingSchema = z.union([
+  NamedEasingSchema,
+  z.discriminatedUnion("type", [CubicBezierEasingSchema, StepsEasingSchema, SpringEasingSchema]),
+]);
+
+// Color space used when tweening colors (fill, stroke, gradient stops)
+export const ColorSpaceSchema = z.enum(["srgb", "linear", "oklch"]);
+
+// Gradient fill - `stops` are 0..1 offsets per color (evenly spaced when omitted)
+export const GradientSchema = z.object({
+  type: z.enum(["linear", "radial"]),
+  colors: z.array(z.string()),
+  stops: z.array(z.number().min(0).max(1)).optional(),
+  angle: z.number().optional(),
+});
+
+// Animatable value - numbers, colors/strings or whole gradients
+export const AnimationValueSchema = z.union([z.number(), z.string(), GradientSchema]);
+
 // Animation Types
 export const AnimationSchema = z.object({
-  property: z.enum(["opacity", "scale", "x", "y", "rotation", "fill", "strokeWidth"]),
-  from: z.number().or(z.string()), // Allow colors for fill
-  to: z.number().or(z.string()),
-  easing: z.enum(["linear", "easeIn", "easeOut", "easeInOut", "bounce"]).optional(),
+  property: AnimatablePropertySchema,
+  from: AnimationValueSchema,
+  to: AnimationValueSchema,
+  easing: EasingSchema.optional(),
+  colorSpace: ColorSpaceSchema.optional(),
   duration: z.number().optional(), // Override event duration
   delay: z.number().optional(),
   startTime: z.number().optional(), // For DB compatibility
 });
 
+// Keyframe - a value at a time (seconds, relative to the event start)
+export const KeyframeSchema = z.object({
+  time: z.number().min(0),
+  value: AnimationValueSchema,
+  easing: EasingSchema.optional(), // Curve used from this keyframe to the next one
+  colorSpace: ColorSpaceSchema.optional(), // Color space used from this keyframe to the next one
+});
+
+// Keyframe track - ordered keyframes for a single property
+export const KeyframeTrackSchema = z.array(KeyframeSchema);
+
+// Keyframe tracks by property
+export const KeyframeTracksSchema = z.partialRecord(AnimatablePropertySchema, KeyframeTrackSchema);
+
 // Text properties
 export const TextPropertiesSchema = z.object({
   text: z.string(),
@@ -30,23 +90,25 @@ export const TextPropertiesSchema = z.object({
 
 // Shape properties
 export const ShapePropertiesSchema = z.object({
-  shapeType: z.enum(["rect", "circle", "ellipse", "triangle", "polygon"]),
+  shapeType: z.enum(["rect", "circle", "ellipse", "triangle", "polygon", "line", "arrow"]),
   x: z.number(),
   y: z.number(),
   width: z.number().optional(),
   height: z.number().optional(),
   radius: z.number().optional(),
+  sides: z.number().int().min(3).optional(), // Polygon side count (default 6)
+  // Line/arrow endpoints, shifted so their midpoint sits at (x, y)
+  x1: z.number().optional(),
+  y1: z.number().optional(),
+  x2: z.number().optional(),
+  y2: z.number().optional(),
   fill: z.string().default("#ffffff"),
   stroke: z.string().optional(),
   strokeWidth: z.number().optional(),
   opacity: z.number().min(0).max(1).default(1),
   rotation: z.number().default(0),
   cornerRadius: z.number().optional(),
-  gradient: z.object({
-    type: z.enum(["linear", "radial"]),
-    colors: z.array(z.string()),
-    angle: z.number().optional(),
-  }).optional(),
+  gradient: GradientSchema.optional(),
 });
 
 // Image properties
@@ -70,25 +132,32 @@ export const AudioPropertiesSchema = z.object({
   isMuted: z.boolean().default(false),
   fadeIn: z.number().optional(), // Fade in duration in seconds
   fadeOut: z.number().optional(), // Fade out duration in seconds
+  sourceOffset: z.number().min(0).optional(), // Seconds skipped at the start of the source (in-point)
 });
 
 // Background properties
 export const BackgroundPropertiesSchema = z.object({
   type: z.enum(["solid", "gradient", "image"]),
   color: z.string().optional(),
-  gradient: z.object({
-    type: z.enum(["linear", "radial"]),
-    colors: z.array(z.string()),
-    angle: z.number().optional(),
-  }).optional(),
+  gradient: GradientSchema.optional(),
   image: z.string().url().optional(),
 });
 
+// Connector properties - a line or arrow between two other events
+export const ConnectorPropertiesSchema = z.object({
+  sourceId: z.string(),
+  targetId: z.string(),
+  type: z.enum(["line", "arrow"]).default("arrow"),
+  stroke: z.string().default("#ffffff"),
+  strokeWidth: z.number().default(2),
+  opacity: z.number().min(0).max(1).default(1),
+});
+
 // Transition schema for scene transitions
 export const TransitionSchema = z.object({
   type: z.enum(["none", "fade", "slideLeft", "slideRight", "slideUp", "slideDown", "scale", "blur"]),
   duration: z.number().min(0).default(0.5),
-  easing: z.enum(["linear", "easeIn", "easeOut", "easeInOut"]).default("easeInOut"),
+  easing: EasingSchema.default("easeInOut"),
 });
 
 // Timeline event
@@ -104,20 +173,70 @@ export const TimelineEventSchema = z.object({
     ImagePropertiesSchema,
     BackgroundPropertiesSchema,
     AudioPropertiesSchema,
-    z.object({
-      // Connector properties
-      sourceId: z.string(),
-      targetId: z.string(),
-      type: z.enum(["line", "arrow"]).default("arrow"),
-      stroke: z.string().default("#ffffff"),
-      strokeWidth: z.number().default(2),
-      opacity: z.number().min(0).max(1).default(1),
-    }),
+    ConnectorPropertiesSchema,
   ]),
-  animations: z.array(AnimationSchema).optional(),
-  transition: TransitionSchema.optional(),
+  animations: z.array(AnimationSchema).optional(), // Legacy single from/to tweens
+  keyframes: KeyframeTracksSchema.optional(),
+  transition: TransitionSchema.optional(), // Enter transition
+  exitTransition: TransitionSchema.optional(), // Replaces the automatic smooth exit when set
 });
 
+// Timeline event as stored in Project.timeline and accepted by the API
+// Properties are checked against the schema for the event's type (the union above takes the first shape that fits),
+// and there is no layer - the editor derives it from the event's position in the array
+const StoredTimelineEventBaseSchema = TimelineEventSchema.omit({ type: true, layer: true, properties: true });
+
+export const StoredTimelineEventSchema = z.discriminatedUnion("type", [
+  StoredTimelineEventBaseSchema.extend({ type: z.literal("text"), properties: TextPropertiesSchema }),
+  StoredTimelineEventBaseSchema.extend({ type: z.literal("shape"), properties: ShapePropertiesSchema }),
+  StoredTimelineEventBaseSchema.extend({ type: z.literal("image"), properties: ImagePropertiesSchema }),
+  StoredTimelineEventBaseSchema.extend({ type: z.literal("background"), properties: BackgroundPropertiesSchema }),
+  StoredTimelineEventBaseSchema.extend({ type: z.literal("audio"), properties: AudioPropertiesSchema }),
+  StoredTimelineEventBaseSchema.extend({ type: z.literal("connector"), properties: ConnectorPropertiesSchema }),
+]);
+
+// Whole stored timeline - event ids must be unique, selection and connectors look events up by id
+export const StoredTimelineSchema = z.array(StoredTimelineEventSchema).superRefine((events, ctx) => {
+  const seen = new Set<string>();
+  events.forEach((event, index) => {
+    if (seen.has(event.id)) {
+      ctx.addIssue({ code: "custom", message: `Duplicate event id "${event.id}"`, path: [index, "id"] });
+    }
+    seen.add(event.id);
+  });
+});
+
+/**
+ * A stored timeline brought into the shape StoredTimelineSchema expects, for projects saved before it was enforced
+ * Fixes what older editors wrote: a missing array, negative start times, too-short durations and repeated ids
+ * (later copies get a new one). Anything else is left for the schema to report.
+ */
+export function normalizeStoredTimeline(timeline: unknown): unknown {
+  if (!Array.isArray(timeline)) return [];
+
+  const seen = new Set<string>();
+  return timeline.map((event: unknown) => {
+    if (!event || typeof event !== "object") return event;
+    // No layer - it is the event's position in the array
+    const fields = { ...(event as Record<string, unknown>) };
+    delete fields.layer;
+
+    if (typeof fields.startTime === "number") fields.startTime = Math.max(0, fields.startTime);
+    if (typeof fields.duration === "number") fields.duration = Math.max(0.1, fields.duration);
+    if (fields.animations === null) fields.animations = [];
+    if (typeof fields.id === "string") {
+      let id = fields.id;
+      for (let copy = 2; seen.has(id); copy++) id = `${fields.id}-${copy}`;
+      seen.add(id);
+      fields.id = id;
+    }
+    return fields;
+  });
+}
+
+// Project background that paints nothing, so PNG, APNG and WebM exports keep the alpha channel
+export const TRANSPARENT_BACKGROUND = "transparent";
+
 // Full project schema
 export const VideoProjectSchema = z.object({
   id: z.string(),
@@ -127,19 +246,34 @@ export const VideoProjectSchema = z.object({
   height: z.number().default(1080),
   fps: z.number().default(30),
   duration: z.number().min(0.1),
-  backgroundColor: z.string().default("#000000"),
+  backgroundColor: z.string().default("#000000"), // CSS color or TRANSPARENT_BACKGROUND
+  thumbnailTime: z.number().min(0).optional(), // Poster frame in seconds, the midpoint when unset
   events: z.array(TimelineEventSchema),
 });
 
 // Types - Output (Full objects with defaults applied)
+export type AnimatableProperty = z.infer<typeof AnimatablePropertySchema>;
+export type NamedEasing = z.infer<typeof NamedEasingSchema>;
+export type CubicBezierEasing = z.infer<typeof CubicBezierEasingSchema>;
+export type StepsEasing = z.infer<typeof StepsEasingSchema>;
+export type SpringEasing = z.infer<typeof SpringEasingSchema>;
+export type Easing = z.infer<typeof EasingSchema>;
+export type ColorSpace = z.infer<typeof ColorSpaceSchema>;
+export type Gradient = z.infer<typeof GradientSchema>;
+export type AnimationValue = z.infer<typeof AnimationValueSchema>;
 export type Animation = z.infer<typeof AnimationSchema>;
+export type Keyframe = z.infer<typeof KeyframeSchema>;
+export type KeyframeTrack = z.infer<typeof KeyframeTrackSchema>;
+export type KeyframeTracks = z.infer<typeof KeyframeTracksSchema>;
 export type TextProperties = z.infer<typeof TextPropertiesSchema>;
 export type ShapeProperties = z.infer<typeof ShapePropertiesSchema>;
 export type ImageProperties = z.infer<typeof ImagePropertiesSchema>;
 export type AudioProperties = z.infer<typeof AudioPropertiesSchema>;
 export type BackgroundProperties = z.infer<typeof BackgroundPropertiesSchema>;
+export type ConnectorProperties = z.infer<typeof ConnectorPropertiesSchema>;
 export type Transition = z.infer<typeof TransitionSchema>;
 export type TimelineEvent = z.infer<typeof TimelineEventSchema>;
+export type StoredTimelineEvent = z.infer<typeof StoredTimelineEventSchema>;
 export type VideoProject = z.infer<typeof VideoProjectSchema>;
 
 // Types - Input (Optional fields allowed)
@@ -0,0 +1,32 @@
+/**
+ * Export Storage - Where export files are kept once they have been made
+ * Keys look like "<projectId>/<artifactId>.mp4"; adapters decide how a key maps to a location.
+ */
+
+import type { Readable } from "node:stream";
+
+export interface StoredFile {
+  size: number;
+  /** SHA-256 of the content, hex */
+  checksum: string;
+}
+
+export interface ExportStorage {
+  /** Store the whole stream under key, replacing anything already there */
+  put(key: string, body: Readable): Promise<StoredFile>;
+  /** The stored file, or null when nothing is stored under key */
+  get(key: string): Promise<{ body: Readable; size: number } | null>;
+  /** Remove the file; a missing key is not an error */
+  delete(key: string): Promise<void>;
+}
+
+const KEY_PATTERN = /^[\w-]+(\/[\w-]+)*\.\w+$/;
+
+/**
+ * Reject keys that could step outside the storage root
+ */
+export function assertValidKey(key: string): void {
+  if (!KEY_PATTERN.test(key)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
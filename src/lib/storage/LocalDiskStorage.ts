@@ -0,0 +1,65 @@
+/**
+ * Local Disk Storage - Export files in a directory on the server's disk
+ * Files are written next to their final name and renamed into place, so a reader never sees half a file.
+ */
+
+import { createHash } from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import { mkdir, rename, rm, stat } from "node:fs/promises";
+import path from "node:path";
+import type { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { assertValidKey } from "./ExportStorage";
+import type { ExportStorage, StoredFile } from "./ExportStorage";
+
+export class LocalDiskStorage implements ExportStorage {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, body: Readable): Promise<StoredFile> {
+    const filePath = this.resolve(key);
+    const partialPath = `${filePath}.part`;
+    await mkdir(path.dirname(filePath), { recursive: true });
+
+    const hash = createHash("sha256");
+    let size = 0;
+    try {
+      await pipeline(
+        body,
+        async function* (source: AsyncIterable<Buffer>) {
+          for await (const chunk of source) {
+            hash.update(chunk);
+            size += chunk.length;
+            yield chunk;
+          }
+        },
+        createWriteStream(partialPath)
+      );
+      await rename(partialPath, filePath);
+    } catch (error) {
+      await rm(partialPath, { force: true });
+      throw error;
+    }
+
+    return { size, checksum: hash.digest("hex") };
+  }
+
+  async get(key: string): Promise<{ body: Readable; size: number } | null> {
+    const filePath = this.resolve(key);
+    const file = await stat(filePath).catch(() => null);
+    if (!file?.isFile()) return null;
+    return { body: createReadStream(filePath), size: file.size };
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    assertValidKey(key);
+    return path.join(this.root, key);
+  }
+}
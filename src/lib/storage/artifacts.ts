@@ -0,0 +1,72 @@
+/**
+ * Export Artifacts - Stores an export file and records it in the project's export history
+ * Used by the upload route (after its ownership check) and by the render worker.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { Readable } from "node:stream";
+import { db } from "@/lib/db";
+import type { ExportArtifactFormat, ExportArtifactMetadata } from "@/lib/types/export";
+import { getExportStorage } from "./index";
+
+export const ARTIFACT_FILE_TYPES: Record<ExportArtifactFormat, { extension: string; mimeType: string }> = {
+  mp4: { extension: "mp4", mimeType: "video/mp4" },
+  webm: { extension: "webm", mimeType: "video/webm" },
+  gif: { extension: "gif", mimeType: "image/gif" },
+  apng: { extension: "png", mimeType: "image/apng" },
+  png: { extension: "png", mimeType: "image/png" },
+  zip: { extension: "zip", mimeType: "application/zip" },
+};
+
+export interface ExportArtifactRecord {
+  id: string;
+  projectId: string;
+  renderJobId: string | null;
+  format: string;
+  width: number;
+  height: number;
+  duration: number;
+  size: bigint;
+  checksum: string;
+  storagePath: string;
+  createdAt: Date;
+}
+
+export async function saveExportArtifact(
+  projectId: string,
+  metadata: ExportArtifactMetadata,
+  body: Readable,
+  renderJobId?: string
+): Promise<ExportArtifactRecord> {
+  const storage = getExportStorage();
+  const storagePath = `${projectId}/${randomUUID()}.${ARTIFACT_FILE_TYPES[metadata.format].extension}`;
+  const { size, checksum } = await storage.put(storagePath, body);
+
+  try {
+    return await db.exportArtifact.create({
+      data: {
+        projectId,
+        renderJobId,
+        format: metadata.format,
+        width: metadata.width,
+        height: metadata.height,
+        duration: metadata.duration,
+        size: BigInt(size),
+        checksum,
+        storagePath,
+      },
+    });
+  } catch (error) {
+    // No row points at the file, so nothing would ever delete it
+    await storage.delete(storagePath);
+    throw error;
+  }
+}
+
+/**
+ * Delete the record first - a stored file without a record is harmless, a record without its file is a broken download
+ */
+export async function removeExportArtifact(artifact: { id: string; storagePath: string }): Promise<void> {
+  await db.exportArtifact.delete({ where: { id: artifact.id } });
+  await getExportStorage().delete(artifact.storagePath);
+}
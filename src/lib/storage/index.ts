@@ -0,0 +1,17 @@
+/**
+ * Storage - The export storage the app is configured with
+ * Only local disk for now (EXPORT_STORAGE_DIR, default "storage/exports"); other adapters implement ExportStorage.
+ */
+
+import { LocalDiskStorage } from "./LocalDiskStorage";
+import type { ExportStorage } from "./ExportStorage";
+
+export type { ExportStorage, StoredFile } from "./ExportStorage";
+export { LocalDiskStorage } from "./LocalDiskStorage";
+
+let storage: ExportStorage | null = null;
+
+export function getExportStorage(): ExportStorage {
+  storage ??= new LocalDiskStorage(process.env.EXPORT_STORAGE_DIR || "storage/exports");
+  return storage;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { attachmentDisposition } from "./export";
+
+describe("attachmentDisposition", () => {
+  it("keeps plain names as they are", () => {
+    expect(attachmentDisposition("intro-2024-01-15.mp4")).toBe(
+      `attachment; filename="intro-2024-01-15.mp4"; filename*=UTF-8''intro-2024-01-15.mp4`
+    );
+  });
+
+  it("can't be closed early by a quote", () => {
+    expect(attachmentDisposition('say-"hi"\\.mp4')).toBe(
+      `attachment; filename="say-_hi__.mp4"; filename*=UTF-8''say-%22hi%22%5C.mp4`
+    );
+  });
+
+  it("sends non-Latin-1 names as UTF-8 with an ASCII fallback", () => {
+    const header = attachmentDisposition("café-日本-🎬.webm");
+    expect(header).toBe(
+      `attachment; filename="cafe-__-__.webm"; filename*=UTF-8''caf%C3%A9-%E6%97%A5%E6%9C%AC-%F0%9F%8E%AC.webm`
+    );
+    // Header values must be ByteStrings
+    expect(() => new Headers({ "Content-Disposition": header })).not.toThrow();
+  });
+
+  it("encodes the characters RFC 5987 doesn't allow unescaped", () => {
+    expect(attachmentDisposition("it's (1).png")).toContain(`filename*=UTF-8''it%27s%20%281%29.png`);
+  });
+});
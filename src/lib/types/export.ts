@@ -0,0 +1,38 @@
+// Export history (Prisma ExportArtifact), as returned by the API
+export type ExportArtifactFormat = "mp4" | "webm" | "gif" | "apng" | "png" | "zip";
+
+export interface ExportArtifactSummary {
+  id: string;
+  projectId: string;
+  // Set when the file came from a server render
+  renderJobId: string | null;
+  format: ExportArtifactFormat;
+  width: number;
+  height: number;
+  duration: number; // seconds, 0 for a still
+  size: number; // bytes
+  checksum: string; // SHA-256, hex
+  downloadUrl: string;
+  createdAt: string;
+}
+
+// POST /api/projects/:id/exports query parameters - the request body is the file itself
+export interface ExportArtifactMetadata {
+  format: ExportArtifactFormat;
+  width: number;
+  height: number;
+  duration: number;
+}
+
+// Content-Disposition for a download - a plain ASCII name for old clients, and the real one as UTF-8 (RFC 6266)
+export function attachmentDisposition(filename: string): string {
+  const fallback = filename
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
@@ -1,79 +1,25 @@
-import { Project, ProjectStatus } from "@prisma/client";
+import { Project } from "@prisma/client";
+import type { StoredTimelineEvent } from "@/lib/schemas/timeline";
 
-// Timeline event types (matching existing Vite app)
-export interface TimelineEvent {
-  id: string;
-  type: "text" | "shape" | "image";
-  startTime: number;
-  duration: number;
-  properties: TextProperties | ShapeProperties | ImageProperties;
-  animations?: Animation[];
-}
-
-export interface TextProperties {
-  text: string;
-  fontSize: number;
-  fontFamily: string;
-  fill: string;
-  x: number;
-  y: number;
-  textAlign?: "left" | "center" | "right";
-}
-
-export interface ShapeProperties {
-  shapeType: "rect" | "circle" | "ellipse";
-  x: number;
-  y: number;
-  width?: number;
-  height?: number;
-  radius?: number;
-  fill: string;
-  stroke?: string;
-  strokeWidth?: number;
-}
+// Timeline and request body types come from the Zod schemas (src/lib/schemas), which the API validates against
+export type { CreateProjectInput, UpdateProjectInput } from "@/lib/schemas/project";
 
-export interface ImageProperties {
-  src: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
-
-export interface Animation {
-  property: string;
-  from: number;
-  to: number;
-  easing?: string;
-  startTime?: number;
-  duration?: number;
-}
-
-// Full project with typed timeline
+// Full project with typed timeline (StoredTimelineEvent - no layer, the editor derives it)
 export interface VideoProject extends Omit<Project, "timeline"> {
-  timeline: TimelineEvent[];
+  timeline: StoredTimelineEvent[];
 }
 
-// Create project input
-export interface CreateProjectInput {
-  name: string;
-  description?: string;
-  width?: number;
-  height?: number;
-  fps?: number;
-  duration?: number;
-  timeline?: TimelineEvent[];
+// Frames in Project.previewStrip, side by side at equal widths
+export const PREVIEW_FRAME_COUNT = 6;
+
+// ETag for a project revision - PATCH /api/projects/:id and version restores take it back as If-Match
+export function projectETag(revision: number): string {
+  return `"${revision}"`;
 }
 
-// Update project input
-export interface UpdateProjectInput {
-  name?: string;
-  description?: string;
-  width?: number;
-  height?: number;
-  fps?: number;
-  duration?: number;
-  timeline?: TimelineEvent[];
-  thumbnail?: string;
-  status?: ProjectStatus;
+// Revision from an If-Match header ("3" or W/"3"); undefined without one, NaN when malformed
+export function parseIfMatch(header: string | null): number | undefined {
+  if (header === null) return undefined;
+  const match = /^(?:W\/)?"(\d+)"$/.exec(header.trim());
+  return match ? Number(match[1]) : NaN;
 }
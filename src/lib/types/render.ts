@@ -0,0 +1,22 @@
+// Server-side render jobs (Prisma RenderJob), as returned by the API
+export type RenderJobStatus = "QUEUED" | "RUNNING" | "COMPLETED" | "FAILED";
+
+export type RenderFormat = "mp4" | "webm";
+
+export interface RenderJobSummary {
+  id: string;
+  projectId: string;
+  format: RenderFormat;
+  presetId: string | null;
+  status: RenderJobStatus;
+  progress: number; // 0..1
+  error: string | null;
+  // Set once the job has completed
+  downloadUrl: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  createdAt: string;
+}
+
+// POST /api/projects/:id/render body, validated by CreateRenderJobInputSchema
+export type { CreateRenderJobInput } from "@/lib/schemas/project";
@@ -0,0 +1,65 @@
+// Public share links (Prisma ShareLink), as returned by the API
+export interface ShareLinkSummary {
+  id: string;
+  projectId: string;
+  token: string;
+  // Never expires when null
+  expiresAt: string | null;
+  createdBy: string | null; // Creator's name
+  createdAt: string;
+}
+
+// /watch player options, as query parameters (autoplay=1&loop=1&controls=0)
+export interface PlayerOptions {
+  autoplay: boolean;
+  loop: boolean;
+  controls: boolean;
+}
+
+export const DEFAULT_PLAYER_OPTIONS: PlayerOptions = { autoplay: false, loop: false, controls: true };
+
+// Expiry choices offered when creating a link, in days (null: never)
+export const SHARE_LINK_EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+  { days: null, label: "Never expires" },
+  { days: 1, label: "Expires in 1 day" },
+  { days: 7, label: "Expires in 7 days" },
+  { days: 30, label: "Expires in 30 days" },
+];
+
+export function watchPath(token: string): string {
+  return `/watch/${token}`;
+}
+
+// The player on its own, without the page around it - what the <iframe> embed loads
+export function embedPath(token: string, options: PlayerOptions): string {
+  const params = new URLSearchParams({ embed: "1" });
+  if (options.autoplay) params.set("autoplay", "1");
+  if (options.loop) params.set("loop", "1");
+  if (!options.controls) params.set("controls", "0");
+  return `${watchPath(token)}?${params}`;
+}
+
+// Options from a page's search params - anything missing keeps its default
+export function parsePlayerOptions(params: Record<string, string | string[] | undefined>): PlayerOptions {
+  const flag = (name: keyof PlayerOptions) => {
+    const value = params[name];
+    if (typeof value !== "string") return DEFAULT_PLAYER_OPTIONS[name];
+    return value === "1" || value === "true";
+  };
+  return { autoplay: flag("autoplay"), loop: flag("loop"), controls: flag("controls") };
+}
+
+// <iframe> markup for pasting into another site, sized to the project's aspect ratio
+export function embedSnippet(
+  origin: string,
+  token: string,
+  options: PlayerOptions,
+  size: { width: number; height: number }
+): string {
+  // The longer side is 640px, so portrait videos don't come out 1000+ px tall
+  const scale = 640 / Math.max(size.width, size.height);
+  const width = Math.round(size.width * scale);
+  const height = Math.round(size.height * scale);
+  const src = `${origin}${embedPath(token, options)}`;
+  return `<iframe src="${src}" width="${width}" height="${height}" frameborder="0" allow="autoplay; fullscreen" allowfullscreen></iframe>`;
+}
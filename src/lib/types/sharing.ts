@@ -0,0 +1,75 @@
+import type { VideoProject } from "@/lib/types/project";
+
+// Sharing (Prisma Workspace, WorkspaceMember, ProjectMember, ProjectInvite), as returned by the API
+
+// Prisma MemberRole - OWNER manages members and can delete, EDITOR saves, VIEWER opens read-only
+export type MemberRole = "OWNER" | "EDITOR" | "VIEWER";
+
+const ROLE_RANK: Record<MemberRole, number> = { VIEWER: 0, EDITOR: 1, OWNER: 2 };
+
+// Whether `role` allows what `required` allows
+export function hasRole(role: MemberRole, required: MemberRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+// The strongest of several roles (e.g. shared directly and through a workspace), null for none
+export function highestRole(roles: MemberRole[]): MemberRole | null {
+  return roles.reduce<MemberRole | null>(
+    (best, role) => (best === null || ROLE_RANK[role] > ROLE_RANK[best] ? role : best),
+    null
+  );
+}
+
+export interface MemberUser {
+  id: string;
+  name: string | null;
+  email: string;
+  image: string | null;
+}
+
+// Someone with access to a project or workspace
+export interface MemberSummary {
+  user: MemberUser;
+  role: MemberRole;
+}
+
+export interface ProjectInviteSummary {
+  id: string;
+  projectId: string;
+  projectName: string;
+  email: string;
+  role: MemberRole;
+  invitedBy: string | null; // Inviter's name
+  createdAt: string;
+}
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  // The signed-in user's role
+  role: MemberRole;
+  memberCount: number;
+}
+
+// GET /api/projects/:id/members
+export interface ProjectSharing {
+  // The signed-in user's role
+  role: MemberRole;
+  owner: MemberUser;
+  members: MemberSummary[];
+  invites: ProjectInviteSummary[];
+  workspace: { id: string; name: string } | null;
+}
+
+// A project on the "Shared with me" side of the dashboard
+export interface SharedProject extends VideoProject {
+  role: MemberRole;
+  ownerName: string | null;
+  workspaceName: string | null;
+}
+
+export const MEMBER_ROLE_LABELS: Record<MemberRole, string> = {
+  OWNER: "Owner",
+  EDITOR: "Can edit",
+  VIEWER: "Can view",
+};
@@ -0,0 +1,33 @@
+// Project version history (Prisma ProjectVersion), as returned by the API
+export interface ProjectVersionSummary {
+  id: string;
+  projectId: string;
+  // Set for checkpoints the user named, null for automatic snapshots
+  name: string | null;
+  duration: number; // seconds
+  eventCount: number;
+  createdAt: string;
+}
+
+// One timeline event in a diff
+export interface TimelineDiffEvent {
+  id: string;
+  type: string;
+  label: string;
+}
+
+export interface TimelineDiffChange extends TimelineDiffEvent {
+  // Changed fields, properties as "properties.fontSize"
+  fields: string[];
+}
+
+// GET /api/versions/:id/diff - what restoring the version would do to the base timeline
+export interface TimelineDiff {
+  added: TimelineDiffEvent[];
+  removed: TimelineDiffEvent[];
+  changed: TimelineDiffChange[];
+  // Events that only moved to another layer
+  reordered: number;
+  unchanged: number;
+  duration: { from: number; to: number } | null;
+}
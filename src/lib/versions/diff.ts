@@ -0,0 +1,85 @@
+/**
+ * Timeline Diff - Compares two saved timelines event by event, matched by event id
+ * Used to preview what restoring a version would change.
+ */
+
+import type { StoredTimelineEvent } from "@/lib/schemas/timeline";
+import type { TimelineDiff, TimelineDiffEvent } from "@/lib/types/version";
+
+interface DiffSide {
+  timeline: StoredTimelineEvent[];
+  duration: number;
+}
+
+// Deep equality for JSON values
+export function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  // Missing and undefined keys count as the same - JSON storage drops undefined
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  for (const key of keys) {
+    if (!jsonEqual(aRecord[key], bRecord[key])) return false;
+  }
+  return true;
+}
+
+function changedKeys(a: Record<string, unknown>, b: Record<string, unknown>): string[] {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].filter((key) => !jsonEqual(a[key], b[key]));
+}
+
+function describe(event: StoredTimelineEvent): TimelineDiffEvent {
+  const text = event.type === "text" ? event.properties.text.trim() : "";
+  return {
+    id: event.id,
+    type: event.type,
+    label: text ? text.substring(0, 30) : event.type,
+  };
+}
+
+/**
+ * Diff `base` into `target` - `added` are events only `target` has
+ */
+export function diffTimelines(base: DiffSide, target: DiffSide): TimelineDiff {
+  const baseById = new Map(base.timeline.map((event) => [event.id, event]));
+  const targetById = new Map(target.timeline.map((event) => [event.id, event]));
+
+  const diff: TimelineDiff = {
+    added: target.timeline.filter((event) => !baseById.has(event.id)).map(describe),
+    removed: base.timeline.filter((event) => !targetById.has(event.id)).map(describe),
+    changed: [],
+    reordered: 0,
+    unchanged: 0,
+    duration: base.duration === target.duration ? null : { from: base.duration, to: target.duration },
+  };
+
+  // Layer order is the array order; compare it over the events both sides have
+  const baseOrder = base.timeline.filter((event) => targetById.has(event.id)).map((event) => event.id);
+  const targetOrder = target.timeline.filter((event) => baseById.has(event.id)).map((event) => event.id);
+
+  targetOrder.forEach((id, index) => {
+    const before = baseById.get(id)!;
+    const after = targetById.get(id)!;
+    const { properties: beforeProperties, ...beforeRest } = before;
+    const { properties: afterProperties, ...afterRest } = after;
+
+    const fields = [
+      ...changedKeys(beforeRest, afterRest),
+      ...changedKeys(beforeProperties, afterProperties).map((key) => `properties.${key}`),
+    ];
+
+    if (fields.length > 0) {
+      diff.changed.push({ ...describe(after), fields });
+    } else if (baseOrder[index] !== id) {
+      diff.reordered++;
+    } else {
+      diff.unchanged++;
+    }
+  });
+
+  return diff;
+}
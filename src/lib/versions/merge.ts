@@ -0,0 +1,75 @@
+/**
+ * Timeline Merge - Three-way merge of two edits of the same timeline, event by event (matched by id)
+ * Used when a save conflicts with one made elsewhere: `base` is what both sides started from.
+ * Changes only one side made are taken as they are; events both sides changed differently are
+ * conflicts, and keep `mine`. The layer order follows `theirs`, with my new events after the
+ * event they follow in `mine`.
+ */
+
+import { jsonEqual } from "./diff";
+
+interface MergeEvent {
+  id: string;
+}
+
+export interface TimelineMerge<T extends MergeEvent> {
+  timeline: T[];
+  // Ids of events both sides changed - `timeline` has my version (or leaves it out, if I deleted it)
+  conflicts: string[];
+  // Events added, removed or changed by `theirs`
+  theirChanges: number;
+}
+
+export function mergeTimelines<T extends MergeEvent>(base: T[], mine: T[], theirs: T[]): TimelineMerge<T> {
+  const baseById = new Map(base.map((event) => [event.id, event]));
+  const mineById = new Map(mine.map((event) => [event.id, event]));
+  const theirsById = new Map(theirs.map((event) => [event.id, event]));
+
+  const changed = (before: T | undefined, after: T | undefined) =>
+    before === undefined || after === undefined ? before !== after : !jsonEqual(before, after);
+
+  const conflicts: string[] = [];
+  const theirChanges =
+    theirs.filter((their) => changed(baseById.get(their.id), their)).length +
+    base.filter((original) => !theirsById.has(original.id)).length;
+
+  // Walk their timeline, deciding each event they still have
+  const merged: T[] = [];
+  for (const their of theirs) {
+    const original = baseById.get(their.id);
+    const my = mineById.get(their.id);
+    const theyChanged = changed(original, their);
+
+    if (!original) {
+      // They added it (an id both sides added is a conflict, unless the events match)
+      if (my && !jsonEqual(my, their)) conflicts.push(their.id);
+      merged.push(my ?? their);
+    } else if (!my) {
+      // I deleted it - a conflict if they changed it meanwhile
+      if (theyChanged) conflicts.push(their.id);
+    } else if (changed(original, my)) {
+      if (theyChanged && !jsonEqual(my, their)) conflicts.push(their.id);
+      merged.push(my);
+    } else {
+      merged.push(their);
+    }
+  }
+
+  // Events they no longer have: ones I added, or ones they deleted
+  mine.forEach((my, index) => {
+    if (theirsById.has(my.id)) return;
+
+    const original = baseById.get(my.id);
+    if (original) {
+      if (!changed(original, my)) return; // Deleted by them, untouched by me
+      conflicts.push(my.id); // Deleted by them, changed by me - keep mine
+    }
+
+    // Insert after the event it follows in my timeline, or first
+    const previous = mine.slice(0, index).reverse().find((event) => merged.some((m) => m.id === event.id));
+    const position = previous ? merged.findIndex((m) => m.id === previous.id) + 1 : 0;
+    merged.splice(position, 0, my);
+  });
+
+  return { timeline: merged, conflicts, theirChanges };
+}
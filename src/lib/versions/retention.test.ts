@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { versionsToPrune } from "./retention";
+
+const now = new Date("2026-03-01T12:00:00Z");
+const ago = (ms: number) => new Date(now.getTime() - ms);
+
+describe("versionsToPrune", () => {
+  it("keeps one autosave snapshot per minute of the last hour", () => {
+    // Autosave every 5 seconds from 11:58:05 to 12:00:00
+    const versions = Array.from({ length: 24 }, (_, i) => ({ id: `v${i}`, name: null, createdAt: ago(i * 5000) }));
+
+    const kept = versions.filter(({ id }) => !versionsToPrune(versions, now).includes(id));
+
+    // The newest of 12:00, 11:59 and 11:58
+    expect(kept.map(({ id }) => id)).toEqual(["v0", "v1", "v13"]);
+  });
+
+  it("never prunes named checkpoints", () => {
+    const versions = [
+      { id: "auto", name: null, createdAt: ago(1000) },
+      { id: "named", name: "Before the edit", createdAt: ago(2000) },
+      { id: "old", name: "Launch", createdAt: ago(90 * 24 * 60 * 60 * 1000) },
+    ];
+
+    expect(versionsToPrune(versions, now)).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Version Retention - Which automatic snapshots to drop as they age
+ * Every save that changes the timeline adds a snapshot - every few seconds while autosave runs - so they are thinned out:
+ * the newest of each minute for an hour, of each hour for a day, of each day for 30 days.
+ * Named checkpoints are always kept.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const RETENTION_TIERS = [
+  { maxAge: HOUR_MS, bucket: MINUTE_MS },
+  { maxAge: DAY_MS, bucket: HOUR_MS },
+  { maxAge: 30 * DAY_MS, bucket: DAY_MS },
+];
+
+export interface RetainedVersion {
+  id: string;
+  name: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Ids of the automatic snapshots the retention policy no longer keeps
+ */
+export function versionsToPrune(versions: RetainedVersion[], now = new Date()): string[] {
+  const keptBuckets = new Set<string>();
+  const prune: string[] = [];
+
+  // Newest first, so the first snapshot seen in a bucket is the one kept
+  const newestFirst = [...versions].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+  for (const version of newestFirst) {
+    if (version.name !== null) continue;
+
+    const age = now.getTime() - version.createdAt.getTime();
+    const tier = RETENTION_TIERS.findIndex(({ maxAge }) => age < maxAge);
+    if (tier === -1) {
+      prune.push(version.id);
+      continue;
+    }
+
+    const { bucket } = RETENTION_TIERS[tier];
+    const key = `${tier}:${Math.floor(version.createdAt.getTime() / bucket)}`;
+    if (keptBuckets.has(key)) {
+      prune.push(version.id);
+    } else {
+      keptBuckets.add(key);
+    }
+  }
+
+  return prune;
+}
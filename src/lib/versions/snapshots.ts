@@ -0,0 +1,96 @@
+/**
+ * Version Snapshots - Records timeline snapshots in a project's version history
+ * Used by the project data layer, after its ownership checks. Each function takes the transaction client when the
+ * snapshot is part of a save.
+ */
+
+import { db } from "@/lib/db";
+import type { StoredTimelineEvent } from "@/lib/schemas/timeline";
+import { jsonEqual } from "./diff";
+import { versionsToPrune } from "./retention";
+
+export interface ProjectVersionRecord {
+  id: string;
+  projectId: string;
+  name: string | null;
+  timeline: unknown;
+  duration: number;
+  eventCount: number;
+  createdAt: Date;
+}
+
+// The Prisma client, or an interactive transaction's client
+export type VersionClient = Pick<typeof db, "project" | "projectVersion">;
+
+export interface VersionState {
+  timeline: StoredTimelineEvent[];
+  duration: number;
+}
+
+// Fields for a ProjectVersion create, also used nested in project creates
+export function versionData(state: VersionState) {
+  return {
+    timeline: state.timeline,
+    duration: state.duration,
+    eventCount: state.timeline.length,
+  };
+}
+
+async function pruneVersions(projectId: string, client: VersionClient): Promise<void> {
+  const versions = await client.projectVersion.findMany({
+    where: { projectId, name: null },
+    select: { id: true, name: true, createdAt: true },
+  });
+
+  const prune = versionsToPrune(versions);
+  if (prune.length > 0) {
+    await client.projectVersion.deleteMany({ where: { id: { in: prune } } });
+  }
+}
+
+export async function recordVersion(
+  projectId: string,
+  state: VersionState,
+  name: string | null = null,
+  client: VersionClient = db
+): Promise<ProjectVersionRecord> {
+  const version: ProjectVersionRecord = await client.projectVersion.create({
+    data: { projectId, name, ...versionData(state) },
+  });
+
+  if (name === null) await pruneVersions(projectId, client);
+  return version;
+}
+
+/**
+ * Snapshot a saved project, unless its timeline matches the latest version
+ * (autosave also runs for changes that aren't in the timeline, e.g. the poster frame)
+ */
+export async function recordAutoVersion(
+  projectId: string,
+  state: VersionState,
+  client: VersionClient = db
+): Promise<void> {
+  const latest = await client.projectVersion.findFirst({
+    where: { projectId },
+    orderBy: { createdAt: "desc" },
+    select: { timeline: true, duration: true },
+  });
+
+  if (latest && latest.duration === state.duration && jsonEqual(latest.timeline, state.timeline)) return;
+  await recordVersion(projectId, state, null, client);
+}
+
+/**
+ * Projects created before version history have no snapshot of what their next save overwrites
+ * Read ahead of the save, and recorded with recordVersion once the save has gone through; null when there is history.
+ */
+export async function baselineVersionState(projectId: string, client: VersionClient = db): Promise<VersionState | null> {
+  const project = await client.project.findFirst({
+    where: { id: projectId, versions: { none: {} } },
+    select: { timeline: true, duration: true },
+  });
+
+  if (!project) return null;
+  return { timeline: project.timeline as unknown as StoredTimelineEvent[], duration: project.duration };
+}
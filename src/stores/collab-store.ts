@@ -0,0 +1,41 @@
+"use client";
+
+import { create } from "zustand";
+import type { CollabPeer } from "@/lib/collab/protocol";
+
+export type CollabStatus = "off" | "connecting" | "connected" | "offline";
+
+interface CollabState {
+  // "off" when no relay is configured (NEXT_PUBLIC_COLLAB_URL)
+  status: CollabStatus;
+  // Everyone else editing the project
+  peers: CollabPeer[];
+
+  setStatus: (status: CollabStatus) => void;
+  setPeers: (peers: CollabPeer[]) => void;
+  upsertPeer: (peer: CollabPeer) => void;
+  removePeer: (clientId: string) => void;
+  reset: () => void;
+}
+
+export const useCollabStore = create<CollabState>((set) => ({
+  status: "off",
+  peers: [],
+
+  setStatus: (status) => set({ status }),
+  setPeers: (peers) => set({ peers }),
+
+  upsertPeer: (peer) => {
+    set((state) => ({
+      peers: state.peers.some((p) => p.clientId === peer.clientId)
+        ? state.peers.map((p) => (p.clientId === peer.clientId ? peer : p))
+        : [...state.peers, peer],
+    }));
+  },
+
+  removePeer: (clientId) => {
+    set((state) => ({ peers: state.peers.filter((p) => p.clientId !== clientId) }));
+  },
+
+  reset: () => set({ status: "off", peers: [] }),
+}));
@@ -2,6 +2,7 @@
 
 import { create } from "zustand";
 import type { VideoProject, TimelineEvent } from "@/lib/schemas/timeline";
+import { migrateAnimationsToKeyframes } from "@/lib/core/timeline/keyframes";
 
 interface EditorState {
   // Project state
@@ -22,6 +23,7 @@ interface EditorState {
 
   // Actions
   setProject: (project: VideoProject) => void;
+  applyRemoteEvents: (events: TimelineEvent[]) => void;
   setCurrentTime: (time: number) => void;
   setIsPlaying: (isPlaying: boolean) => void;
   setSelectedId: (id: string | null) => void;
@@ -46,6 +48,7 @@ interface EditorState {
 
   // Project mutations
   updateProjectBackgroundColor: (color: string) => void;
+  updateProjectThumbnailTime: (time: number | undefined) => void;
 
   // History actions
   undo: () => void;
@@ -72,7 +75,9 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     return ids.size > 0 ? Array.from(ids)[0] : null;
   },
 
-  setProject: (project) => {
+  setProject: (input) => {
+    // Legacy from/to animations are edited as keyframe tracks in the editor
+    const project = { ...input, events: input.events.map(migrateAnimationsToKeyframes) };
     set({
       project,
       history: [project],
@@ -83,6 +88,18 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     });
   },
 
+  // Events changed by a collaborator - kept out of undo history, which stays per-editor
+  applyRemoteEvents: (events) => {
+    set((state) => {
+      if (!state.project) return {};
+      const ids = new Set(events.map((e) => e.id));
+      return {
+        project: { ...state.project, events },
+        selectedIds: new Set([...state.selectedIds].filter((id) => ids.has(id))),
+      };
+    });
+  },
+
   setCurrentTime: (currentTime) => set({ currentTime }),
   setIsPlaying: (isPlaying) => set({ isPlaying }),
   
@@ -205,7 +222,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       return {
         project: {
           ...state.project,
-          events: [...state.project.events, event],
+          events: [...state.project.events, migrateAnimationsToKeyframes(event)],
         },
       };
     });
@@ -401,4 +418,12 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     });
     get().saveToHistory();
   },
+
+  updateProjectThumbnailTime: (time) => {
+    set((state) => {
+      if (!state.project) return {};
+      return { project: { ...state.project, thumbnailTime: time } };
+    });
+    get().saveToHistory();
+  },
 }));
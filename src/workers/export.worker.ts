@@ -0,0 +1,41 @@
+// Render and encode a video export off the main thread (see WebCodecsExporter)
+import { installOffscreenFabricEnv } from "@/lib/core/offscreen";
+import { ExportCancelledError, ExportControl } from "@/lib/core/ExportControl";
+import { EncoderUnavailableError, runExportPipeline } from "@/lib/core/ExportPipeline";
+import type { ExportWorkerRequest, ExportWorkerResponse } from "@/lib/core/ExportPipeline";
+
+installOffscreenFabricEnv();
+
+const control = new ExportControl();
+const post = (message: ExportWorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (e: MessageEvent<ExportWorkerRequest>) => {
+  const message = e.data;
+  switch (message.type) {
+    case "pause":
+      control.pause();
+      return;
+    case "resume":
+      control.resume();
+      return;
+    case "cancel":
+      control.cancel();
+      return;
+  }
+
+  try {
+    const blob = await runExportPipeline(
+      { ...message.options, control, onProgress: (progress) => post({ type: "progress", progress }) },
+      message.audio
+    );
+    post({ type: "done", blob });
+  } catch (error) {
+    const reason =
+      error instanceof ExportCancelledError
+        ? "cancelled"
+        : error instanceof EncoderUnavailableError
+          ? "unavailable"
+          : "failed";
+    post({ type: "error", reason, message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,31 @@
+// Reduce decoded audio samples to per-bucket peaks in a background thread
+interface WaveformRequest {
+  id: number;
+  channels: Float32Array[];
+  samplesPerPeak: number;
+}
+
+self.onmessage = (e: MessageEvent<WaveformRequest>) => {
+  const { id, channels, samplesPerPeak } = e.data;
+  try {
+    const length = channels[0]?.length ?? 0;
+    const peaks = new Float32Array(Math.ceil(length / samplesPerPeak));
+
+    for (let peak = 0; peak < peaks.length; peak++) {
+      const start = peak * samplesPerPeak;
+      const end = Math.min(start + samplesPerPeak, length);
+      let max = 0;
+      for (const channel of channels) {
+        for (let i = start; i < end; i++) {
+          const value = Math.abs(channel[i]);
+          if (value > max) max = value;
+        }
+      }
+      peaks[peak] = max;
+    }
+
+    self.postMessage({ id, success: true, peaks }, { transfer: [peaks.buffer] });
+  } catch (error) {
+    self.postMessage({ id, success: false, error: String(error) });
+  }
+};